@@ -4,6 +4,10 @@ declare global {
     namespace NodeJS {
         interface ProcessEnv {
             SUPABASE_URL: string;
+            /** Last date (YYYY-MM-DD) of the closed accounting period; entries on or before it are rejected. */
+            BOOKS_LOCKED_UNTIL?: string;
+            /** How far (in percent) an expense rate may stray from the recent average before it needs confirming. Defaults to 25. */
+            RATE_WARNING_PERCENT?: string;
         }
     }
 }
@@ -11,22 +11,35 @@ const PUBLIC_ROUTES = new Set(['/login', '/signup']);
 
 // Define role-specific navigation items
 const WAREHOUSE_NAV_ITEMS: SidebarItem[] = [
+    { label: 'Home', href: '/', icon: IconGrid },
     { label: 'All godown', href: '/dashboard', icon: IconGrid },
     { label: 'Items', href: '/items', icon: IconGrid },
+    { label: 'Low stock', href: '/items/low-stock', icon: IconGrid },
     { label: 'New transaction', href: '/new-transaction', icon: IconGrid },
 ];
 
 const EXPENSE_NAV_ITEMS: SidebarItem[] = [
+    { label: 'Home', href: '/', icon: IconGrid },
     { label: 'All sites', href: '/sites', icon: IconGrid },
     { label: 'Site items', href: '/expenses/items', icon: IconGrid },
+    { label: 'Vendors', href: '/vendors', icon: IconGrid },
+    { label: 'Vehicles', href: '/vehicles', icon: IconGrid },
+    { label: 'Import expenses', href: '/expenses/import', icon: IconGrid },
 ];
 
 const ADMIN_NAV_ITEMS: SidebarItem[] = [
+    { label: 'Home', href: '/', icon: IconGrid },
     { label: 'All dodown', href: '/dashboard', icon: IconGrid },
     { label: 'Godown Items', href: '/items', icon: IconGrid },
+    { label: 'Low stock', href: '/items/low-stock', icon: IconGrid },
     { label: 'Godown New Transaction', href: '/new-transaction', icon: IconGrid },
     { label: 'All Site', href: '/sites', icon: IconGrid },
     { label: 'Site items', href: '/expenses/items/new', icon: IconGrid },
+    { label: 'Vendors', href: '/vendors', icon: IconGrid },
+    { label: 'Vehicles', href: '/vehicles', icon: IconGrid },
+    { label: 'Import expenses', href: '/expenses/import', icon: IconGrid },
+    { label: 'Audit log', href: '/audit', icon: IconGrid },
+    { label: 'Aliases', href: '/aliases', icon: IconGrid },
 ];
 
 export default function AppRoot(props: { children: JSX.Element }) {
@@ -97,7 +110,7 @@ export default function AppRoot(props: { children: JSX.Element }) {
     });
 
     return (
-        <div class="flex h-screen bg-brand text-secondary">
+        <div class="flex h-screen bg-brand text-secondary print:block print:h-auto">
             <Show when={showSidebar()}>
                 <Sidebar
                     items={navigationItems()}
@@ -107,7 +120,7 @@ export default function AppRoot(props: { children: JSX.Element }) {
             </Show>
 
             <Suspense fallback={<div class="p-8">Loading content...</div>}>
-                <main class="flex-1 overflow-y-auto p-2">
+                <main class="flex-1 overflow-y-auto p-2 print:overflow-visible">
                     <div class="mx-auto px-10">{props.children}</div>
                 </main>
             </Suspense>
@@ -1,13 +1,26 @@
-import { createSignal, createMemo, createEffect, onMount, Show, For, type Component } from 'solid-js';
-import { useAction, useSubmission } from '@solidjs/router';
+import { createSignal, createMemo, createEffect, on, onMount, Show, For, type Component } from 'solid-js';
+import { createAsync, useAction, useSubmission } from '@solidjs/router';
 import Dialog from '@corvu/dialog';
-import { createExpense } from '~/routes/expenses/new/index';
-import { QuickEntryParser, type MatchableItem, type Variant } from '~/lib/quick-entry-parser';
+import { createExpense, createExpenseBatch, learnAlias, loadEntryHistory } from '~/routes/expenses/new/index';
+import { loadAdvanceCredit } from '~/routes/expenses/[id]/advances';
+import { loadBudgetUsage } from '~/routes/expenses/[id]/budget';
+import {
+    QuickEntryParser,
+    type MatchableItem,
+    type ParsedEntry,
+    type ParsedLine,
+    type Variant,
+} from '~/lib/quick-entry-parser';
+import { alternation, type Vocabulary } from '~/lib/quick-entry-vocabulary';
+import { addMoney, formatMoney, type Money } from '~/lib/money';
+import { budgetWarnings, entrySpend, type BudgetCategory, type BudgetEntry } from '~/lib/budgets';
+import { gstLabel } from '~/lib/gst';
 
 export type QuickEntryFormData = {
-    entities: { id: string; name: string; unit: string | null }[];
+    entities: { id: string; name: string; unit: string | null; gst_rate: number; type: BudgetCategory }[];
     destinations: { id: string; name: string }[];
     variants: Variant[];
+    lockedUntil: string | null;
 };
 
 type QuickEntryDialogProps = {
@@ -17,15 +30,19 @@ type QuickEntryDialogProps = {
 };
 
 const FORMAT_EXAMPLE = '30 cement @100 debit from site A';
-const FORMAT_FULL = '50 steel 10x20 @250 credit from depot carting @200 truck MH12AB1234 pending';
+const FORMAT_FULL = '50 steel 10x20 @250 gst18 credit from depot carting @200 truck MH12AB1234 pending';
 
 const QuickEntryDialog: Component<QuickEntryDialogProps> = (props) => {
     const submit = useAction(createExpense);
     const submission = useSubmission(createExpense);
+    const submitBatch = useAction(createExpenseBatch);
+    const batchSubmission = useSubmission(createExpenseBatch);
+    const saveAlias = useAction(learnAlias);
 
     const parser = new QuickEntryParser();
 
     const [input, setInput] = createSignal('');
+    const [batchSummary, setBatchSummary] = createSignal<{ created: number; total: Money; advanceAdjusted: Money } | null>(null);
     let inputRef: HTMLTextAreaElement | undefined;
 
     const LS_DATE_KEY = 'expense-form-date';
@@ -47,80 +64,170 @@ const QuickEntryDialog: Component<QuickEntryDialogProps> = (props) => {
         parser.setEntities(props.formData.entities);
         parser.setDestinations(props.formData.destinations);
         parser.setVariants(props.formData.variants);
+        parser.setLockedUntil(props.formData.lockedUntil);
+    });
+    const entryHistory = createAsync(() => loadEntryHistory());
+    createEffect(() => {
+        const history = entryHistory();
+        if (!history) return;
+        parser.setAliases(history.aliases);
+        parser.setRateHistory(history.rates, history.rateWarningPercent);
     });
 
     createEffect(() => {
         if (!props.open) {
             setInput('');
+            setBatchSummary(null);
         } else {
             setTimeout(() => inputRef?.focus(), 100);
         }
     });
 
-    const parsed = createMemo(() => parser.parse(input()));
+    // One entry per line; more than one line switches the dialog to batch mode
+    const lines = createMemo(() => parser.parseLines(input()));
+    const isBatch = createMemo(() => lines().length > 1);
+    const parsed = createMemo(() => lines()[0]?.entry ?? parser.parse(''));
+
+    const readyLines = createMemo(() => lines().filter((l) => l.entry.complete));
+    const readyTotal = createMemo(() => addMoney(...readyLines().map((l) => addMoney(l.entry.gross, l.entry.transportCost))));
+
+    // Unusual rates on the entries about to be saved; the user must confirm them first
+    const rateWarnings = createMemo(() => {
+        const entries = isBatch() ? readyLines().map((l) => l.entry) : [parsed()];
+        return entries.map((e) => e.rateWarning).filter((w): w is string => !!w);
+    });
+    const [rateConfirmed, setRateConfirmed] = createSignal(false);
+    createEffect(on(rateWarnings, () => setRateConfirmed(false), { defer: true }));
+    const serverWantsConfirmation = () =>
+        !!(submission.result as any)?.needsRateConfirmation || !!(batchSubmission.result as any)?.needsRateConfirmation;
+    const needsRateConfirmation = () => rateWarnings().length > 0 || serverWantsConfirmation();
+    const rateBlocked = () => needsRateConfirmation() && !rateConfirmed();
+
+    /** Replace the text of one line of the input, keeping the others as typed. */
+    const updateLine = (index: number, text: string) => {
+        const all = input().split(/\r?\n/);
+        all[index] = text;
+        setInput(all.join('\n'));
+    };
 
-    const amount = createMemo(() => {
+    // A pending debit bill will be drawn down against the source's unadjusted advances
+    const advanceCredit = createAsync(async () => {
         const p = parsed();
-        return p.quantity !== null && p.rate !== null ? p.quantity * p.rate : 0;
+        if (p.transactionType !== 'debit' || p.paymentStatus !== 'pending' || !p.source.match) return 0;
+        return loadAdvanceCredit(p.source.match.id, p.date ?? date());
+    });
+    const advanceAdjusted = createMemo(() => {
+        const bill = addMoney(parsed().gross, parsed().transportCost);
+        return Math.min(advanceCredit() ?? 0, bill);
+    });
+
+    // Budgets the entries about to be saved would take past their threshold, per site
+    const budgetEntries = createMemo(() => {
+        const entries = isBatch() ? readyLines().map((l) => l.entry) : parsed().complete ? [parsed()] : [];
+        const bySite = new Map<string, { name: string; entries: BudgetEntry[] }>();
+        for (const e of entries) {
+            const site = e.source.match!;
+            const group = bySite.get(site.id) ?? { name: site.name, entries: [] };
+            group.entries.push({
+                category: props.formData.entities.find((i) => i.id === e.entity.match!.id)?.type ?? null,
+                date: e.date ?? date(),
+                spend: entrySpend(e.transactionType, e.paymentStatus, addMoney(e.gross, e.transportCost)),
+            });
+            bySite.set(site.id, group);
+        }
+        return bySite;
     });
+    // Refetch only when the set of sites changes, not on every keystroke
+    const budgetSiteIds = createMemo(() => [...budgetEntries().keys()].sort().join(','));
+    const siteBudgets = createAsync(async () => {
+        const ids = budgetSiteIds() ? budgetSiteIds().split(',') : [];
+        return new Map(await Promise.all(ids.map(async (id) => [id, await loadBudgetUsage(id)] as const)));
+    });
+    const budgetAlerts = createMemo(() =>
+        [...budgetEntries()].flatMap(([siteId, group]) =>
+            budgetWarnings(siteBudgets()?.get(siteId) ?? [], group.entries).map((w) =>
+                isBatch() ? `${group.name}: ${w}` : w,
+            ),
+        ),
+    );
 
     const hasParsedAnything = createMemo(() => {
+        if (isBatch()) return false;
         const p = parsed();
         return p.quantity !== null || p.entity.raw !== '';
     });
 
-    // Determine which unmatched field to show suggestions for (first one wins)
-    const activeSuggestions = createMemo((): { label: string; field: 'entity' | 'source'; items: MatchableItem[] } | null => {
-        const p = parsed();
-        if (p.entity.raw && !p.entity.match && p.entity.suggestions.length > 0) {
-            return { label: 'Items', field: 'entity', items: p.entity.suggestions };
-        }
-        if (p.source.raw && !p.source.match && p.source.suggestions.length > 0) {
-            return { label: 'Sources', field: 'source', items: p.source.suggestions };
+    const activeSuggestions = createMemo(() => (isBatch() ? null : suggestionsFor(parsed())));
+
+    /**
+     * Put the picked suggestion into the line and learn the text it replaces,
+     * so the same spelling matches straight away next time.
+     */
+    const acceptSuggestion = (line: ParsedLine, field: SuggestionField, item: MatchableItem) => {
+        const raw = field === 'entity' ? line.entry.entity.raw : line.entry.source.raw;
+        const kind = field === 'entity' ? 'entity' : 'destination';
+        if (raw) {
+            parser.addAlias({ alias: raw, kind, target_id: item.id });
+            const fd = new FormData();
+            fd.set('kind', kind);
+            fd.set('alias', raw);
+            fd.set('target_id', item.id);
+            saveAlias(fd);
         }
-        return null;
-    });
+        updateLine(line.index, withSuggestion(line.text, line.entry, field, item.name, parser.vocabulary));
+    };
 
-    const applySuggestion = (name: string) => {
+    const applySuggestion = (item: MatchableItem) => {
+        const line = lines()[0];
         const ctx = activeSuggestions();
-        if (!ctx) return;
-
-        const current = input();
-        let updated = current;
-
-        if (ctx.field === 'entity') {
-            // Replace entity text between qty and @rate
-            const p = parsed();
-            const raw = p.entity.raw;
-            if (raw) {
-                // Find where the entity text lives in the input
-                const qtyMatch = current.match(/^(\d+(?:\.\d+)?)\s+/);
-                if (qtyMatch) {
-                    const afterQty = current.slice(qtyMatch[0].length);
-                    const entityEnd = afterQty.indexOf(raw) + raw.length;
-                    updated = qtyMatch[0] + name + afterQty.slice(entityEnd);
-                }
-            }
-        } else if (ctx.field === 'source') {
-            updated = replaceSegment(current, 'from', 'carting', name);
-        }
-
-        setInput(updated);
+        if (!line || !ctx) return;
+        acceptSuggestion(line, ctx.field, item);
         inputRef?.focus();
     };
 
     const handleSubmit = () => {
         const p = parsed();
-        if (!p.complete) return;
+        if (!p.complete || rateBlocked()) return;
         const fd = parser.toFormData(p);
-        if (date()) fd.set('date', date());
+        // A date typed in the line wins over the date picker
+        if (date() && !p.date) fd.set('date', date());
+        if (rateConfirmed()) fd.set('confirm_rate', 'true');
         submit(fd);
     };
 
+    const handleBatchSubmit = async () => {
+        const ready = readyLines();
+        if (ready.length === 0 || rateBlocked()) return;
+
+        const fd = new FormData();
+        for (const line of ready) {
+            const fields = parser.toFormData(line.entry);
+            if (date() && !line.entry.date) fields.set('date', date());
+            if (rateConfirmed()) fields.set('confirm_rate', 'true');
+            fd.append('entry', JSON.stringify(Object.fromEntries(fields)));
+        }
+
+        const total = readyTotal();
+        const result = await submitBatch(fd);
+        if (result?.success) {
+            // Keep the lines that still need fixing, drop the ones just saved
+            const saved = new Set(ready.map((l) => l.index));
+            setInput(
+                input()
+                    .split(/\r?\n/)
+                    .filter((text, i) => !saved.has(i) && text.trim() !== '')
+                    .join('\n'),
+            );
+            setBatchSummary({ created: ready.length, total, advanceAdjusted: result.advanceAdjusted ?? 0 });
+        }
+    };
+
     const handleKeyDown = (e: KeyboardEvent) => {
-        if (e.key === 'Enter' && (e.ctrlKey || e.metaKey) && parsed().complete) {
+        if (e.key !== 'Enter' || !(e.ctrlKey || e.metaKey)) return;
+        if ((isBatch() ? readyLines().length > 0 : parsed().complete) && !rateBlocked()) {
             e.preventDefault();
-            handleSubmit();
+            if (isBatch()) handleBatchSubmit();
+            else handleSubmit();
         }
     };
 
@@ -128,7 +235,9 @@ const QuickEntryDialog: Component<QuickEntryDialogProps> = (props) => {
         <Dialog open={props.open} onOpenChange={props.onOpenChange}>
             <Dialog.Portal>
                 <Dialog.Overlay class="fixed inset-0 z-50 bg-black/40 backdrop-blur-sm animate-in fade-in duration-200" />
-                <Dialog.Content class="fixed left-1/2 top-1/2 z-50 -translate-x-1/2 -translate-y-1/2 w-full max-w-xl bg-white rounded-2xl shadow-2xl p-6 animate-in fade-in zoom-in-95 duration-200">
+                <Dialog.Content
+                    classList={{ 'max-w-xl': !isBatch(), 'max-w-3xl': isBatch() }}
+                    class="fixed left-1/2 top-1/2 z-50 -translate-x-1/2 -translate-y-1/2 w-full bg-white rounded-2xl shadow-2xl p-6 animate-in fade-in zoom-in-95 duration-200">
                     {/* Header */}
                     <div class="flex items-center justify-between mb-4">
                         <Dialog.Label class="text-lg font-semibold text-black">Quick Entry</Dialog.Label>
@@ -148,7 +257,7 @@ const QuickEntryDialog: Component<QuickEntryDialogProps> = (props) => {
                         onKeyDown={handleKeyDown}
                         placeholder={FORMAT_EXAMPLE}
                         class="w-full bg-white border border-zinc-200 focus:border-black/40 focus:ring-1 focus:ring-black/10 rounded-xl text-black text-sm px-4 py-3 outline-none resize-none transition-all font-mono"
-                        rows={2}
+                        rows={isBatch() ? 6 : 2}
                     />
 
                     {/* Date */}
@@ -162,6 +271,20 @@ const QuickEntryDialog: Component<QuickEntryDialogProps> = (props) => {
                         />
                     </div>
 
+                    {/* Batch summary */}
+                    <Show when={batchSummary()}>
+                        {(summary) => (
+                            <div class="mt-3 p-3 bg-green-500/10 border border-green-500/20 rounded-lg text-xs text-green-700 font-medium">
+                                Saved {summary().created} {summary().created === 1 ? 'expense' : 'expenses'} totalling{' '}
+                                {fmtCurrency(summary().total)}
+                                <Show when={summary().advanceAdjusted > 0}>
+                                    , {fmtCurrency(summary().advanceAdjusted)} adjusted from advances
+                                </Show>
+                                .<Show when={lines().length > 0}> Fix the remaining lines and save again.</Show>
+                            </div>
+                        )}
+                    </Show>
+
                     {/* Suggestions */}
                     <Show when={activeSuggestions()}>
                         {(ctx) => (
@@ -174,7 +297,7 @@ const QuickEntryDialog: Component<QuickEntryDialogProps> = (props) => {
                                         {(item) => (
                                             <button
                                                 type="button"
-                                                onClick={() => applySuggestion(item.name)}
+                                                onClick={() => applySuggestion(item)}
                                                 class="px-2.5 py-1 text-xs font-medium bg-zinc-100 hover:bg-zinc-200 text-zinc-700 rounded-lg transition-colors"
                                             >
                                                 {item.name}
@@ -201,13 +324,27 @@ const QuickEntryDialog: Component<QuickEntryDialogProps> = (props) => {
                                     <Field label="Variant" value={parsed().variant.raw} ok={!!parsed().variant.match} />
                                 </Show>
                                 <Show when={parsed().quantity !== null}>
-                                    <Field label="Qty" value={String(parsed().quantity)} ok />
+                                    <Field label="Qty" value={[parsed().quantity, parsed().unit].filter((v) => v !== null).join(' ')} ok />
                                 </Show>
                                 <Show when={parsed().rate !== null}>
-                                    <Field label="Rate" value={fmtCurrency(parsed().rate!)} ok />
+                                    <Field
+                                        label={parsed().rateRemembered ? 'Rate (last)' : 'Rate'}
+                                        value={fmtCurrency(parsed().rate!)}
+                                        ok={!parsed().rateWarning}
+                                    />
+                                </Show>
+                                <Show when={parsed().amount !== null}>
+                                    <Field label="Taxable" value={fmtCurrency(parsed().amount!)} ok />
                                 </Show>
-                                <Show when={parsed().rate !== null && parsed().quantity !== null}>
-                                    <Field label="Total" value={fmtCurrency(amount())} ok bold />
+                                <Show when={parsed().tax !== null && parsed().gstRate > 0}>
+                                    <Field
+                                        label={gstLabel(parsed().gstRate, parsed().gstSupply)}
+                                        value={fmtCurrency(parsed().tax!)}
+                                        ok
+                                    />
+                                </Show>
+                                <Show when={parsed().gross !== null}>
+                                    <Field label="Total" value={fmtCurrency(parsed().gross!)} ok bold />
                                 </Show>
                                 <Field label="Type" value={parsed().transactionType} ok capitalize />
                                 <Show when={parsed().source.raw}>
@@ -223,12 +360,18 @@ const QuickEntryDialog: Component<QuickEntryDialogProps> = (props) => {
                                     <Field label="Reg No" value={parsed().regNo} ok />
                                 </Show>
                                 <Field label="Status" value={parsed().paymentStatus} ok capitalize />
+                                <Show when={parsed().dateRaw}>
+                                    <Field label="Date" value={parsed().date ?? parsed().dateRaw} ok={!!parsed().date} />
+                                </Show>
+                                <Show when={advanceAdjusted() > 0}>
+                                    <Field label="From advance" value={fmtCurrency(advanceAdjusted())} ok />
+                                </Show>
                             </div>
                         </div>
                     </Show>
 
                     {/* Errors */}
-                    <Show when={parsed().errors.length > 0}>
+                    <Show when={!isBatch() && parsed().errors.length > 0}>
                         <div class="mt-3 px-3 py-2 bg-red-50 border border-red-100 rounded-lg space-y-0.5">
                             <For each={parsed().errors}>
                                 {(err) => <p class="text-xs text-red-500">{err}</p>}
@@ -236,6 +379,32 @@ const QuickEntryDialog: Component<QuickEntryDialogProps> = (props) => {
                         </div>
                     </Show>
 
+                    {/* Budget warnings */}
+                    <Show when={budgetAlerts().length > 0}>
+                        <div class="mt-3 px-3 py-2 bg-amber-500/10 border border-amber-500/20 rounded-lg space-y-0.5">
+                            <For each={budgetAlerts()}>{(alert) => <p class="text-xs text-amber-800">{alert}</p>}</For>
+                        </div>
+                    </Show>
+
+                    {/* Unusual rate confirmation */}
+                    <Show when={needsRateConfirmation()}>
+                        <label class="mt-3 flex items-start gap-2.5 p-3 bg-amber-500/10 border border-amber-500/20 rounded-lg text-xs text-amber-800">
+                            <input
+                                type="checkbox"
+                                checked={rateConfirmed()}
+                                onChange={(e) => setRateConfirmed(e.currentTarget.checked)}
+                                class="mt-0.5 h-4 w-4 rounded border-gray-300 text-black focus:ring-black/50"
+                            />
+                            <span class="space-y-0.5">
+                                <For each={rateWarnings()}>{(w) => <span class="block font-medium">{w}</span>}</For>
+                                <span class="block">
+                                    I have checked {rateWarnings().length > 1 ? 'these rates' : 'this rate'} and want to
+                                    save.
+                                </span>
+                            </span>
+                        </label>
+                    </Show>
+
                     {/* Submission error */}
                     <Show when={submission.result?.error}>
                         <div class="mt-3 p-3 bg-red-500/10 border border-red-500/20 rounded-lg text-xs text-red-500 font-medium">
@@ -244,17 +413,59 @@ const QuickEntryDialog: Component<QuickEntryDialogProps> = (props) => {
                     </Show>
 
                     {/* Submit */}
-                    <button
-                        type="button"
-                        disabled={!parsed().complete || submission.pending}
-                        onClick={handleSubmit}
-                        class="mt-4 w-full bg-black hover:bg-black/90 disabled:opacity-40 disabled:cursor-not-allowed text-white font-bold text-sm rounded-xl py-3.5 transition-all"
-                    >
-                        {submission.pending ? 'Saving...' : 'Save Expense'}
-                    </button>
+                    <Show when={!isBatch()}>
+                        <button
+                            type="button"
+                            disabled={!parsed().complete || rateBlocked() || submission.pending}
+                            onClick={handleSubmit}
+                            class="mt-4 w-full bg-black hover:bg-black/90 disabled:opacity-40 disabled:cursor-not-allowed text-white font-bold text-sm rounded-xl py-3.5 transition-all"
+                        >
+                            {submission.pending ? 'Saving...' : 'Save Expense'}
+                        </button>
+                    </Show>
+
+                    {/* Batch: one row per pasted line */}
+                    <Show when={isBatch()}>
+                        <div class="mt-4 max-h-80 overflow-y-auto border border-zinc-100 rounded-xl divide-y divide-zinc-100">
+                            <For each={lines()}>
+                                {(line) => (
+                                    <BatchLine
+                                        line={line}
+                                        onChange={(text) => updateLine(line.index, text)}
+                                        onSuggestion={(field, item) => acceptSuggestion(line, field, item)}
+                                    />
+                                )}
+                            </For>
+                        </div>
+
+                        <Show when={batchSubmission.result?.error}>
+                            <div class="mt-3 p-3 bg-red-500/10 border border-red-500/20 rounded-lg text-xs text-red-500 font-medium">
+                                {batchSubmission.result?.error}
+                            </div>
+                        </Show>
+
+                        <p class="mt-3 text-xs text-zinc-500">
+                            {readyLines().length} of {lines().length} lines ready · {fmtCurrency(readyTotal())}
+                            <Show when={readyLines().length < lines().length}>
+                                {' '}
+                                · incomplete lines stay here to fix
+                            </Show>
+                        </p>
+
+                        <button
+                            type="button"
+                            disabled={readyLines().length === 0 || rateBlocked() || batchSubmission.pending}
+                            onClick={handleBatchSubmit}
+                            class="mt-3 w-full bg-black hover:bg-black/90 disabled:opacity-40 disabled:cursor-not-allowed text-white font-bold text-sm rounded-xl py-3.5 transition-all"
+                        >
+                            {batchSubmission.pending
+                                ? 'Saving...'
+                                : `Save ${readyLines().length} ${readyLines().length === 1 ? 'Expense' : 'Expenses'}`}
+                        </button>
+                    </Show>
 
                     <p class="mt-2 text-center text-[11px] text-zinc-400">
-                        <kbd class="px-1.5 py-0.5 bg-zinc-100 rounded text-[10px] font-mono">Ctrl+Enter</kbd> to submit
+                        <kbd class="px-1.5 py-0.5 bg-zinc-100 rounded text-[10px] font-mono">Ctrl+Enter</kbd> to submit · one entry per line to save several at once
                     </p>
                 </Dialog.Content>
             </Dialog.Portal>
@@ -264,22 +475,56 @@ const QuickEntryDialog: Component<QuickEntryDialogProps> = (props) => {
 
 // ── Helpers ────────────────────────────────────────────────────────
 
-function fmtCurrency(n: number) {
-    return new Intl.NumberFormat('en-IN', { style: 'currency', currency: 'INR', maximumFractionDigits: 0 }).format(n);
+type SuggestionField = 'entity' | 'source';
+
+/** Which unmatched field of an entry to offer suggestions for (first one wins). */
+function suggestionsFor(p: ParsedEntry): { label: string; field: SuggestionField; items: MatchableItem[] } | null {
+    if (p.entity.raw && !p.entity.match && p.entity.suggestions.length > 0) {
+        return { label: 'Items', field: 'entity', items: p.entity.suggestions };
+    }
+    if (p.source.raw && !p.source.match && p.source.suggestions.length > 0) {
+        return { label: 'Sources', field: 'source', items: p.source.suggestions };
+    }
+    return null;
+}
+
+/** Rewrite one line of input with a suggested item or source name in place of the unmatched text. */
+function withSuggestion(
+    text: string,
+    p: ParsedEntry,
+    field: SuggestionField,
+    name: string,
+    vocab: Vocabulary,
+): string {
+    if (field === 'source') return replaceSegment(text, alternation(vocab.from), alternation(vocab.carting), name);
+
+    // Replace entity text between qty and @rate
+    const raw = p.entity.raw;
+    if (!raw) return text;
+    const qtyMatch = text.match(/^(.*?\d+(?:\.\d+)?)\s+/);
+    if (!qtyMatch) return text;
+    const afterQty = text.slice(qtyMatch[0].length);
+    const entityEnd = afterQty.indexOf(raw) + raw.length;
+    return qtyMatch[0] + name + afterQty.slice(entityEnd);
+}
+
+function fmtCurrency(paise: Money) {
+    return formatMoney(paise, { symbol: '₹' });
 }
 
 /**
  * Replace the text between two keyword boundaries in the input string.
+ * Each keyword may be a regex alternation such as "from|se".
  * e.g. replaceSegment("30 cement @100 from old to dest", "from", "to", "new source")
  *   → "30 cement @100 from new source to dest"
  */
 function replaceSegment(input: string, startKw: string, endKw: string, replacement: string): string {
-    const startRe = new RegExp(`\\b${startKw}\\s+`, 'i');
+    const startRe = new RegExp(`\\b(?:${startKw})\\s+`, 'i');
     const sm = input.match(startRe);
     if (!sm) return input;
 
     const afterStart = sm.index! + sm[0].length;
-    const endRe = new RegExp(`\\s+\\b${endKw}\\b`, 'i');
+    const endRe = new RegExp(`\\s+\\b(?:${endKw})\\b`, 'i');
     const em = input.slice(afterStart).match(endRe);
 
     if (em) {
@@ -291,6 +536,65 @@ function replaceSegment(input: string, startKw: string, endKw: string, replaceme
 
 // ── Small components ───────────────────────────────────────────────
 
+/** One editable line of a batch paste with its parsed summary, errors and suggestions. */
+function BatchLine(props: {
+    line: ParsedLine;
+    onChange: (text: string) => void;
+    onSuggestion: (field: SuggestionField, item: MatchableItem) => void;
+}) {
+    const entry = () => props.line.entry;
+    const suggestions = () => suggestionsFor(entry());
+
+    return (
+        <div class="px-3 py-2 space-y-1">
+            <div class="flex items-center gap-2">
+                <span
+                    class="w-2 h-2 rounded-full shrink-0"
+                    classList={{ 'bg-green-500': entry().complete, 'bg-red-400': !entry().complete }}
+                />
+                <input
+                    value={props.line.text}
+                    onChange={(e) => props.onChange(e.currentTarget.value)}
+                    class="flex-1 min-w-0 bg-transparent text-xs font-mono text-black px-1.5 py-1 rounded-md border border-transparent hover:border-zinc-200 focus:border-black/40 outline-none"
+                />
+                <span class="shrink-0 text-xs text-zinc-500 tabular-nums">
+                    <Show when={entry().entity.match}>{(m) => <span class="text-black font-medium">{m().name}</span>}</Show>
+                    <Show when={entry().source.match}>{(m) => <span> · {m().name}</span>}</Show>
+                    <Show when={entry().date}>{(d) => <span> · {d()}</span>}</Show>
+                    <Show when={entry().gross !== null}>
+                        <span class="ml-2 font-semibold text-black">
+                            {fmtCurrency(addMoney(entry().gross, entry().transportCost))}
+                        </span>
+                    </Show>
+                </span>
+            </div>
+            <Show when={entry().errors.length > 0 || !entry().complete}>
+                <p class="pl-4 text-[11px] text-red-500">
+                    {entry().errors.length > 0 ? entry().errors.join('; ') : 'Needs qty, item, @rate and from {source}'}
+                </p>
+            </Show>
+            <Show when={entry().rateWarning}>{(w) => <p class="pl-4 text-[11px] text-amber-700">{w()}</p>}</Show>
+            <Show when={suggestions()}>
+                {(ctx) => (
+                    <div class="pl-4 flex flex-wrap gap-1">
+                        <For each={ctx().items}>
+                            {(item) => (
+                                <button
+                                    type="button"
+                                    onClick={() => props.onSuggestion(ctx().field, item)}
+                                    class="px-2 py-0.5 text-[11px] font-medium bg-zinc-100 hover:bg-zinc-200 text-zinc-700 rounded-md transition-colors"
+                                >
+                                    {item.name}
+                                </button>
+                            )}
+                        </For>
+                    </div>
+                )}
+            </Show>
+        </div>
+    );
+}
+
 function Field(props: { label: string; value: string; ok: boolean; bold?: boolean; capitalize?: boolean }) {
     return (
         <div class="flex justify-between">
@@ -330,7 +634,14 @@ function FormatGuide() {
                 <C c="amber-600">{'{cost}'}</C>{' '}
                 <C c="amber-600">{'{vehicle}'}</C>{' '}
                 <C c="amber-600">{'{reg}'}</C>{' '}
-                <C c="purple-600">{'{status}'}</C>
+                <C c="purple-600">{'{status}'}</C>{' '}
+                <C c="sky-600">{'{date?}'}</C>
+            </p>
+            <p class="text-[10px] text-zinc-400">
+                Date anywhere in the line: <span class="text-zinc-600">on 12/3 · yesterday · mon · -2d · 2026-03-12</span>
+            </p>
+            <p class="text-[10px] text-zinc-400">
+                Hinglish works too: <span class="text-zinc-600">30 bori cement @380 se site A bhada @200 udhaar</span>
             </p>
             <p class="text-[10px] text-zinc-400">
                 e.g. <span class="text-zinc-600">{FORMAT_FULL}</span>
@@ -37,7 +37,7 @@ const Sidebar: Component<SidebarProps> = (props) => {
 
     return (
         <aside
-            class="flex flex-col h-screen bg-brand border-r border-black/10 transition-[width] duration-300 ease-[cubic-bezier(0.2,0,0,1)]"
+            class="flex flex-col h-screen bg-brand border-r border-black/10 print:hidden transition-[width] duration-300 ease-[cubic-bezier(0.2,0,0,1)]"
             classList={{
                 'w-20': isCollapsed(),
                 'w-84': !isCollapsed(),
@@ -79,7 +79,7 @@ const Sidebar: Component<SidebarProps> = (props) => {
                     {(item) => (
                         <A
                             href={item.href}
-                            end={item.href === '/dashboard'}
+                            end={item.href === '/dashboard' || item.href === '/'}
                             activeClass="bg-black text-white shadow-sm"
                             inactiveClass="text-zinc-600 hover:bg-black/5 hover:text-black"
                             class="group flex items-center gap-3 px-3 py-2.5 rounded-lg transition-all duration-200 overflow-hidden whitespace-nowrap"
@@ -9,6 +9,8 @@ type TextInputProps = {
 	value?: string | number;
 	placeholder?: string;
 	step?: string;
+	/** Id of a <datalist> with suggestions. */
+	list?: string;
 	onInput?: JSX.EventHandlerUnion<HTMLInputElement, Event>;
 };
 
@@ -26,6 +28,7 @@ export function TextInput(props: TextInputProps) {
 				value={props.value}
 				placeholder={props.placeholder}
 				step={props.step}
+				list={props.list}
 				onInput={props.onInput}
 				class="w-full bg-transparent text-black text-sm px-3.5 pt-7 pb-2.5 outline-none placeholder:text-zinc-400 disabled:opacity-50"
 				disabled={props.readOnly}
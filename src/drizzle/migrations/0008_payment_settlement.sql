@@ -0,0 +1,104 @@
+-- Payment settlement: a payment is recorded against a site and allocated
+-- against one or more pending/advance transactions. Partial allocations
+-- leave an outstanding balance on the transaction.
+CREATE TYPE "public"."payment_mode" AS ENUM('cash', 'upi', 'cheque', 'bank_transfer', 'auto');
+
+CREATE TABLE "payment" (
+	"id" text PRIMARY KEY NOT NULL,
+	"site_id" text NOT NULL,
+	"amount" bigint NOT NULL,
+	"mode" "payment_mode" NOT NULL,
+	"reference_no" text DEFAULT '' NOT NULL,
+	"note" text,
+	"paid_at" timestamp with time zone DEFAULT now() NOT NULL,
+	"created_at" timestamp with time zone DEFAULT now() NOT NULL,
+	"updated_at" timestamp with time zone DEFAULT now() NOT NULL
+);
+
+CREATE TABLE "payment_allocation" (
+	"id" text PRIMARY KEY NOT NULL,
+	"payment_id" text NOT NULL,
+	"transaction_id" text NOT NULL,
+	"amount" bigint NOT NULL,
+	"created_at" timestamp with time zone DEFAULT now() NOT NULL
+);
+
+ALTER TABLE "payment" ADD CONSTRAINT "payment_site_id_destination_id_fk" FOREIGN KEY ("site_id") REFERENCES "public"."destination"("id") ON DELETE no action ON UPDATE no action;
+ALTER TABLE "payment_allocation" ADD CONSTRAINT "payment_allocation_payment_id_payment_id_fk" FOREIGN KEY ("payment_id") REFERENCES "public"."payment"("id") ON DELETE cascade ON UPDATE no action;
+ALTER TABLE "payment_allocation" ADD CONSTRAINT "payment_allocation_transaction_id_transaction_id_fk" FOREIGN KEY ("transaction_id") REFERENCES "public"."transaction"("id") ON DELETE no action ON UPDATE no action;
+
+CREATE INDEX "payment_site_id_idx" ON "payment" USING btree ("site_id");
+CREATE INDEX "payment_paid_at_idx" ON "payment" USING btree ("paid_at");
+CREATE INDEX "payment_allocation_payment_id_idx" ON "payment_allocation" USING btree ("payment_id");
+CREATE INDEX "payment_allocation_transaction_id_idx" ON "payment_allocation" USING btree ("transaction_id");
+
+-- Per-site opt-in for the weekly auto-settle cron
+ALTER TABLE "destination" ADD COLUMN "auto_settle" boolean DEFAULT false NOT NULL;
+
+-- Recreate transaction_detail with settled / outstanding amounts
+DROP VIEW IF EXISTS "transaction_detail";
+
+CREATE VIEW "transaction_detail" AS
+SELECT
+  t.id,
+  t.created_at,
+  t.updated_at,
+  t.type,
+  t.quantity,
+  t.rate,
+  t.amount,
+  t.status AS payment_status,
+  t.entity_id,
+  t.entity_variant_id,
+  t.source_id,
+  t.transportation_cost_id,
+  e.name AS entity_name,
+  e.unit AS entity_unit,
+  NULLIF(
+    TRIM(
+      COALESCE(
+        NULLIF(CONCAT_WS(' x ',
+          (CASE WHEN ev.entity_length IS NOT NULL AND ev.entity_length::numeric > 0 THEN TRIM(COALESCE(ROUND(ev.entity_length::numeric, 2)::text, '') || ' ' || COALESCE(ev.dimension_unit, '')) ELSE NULL END),
+          (CASE WHEN ev.entity_width IS NOT NULL AND ev.entity_width::numeric > 0 THEN TRIM(COALESCE(ROUND(ev.entity_width::numeric, 2)::text, '') || ' ' || COALESCE(ev.dimension_unit, '')) ELSE NULL END),
+          (CASE WHEN ev.entity_height IS NOT NULL AND ev.entity_height::numeric > 0 THEN TRIM(COALESCE(ROUND(ev.entity_height::numeric, 2)::text, '') || ' ' || COALESCE(ev.dimension_unit, '')) ELSE NULL END)
+        ), ''),
+        ''
+      )
+      ||
+      (CASE
+        WHEN
+          NULLIF(CONCAT_WS(' x ',
+            (CASE WHEN ev.entity_length IS NOT NULL AND ev.entity_length::numeric > 0 THEN 'L' END),
+            (CASE WHEN ev.entity_width IS NOT NULL AND ev.entity_width::numeric > 0 THEN 'W' END),
+            (CASE WHEN ev.entity_height IS NOT NULL AND ev.entity_height::numeric > 0 THEN 'H' END)
+          ), '') IS NOT NULL
+          AND
+          (ev.entity_thickness IS NOT NULL AND ev.entity_thickness::numeric > 0)
+        THEN ' thickness '
+        ELSE ''
+      END)
+      ||
+      COALESCE(
+        NULLIF(
+          (CASE WHEN ev.entity_thickness IS NOT NULL AND ev.entity_thickness::numeric > 0 THEN TRIM(COALESCE(ROUND(ev.entity_thickness::numeric, 2)::text, '') || ' ' || COALESCE(ev.thickness_unit, '')) ELSE NULL END),
+        ''),
+        ''
+      )
+    ),
+  '') AS entity_variant,
+  src.name AS source_name,
+  tc.vehicle_type,
+  tc.reg_no,
+  tc.cost AS transportation_cost,
+  COALESCE(pa.settled, 0)::bigint AS settled_amount,
+  (COALESCE(t.amount, 0) + COALESCE(tc.cost, 0) - COALESCE(pa.settled, 0))::bigint AS outstanding_amount
+FROM "transaction" t
+  LEFT JOIN entity e ON t.entity_id = e.id
+  LEFT JOIN entity_variant ev ON t.entity_variant_id = ev.id
+  LEFT JOIN destination src ON t.source_id = src.id
+  LEFT JOIN transportation_cost tc ON t.transportation_cost_id = tc.id
+  LEFT JOIN (
+    SELECT transaction_id, SUM(amount) AS settled
+    FROM payment_allocation
+    GROUP BY transaction_id
+  ) pa ON pa.transaction_id = t.id;
@@ -0,0 +1,93 @@
+-- Vendor master: suppliers are tracked separately from the sites in
+-- `destination`. A transaction keeps `source_id` as the site and gains an
+-- optional `vendor_id` for the supplier it came from.
+CREATE TABLE "vendor" (
+	"id" text PRIMARY KEY NOT NULL,
+	"name" text NOT NULL,
+	"phone" text DEFAULT '' NOT NULL,
+	"gstin" text DEFAULT '' NOT NULL,
+	"address" text DEFAULT '' NOT NULL,
+	"opening_balance" bigint DEFAULT 0 NOT NULL,
+	"created_at" timestamp with time zone DEFAULT now() NOT NULL,
+	"updated_at" timestamp with time zone DEFAULT now() NOT NULL,
+	CONSTRAINT "vendor_name_unique" UNIQUE("name")
+);
+
+ALTER TABLE "transaction" ADD COLUMN "vendor_id" text;
+ALTER TABLE "transaction" ADD CONSTRAINT "transaction_vendor_id_vendor_id_fk" FOREIGN KEY ("vendor_id") REFERENCES "public"."vendor"("id") ON DELETE no action ON UPDATE no action;
+CREATE INDEX "transaction_vendor_id_idx" ON "transaction" USING btree ("vendor_id");
+
+-- Recreate transaction_detail with the vendor columns
+DROP VIEW IF EXISTS "transaction_detail";
+
+CREATE VIEW "transaction_detail" AS
+SELECT
+  t.id,
+  t.created_at,
+  t.updated_at,
+  t.type,
+  t.quantity,
+  t.rate,
+  t.amount,
+  t.status AS payment_status,
+  t.entity_id,
+  t.entity_variant_id,
+  t.source_id,
+  t.transportation_cost_id,
+  e.name AS entity_name,
+  e.unit AS entity_unit,
+  NULLIF(
+    TRIM(
+      COALESCE(
+        NULLIF(CONCAT_WS(' x ',
+          (CASE WHEN ev.entity_length IS NOT NULL AND ev.entity_length::numeric > 0 THEN TRIM(COALESCE(ROUND(ev.entity_length::numeric, 2)::text, '') || ' ' || COALESCE(ev.dimension_unit, '')) ELSE NULL END),
+          (CASE WHEN ev.entity_width IS NOT NULL AND ev.entity_width::numeric > 0 THEN TRIM(COALESCE(ROUND(ev.entity_width::numeric, 2)::text, '') || ' ' || COALESCE(ev.dimension_unit, '')) ELSE NULL END),
+          (CASE WHEN ev.entity_height IS NOT NULL AND ev.entity_height::numeric > 0 THEN TRIM(COALESCE(ROUND(ev.entity_height::numeric, 2)::text, '') || ' ' || COALESCE(ev.dimension_unit, '')) ELSE NULL END)
+        ), ''),
+        ''
+      )
+      ||
+      (CASE
+        WHEN
+          NULLIF(CONCAT_WS(' x ',
+            (CASE WHEN ev.entity_length IS NOT NULL AND ev.entity_length::numeric > 0 THEN 'L' END),
+            (CASE WHEN ev.entity_width IS NOT NULL AND ev.entity_width::numeric > 0 THEN 'W' END),
+            (CASE WHEN ev.entity_height IS NOT NULL AND ev.entity_height::numeric > 0 THEN 'H' END)
+          ), '') IS NOT NULL
+          AND
+          (ev.entity_thickness IS NOT NULL AND ev.entity_thickness::numeric > 0)
+        THEN ' thickness '
+        ELSE ''
+      END)
+      ||
+      COALESCE(
+        NULLIF(
+          (CASE WHEN ev.entity_thickness IS NOT NULL AND ev.entity_thickness::numeric > 0 THEN TRIM(COALESCE(ROUND(ev.entity_thickness::numeric, 2)::text, '') || ' ' || COALESCE(ev.thickness_unit, '')) ELSE NULL END),
+        ''),
+        ''
+      )
+    ),
+  '') AS entity_variant,
+  src.name AS source_name,
+  tc.vehicle_type,
+  tc.reg_no,
+  tc.cost AS transportation_cost,
+  COALESCE(pa.settled, 0)::bigint AS settled_amount,
+  (COALESCE(t.amount, 0) + COALESCE(tc.cost, 0) - COALESCE(pa.settled, 0))::bigint AS outstanding_amount,
+  t.vendor_id,
+  v.name AS vendor_name
+FROM "transaction" t
+  LEFT JOIN entity e ON t.entity_id = e.id
+  LEFT JOIN entity_variant ev ON t.entity_variant_id = ev.id
+  LEFT JOIN destination src ON t.source_id = src.id
+  LEFT JOIN transportation_cost tc ON t.transportation_cost_id = tc.id
+  LEFT JOIN vendor v ON t.vendor_id = v.id
+  LEFT JOIN (
+    SELECT transaction_id, SUM(amount) AS settled
+    FROM (
+      SELECT transaction_id, amount FROM payment_allocation
+      UNION ALL
+      SELECT transaction_id, amount FROM advance_adjustment
+    ) s
+    GROUP BY transaction_id
+  ) pa ON pa.transaction_id = t.id;
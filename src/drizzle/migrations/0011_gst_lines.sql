@@ -0,0 +1,93 @@
+-- GST: each item carries a default HSN code and GST rate; each transaction
+-- stores its rate and tax components next to the taxable value in "amount".
+-- Intra-state bills use cgst + sgst, inter-state bills use igst.
+ALTER TABLE "entity" ADD COLUMN "hsn_code" text DEFAULT '' NOT NULL;
+ALTER TABLE "entity" ADD COLUMN "gst_rate" integer DEFAULT 0 NOT NULL;
+
+ALTER TABLE "transaction" ADD COLUMN "gst_rate" integer DEFAULT 0 NOT NULL;
+ALTER TABLE "transaction" ADD COLUMN "cgst" bigint DEFAULT 0 NOT NULL;
+ALTER TABLE "transaction" ADD COLUMN "sgst" bigint DEFAULT 0 NOT NULL;
+ALTER TABLE "transaction" ADD COLUMN "igst" bigint DEFAULT 0 NOT NULL;
+
+-- Recreate transaction_detail with tax and gross columns; outstanding now
+-- includes tax
+DROP VIEW IF EXISTS "transaction_detail";
+
+CREATE VIEW "transaction_detail" AS
+SELECT
+  t.id,
+  t.created_at,
+  t.updated_at,
+  t.type,
+  t.quantity,
+  t.rate,
+  t.amount,
+  t.gst_rate,
+  t.cgst,
+  t.sgst,
+  t.igst,
+  (t.cgst + t.sgst + t.igst)::bigint AS tax_amount,
+  (COALESCE(t.amount, 0) + t.cgst + t.sgst + t.igst)::bigint AS gross_amount,
+  t.status AS payment_status,
+  t.entity_id,
+  t.entity_variant_id,
+  t.source_id,
+  t.transportation_cost_id,
+  e.name AS entity_name,
+  e.unit AS entity_unit,
+  e.hsn_code AS entity_hsn_code,
+  NULLIF(
+    TRIM(
+      COALESCE(
+        NULLIF(CONCAT_WS(' x ',
+          (CASE WHEN ev.entity_length IS NOT NULL AND ev.entity_length::numeric > 0 THEN TRIM(COALESCE(ROUND(ev.entity_length::numeric, 2)::text, '') || ' ' || COALESCE(ev.dimension_unit, '')) ELSE NULL END),
+          (CASE WHEN ev.entity_width IS NOT NULL AND ev.entity_width::numeric > 0 THEN TRIM(COALESCE(ROUND(ev.entity_width::numeric, 2)::text, '') || ' ' || COALESCE(ev.dimension_unit, '')) ELSE NULL END),
+          (CASE WHEN ev.entity_height IS NOT NULL AND ev.entity_height::numeric > 0 THEN TRIM(COALESCE(ROUND(ev.entity_height::numeric, 2)::text, '') || ' ' || COALESCE(ev.dimension_unit, '')) ELSE NULL END)
+        ), ''),
+        ''
+      )
+      ||
+      (CASE
+        WHEN
+          NULLIF(CONCAT_WS(' x ',
+            (CASE WHEN ev.entity_length IS NOT NULL AND ev.entity_length::numeric > 0 THEN 'L' END),
+            (CASE WHEN ev.entity_width IS NOT NULL AND ev.entity_width::numeric > 0 THEN 'W' END),
+            (CASE WHEN ev.entity_height IS NOT NULL AND ev.entity_height::numeric > 0 THEN 'H' END)
+          ), '') IS NOT NULL
+          AND
+          (ev.entity_thickness IS NOT NULL AND ev.entity_thickness::numeric > 0)
+        THEN ' thickness '
+        ELSE ''
+      END)
+      ||
+      COALESCE(
+        NULLIF(
+          (CASE WHEN ev.entity_thickness IS NOT NULL AND ev.entity_thickness::numeric > 0 THEN TRIM(COALESCE(ROUND(ev.entity_thickness::numeric, 2)::text, '') || ' ' || COALESCE(ev.thickness_unit, '')) ELSE NULL END),
+        ''),
+        ''
+      )
+    ),
+  '') AS entity_variant,
+  src.name AS source_name,
+  tc.vehicle_type,
+  tc.reg_no,
+  tc.cost AS transportation_cost,
+  COALESCE(pa.settled, 0)::bigint AS settled_amount,
+  (COALESCE(t.amount, 0) + t.cgst + t.sgst + t.igst + COALESCE(tc.cost, 0) - COALESCE(pa.settled, 0))::bigint AS outstanding_amount,
+  t.vendor_id,
+  v.name AS vendor_name
+FROM "transaction" t
+  LEFT JOIN entity e ON t.entity_id = e.id
+  LEFT JOIN entity_variant ev ON t.entity_variant_id = ev.id
+  LEFT JOIN destination src ON t.source_id = src.id
+  LEFT JOIN transportation_cost tc ON t.transportation_cost_id = tc.id
+  LEFT JOIN vendor v ON t.vendor_id = v.id
+  LEFT JOIN (
+    SELECT transaction_id, SUM(amount) AS settled
+    FROM (
+      SELECT transaction_id, amount FROM payment_allocation
+      UNION ALL
+      SELECT transaction_id, amount FROM advance_adjustment
+    ) s
+    GROUP BY transaction_id
+  ) pa ON pa.transaction_id = t.id;
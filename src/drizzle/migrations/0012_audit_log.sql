@@ -0,0 +1,21 @@
+-- Audit trail: one row per create, update or delete of a tracked row, with
+-- the actor and a per-column before/after diff.
+CREATE TYPE "public"."audit_action" AS ENUM('create', 'update', 'delete');
+
+CREATE TABLE "audit_log" (
+	"id" text PRIMARY KEY NOT NULL,
+	"actor_id" text,
+	"actor_name" text DEFAULT '' NOT NULL,
+	"table_name" text NOT NULL,
+	"row_id" text NOT NULL,
+	"action" "audit_action" NOT NULL,
+	"site_id" text,
+	"changes" jsonb NOT NULL,
+	"created_at" timestamp with time zone DEFAULT now() NOT NULL
+);
+
+ALTER TABLE "audit_log" ADD CONSTRAINT "audit_log_actor_id_user_id_fk" FOREIGN KEY ("actor_id") REFERENCES "public"."user"("id") ON DELETE set null ON UPDATE no action;
+CREATE INDEX "audit_log_created_at_idx" ON "audit_log" USING btree ("created_at");
+CREATE INDEX "audit_log_actor_id_idx" ON "audit_log" USING btree ("actor_id");
+CREATE INDEX "audit_log_site_id_idx" ON "audit_log" USING btree ("site_id");
+CREATE INDEX "audit_log_row_idx" ON "audit_log" USING btree ("table_name","row_id");
@@ -0,0 +1,151 @@
+-- Soft delete: deleting a transaction sets `deleted_at` instead of removing
+-- the row, so it can be restored. Both detail views hide deleted rows; the
+-- "Recently deleted" pages read the base tables directly.
+ALTER TABLE "transaction" ADD COLUMN "deleted_at" timestamp with time zone;
+CREATE INDEX "transaction_deleted_at_idx" ON "transaction" USING btree ("deleted_at");
+
+ALTER TABLE "warehouse_transaction" ADD COLUMN "deleted_at" timestamp with time zone;
+CREATE INDEX "warehouse_transaction_deleted_at_idx" ON "warehouse_transaction" USING btree ("deleted_at");
+
+ALTER TYPE "public"."audit_action" ADD VALUE 'restore';
+ALTER TYPE "public"."audit_action" ADD VALUE 'purge';
+
+-- Recreate transaction_detail without deleted rows
+DROP VIEW IF EXISTS "transaction_detail";
+
+CREATE VIEW "transaction_detail" AS
+SELECT
+  t.id,
+  t.created_at,
+  t.updated_at,
+  t.type,
+  t.quantity,
+  t.rate,
+  t.amount,
+  t.gst_rate,
+  t.cgst,
+  t.sgst,
+  t.igst,
+  (t.cgst + t.sgst + t.igst)::bigint AS tax_amount,
+  (COALESCE(t.amount, 0) + t.cgst + t.sgst + t.igst)::bigint AS gross_amount,
+  t.status AS payment_status,
+  t.entity_id,
+  t.entity_variant_id,
+  t.source_id,
+  t.transportation_cost_id,
+  e.name AS entity_name,
+  e.unit AS entity_unit,
+  e.hsn_code AS entity_hsn_code,
+  NULLIF(
+    TRIM(
+      COALESCE(
+        NULLIF(CONCAT_WS(' x ',
+          (CASE WHEN ev.entity_length IS NOT NULL AND ev.entity_length::numeric > 0 THEN TRIM(COALESCE(ROUND(ev.entity_length::numeric, 2)::text, '') || ' ' || COALESCE(ev.dimension_unit, '')) ELSE NULL END),
+          (CASE WHEN ev.entity_width IS NOT NULL AND ev.entity_width::numeric > 0 THEN TRIM(COALESCE(ROUND(ev.entity_width::numeric, 2)::text, '') || ' ' || COALESCE(ev.dimension_unit, '')) ELSE NULL END),
+          (CASE WHEN ev.entity_height IS NOT NULL AND ev.entity_height::numeric > 0 THEN TRIM(COALESCE(ROUND(ev.entity_height::numeric, 2)::text, '') || ' ' || COALESCE(ev.dimension_unit, '')) ELSE NULL END)
+        ), ''),
+        ''
+      )
+      ||
+      (CASE
+        WHEN
+          NULLIF(CONCAT_WS(' x ',
+            (CASE WHEN ev.entity_length IS NOT NULL AND ev.entity_length::numeric > 0 THEN 'L' END),
+            (CASE WHEN ev.entity_width IS NOT NULL AND ev.entity_width::numeric > 0 THEN 'W' END),
+            (CASE WHEN ev.entity_height IS NOT NULL AND ev.entity_height::numeric > 0 THEN 'H' END)
+          ), '') IS NOT NULL
+          AND
+          (ev.entity_thickness IS NOT NULL AND ev.entity_thickness::numeric > 0)
+        THEN ' thickness '
+        ELSE ''
+      END)
+      ||
+      COALESCE(
+        NULLIF(
+          (CASE WHEN ev.entity_thickness IS NOT NULL AND ev.entity_thickness::numeric > 0 THEN TRIM(COALESCE(ROUND(ev.entity_thickness::numeric, 2)::text, '') || ' ' || COALESCE(ev.thickness_unit, '')) ELSE NULL END),
+        ''),
+        ''
+      )
+    ),
+  '') AS entity_variant,
+  src.name AS source_name,
+  tc.vehicle_type,
+  tc.reg_no,
+  tc.cost AS transportation_cost,
+  COALESCE(pa.settled, 0)::bigint AS settled_amount,
+  (COALESCE(t.amount, 0) + t.cgst + t.sgst + t.igst + COALESCE(tc.cost, 0) - COALESCE(pa.settled, 0))::bigint AS outstanding_amount,
+  t.vendor_id,
+  v.name AS vendor_name
+FROM "transaction" t
+  LEFT JOIN entity e ON t.entity_id = e.id
+  LEFT JOIN entity_variant ev ON t.entity_variant_id = ev.id
+  LEFT JOIN destination src ON t.source_id = src.id
+  LEFT JOIN transportation_cost tc ON t.transportation_cost_id = tc.id
+  LEFT JOIN vendor v ON t.vendor_id = v.id
+  LEFT JOIN (
+    SELECT transaction_id, SUM(amount) AS settled
+    FROM (
+      SELECT transaction_id, amount FROM payment_allocation
+      UNION ALL
+      SELECT transaction_id, amount FROM advance_adjustment
+    ) s
+    GROUP BY transaction_id
+  ) pa ON pa.transaction_id = t.id
+WHERE t.deleted_at IS NULL;
+
+-- Recreate warehouse_transaction_detail without deleted rows
+DROP VIEW IF EXISTS "warehouse_transaction_detail";
+
+CREATE VIEW "warehouse_transaction_detail" AS
+SELECT
+  wt.id,
+  wt.created_at,
+  wt.updated_at,
+  wt.type,
+  wt.quantity,
+  wt.entity_id,
+  wt.entity_variant_id,
+  wt.source_id,
+  wt.destination_id,
+  ew.name AS entity_name,
+  ew.unit AS entity_unit,
+  NULLIF(
+    TRIM(
+      COALESCE(
+        NULLIF(CONCAT_WS(' x ',
+          (CASE WHEN evw.entity_length IS NOT NULL AND evw.entity_length::numeric > 0 THEN TRIM(COALESCE(evw.entity_length::text, '') || ' ' || COALESCE(evw.dimension_unit, '')) ELSE NULL END),
+          (CASE WHEN evw.entity_width IS NOT NULL AND evw.entity_width::numeric > 0 THEN TRIM(COALESCE(evw.entity_width::text, '') || ' ' || COALESCE(evw.dimension_unit, '')) ELSE NULL END),
+          (CASE WHEN evw.entity_height IS NOT NULL AND evw.entity_height::numeric > 0 THEN TRIM(COALESCE(evw.entity_height::text, '') || ' ' || COALESCE(evw.dimension_unit, '')) ELSE NULL END)
+        ), ''),
+        ''
+      )
+      ||
+      (CASE
+        WHEN
+          NULLIF(CONCAT_WS(' x ',
+            (CASE WHEN evw.entity_length IS NOT NULL AND evw.entity_length::numeric > 0 THEN 'L' END),
+            (CASE WHEN evw.entity_width IS NOT NULL AND evw.entity_width::numeric > 0 THEN 'W' END),
+            (CASE WHEN evw.entity_height IS NOT NULL AND evw.entity_height::numeric > 0 THEN 'H' END)
+          ), '') IS NOT NULL
+          AND
+          (evw.entity_thickness IS NOT NULL AND evw.entity_thickness::numeric > 0)
+        THEN ' thickness '
+        ELSE ''
+      END)
+      ||
+      COALESCE(
+        NULLIF(
+          (CASE WHEN evw.entity_thickness IS NOT NULL AND evw.entity_thickness::numeric > 0 THEN TRIM(COALESCE(evw.entity_thickness::text, '') || ' ' || COALESCE(evw.thickness_unit, '')) ELSE NULL END),
+        ''),
+        ''
+      )
+    ),
+  '') AS entity_variant,
+  src.name AS source_name,
+  dst.name AS destination_name
+FROM warehouse_transaction wt
+  LEFT JOIN entity_warehouse ew ON wt.entity_id = ew.id
+  LEFT JOIN entity_variant_warehouse evw ON wt.entity_variant_id = evw.id
+  LEFT JOIN destination src ON wt.source_id = src.id
+  LEFT JOIN destination dst ON wt.destination_id = dst.id
+WHERE wt.deleted_at IS NULL;
@@ -0,0 +1,17 @@
+-- Learned quick-entry aliases: raw text a user typed, mapped to the item or
+-- site they picked from the suggestions. Rows without a user apply to everyone.
+CREATE TYPE "public"."alias_kind" AS ENUM('entity', 'destination');
+
+CREATE TABLE "entry_alias" (
+	"id" text PRIMARY KEY NOT NULL,
+	"alias" text NOT NULL,
+	"kind" "alias_kind" NOT NULL,
+	"target_id" text NOT NULL,
+	"user_id" text,
+	"created_at" timestamp with time zone DEFAULT now() NOT NULL,
+	"updated_at" timestamp with time zone DEFAULT now() NOT NULL
+);
+
+ALTER TABLE "entry_alias" ADD CONSTRAINT "entry_alias_user_id_user_id_fk" FOREIGN KEY ("user_id") REFERENCES "public"."user"("id") ON DELETE cascade ON UPDATE no action;
+CREATE INDEX "entry_alias_lookup_idx" ON "entry_alias" USING btree ("kind","alias");
+CREATE INDEX "entry_alias_user_id_idx" ON "entry_alias" USING btree ("user_id");
@@ -0,0 +1,17 @@
+-- Site budgets: a spending limit per site and date range, overall or for one
+-- item category (entity type).
+CREATE TABLE "site_budget" (
+	"id" text PRIMARY KEY NOT NULL,
+	"site_id" text NOT NULL,
+	"category" "entity_type",
+	"amount" bigint NOT NULL,
+	"start_date" date NOT NULL,
+	"end_date" date NOT NULL,
+	"warn_percent" integer DEFAULT 90 NOT NULL,
+	"created_at" timestamp with time zone DEFAULT now() NOT NULL,
+	"updated_at" timestamp with time zone DEFAULT now() NOT NULL,
+	CONSTRAINT "site_budget_dates_check" CHECK ("end_date" >= "start_date")
+);
+
+ALTER TABLE "site_budget" ADD CONSTRAINT "site_budget_site_id_destination_id_fk" FOREIGN KEY ("site_id") REFERENCES "public"."destination"("id") ON DELETE cascade ON UPDATE no action;
+CREATE INDEX "site_budget_site_id_idx" ON "site_budget" USING btree ("site_id");
@@ -0,0 +1,19 @@
+-- Minimum and reorder quantities per destination, godown item and (optional)
+-- variant.
+CREATE TABLE "stock_level" (
+	"id" text PRIMARY KEY NOT NULL,
+	"destination_id" text NOT NULL,
+	"entity_id" text NOT NULL,
+	"entity_variant_id" text,
+	"min_quantity" numeric(18, 6) NOT NULL,
+	"reorder_quantity" numeric(18, 6),
+	"created_at" timestamp with time zone DEFAULT now() NOT NULL,
+	"updated_at" timestamp with time zone DEFAULT now() NOT NULL
+);
+
+ALTER TABLE "stock_level" ADD CONSTRAINT "stock_level_destination_id_destination_id_fk" FOREIGN KEY ("destination_id") REFERENCES "public"."destination"("id") ON DELETE cascade ON UPDATE no action;
+ALTER TABLE "stock_level" ADD CONSTRAINT "stock_level_entity_id_entity_warehouse_id_fk" FOREIGN KEY ("entity_id") REFERENCES "public"."entity_warehouse"("id") ON DELETE cascade ON UPDATE no action;
+ALTER TABLE "stock_level" ADD CONSTRAINT "stock_level_entity_variant_id_entity_variant_warehouse_id_fk" FOREIGN KEY ("entity_variant_id") REFERENCES "public"."entity_variant_warehouse"("id") ON DELETE cascade ON UPDATE no action;
+CREATE INDEX "stock_level_destination_id_idx" ON "stock_level" USING btree ("destination_id");
+CREATE INDEX "stock_level_entity_id_idx" ON "stock_level" USING btree ("entity_id");
+CREATE UNIQUE INDEX "stock_level_item_unique_idx" ON "stock_level" USING btree ("destination_id", "entity_id", COALESCE("entity_variant_id", ''));
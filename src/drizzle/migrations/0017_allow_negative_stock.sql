@@ -0,0 +1,2 @@
+-- Lets an admin exempt a godown from the stock availability check on transfers.
+ALTER TABLE "destination" ADD COLUMN "allow_negative_stock" boolean DEFAULT false NOT NULL;
@@ -0,0 +1,36 @@
+-- Goods receipts (GRN) from vendors into a godown, with one line per item
+-- linked to its warehouse transaction and, optionally, its expense.
+CREATE TABLE "goods_receipt" (
+	"id" text PRIMARY KEY NOT NULL,
+	"vendor_id" text NOT NULL,
+	"destination_id" text NOT NULL,
+	"invoice_no" text NOT NULL,
+	"received_at" timestamp with time zone NOT NULL,
+	"note" text,
+	"created_at" timestamp with time zone DEFAULT now() NOT NULL,
+	"updated_at" timestamp with time zone DEFAULT now() NOT NULL
+);
+
+CREATE TABLE "goods_receipt_line" (
+	"id" text PRIMARY KEY NOT NULL,
+	"receipt_id" text NOT NULL,
+	"entity_id" text NOT NULL,
+	"entity_variant_id" text,
+	"quantity" numeric(18, 6) NOT NULL,
+	"rate" bigint NOT NULL,
+	"warehouse_transaction_id" text,
+	"transaction_id" text,
+	"created_at" timestamp with time zone DEFAULT now() NOT NULL
+);
+
+ALTER TABLE "goods_receipt" ADD CONSTRAINT "goods_receipt_vendor_id_vendor_id_fk" FOREIGN KEY ("vendor_id") REFERENCES "public"."vendor"("id") ON DELETE no action ON UPDATE no action;
+ALTER TABLE "goods_receipt" ADD CONSTRAINT "goods_receipt_destination_id_destination_id_fk" FOREIGN KEY ("destination_id") REFERENCES "public"."destination"("id") ON DELETE no action ON UPDATE no action;
+ALTER TABLE "goods_receipt_line" ADD CONSTRAINT "goods_receipt_line_receipt_id_goods_receipt_id_fk" FOREIGN KEY ("receipt_id") REFERENCES "public"."goods_receipt"("id") ON DELETE cascade ON UPDATE no action;
+ALTER TABLE "goods_receipt_line" ADD CONSTRAINT "goods_receipt_line_entity_id_entity_warehouse_id_fk" FOREIGN KEY ("entity_id") REFERENCES "public"."entity_warehouse"("id") ON DELETE no action ON UPDATE no action;
+ALTER TABLE "goods_receipt_line" ADD CONSTRAINT "goods_receipt_line_entity_variant_id_entity_variant_warehouse_id_fk" FOREIGN KEY ("entity_variant_id") REFERENCES "public"."entity_variant_warehouse"("id") ON DELETE no action ON UPDATE no action;
+ALTER TABLE "goods_receipt_line" ADD CONSTRAINT "goods_receipt_line_warehouse_transaction_id_warehouse_transaction_id_fk" FOREIGN KEY ("warehouse_transaction_id") REFERENCES "public"."warehouse_transaction"("id") ON DELETE set null ON UPDATE no action;
+ALTER TABLE "goods_receipt_line" ADD CONSTRAINT "goods_receipt_line_transaction_id_transaction_id_fk" FOREIGN KEY ("transaction_id") REFERENCES "public"."transaction"("id") ON DELETE set null ON UPDATE no action;
+CREATE INDEX "goods_receipt_destination_id_idx" ON "goods_receipt" USING btree ("destination_id");
+CREATE UNIQUE INDEX "goods_receipt_vendor_invoice_idx" ON "goods_receipt" USING btree ("vendor_id", "invoice_no");
+CREATE INDEX "goods_receipt_line_receipt_id_idx" ON "goods_receipt_line" USING btree ("receipt_id");
+CREATE INDEX "goods_receipt_line_warehouse_transaction_id_idx" ON "goods_receipt_line" USING btree ("warehouse_transaction_id");
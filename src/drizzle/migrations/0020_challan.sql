@@ -0,0 +1,82 @@
+-- Delivery challans: a header for a vehicle load of transfers, each line of
+-- which is a warehouse transaction pointing back at it.
+CREATE TABLE "challan" (
+	"id" text PRIMARY KEY NOT NULL,
+	"challan_no" integer GENERATED ALWAYS AS IDENTITY (sequence name "challan_challan_no_seq" INCREMENT BY 1 MINVALUE 1 MAXVALUE 2147483647 START WITH 1 CACHE 1) NOT NULL,
+	"challan_date" timestamp with time zone NOT NULL,
+	"source_id" text NOT NULL,
+	"destination_id" text NOT NULL,
+	"vehicle_no" text DEFAULT '' NOT NULL,
+	"driver_name" text DEFAULT '' NOT NULL,
+	"note" text,
+	"created_at" timestamp with time zone DEFAULT now() NOT NULL,
+	"updated_at" timestamp with time zone DEFAULT now() NOT NULL,
+	CONSTRAINT "challan_challan_no_unique" UNIQUE("challan_no")
+);
+
+ALTER TABLE "challan" ADD CONSTRAINT "challan_source_id_destination_id_fk" FOREIGN KEY ("source_id") REFERENCES "public"."destination"("id") ON DELETE no action ON UPDATE no action;
+ALTER TABLE "challan" ADD CONSTRAINT "challan_destination_id_destination_id_fk" FOREIGN KEY ("destination_id") REFERENCES "public"."destination"("id") ON DELETE no action ON UPDATE no action;
+CREATE INDEX "challan_source_id_idx" ON "challan" USING btree ("source_id");
+CREATE INDEX "challan_destination_id_idx" ON "challan" USING btree ("destination_id");
+
+ALTER TABLE "warehouse_transaction" ADD COLUMN "challan_id" text;
+ALTER TABLE "warehouse_transaction" ADD CONSTRAINT "warehouse_transaction_challan_id_challan_id_fk" FOREIGN KEY ("challan_id") REFERENCES "public"."challan"("id") ON DELETE no action ON UPDATE no action;
+CREATE INDEX "warehouse_transaction_challan_id_idx" ON "warehouse_transaction" USING btree ("challan_id");
+
+-- Expose challan_id on warehouse_transaction_detail
+CREATE OR REPLACE VIEW "warehouse_transaction_detail" AS
+SELECT
+  wt.id,
+  wt.created_at,
+  wt.updated_at,
+  wt.type,
+  wt.quantity,
+  wt.entity_id,
+  wt.entity_variant_id,
+  wt.source_id,
+  wt.destination_id,
+  ew.name AS entity_name,
+  ew.unit AS entity_unit,
+  NULLIF(
+    TRIM(
+      COALESCE(
+        NULLIF(CONCAT_WS(' x ',
+          (CASE WHEN evw.entity_length IS NOT NULL AND evw.entity_length::numeric > 0 THEN TRIM(COALESCE(evw.entity_length::text, '') || ' ' || COALESCE(evw.dimension_unit, '')) ELSE NULL END),
+          (CASE WHEN evw.entity_width IS NOT NULL AND evw.entity_width::numeric > 0 THEN TRIM(COALESCE(evw.entity_width::text, '') || ' ' || COALESCE(evw.dimension_unit, '')) ELSE NULL END),
+          (CASE WHEN evw.entity_height IS NOT NULL AND evw.entity_height::numeric > 0 THEN TRIM(COALESCE(evw.entity_height::text, '') || ' ' || COALESCE(evw.dimension_unit, '')) ELSE NULL END)
+        ), ''),
+        ''
+      )
+      ||
+      (CASE
+        WHEN
+          NULLIF(CONCAT_WS(' x ',
+            (CASE WHEN evw.entity_length IS NOT NULL AND evw.entity_length::numeric > 0 THEN 'L' END),
+            (CASE WHEN evw.entity_width IS NOT NULL AND evw.entity_width::numeric > 0 THEN 'W' END),
+            (CASE WHEN evw.entity_height IS NOT NULL AND evw.entity_height::numeric > 0 THEN 'H' END)
+          ), '') IS NOT NULL
+          AND
+          (evw.entity_thickness IS NOT NULL AND evw.entity_thickness::numeric > 0)
+        THEN ' thickness '
+        ELSE ''
+      END)
+      ||
+      COALESCE(
+        NULLIF(
+          (CASE WHEN evw.entity_thickness IS NOT NULL AND evw.entity_thickness::numeric > 0 THEN TRIM(COALESCE(evw.entity_thickness::text, '') || ' ' || COALESCE(evw.thickness_unit, '')) ELSE NULL END),
+        ''),
+        ''
+      )
+    ),
+  '') AS entity_variant,
+  src.name AS source_name,
+  dst.name AS destination_name,
+  wt.adjustment_reason,
+  wt.adjustment_note,
+  wt.challan_id
+FROM warehouse_transaction wt
+  LEFT JOIN entity_warehouse ew ON wt.entity_id = ew.id
+  LEFT JOIN entity_variant_warehouse evw ON wt.entity_variant_id = evw.id
+  LEFT JOIN destination src ON wt.source_id = src.id
+  LEFT JOIN destination dst ON wt.destination_id = dst.id
+WHERE wt.deleted_at IS NULL;
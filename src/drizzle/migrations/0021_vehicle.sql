@@ -0,0 +1,46 @@
+-- Vehicle master: each transport entry links to the vehicle that carried it,
+-- records the load in tonnes and whether the transporter has been paid.
+CREATE TYPE "public"."vehicle_rate_basis" AS ENUM('trip', 'tonne', 'km', 'day');
+
+CREATE TABLE "vehicle" (
+	"id" text PRIMARY KEY NOT NULL,
+	"reg_no" text NOT NULL,
+	"vehicle_type" text DEFAULT '' NOT NULL,
+	"owner" text DEFAULT '' NOT NULL,
+	"phone" text DEFAULT '' NOT NULL,
+	"rate_basis" "vehicle_rate_basis" DEFAULT 'trip' NOT NULL,
+	"rate" bigint DEFAULT 0 NOT NULL,
+	"created_at" timestamp with time zone DEFAULT now() NOT NULL,
+	"updated_at" timestamp with time zone DEFAULT now() NOT NULL,
+	CONSTRAINT "vehicle_reg_no_unique" UNIQUE("reg_no")
+);
+
+ALTER TABLE "transportation_cost" ADD COLUMN "vehicle_id" text;
+ALTER TABLE "transportation_cost" ADD COLUMN "load_tonnes" numeric(18, 6);
+ALTER TABLE "transportation_cost" ADD COLUMN "paid_at" timestamp with time zone;
+ALTER TABLE "transportation_cost" ADD CONSTRAINT "transportation_cost_vehicle_id_vehicle_id_fk" FOREIGN KEY ("vehicle_id") REFERENCES "public"."vehicle"("id") ON DELETE no action ON UPDATE no action;
+CREATE INDEX "transportation_cost_vehicle_id_idx" ON "transportation_cost" USING btree ("vehicle_id");
+
+-- One vehicle per registration number already entered, normalised as in
+-- `normalizeRegNo`, with the type it was entered with most recently.
+INSERT INTO "vehicle" ("id", "reg_no", "vehicle_type")
+SELECT DISTINCT ON (norm.reg_no)
+  'veh_' || substr(md5(random()::text || norm.reg_no), 1, 24),
+  norm.reg_no,
+  COALESCE(tc.vehicle_type, '')
+FROM "transportation_cost" tc
+  CROSS JOIN LATERAL (SELECT upper(regexp_replace(tc.reg_no, '[^A-Za-z0-9]', '', 'g')) AS reg_no) norm
+  LEFT JOIN "transaction" t ON t.transportation_cost_id = tc.id
+WHERE norm.reg_no <> ''
+ORDER BY norm.reg_no, t.created_at DESC NULLS LAST;
+
+UPDATE "transportation_cost" tc
+SET "vehicle_id" = v.id
+FROM "vehicle" v
+WHERE v.reg_no = upper(regexp_replace(tc.reg_no, '[^A-Za-z0-9]', '', 'g'));
+
+-- Transport is paid with its bill: anything not pending (paid, or an advance) is settled.
+UPDATE "transportation_cost" tc
+SET "paid_at" = t.updated_at
+FROM "transaction" t
+WHERE t.transportation_cost_id = tc.id AND t.status <> 'pending';
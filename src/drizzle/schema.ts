@@ -1,14 +1,38 @@
 import { createId } from '@paralleldrive/cuid2';
-import { relations } from 'drizzle-orm';
-import { boolean, index, numeric, pgEnum, pgTable, pgView, text, timestamp } from 'drizzle-orm/pg-core';
+import { relations, sql } from 'drizzle-orm';
+import {
+    bigint,
+    boolean,
+    date,
+    index,
+    integer,
+    jsonb,
+    numeric,
+    pgEnum,
+    pgTable,
+    pgView,
+    text,
+    timestamp,
+    uniqueIndex,
+} from 'drizzle-orm/pg-core';
 
 export const PaymentStatus = ['paid', 'pending', 'advance'] as const;
 export const TransactionType = ['credit', 'debit'] as const;
 export const EntityType = ['payroll', 'cash'] as const;
+export const PaymentMode = ['cash', 'upi', 'cheque', 'bank_transfer', 'auto'] as const;
+export const AuditAction = ['create', 'update', 'delete', 'restore', 'purge'] as const;
+export const AliasKind = ['entity', 'destination'] as const;
+export const StockAdjustmentReason = ['opening', 'count_error', 'damage', 'theft', 'other'] as const;
+export const VehicleRateBasis = ['trip', 'tonne', 'km', 'day'] as const;
 
 export const paymentStatusEnum = pgEnum('payment_status', PaymentStatus);
 export const transactionTypeEnum = pgEnum('transaction_type', TransactionType);
 export const entityTypeEnum = pgEnum('entity_type', EntityType);
+export const paymentModeEnum = pgEnum('payment_mode', PaymentMode);
+export const auditActionEnum = pgEnum('audit_action', AuditAction);
+export const aliasKindEnum = pgEnum('alias_kind', AliasKind);
+export const stockAdjustmentReasonEnum = pgEnum('stock_adjustment_reason', StockAdjustmentReason);
+export const vehicleRateBasisEnum = pgEnum('vehicle_rate_basis', VehicleRateBasis);
 
 export const Transaction = pgTable(
     'transaction',
@@ -19,35 +43,76 @@ export const Transaction = pgTable(
         entity_id: text('entity_id').references(() => Entity.id),
         entity_variant_id: text('entity_variant_id').references(() => EntityVariant.id),
         source_id: text('source_id').references(() => Destination.id),
+        // Supplier the material came from; `source_id` is the site it went to.
+        vendor_id: text('vendor_id').references(() => Vendor.id),
         payment_status: paymentStatusEnum('status').notNull(),
         transportation_cost_id: text('transportation_cost_id').references(() => TransportationCost.id),
         quantity: numeric('quantity', { precision: 18, scale: 6 }),
         type: transactionTypeEnum('type'),
-        rate: numeric('rate', { precision: 18, scale: 6 }),
-        // TODO: Consider storing money as integer paise to avoid precision issues.
-        amount: numeric('amount', { precision: 18, scale: 2 }),
+        // Money columns are integer paise — see `~/lib/money`.
+        rate: bigint('rate', { mode: 'number' }),
+        // Taxable value (quantity * rate); GST is stored separately — see `~/lib/gst`.
+        amount: bigint('amount', { mode: 'number' }),
+        gst_rate: integer('gst_rate').notNull().default(0),
+        cgst: bigint('cgst', { mode: 'number' }).notNull().default(0),
+        sgst: bigint('sgst', { mode: 'number' }).notNull().default(0),
+        igst: bigint('igst', { mode: 'number' }).notNull().default(0),
         created_at: timestamp('created_at', { withTimezone: true }).notNull().defaultNow(),
         updated_at: timestamp('updated_at', { withTimezone: true })
             .notNull()
             .defaultNow()
             .$onUpdate(() => new Date()),
+        // Soft delete — see `~/lib/soft-delete`. Hidden from `transaction_detail` while set.
+        deleted_at: timestamp('deleted_at', { withTimezone: true }),
     },
     (table) => [
         index('transaction_entity_id_idx').on(table.entity_id),
         index('transaction_source_id_idx').on(table.source_id),
+        index('transaction_vendor_id_idx').on(table.vendor_id),
         index('transaction_created_at_idx').on(table.created_at),
+        index('transaction_deleted_at_idx').on(table.deleted_at),
     ],
 );
 
-export const TransportationCost = pgTable('transportation_cost', {
+export const TransportationCost = pgTable(
+    'transportation_cost',
+    {
+        id: text('id')
+            .primaryKey()
+            .$defaultFn(() => 'tc_' + createId()),
+        entity_id: text('entity_id').references(() => Entity.id),
+        // As entered on the expense; `vehicle_id` links the entry to the vehicle master.
+        vehicle_type: text('vehicle_type').default(''),
+        reg_no: text('reg_no').notNull().default(''),
+        vehicle_id: text('vehicle_id').references(() => Vehicle.id),
+        cost: bigint('cost', { mode: 'number' }).notNull().default(0),
+        // Weight carried, for cost per tonne; null when not recorded.
+        load_tonnes: numeric('load_tonnes', { precision: 18, scale: 6 }),
+        // When the transporter was paid for this trip; null while pending. Separate
+        // from the expense's own status, which covers the bill as a whole.
+        paid_at: timestamp('paid_at', { withTimezone: true }),
+    },
+    (table) => [index('transportation_cost_vehicle_id_idx').on(table.vehicle_id)],
+);
+
+export const Vehicle = pgTable('vehicle', {
     id: text('id')
         .primaryKey()
-        .$defaultFn(() => 'tc_' + createId()),
-    entity_id: text('entity_id').references(() => Entity.id),
-    vehicle_type: text('vehicle_type').default(''),
-    reg_no: text('reg_no').notNull().default(''),
-    // TODO: Consider storing money as integer paise to avoid precision issues.
-    cost: numeric('cost', { precision: 18, scale: 2 }).notNull().default('0'),
+        .$defaultFn(() => 'veh_' + createId()),
+    // Stored without spaces or dashes, upper case — see `normalizeRegNo`.
+    reg_no: text('reg_no').notNull().unique(),
+    vehicle_type: text('vehicle_type').notNull().default(''),
+    // Owner or transporter who is paid for the vehicle's trips.
+    owner: text('owner').notNull().default(''),
+    phone: text('phone').notNull().default(''),
+    // Agreed rate per `rate_basis`, in paise.
+    rate_basis: vehicleRateBasisEnum('rate_basis').notNull().default('trip'),
+    rate: bigint('rate', { mode: 'number' }).notNull().default(0),
+    created_at: timestamp('created_at', { withTimezone: true }).notNull().defaultNow(),
+    updated_at: timestamp('updated_at', { withTimezone: true })
+        .notNull()
+        .defaultNow()
+        .$onUpdate(() => new Date()),
 });
 
 export const Destination = pgTable('destination', {
@@ -56,6 +121,11 @@ export const Destination = pgTable('destination', {
         .$defaultFn(() => 'dest_' + createId()),
     name: text('name').notNull().unique(),
     is_warehouse: boolean('is_warehouse').notNull().default(false),
+    // When set, the weekly cron settles this site's pending transactions automatically.
+    auto_settle: boolean('auto_settle').notNull().default(false),
+    // Godowns normally refuse transfers out of stock they do not hold; an admin
+    // can set this for ones whose stock is recorded after the fact.
+    allow_negative_stock: boolean('allow_negative_stock').notNull().default(false),
     created_at: timestamp('created_at', { withTimezone: true }).notNull().defaultNow(),
     updated_at: timestamp('updated_at', { withTimezone: true })
         .notNull()
@@ -63,6 +133,91 @@ export const Destination = pgTable('destination', {
         .$onUpdate(() => new Date()),
 });
 
+export const Vendor = pgTable('vendor', {
+    id: text('id')
+        .primaryKey()
+        .$defaultFn(() => 'vendor_' + createId()),
+    name: text('name').notNull().unique(),
+    phone: text('phone').notNull().default(''),
+    gstin: text('gstin').notNull().default(''),
+    address: text('address').notNull().default(''),
+    // Amount owed to the vendor before the first entry in this app, in paise.
+    opening_balance: bigint('opening_balance', { mode: 'number' }).notNull().default(0),
+    created_at: timestamp('created_at', { withTimezone: true }).notNull().defaultNow(),
+    updated_at: timestamp('updated_at', { withTimezone: true })
+        .notNull()
+        .defaultNow()
+        .$onUpdate(() => new Date()),
+});
+
+export const Payment = pgTable(
+    'payment',
+    {
+        id: text('id')
+            .primaryKey()
+            .$defaultFn(() => 'pay_' + createId()),
+        site_id: text('site_id')
+            .notNull()
+            .references(() => Destination.id),
+        amount: bigint('amount', { mode: 'number' }).notNull(),
+        mode: paymentModeEnum('mode').notNull(),
+        reference_no: text('reference_no').notNull().default(''),
+        note: text('note'),
+        paid_at: timestamp('paid_at', { withTimezone: true }).notNull().defaultNow(),
+        created_at: timestamp('created_at', { withTimezone: true }).notNull().defaultNow(),
+        updated_at: timestamp('updated_at', { withTimezone: true })
+            .notNull()
+            .defaultNow()
+            .$onUpdate(() => new Date()),
+    },
+    (table) => [index('payment_site_id_idx').on(table.site_id), index('payment_paid_at_idx').on(table.paid_at)],
+);
+
+export const PaymentAllocation = pgTable(
+    'payment_allocation',
+    {
+        id: text('id')
+            .primaryKey()
+            .$defaultFn(() => 'palloc_' + createId()),
+        payment_id: text('payment_id')
+            .notNull()
+            .references(() => Payment.id, { onDelete: 'cascade' }),
+        transaction_id: text('transaction_id')
+            .notNull()
+            .references(() => Transaction.id),
+        amount: bigint('amount', { mode: 'number' }).notNull(),
+        created_at: timestamp('created_at', { withTimezone: true }).notNull().defaultNow(),
+    },
+    (table) => [
+        index('payment_allocation_payment_id_idx').on(table.payment_id),
+        index('payment_allocation_transaction_id_idx').on(table.transaction_id),
+    ],
+);
+
+// An advance (a transaction with status `advance`) consumed by a later bill
+// from the same source. The advance's unadjusted balance is its amount minus
+// every adjustment drawn from it.
+export const AdvanceAdjustment = pgTable(
+    'advance_adjustment',
+    {
+        id: text('id')
+            .primaryKey()
+            .$defaultFn(() => 'advadj_' + createId()),
+        advance_id: text('advance_id')
+            .notNull()
+            .references(() => Transaction.id, { onDelete: 'cascade' }),
+        transaction_id: text('transaction_id')
+            .notNull()
+            .references(() => Transaction.id, { onDelete: 'cascade' }),
+        amount: bigint('amount', { mode: 'number' }).notNull(),
+        created_at: timestamp('created_at', { withTimezone: true }).notNull().defaultNow(),
+    },
+    (table) => [
+        index('advance_adjustment_advance_id_idx').on(table.advance_id),
+        index('advance_adjustment_transaction_id_idx').on(table.transaction_id),
+    ],
+);
+
 export const Entity = pgTable('entity', {
     id: text('id')
         .primaryKey()
@@ -70,6 +225,9 @@ export const Entity = pgTable('entity', {
     name: text('name').notNull().unique(),
     type: entityTypeEnum('type').notNull(),
     unit: text('unit').notNull(),
+    // Defaults for new expense entries of this item.
+    hsn_code: text('hsn_code').notNull().default(''),
+    gst_rate: integer('gst_rate').notNull().default(0),
     created_at: timestamp('created_at', { withTimezone: true }).notNull().defaultNow(),
     updated_at: timestamp('updated_at', { withTimezone: true })
         .notNull()
@@ -105,8 +263,14 @@ export const TransactionDetail = pgView('transaction_detail', {
     updated_at: timestamp('updated_at', { withTimezone: true }),
     type: transactionTypeEnum('type'),
     quantity: numeric('quantity', { precision: 18, scale: 6 }),
-    rate: numeric('rate', { precision: 18, scale: 6 }),
-    amount: numeric('amount', { precision: 18, scale: 2 }),
+    rate: bigint('rate', { mode: 'number' }),
+    amount: bigint('amount', { mode: 'number' }),
+    gst_rate: integer('gst_rate'),
+    cgst: bigint('cgst', { mode: 'number' }),
+    sgst: bigint('sgst', { mode: 'number' }),
+    igst: bigint('igst', { mode: 'number' }),
+    tax_amount: bigint('tax_amount', { mode: 'number' }),
+    gross_amount: bigint('gross_amount', { mode: 'number' }),
     payment_status: paymentStatusEnum('payment_status'),
     entity_id: text('entity_id'),
     entity_variant_id: text('entity_variant_id'),
@@ -114,11 +278,16 @@ export const TransactionDetail = pgView('transaction_detail', {
     transportation_cost_id: text('transportation_cost_id'),
     entity_name: text('entity_name'),
     entity_unit: text('entity_unit'),
+    entity_hsn_code: text('entity_hsn_code'),
     entity_variant: text('entity_variant'),
     source_name: text('source_name'),
     vehicle_type: text('vehicle_type'),
     reg_no: text('reg_no'),
-    transportation_cost: numeric('transportation_cost', { precision: 18, scale: 2 }),
+    transportation_cost: bigint('transportation_cost', { mode: 'number' }),
+    settled_amount: bigint('settled_amount', { mode: 'number' }),
+    outstanding_amount: bigint('outstanding_amount', { mode: 'number' }),
+    vendor_id: text('vendor_id'),
+    vendor_name: text('vendor_name'),
 }).existing();
 
 export const WarehouseTransactionDetail = pgView('warehouse_transaction_detail', {
@@ -136,6 +305,9 @@ export const WarehouseTransactionDetail = pgView('warehouse_transaction_detail',
     entity_variant: text('entity_variant'),
     source_name: text('source_name'),
     destination_name: text('destination_name'),
+    adjustment_reason: stockAdjustmentReasonEnum('adjustment_reason'),
+    adjustment_note: text('adjustment_note'),
+    challan_id: text('challan_id'),
 }).existing();
 
 export const WarehouseTransaction = pgTable(
@@ -150,17 +322,59 @@ export const WarehouseTransaction = pgTable(
         destination_id: text('destination_id').references(() => Destination.id),
         quantity: numeric('quantity', { precision: 18, scale: 6 }),
         type: transactionTypeEnum('type'),
+        // Set on stock-take adjustments, which have only a destination (stock
+        // found) or only a source (stock written off). Null for transfers.
+        adjustment_reason: stockAdjustmentReasonEnum('adjustment_reason'),
+        adjustment_note: text('adjustment_note'),
+        // The delivery challan this transfer is a line of, if any.
+        challan_id: text('challan_id').references(() => Challan.id),
         created_at: timestamp('created_at', { withTimezone: true }).notNull().defaultNow(),
         updated_at: timestamp('updated_at', { withTimezone: true })
             .notNull()
             .defaultNow()
             .$onUpdate(() => new Date()),
+        // Soft delete — see `~/lib/soft-delete`. Hidden from `warehouse_transaction_detail` while set.
+        deleted_at: timestamp('deleted_at', { withTimezone: true }),
     },
     (table) => [
         index('warehouse_transaction_entity_id_idx').on(table.entity_id),
         index('warehouse_transaction_source_id_idx').on(table.source_id),
         index('warehouse_transaction_destination_id_idx').on(table.destination_id),
         index('warehouse_transaction_created_at_idx').on(table.created_at),
+        index('warehouse_transaction_deleted_at_idx').on(table.deleted_at),
+        index('warehouse_transaction_challan_id_idx').on(table.challan_id),
+    ],
+);
+
+// A delivery challan: one vehicle load moved from one destination to another,
+// printed to travel with the goods. Its items are the warehouse transactions
+// with its `challan_id`. `challan_no` is numbered by the database.
+export const Challan = pgTable(
+    'challan',
+    {
+        id: text('id')
+            .primaryKey()
+            .$defaultFn(() => 'chln_' + createId()),
+        challan_no: integer('challan_no').notNull().unique().generatedAlwaysAsIdentity(),
+        challan_date: timestamp('challan_date', { withTimezone: true }).notNull(),
+        source_id: text('source_id')
+            .notNull()
+            .references(() => Destination.id),
+        destination_id: text('destination_id')
+            .notNull()
+            .references(() => Destination.id),
+        vehicle_no: text('vehicle_no').notNull().default(''),
+        driver_name: text('driver_name').notNull().default(''),
+        note: text('note'),
+        created_at: timestamp('created_at', { withTimezone: true }).notNull().defaultNow(),
+        updated_at: timestamp('updated_at', { withTimezone: true })
+            .notNull()
+            .defaultNow()
+            .$onUpdate(() => new Date()),
+    },
+    (table) => [
+        index('challan_source_id_idx').on(table.source_id),
+        index('challan_destination_id_idx').on(table.destination_id),
     ],
 );
 
@@ -200,6 +414,185 @@ export const EntityVariantWarehouse = pgTable(
     (table) => [index('entity_variant_warehouse_entity_id_idx').on(table.entity_id)],
 );
 
+// Minimum stock of a godown item, or of one variant of it, at a destination.
+// Stock below `min_quantity` shows up as low stock; `reorder_quantity` is how
+// much to order when it does. A level without a variant covers stock moved
+// without one. See `~/lib/stock`.
+export const StockLevel = pgTable(
+    'stock_level',
+    {
+        id: text('id')
+            .primaryKey()
+            .$defaultFn(() => 'slvl_' + createId()),
+        destination_id: text('destination_id')
+            .notNull()
+            .references(() => Destination.id, { onDelete: 'cascade' }),
+        entity_id: text('entity_id')
+            .notNull()
+            .references(() => EntityWarehouse.id, { onDelete: 'cascade' }),
+        entity_variant_id: text('entity_variant_id').references(() => EntityVariantWarehouse.id, {
+            onDelete: 'cascade',
+        }),
+        min_quantity: numeric('min_quantity', { precision: 18, scale: 6 }).notNull(),
+        reorder_quantity: numeric('reorder_quantity', { precision: 18, scale: 6 }),
+        created_at: timestamp('created_at', { withTimezone: true }).notNull().defaultNow(),
+        updated_at: timestamp('updated_at', { withTimezone: true })
+            .notNull()
+            .defaultNow()
+            .$onUpdate(() => new Date()),
+    },
+    (table) => [
+        index('stock_level_destination_id_idx').on(table.destination_id),
+        index('stock_level_entity_id_idx').on(table.entity_id),
+        uniqueIndex('stock_level_item_unique_idx').on(
+            table.destination_id,
+            table.entity_id,
+            sql`COALESCE(${table.entity_variant_id}, '')`,
+        ),
+    ],
+);
+
+// A goods receipt (GRN): material received from a vendor at a godown against
+// the vendor's invoice. Each line brings its stock in through a warehouse
+// transaction with only a destination and, when the receipt is booked as an
+// expense, links the expense transaction raised for it. See
+// `~/routes/destination/[id]/receipts`.
+export const GoodsReceipt = pgTable(
+    'goods_receipt',
+    {
+        id: text('id')
+            .primaryKey()
+            .$defaultFn(() => 'grn_' + createId()),
+        vendor_id: text('vendor_id')
+            .notNull()
+            .references(() => Vendor.id),
+        destination_id: text('destination_id')
+            .notNull()
+            .references(() => Destination.id),
+        invoice_no: text('invoice_no').notNull(),
+        received_at: timestamp('received_at', { withTimezone: true }).notNull(),
+        note: text('note'),
+        created_at: timestamp('created_at', { withTimezone: true }).notNull().defaultNow(),
+        updated_at: timestamp('updated_at', { withTimezone: true })
+            .notNull()
+            .defaultNow()
+            .$onUpdate(() => new Date()),
+    },
+    (table) => [
+        index('goods_receipt_destination_id_idx').on(table.destination_id),
+        uniqueIndex('goods_receipt_vendor_invoice_idx').on(table.vendor_id, table.invoice_no),
+    ],
+);
+
+export const GoodsReceiptLine = pgTable(
+    'goods_receipt_line',
+    {
+        id: text('id')
+            .primaryKey()
+            .$defaultFn(() => 'grnl_' + createId()),
+        receipt_id: text('receipt_id')
+            .notNull()
+            .references(() => GoodsReceipt.id, { onDelete: 'cascade' }),
+        entity_id: text('entity_id')
+            .notNull()
+            .references(() => EntityWarehouse.id),
+        entity_variant_id: text('entity_variant_id').references(() => EntityVariantWarehouse.id),
+        quantity: numeric('quantity', { precision: 18, scale: 6 }).notNull(),
+        // Per-unit rate in paise — see `~/lib/money`.
+        rate: bigint('rate', { mode: 'number' }).notNull(),
+        // Both cleared when the entry is purged; the receipt keeps the line.
+        warehouse_transaction_id: text('warehouse_transaction_id').references(() => WarehouseTransaction.id, {
+            onDelete: 'set null',
+        }),
+        transaction_id: text('transaction_id').references(() => Transaction.id, { onDelete: 'set null' }),
+        created_at: timestamp('created_at', { withTimezone: true }).notNull().defaultNow(),
+    },
+    (table) => [
+        index('goods_receipt_line_receipt_id_idx').on(table.receipt_id),
+        index('goods_receipt_line_warehouse_transaction_id_idx').on(table.warehouse_transaction_id),
+    ],
+);
+
+// One row per create, update or delete of a tracked row. `changes` maps each
+// touched column to its `{ before, after }` values; `site_id` is the site (or
+// godown) the row belongs to, when it has one. Actor name is copied so the
+// log still reads correctly after a user is removed.
+export const AuditLog = pgTable(
+    'audit_log',
+    {
+        id: text('id')
+            .primaryKey()
+            .$defaultFn(() => 'audit_' + createId()),
+        actor_id: text('actor_id').references(() => user.id, { onDelete: 'set null' }),
+        actor_name: text('actor_name').notNull().default(''),
+        table_name: text('table_name').notNull(),
+        row_id: text('row_id').notNull(),
+        action: auditActionEnum('action').notNull(),
+        site_id: text('site_id'),
+        changes: jsonb('changes').$type<Record<string, { before: unknown; after: unknown }>>().notNull(),
+        created_at: timestamp('created_at', { withTimezone: true }).notNull().defaultNow(),
+    },
+    (table) => [
+        index('audit_log_created_at_idx').on(table.created_at),
+        index('audit_log_actor_id_idx').on(table.actor_id),
+        index('audit_log_site_id_idx').on(table.site_id),
+        index('audit_log_row_idx').on(table.table_name, table.row_id),
+    ],
+);
+
+// Text a user typed in quick entry that fuzzy matching missed, mapped to the
+// item or site they picked from the suggestions instead. `alias` is stored
+// lower-cased with single spaces; `target_id` is an `entity` or `destination`
+// id depending on `kind`. Aliases with no `user_id` apply to everyone.
+export const EntryAlias = pgTable(
+    'entry_alias',
+    {
+        id: text('id')
+            .primaryKey()
+            .$defaultFn(() => 'alias_' + createId()),
+        alias: text('alias').notNull(),
+        kind: aliasKindEnum('kind').notNull(),
+        target_id: text('target_id').notNull(),
+        user_id: text('user_id').references(() => user.id, { onDelete: 'cascade' }),
+        created_at: timestamp('created_at', { withTimezone: true }).notNull().defaultNow(),
+        updated_at: timestamp('updated_at', { withTimezone: true })
+            .notNull()
+            .defaultNow()
+            .$onUpdate(() => new Date()),
+    },
+    (table) => [
+        index('entry_alias_lookup_idx').on(table.kind, table.alias),
+        index('entry_alias_user_id_idx').on(table.user_id),
+    ],
+);
+
+// Spending limit for a site over a date range (both ends inclusive). With a
+// `category` it covers only items of that `Entity.type`, otherwise all of the
+// site's spend. Expense entries warn once they would take spend past
+// `warn_percent` of `amount` (paise) — see `~/lib/budgets`.
+export const SiteBudget = pgTable(
+    'site_budget',
+    {
+        id: text('id')
+            .primaryKey()
+            .$defaultFn(() => 'budget_' + createId()),
+        site_id: text('site_id')
+            .notNull()
+            .references(() => Destination.id, { onDelete: 'cascade' }),
+        category: entityTypeEnum('category'),
+        amount: bigint('amount', { mode: 'number' }).notNull(),
+        start_date: date('start_date', { mode: 'string' }).notNull(),
+        end_date: date('end_date', { mode: 'string' }).notNull(),
+        warn_percent: integer('warn_percent').notNull().default(90),
+        created_at: timestamp('created_at', { withTimezone: true }).notNull().defaultNow(),
+        updated_at: timestamp('updated_at', { withTimezone: true })
+            .notNull()
+            .defaultNow()
+            .$onUpdate(() => new Date()),
+    },
+    (table) => [index('site_budget_site_id_idx').on(table.site_id)],
+);
+
 /// === AUTH Schema ===
 
 export const user = pgTable('user', {
@@ -0,0 +1,73 @@
+import { getTableName, type Table } from 'drizzle-orm';
+import { db } from '~/drizzle/client';
+import { AuditLog, AuditAction } from '~/drizzle/schema';
+import type { DbTransaction } from '~/lib/settlement';
+
+// ── Audit trail ────────────────────────────────────────────────────
+//
+// Every action that creates, edits or deletes a tracked row calls
+// `recordAudit` with the row as it was before and/or after, inside the same
+// database transaction as the change itself. Only the columns that differ are
+// stored, so an edit that touches nothing leaves no entry.
+
+export type AuditActor = { id: string; name: string };
+
+export type AuditChanges = Record<string, { before: unknown; after: unknown }>;
+
+export type AuditEntry = {
+    table: Table;
+    rowId: string;
+    siteId?: string | null;
+    /** Row before the change; omit for a create. */
+    before?: Record<string, unknown> | null;
+    /** Row after the change; omit for a delete. */
+    after?: Record<string, unknown> | null;
+    /** Defaults from which snapshots are given; set for soft deletes, restores and purges. */
+    action?: (typeof AuditAction)[number];
+};
+
+/** Bookkeeping columns that change on every write and say nothing about the edit. */
+const IGNORED_COLUMNS = new Set(['updated_at']);
+
+/** JSON-safe form of a column value, so dates and numerics compare and store consistently. */
+function normalize(value: unknown): unknown {
+    if (value instanceof Date) return value.toISOString();
+    return value ?? null;
+}
+
+/** Column-by-column diff of two row snapshots. Missing snapshots count as all-null. */
+export function diffRows(before?: Record<string, unknown> | null, after?: Record<string, unknown> | null) {
+    const changes: AuditChanges = {};
+    const keys = new Set([...Object.keys(before ?? {}), ...Object.keys(after ?? {})]);
+    for (const key of keys) {
+        if (IGNORED_COLUMNS.has(key)) continue;
+        const from = normalize(before?.[key]);
+        const to = normalize(after?.[key]);
+        if (JSON.stringify(from) !== JSON.stringify(to)) changes[key] = { before: from, after: to };
+    }
+    return changes;
+}
+
+function actionFor(entry: AuditEntry): (typeof AuditAction)[number] {
+    if (entry.action) return entry.action;
+    if (!entry.before) return 'create';
+    if (!entry.after) return 'delete';
+    return 'update';
+}
+
+/** Write one audit row per entry. Updates with no column changes are skipped. */
+export async function recordAudit(executor: typeof db | DbTransaction, actor: AuditActor, entries: AuditEntry[]) {
+    const rows = entries
+        .map((entry) => ({
+            actor_id: actor.id,
+            actor_name: actor.name,
+            table_name: getTableName(entry.table),
+            row_id: entry.rowId,
+            action: actionFor(entry),
+            site_id: entry.siteId ?? null,
+            changes: diffRows(entry.before, entry.after),
+        }))
+        .filter((row) => row.action !== 'update' || Object.keys(row.changes).length > 0);
+
+    if (rows.length > 0) await executor.insert(AuditLog).values(rows);
+}
@@ -0,0 +1,125 @@
+import { describe, expect, it } from 'vitest';
+import { budgetLabel, budgetWarnings, burnDown, entrySpend, type BudgetUsage } from '~/lib/budgets';
+
+const budget = (overrides: Partial<BudgetUsage> = {}): BudgetUsage => ({
+    id: 'b1',
+    category: null,
+    amount: 100_000,
+    start_date: '2026-03-01',
+    end_date: '2026-03-31',
+    warn_percent: 80,
+    spent: 70_000,
+    ...overrides,
+});
+
+const entry = (spend: number, date = '2026-03-10', category: 'payroll' | 'cash' | null = 'cash') => ({
+    category,
+    date,
+    spend,
+});
+
+describe('entrySpend', () => {
+    it('counts inward entries up and outward ones down, as the ledger total does', () => {
+        expect(entrySpend('credit', 'pending', 5_000)).toBe(5_000);
+        expect(entrySpend('debit', 'paid', 5_000)).toBe(-5_000);
+    });
+
+    it('leaves advances out', () => {
+        expect(entrySpend('credit', 'advance', 5_000)).toBe(0);
+    });
+});
+
+describe('budgetLabel', () => {
+    it('names the category or the overall budget', () => {
+        expect(budgetLabel('payroll')).toBe('Payroll items');
+        expect(budgetLabel(null)).toBe('Overall');
+    });
+});
+
+describe('budgetWarnings', () => {
+    it('is quiet below the warning threshold', () => {
+        expect(budgetWarnings([budget()], [entry(9_999)])).toEqual([]);
+    });
+
+    it('warns once spend reaches the threshold', () => {
+        expect(budgetWarnings([budget()], [entry(10_000)])).toEqual([
+            'Overall budget would be 80% used (₹800.00 of ₹1,000.00).',
+        ]);
+    });
+
+    it('rounds the share used down', () => {
+        expect(budgetWarnings([budget()], [entry(19_999)])).toEqual([
+            'Overall budget would be 89% used (₹899.99 of ₹1,000.00).',
+        ]);
+    });
+
+    it('warns at the limit itself and reports overspending past it', () => {
+        expect(budgetWarnings([budget()], [entry(30_000)])).toEqual([
+            'Overall budget would be 100% used (₹1,000.00 of ₹1,000.00).',
+        ]);
+        expect(budgetWarnings([budget()], [entry(30_001)])).toEqual([
+            'Overall budget of ₹1,000.00 would be overspent by ₹0.01.',
+        ]);
+    });
+
+    it('adds up several entries before comparing', () => {
+        expect(budgetWarnings([budget()], [entry(7_000), entry(6_000), entry(-3_000)])).toHaveLength(1);
+        expect(budgetWarnings([budget()], [entry(6_000), entry(-3_000)])).toEqual([]);
+    });
+
+    it('does not warn on entries that lower spend, even when already overspent', () => {
+        expect(budgetWarnings([budget({ spent: 150_000 })], [entry(-5_000)])).toEqual([]);
+    });
+
+    it('only counts entries in the budget period and category', () => {
+        const payroll = budget({ category: 'payroll', spent: 0, amount: 1_000 });
+        expect(budgetWarnings([payroll], [entry(5_000, '2026-03-10', 'cash')])).toEqual([]);
+        expect(budgetWarnings([payroll], [entry(5_000, '2026-04-01', 'payroll')])).toEqual([]);
+        expect(budgetWarnings([payroll], [entry(5_000, '2026-03-31', 'payroll')])).toEqual([
+            'Payroll items budget of ₹10.00 would be overspent by ₹40.00.',
+        ]);
+    });
+
+    it('warns for each budget the entries reach', () => {
+        const warnings = budgetWarnings(
+            [budget(), budget({ id: 'b2', category: 'cash', amount: 20_000, spent: 0, warn_percent: 50 })],
+            [entry(12_000)],
+        );
+        expect(warnings).toEqual([
+            'Overall budget would be 82% used (₹820.00 of ₹1,000.00).',
+            'Cash items budget would be 60% used (₹120.00 of ₹200.00).',
+        ]);
+    });
+});
+
+describe('burnDown', () => {
+    const shortBudget = budget({ amount: 400, start_date: '2026-03-01', end_date: '2026-03-04' });
+
+    it('takes each day’s spend off what remains, next to the even line down to zero', () => {
+        const daily = [
+            { date: '2026-03-02', spend: 150 },
+            { date: '2026-03-02', spend: 50 },
+            { date: '2026-03-03', spend: -20 },
+        ];
+        expect(burnDown(shortBudget, daily, '2026-03-03')).toEqual([
+            { date: '2026-03-01', remaining: 400, ideal: 300 },
+            { date: '2026-03-02', remaining: 200, ideal: 200 },
+            { date: '2026-03-03', remaining: 220, ideal: 100 },
+        ]);
+    });
+
+    it('stops at the end date and ignores spend outside the period', () => {
+        const daily = [
+            { date: '2026-02-28', spend: 999 },
+            { date: '2026-03-04', spend: 100 },
+            { date: '2026-03-05', spend: 999 },
+        ];
+        const points = burnDown(shortBudget, daily, '2026-06-01');
+        expect(points).toHaveLength(4);
+        expect(points.at(-1)).toEqual({ date: '2026-03-04', remaining: 300, ideal: 0 });
+    });
+
+    it('is empty before the budget starts', () => {
+        expect(burnDown(shortBudget, [], '2026-02-20')).toEqual([]);
+    });
+});
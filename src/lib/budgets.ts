@@ -0,0 +1,106 @@
+import type { EntityType } from '~/drizzle/schema';
+import { formatMoney, type Money } from '~/lib/money';
+
+// ── Site budgets ───────────────────────────────────────────────────
+//
+// A SiteBudget caps a site's spend over a date range, overall or for one item
+// category (`Entity.type`). Spend is the gross of inward (credit) entries
+// plus carting, less outward (debit) ones — the same sign as the ledger
+// total. Advances are left out: the bills that draw them down are counted
+// instead, so counting both would double up.
+
+export type BudgetCategory = (typeof EntityType)[number];
+
+export type Budget = {
+    id: string;
+    category: BudgetCategory | null;
+    /** Limit in paise. */
+    amount: Money;
+    /** YYYY-MM-DD, inclusive. */
+    start_date: string;
+    /** YYYY-MM-DD, inclusive. */
+    end_date: string;
+    warn_percent: number;
+};
+
+export type BudgetUsage = Budget & { spent: Money };
+
+/** A new entry's effect on a site's budgeted spend. */
+export type BudgetEntry = { category: BudgetCategory | null; date: string; spend: Money };
+
+export type BurnDownPoint = { date: string; remaining: Money; ideal: Money };
+
+const CATEGORY_LABELS: Record<BudgetCategory, string> = { payroll: 'Payroll', cash: 'Cash' };
+
+export function budgetLabel(category: BudgetCategory | null) {
+    return category ? `${CATEGORY_LABELS[category]} items` : 'Overall';
+}
+
+/** What one entry adds to budgeted spend (negative for outward entries, zero for advances). */
+export function entrySpend(type: 'credit' | 'debit', status: string, gross: Money): Money {
+    if (status === 'advance') return 0;
+    return type === 'credit' ? gross : -gross;
+}
+
+function covers(budget: Budget, entry: BudgetEntry) {
+    return (
+        entry.date >= budget.start_date &&
+        entry.date <= budget.end_date &&
+        (budget.category === null || budget.category === entry.category)
+    );
+}
+
+/**
+ * Warnings for the budgets that `entries` would take past their warning
+ * threshold or over their limit. Budgets the entries do not add to are
+ * skipped, so an already overspent site does not warn on every refund.
+ */
+export function budgetWarnings(budgets: BudgetUsage[], entries: BudgetEntry[]): string[] {
+    const warnings: string[] = [];
+    for (const budget of budgets) {
+        const added = entries.filter((e) => covers(budget, e)).reduce((sum, e) => sum + e.spend, 0);
+        if (added <= 0) continue;
+
+        const projected = budget.spent + added;
+        const label = `${budgetLabel(budget.category)} budget`;
+        const limit = formatMoney(budget.amount, { symbol: '₹' });
+        if (projected > budget.amount) {
+            warnings.push(
+                `${label} of ${limit} would be overspent by ${formatMoney(projected - budget.amount, { symbol: '₹' })}.`,
+            );
+        } else if (projected * 100 >= budget.amount * budget.warn_percent) {
+            const used = budget.amount > 0 ? Math.floor((projected * 100) / budget.amount) : 100;
+            warnings.push(`${label} would be ${used}% used (${formatMoney(projected, { symbol: '₹' })} of ${limit}).`);
+        }
+    }
+    return warnings;
+}
+
+const addDays = (date: string, days: number) => {
+    const d = new Date(`${date}T00:00:00Z`);
+    d.setUTCDate(d.getUTCDate() + days);
+    return d.toISOString().slice(0, 10);
+};
+
+/**
+ * Remaining budget at the end of each day from the start date up to `today`
+ * (or the end date, if earlier), next to the straight line from the full
+ * amount down to zero on the end date. `daily` is the spend per day, in any
+ * order; days outside the budget are ignored.
+ */
+export function burnDown(budget: Budget, daily: { date: string; spend: Money }[], today: string): BurnDownPoint[] {
+    const spendByDay = new Map<string, Money>();
+    for (const d of daily) spendByDay.set(d.date, (spendByDay.get(d.date) ?? 0) + d.spend);
+
+    let totalDays = 0;
+    while (addDays(budget.start_date, totalDays) <= budget.end_date) totalDays++;
+
+    const last = today < budget.end_date ? today : budget.end_date;
+    const points: BurnDownPoint[] = [];
+    let remaining = budget.amount;
+    for (let i = 0, date = budget.start_date; date <= last; i++, date = addDays(date, 1)) {
+        remaining -= spendByDay.get(date) ?? 0;
+        points.push({ date, remaining, ideal: Math.round((budget.amount * (totalDays - i - 1)) / totalDays) });
+    }
+    return points;
+}
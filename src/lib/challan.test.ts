@@ -0,0 +1,13 @@
+import { describe, expect, it } from 'vitest';
+import { challanNumber } from '~/lib/challan';
+
+describe('challanNumber', () => {
+    it('pads the number to five digits', () => {
+        expect(challanNumber(42)).toBe('CH-00042');
+        expect(challanNumber(1)).toBe('CH-00001');
+    });
+
+    it('keeps numbers past five digits whole', () => {
+        expect(challanNumber(123_456)).toBe('CH-123456');
+    });
+});
@@ -0,0 +1,69 @@
+import { alias } from 'drizzle-orm/pg-core';
+import { and, asc, eq, isNull } from 'drizzle-orm';
+import { db } from '~/drizzle/client';
+import { Challan, Destination, EntityVariantWarehouse, EntityWarehouse, WarehouseTransaction } from '~/drizzle/schema';
+import { variantLabel } from '~/lib/stock';
+
+// ── Challans ───────────────────────────────────────────────────────
+//
+// A delivery challan groups the transfers of one vehicle load. Each item on
+// it is an ordinary warehouse transaction (source → destination, with the
+// challan's id), so stock and the stock checks need no special handling;
+// deleting a line from the ledger simply drops it from the challan.
+
+export type ChallanLine = {
+    id: string;
+    entity_name: string;
+    entity_unit: string;
+    variant: string;
+    quantity: number;
+};
+
+/** "CH-00042" for challan number 42. */
+export const challanNumber = (challanNo: number) => `CH-${String(challanNo).padStart(5, '0')}`;
+
+const SourceDestination = alias(Destination, 'source_destination');
+const TargetDestination = alias(Destination, 'target_destination');
+
+/** A challan with its place names and current (not deleted) lines, or null if there is none. */
+export async function loadChallan(challanId: string) {
+    const [header] = await db
+        .select({
+            id: Challan.id,
+            challan_no: Challan.challan_no,
+            challan_date: Challan.challan_date,
+            vehicle_no: Challan.vehicle_no,
+            driver_name: Challan.driver_name,
+            note: Challan.note,
+            source_id: Challan.source_id,
+            source_name: SourceDestination.name,
+            destination_id: Challan.destination_id,
+            destination_name: TargetDestination.name,
+        })
+        .from(Challan)
+        .innerJoin(SourceDestination, eq(SourceDestination.id, Challan.source_id))
+        .innerJoin(TargetDestination, eq(TargetDestination.id, Challan.destination_id))
+        .where(eq(Challan.id, challanId));
+    if (!header) return null;
+
+    const rows = await db
+        .select({
+            id: WarehouseTransaction.id,
+            entity_name: EntityWarehouse.name,
+            entity_unit: EntityWarehouse.unit,
+            variant: EntityVariantWarehouse,
+            quantity: WarehouseTransaction.quantity,
+        })
+        .from(WarehouseTransaction)
+        .innerJoin(EntityWarehouse, eq(EntityWarehouse.id, WarehouseTransaction.entity_id))
+        .leftJoin(EntityVariantWarehouse, eq(EntityVariantWarehouse.id, WarehouseTransaction.entity_variant_id))
+        .where(and(eq(WarehouseTransaction.challan_id, challanId), isNull(WarehouseTransaction.deleted_at)))
+        .orderBy(asc(EntityWarehouse.name));
+
+    const lines: ChallanLine[] = rows.map(({ variant, quantity, ...row }) => ({
+        ...row,
+        variant: variant ? variantLabel(variant) : '',
+        quantity: Number(quantity ?? 0),
+    }));
+    return { ...header, lines };
+}
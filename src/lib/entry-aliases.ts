@@ -0,0 +1,61 @@
+import { and, eq, isNull, or } from 'drizzle-orm';
+import { db } from '~/drizzle/client';
+import { Destination, Entity, EntryAlias, AliasKind } from '~/drizzle/schema';
+import { normalizeAlias, type LearnedAlias } from '~/lib/quick-entry-parser';
+
+// ── Learned aliases ────────────────────────────────────────────────
+//
+// When quick entry cannot match what a user typed and they pick one of the
+// suggestions, the typed text is saved as their alias for that item or site.
+// The parser checks aliases before fuzzy matching, so the same typo resolves
+// straight away next time. Admins can review aliases and make them global.
+
+export type AliasKindValue = (typeof AliasKind)[number];
+
+export function isAliasKind(value: string): value is AliasKindValue {
+    return (AliasKind as readonly string[]).includes(value);
+}
+
+/** Aliases that apply to `userId`: their own plus the global ones. */
+export function loadAliasesFor(userId: string): Promise<LearnedAlias[]> {
+    return db
+        .select({
+            alias: EntryAlias.alias,
+            kind: EntryAlias.kind,
+            target_id: EntryAlias.target_id,
+            user_id: EntryAlias.user_id,
+        })
+        .from(EntryAlias)
+        .where(or(eq(EntryAlias.user_id, userId), isNull(EntryAlias.user_id)));
+}
+
+/** Name of the item or site an alias points at, or null if it no longer exists. */
+export async function aliasTargetName(kind: AliasKindValue, targetId: string): Promise<string | null> {
+    const table = kind === 'entity' ? Entity : Destination;
+    const [row] = await db.select({ name: table.name }).from(table).where(eq(table.id, targetId));
+    return row?.name ?? null;
+}
+
+/**
+ * Save `text` as `userId`'s alias for `targetId`, retargeting an existing
+ * alias for the same text. Text that already equals the target's name is not
+ * worth keeping and is skipped.
+ */
+export async function saveAlias(userId: string, kind: AliasKindValue, text: string, targetId: string) {
+    const alias = normalizeAlias(text);
+    const targetName = await aliasTargetName(kind, targetId);
+    if (!alias || !targetName) return { error: 'Unknown alias target.' };
+    if (normalizeAlias(targetName) === alias) return { success: true };
+
+    const [existing] = await db
+        .select({ id: EntryAlias.id })
+        .from(EntryAlias)
+        .where(and(eq(EntryAlias.kind, kind), eq(EntryAlias.alias, alias), eq(EntryAlias.user_id, userId)));
+
+    if (existing) {
+        await db.update(EntryAlias).set({ target_id: targetId }).where(eq(EntryAlias.id, existing.id));
+    } else {
+        await db.insert(EntryAlias).values({ alias, kind, target_id: targetId, user_id: userId });
+    }
+    return { success: true };
+}
@@ -0,0 +1,42 @@
+import { serializeDateLocal } from '~/utils/dateUtils';
+
+// ── Entry dates ────────────────────────────────────────────────────
+//
+// An expense may be back-dated but not dated in the future, and never into a
+// period whose books have been closed. The closing date is configured with
+// BOOKS_LOCKED_UNTIL (YYYY-MM-DD, inclusive); the server hands it to the
+// browser with the form data so the quick-entry preview can warn early.
+
+const ISO_DATE = /^\d{4}-\d{2}-\d{2}$/;
+
+/** Last locked date, or null when no period is locked. Server only. */
+export function booksLockedUntil(): string | null {
+    const value = process.env.BOOKS_LOCKED_UNTIL?.trim();
+    return value && ISO_DATE.test(value) ? value : null;
+}
+
+/** `days` after (or before, if negative) `date`, as YYYY-MM-DD in local time. */
+export function shiftDate(date: Date, days: number): string {
+    const d = new Date(date);
+    d.setDate(d.getDate() + days);
+    return serializeDateLocal(d);
+}
+
+/**
+ * Error message for an entry date (YYYY-MM-DD) that is in the future or in a
+ * locked period, or null if it is fine. Dates compare as strings.
+ */
+export function checkEntryDate(date: string, lockedUntil: string | null, today = serializeDateLocal(new Date())) {
+    if (!ISO_DATE.test(date)) return `Date "${date}" is not a valid date.`;
+    if (date > today) return `Date ${date} is in the future.`;
+    if (lockedUntil && date <= lockedUntil) return `The books are closed up to ${lockedUntil}; pick a later date.`;
+    return null;
+}
+
+/**
+ * Server-side check. The browser may be a timezone ahead of the server, so
+ * "today" on the server is stretched by a day.
+ */
+export function checkEntryDateOnServer(date: string) {
+    return checkEntryDate(date, booksLockedUntil(), shiftDate(new Date(), 1));
+}
@@ -0,0 +1,121 @@
+import { describe, expect, it } from 'vitest';
+import { isImportable, MAX_IMPORT_ROWS, parseCsv, parseExpenseImport } from '~/lib/expense-import';
+import { QuickEntryParser } from '~/lib/quick-entry-parser';
+
+function makeParser() {
+    const parser = new QuickEntryParser();
+    parser.setEntities([
+        { id: 'cement', name: 'Cement', unit: 'bag', gst_rate: 28 },
+        { id: 'sand', name: 'Sand', unit: 'cft', gst_rate: 5 },
+    ]);
+    parser.setDestinations([{ id: 'site-1', name: 'Green Park' }]);
+    return parser;
+}
+
+const HEADER = 'date,item,variant,qty,rate,type,source,carting cost,vehicle,reg no,status,gst';
+
+describe('parseCsv', () => {
+    it('handles quoted commas, escaped quotes and embedded newlines', () => {
+        expect(parseCsv('a,"b, c","say ""hi""","two\nlines"\n')).toEqual([['a', 'b, c', 'say "hi"', 'two\nlines']]);
+    });
+
+    it('strips a BOM, accepts CRLF and drops blank lines', () => {
+        expect(parseCsv('\uFEFFx,y\r\n\r\n1,2\r\n,\r\n')).toEqual([
+            ['x', 'y'],
+            ['1', '2'],
+        ]);
+    });
+
+    it('keeps a last record without a trailing newline', () => {
+        expect(parseCsv('x,y\n1,2')).toEqual([
+            ['x', 'y'],
+            ['1', '2'],
+        ]);
+    });
+});
+
+describe('parseExpenseImport', () => {
+    it('resolves a complete row with money in paise and GST from the item', () => {
+        const csv = `${HEADER}\n15-01-2025,cemnt,,10,"1,500",debit,green park,@200,Tractor,MH12AB1234,pending,`;
+        const { rows, errors } = parseExpenseImport(csv, makeParser(), null);
+
+        expect(errors).toEqual([]);
+        expect(rows).toHaveLength(1);
+        const [row] = rows;
+        expect(row.errors).toEqual([]);
+        expect(isImportable(row)).toBe(true);
+        expect(row).toMatchObject({
+            line: 2,
+            date: '2025-01-15',
+            quantity: 10,
+            rate: 150_000,
+            amount: 1_500_000,
+            gstRate: 28,
+            gstSupply: 'intra',
+            tax: 420_000,
+            gross: 1_920_000,
+            transactionType: 'debit',
+            paymentStatus: 'pending',
+            transportCost: 20_000,
+            vehicleType: 'Tractor',
+            regNo: 'MH12AB1234',
+        });
+        expect(row.entity.match?.id).toBe('cement');
+        expect(row.source.match?.id).toBe('site-1');
+    });
+
+    it('accepts column aliases in any order and defaults type and status', () => {
+        const csv = 'Site,Quantity,Rate,Item,Date,GST Rate\nGreen Park,2,100,Sand,2025-02-01,igst18';
+        const [row] = parseExpenseImport(csv, makeParser(), null).rows;
+
+        expect(row.errors).toEqual([]);
+        expect(row).toMatchObject({
+            date: '2025-02-01',
+            transactionType: 'debit',
+            paymentStatus: 'paid',
+            gstRate: 18,
+            gstSupply: 'inter',
+        });
+    });
+
+    it('reports every problem on a row', () => {
+        const csv = `${HEADER}\n31-02-2025,Bricks,,-1,abc,loan,Nowhere,,,,owed,15`;
+        const [row] = parseExpenseImport(csv, makeParser(), null).rows;
+
+        expect(isImportable(row)).toBe(false);
+        expect(row.errors).toEqual([
+            'Date "31-02-2025" is not a valid date (use YYYY-MM-DD or DD-MM-YYYY).',
+            expect.stringMatching(/^Item "Bricks" not found\./),
+            expect.stringMatching(/^Source "Nowhere" not found\./),
+            'Quantity must be a positive number.',
+            'Rate must be a positive number or zero.',
+            'Type "loan" must be credit or debit.',
+            'Status "owed" must be one of paid, pending, advance.',
+            'GST "15" is not a valid rate (0, 5, 12, 18, 28).',
+        ]);
+    });
+
+    it('rejects rows dated in closed books', () => {
+        const csv = `${HEADER}\n2025-01-10,Sand,,1,100,,Green Park,,,,,`;
+        const [row] = parseExpenseImport(csv, makeParser(), '2025-01-31').rows;
+
+        expect(row.errors).toEqual(['The books are closed up to 2025-01-31; pick a later date.']);
+    });
+
+    it('refuses a file missing required columns', () => {
+        expect(parseExpenseImport('date,item,qty\n2025-01-10,Sand,1', makeParser(), null)).toEqual({
+            rows: [],
+            errors: ['Missing columns: rate, source.'],
+        });
+        expect(parseExpenseImport('', makeParser(), null).errors).toEqual(['The file is empty.']);
+    });
+
+    it('refuses a file with too many rows', () => {
+        const line = '2025-01-10,Sand,1,100,Green Park';
+        const csv = ['date,item,qty,rate,source', ...Array(MAX_IMPORT_ROWS + 1).fill(line)].join('\n');
+        const result = parseExpenseImport(csv, makeParser(), null);
+
+        expect(result.rows).toEqual([]);
+        expect(result.errors).toHaveLength(1);
+    });
+});
@@ -0,0 +1,289 @@
+import { PaymentStatus } from '~/drizzle/schema';
+import { checkEntryDate } from '~/lib/entry-date';
+import { computeGst, GST_RATES, isGstRate, type GstRate, type GstSupply } from '~/lib/gst';
+import { addMoney, multiplyMoney, parseMoney, type Money } from '~/lib/money';
+import { variantLabel, type MatchResult, type QuickEntryParser, type Variant } from '~/lib/quick-entry-parser';
+
+// ── CSV import ─────────────────────────────────────────────────────
+//
+// Turns a supervisor's CSV log into expense rows. Item, variant and source
+// names are resolved with the same fuzzy matching as quick entry, so
+// "cemnt" still finds "Cement". The same function runs in the browser for the
+// preview and on the server before committing, so both see identical rows.
+//
+// Expected header (case-insensitive, any order; gst is optional):
+//   date, item, variant, qty, rate, type, source, carting cost, vehicle, reg no, status, gst
+
+export const MAX_IMPORT_ROWS = 1000;
+
+export const IMPORT_COLUMNS = [
+    'date',
+    'item',
+    'variant',
+    'qty',
+    'rate',
+    'type',
+    'source',
+    'carting cost',
+    'vehicle',
+    'reg no',
+    'status',
+    'gst',
+] as const;
+
+export type ImportColumn = (typeof IMPORT_COLUMNS)[number];
+
+const REQUIRED_COLUMNS: ImportColumn[] = ['date', 'item', 'qty', 'rate', 'source'];
+
+/** Other spellings seen in the paper/Excel logs. */
+const COLUMN_ALIASES: Record<string, ImportColumn> = {
+    quantity: 'qty',
+    site: 'source',
+    from: 'source',
+    carting: 'carting cost',
+    'transport cost': 'carting cost',
+    'transportation cost': 'carting cost',
+    'vehicle type': 'vehicle',
+    'reg no.': 'reg no',
+    reg_no: 'reg no',
+    'registration no': 'reg no',
+    'payment status': 'status',
+    'gst rate': 'gst',
+};
+
+export type ImportRow = {
+    /** 1-based line number in the file, counting the header. */
+    line: number;
+    raw: Record<ImportColumn, string>;
+    /** Entry date as YYYY-MM-DD. */
+    date: string | null;
+    entity: { raw: string } & MatchResult;
+    variant: { raw: string; match: Variant | null; suggestions: string[] };
+    source: { raw: string } & MatchResult;
+    quantity: number | null;
+    /** Per-unit rate in paise. */
+    rate: Money | null;
+    /** Taxable value in paise. */
+    amount: Money | null;
+    gstRate: GstRate;
+    gstSupply: GstSupply;
+    tax: Money | null;
+    gross: Money | null;
+    transactionType: 'credit' | 'debit';
+    paymentStatus: (typeof PaymentStatus)[number];
+    /** Carting cost in paise; null when the column is blank. */
+    transportCost: Money | null;
+    vehicleType: string;
+    regNo: string;
+    errors: string[];
+};
+
+export type ImportResult = {
+    rows: ImportRow[];
+    /** File-level problems (missing columns, too many rows); no rows are importable when set. */
+    errors: string[];
+};
+
+/**
+ * Split CSV text into records. Handles quoted fields with embedded commas,
+ * quotes ("") and newlines, CRLF line endings and a UTF-8 BOM.
+ */
+export function parseCsv(text: string): string[][] {
+    const records: string[][] = [];
+    let record: string[] = [];
+    let field = '';
+    let quoted = false;
+    const src = text.replace(/^﻿/, '');
+
+    for (let i = 0; i < src.length; i++) {
+        const ch = src[i];
+        if (quoted) {
+            if (ch === '"' && src[i + 1] === '"') {
+                field += '"';
+                i++;
+            } else if (ch === '"') {
+                quoted = false;
+            } else {
+                field += ch;
+            }
+        } else if (ch === '"') {
+            quoted = true;
+        } else if (ch === ',') {
+            record.push(field);
+            field = '';
+        } else if (ch === '\n' || ch === '\r') {
+            if (ch === '\r' && src[i + 1] === '\n') i++;
+            record.push(field);
+            records.push(record);
+            record = [];
+            field = '';
+        } else {
+            field += ch;
+        }
+    }
+    if (field || record.length > 0) {
+        record.push(field);
+        records.push(record);
+    }
+
+    return records.filter((r) => r.some((cell) => cell.trim() !== ''));
+}
+
+function normalizeHeader(header: string): ImportColumn | null {
+    const key = header.trim().toLowerCase().replace(/\s+/g, ' ');
+    if ((IMPORT_COLUMNS as readonly string[]).includes(key)) return key as ImportColumn;
+    return COLUMN_ALIASES[key] ?? null;
+}
+
+/** Accepts YYYY-MM-DD, DD-MM-YYYY and DD/MM/YYYY, as typed in Indian spreadsheets. */
+function parseDate(raw: string): string | null {
+    const iso = raw.match(/^(\d{4})-(\d{1,2})-(\d{1,2})$/);
+    const dmy = raw.match(/^(\d{1,2})[-/.](\d{1,2})[-/.](\d{4})$/);
+    const [y, m, d] = iso ? [iso[1], iso[2], iso[3]] : dmy ? [dmy[3], dmy[2], dmy[1]] : [];
+    if (!y) return null;
+
+    const date = new Date(Date.UTC(Number(y), Number(m) - 1, Number(d)));
+    if (date.getUTCMonth() !== Number(m) - 1 || date.getUTCDate() !== Number(d)) return null;
+    return date.toISOString().split('T')[0];
+}
+
+/** "18", "18%", "gst18" → intra-state; "igst18" → inter-state. Blank → the item's default. */
+function parseGst(raw: string): { rate: number; supply: GstSupply } | null {
+    const m = raw.trim().match(/^(i?gst)?\s*(\d{1,2})\s*%?$/i);
+    if (!m) return null;
+    return { rate: Number(m[2]), supply: m[1]?.toLowerCase() === 'igst' ? 'inter' : 'intra' };
+}
+
+/** Money cells often carry thousands separators ("1,500") or the quick-entry "@". */
+function parseAmount(raw: string): Money | null {
+    return parseMoney(raw.replace(/^@|,/g, ''));
+}
+
+function didYouMean(result: MatchResult): string {
+    const names = result.suggestions.slice(0, 3).map((s) => s.name);
+    return names.length > 0 ? ` Did you mean ${names.join(', ')}?` : '';
+}
+
+function resolveRow(
+    line: number,
+    raw: Record<ImportColumn, string>,
+    parser: QuickEntryParser,
+    lockedUntil: string | null,
+): ImportRow {
+    const errors: string[] = [];
+
+    const date = raw.date ? parseDate(raw.date) : null;
+    if (!raw.date) errors.push('Date is missing.');
+    else if (!date) errors.push(`Date "${raw.date}" is not a valid date (use YYYY-MM-DD or DD-MM-YYYY).`);
+    else {
+        const dateError = checkEntryDate(date, lockedUntil);
+        if (dateError) errors.push(dateError);
+    }
+
+    const entity = { raw: raw.item, ...parser.matchEntity(raw.item) };
+    if (!raw.item) errors.push('Item is missing.');
+    else if (!entity.match) errors.push(`Item "${raw.item}" not found.${didYouMean(entity)}`);
+
+    let variantMatch: Variant | null = null;
+    let variantSuggestions: string[] = [];
+    if (raw.variant && entity.match) {
+        variantMatch = parser.matchVariant(raw.variant, entity.match.id);
+        if (!variantMatch) {
+            variantSuggestions = parser.variantsFor(entity.match.id).map(variantLabel).filter(Boolean);
+            errors.push(`Variant "${raw.variant}" not found for ${entity.match.name}.`);
+        }
+    }
+
+    const source = { raw: raw.source, ...parser.matchSource(raw.source) };
+    if (!raw.source) errors.push('Source is missing.');
+    else if (!source.match) errors.push(`Source "${raw.source}" not found.${didYouMean(source)}`);
+
+    const quantity = raw.qty ? Number.parseFloat(raw.qty) : null;
+    if (quantity === null || !Number.isFinite(quantity) || quantity <= 0) {
+        errors.push('Quantity must be a positive number.');
+    }
+
+    const rate = parseAmount(raw.rate);
+    if (rate === null || rate < 0) errors.push('Rate must be a positive number or zero.');
+
+    const type = raw.type.toLowerCase() || 'debit';
+    if (type !== 'credit' && type !== 'debit') errors.push(`Type "${raw.type}" must be credit or debit.`);
+    const transactionType = type === 'credit' ? 'credit' : 'debit';
+
+    const status = raw.status.toLowerCase() || 'paid';
+    const isStatus = (PaymentStatus as readonly string[]).includes(status);
+    if (!isStatus) errors.push(`Status "${raw.status}" must be one of ${PaymentStatus.join(', ')}.`);
+    const paymentStatus = isStatus ? (status as ImportRow['paymentStatus']) : 'paid';
+
+    const transportCost = raw['carting cost'] ? parseAmount(raw['carting cost']) : null;
+    if (raw['carting cost'] && (transportCost === null || transportCost < 0)) {
+        errors.push('Carting cost must be a positive number.');
+    }
+
+    const gst = raw.gst ? parseGst(raw.gst) : null;
+    if (raw.gst && (!gst || !isGstRate(gst.rate))) {
+        errors.push(`GST "${raw.gst}" is not a valid rate (${GST_RATES.join(', ')}).`);
+    }
+    const requestedRate = gst?.rate ?? entity.match?.gst_rate ?? 0;
+    const gstRate: GstRate = isGstRate(requestedRate) ? requestedRate : 0;
+    const gstSupply: GstSupply = gst?.supply ?? 'intra';
+
+    const amount =
+        quantity !== null && Number.isFinite(quantity) && rate !== null ? multiplyMoney(rate, quantity) : null;
+    const tax = amount !== null ? computeGst(amount, gstRate, gstSupply).tax : null;
+
+    return {
+        line,
+        raw,
+        date,
+        entity,
+        variant: { raw: raw.variant, match: variantMatch, suggestions: variantSuggestions },
+        source,
+        quantity,
+        rate,
+        amount,
+        gstRate,
+        gstSupply,
+        tax,
+        gross: amount !== null ? addMoney(amount, tax) : null,
+        transactionType,
+        paymentStatus,
+        transportCost,
+        vehicleType: raw.vehicle,
+        regNo: raw['reg no'],
+        errors,
+    };
+}
+
+/**
+ * Parse and resolve a whole CSV file. `parser` must already hold the entities,
+ * variants and destinations; rows dated on or before `lockedUntil` are rejected.
+ */
+export function parseExpenseImport(text: string, parser: QuickEntryParser, lockedUntil: string | null): ImportResult {
+    const [header, ...records] = parseCsv(text);
+    if (!header) return { rows: [], errors: ['The file is empty.'] };
+
+    const columns = header.map(normalizeHeader);
+    const missing = REQUIRED_COLUMNS.filter((c) => !columns.includes(c));
+    if (missing.length > 0) {
+        return { rows: [], errors: [`Missing column${missing.length > 1 ? 's' : ''}: ${missing.join(', ')}.`] };
+    }
+    if (records.length > MAX_IMPORT_ROWS) {
+        return {
+            rows: [],
+            errors: [`The file has ${records.length} rows; import at most ${MAX_IMPORT_ROWS} at a time.`],
+        };
+    }
+
+    const rows = records.map((record, i) => {
+        const raw = Object.fromEntries(IMPORT_COLUMNS.map((c) => [c, ''])) as Record<ImportColumn, string>;
+        columns.forEach((column, j) => {
+            if (column) raw[column] = (record[j] ?? '').trim();
+        });
+        return resolveRow(i + 2, raw, parser, lockedUntil);
+    });
+
+    return { rows, errors: [] };
+}
+
+export const isImportable = (row: ImportRow) => row.errors.length === 0;
@@ -0,0 +1,222 @@
+import { and, eq, isNotNull, isNull, lte, sql } from 'drizzle-orm';
+import { db } from '~/drizzle/client';
+import { PaymentStatus, Transaction, TransportationCost } from '~/drizzle/schema';
+import { checkEntryDateOnServer } from '~/lib/entry-date';
+import { recordAudit, type AuditActor, type AuditEntry } from '~/lib/audit';
+import { computeGst, parseGstFields, type GstRate, type GstSupply } from '~/lib/gst';
+import { multiplyMoney, parseMoney, type Money } from '~/lib/money';
+import { checkRate, RATE_HISTORY_SIZE, rateWarningPercent, type RateHistory } from '~/lib/rate-memory';
+import { applyAdvances, settleTransport, type DbTransaction } from '~/lib/settlement';
+import { resolveVehicle } from '~/lib/transport';
+
+// ── Expense entry ──────────────────────────────────────────────────
+//
+// The single write path for a new expense transaction, shared by the expense
+// form, quick entry and CSV import so that every entry is priced, taxed,
+// audited and drawn against advances the same way.
+
+export type ExpenseInput = {
+    entityId: string;
+    entityVariantId: string | null;
+    sourceId: string;
+    vendorId: string | null;
+    paymentStatus: (typeof PaymentStatus)[number];
+    transactionType: 'credit' | 'debit';
+    quantity: number;
+    /** Per-unit rate in paise. */
+    rate: Money;
+    gst: { rate: GstRate; supply: GstSupply };
+    date: Date | null;
+    /** `loadTonnes` is the weight carried, when known. */
+    transport: { vehicleType: string; regNo: string; cost: Money; loadTonnes: number | null } | null;
+};
+
+/**
+ * Read and validate the expense form fields (as posted by the expense form or
+ * built by `QuickEntryParser.toFormData`). `get` returns the raw value of a
+ * field, or null when it is absent.
+ */
+export function readExpenseFields(get: (key: string) => string | null): { input: ExpenseInput } | { error: string } {
+    const getStringField = (key: string) => get(key)?.trim() ?? '';
+    const getNumericField = (key: string) => {
+        const val = get(key)?.trim();
+        return val ? Number.parseFloat(val) : null;
+    };
+
+    const entityId = getStringField('entity_id');
+    const quantity = getNumericField('quantity');
+    const rate = parseMoney(getStringField('rate'));
+    const paymentStatus = getStringField('payment_status') as (typeof PaymentStatus)[number];
+    const sourceId = getStringField('source_id');
+    const transactionType = getStringField('transaction_type');
+    const dateStr = getStringField('date');
+    const gst = parseGstFields(getStringField('gst_rate'), getStringField('gst_supply'));
+
+    if (!entityId || !paymentStatus || !sourceId) return { error: 'Missing required fields.' };
+    if (!PaymentStatus.includes(paymentStatus)) return { error: 'Invalid payment status.' };
+    if (transactionType !== 'credit' && transactionType !== 'debit') return { error: 'Invalid transaction type.' };
+    if (quantity === null || quantity <= 0) return { error: 'Quantity must be a positive number.' };
+    if (rate === null || rate < 0) return { error: 'Rate must be a positive number or zero.' };
+    if (!gst) return { error: 'Invalid GST rate.' };
+    if (dateStr) {
+        const dateError = checkEntryDateOnServer(dateStr);
+        if (dateError) return { error: dateError };
+    }
+
+    const transportationCost =
+        get('add_transportation_cost') === 'on' ? parseMoney(getStringField('transportation_cost')) : null;
+    const loadTonnes = transportationCost !== null ? getNumericField('load_tonnes') : null;
+    if (loadTonnes !== null && !(loadTonnes > 0)) return { error: 'Load must be a positive number of tonnes.' };
+
+    return {
+        input: {
+            entityId,
+            entityVariantId: getStringField('entity_variant_id') || null,
+            sourceId,
+            vendorId: getStringField('vendor_id') || null,
+            paymentStatus,
+            transactionType,
+            quantity,
+            rate,
+            gst,
+            date: dateStr ? new Date(dateStr) : null,
+            transport:
+                transportationCost !== null
+                    ? {
+                          vehicleType: getStringField('vehicle_type'),
+                          regNo: getStringField('reg_no'),
+                          cost: transportationCost,
+                          loadTonnes,
+                      }
+                    : null,
+        },
+    };
+}
+
+/**
+ * Insert one expense (and its transport cost) inside `tx`. A pending debit
+ * bill immediately draws down the source's unadjusted advances. Returns the
+ * new transaction id and the amount adjusted from advances.
+ */
+export async function insertExpense(tx: DbTransaction, input: ExpenseInput, actor: AuditActor) {
+    const amount = multiplyMoney(input.rate, input.quantity);
+    const { cgst, sgst, igst } = computeGst(amount, input.gst.rate, input.gst.supply);
+    const audit: AuditEntry[] = [];
+
+    let transportationCostId: string | null = null;
+    if (input.transport && input.transport.cost > 0) {
+        const [tc] = await tx
+            .insert(TransportationCost)
+            .values({
+                entity_id: input.entityId,
+                vehicle_type: input.transport.vehicleType,
+                reg_no: input.transport.regNo,
+                vehicle_id: await resolveVehicle(tx, input.transport),
+                cost: input.transport.cost,
+                load_tonnes: input.transport.loadTonnes === null ? null : String(input.transport.loadTonnes),
+            })
+            .returning();
+        transportationCostId = tc.id;
+        audit.push({ table: TransportationCost, rowId: tc.id, siteId: input.sourceId, after: tc });
+    }
+
+    const [inserted] = await tx
+        .insert(Transaction)
+        .values({
+            entity_id: input.entityId,
+            entity_variant_id: input.entityVariantId,
+            source_id: input.sourceId,
+            vendor_id: input.vendorId,
+            payment_status: input.paymentStatus,
+            transportation_cost_id: transportationCostId,
+            quantity: String(input.quantity),
+            type: input.transactionType,
+            rate: input.rate,
+            amount,
+            gst_rate: input.gst.rate,
+            cgst,
+            sgst,
+            igst,
+            ...(input.date ? { created_at: input.date } : {}),
+        })
+        .returning();
+    audit.push({ table: Transaction, rowId: inserted.id, siteId: input.sourceId, after: inserted });
+    await recordAudit(tx, actor, audit);
+
+    // A pending bill draws down any unadjusted advance for the same source
+    const advanceAdjusted =
+        input.transactionType === 'debit' && input.paymentStatus === 'pending'
+            ? await applyAdvances(tx, input.sourceId, inserted.id)
+            : 0;
+    if (input.paymentStatus !== 'pending') await settleTransport(tx, [inserted.id]);
+
+    return { id: inserted.id, advanceAdjusted };
+}
+
+/**
+ * The last `RATE_HISTORY_SIZE` rates of every item + variant + source (or of
+ * just the one given), newest first. Deleted transactions are ignored.
+ */
+export async function loadRateHistory(
+    only?: Pick<ExpenseInput, 'entityId' | 'entityVariantId' | 'sourceId'>,
+): Promise<RateHistory[]> {
+    const ranked = db
+        .select({
+            entity_id: sql<string>`${Transaction.entity_id}`.as('entity_id'),
+            entity_variant_id: Transaction.entity_variant_id,
+            source_id: sql<string>`${Transaction.source_id}`.as('source_id'),
+            rate: sql<number>`${Transaction.rate}`.mapWith(Number).as('rate'),
+            rank: sql<number>`row_number() over (partition by ${Transaction.entity_id}, ${Transaction.entity_variant_id}, ${Transaction.source_id} order by ${Transaction.created_at} desc)`.as(
+                'rank',
+            ),
+        })
+        .from(Transaction)
+        .where(
+            and(
+                isNull(Transaction.deleted_at),
+                isNotNull(Transaction.entity_id),
+                isNotNull(Transaction.source_id),
+                isNotNull(Transaction.rate),
+                only && eq(Transaction.entity_id, only.entityId),
+                only &&
+                    (only.entityVariantId
+                        ? eq(Transaction.entity_variant_id, only.entityVariantId)
+                        : isNull(Transaction.entity_variant_id)),
+                only && eq(Transaction.source_id, only.sourceId),
+            ),
+        )
+        .as('ranked');
+
+    const rows = await db
+        .select()
+        .from(ranked)
+        .where(lte(ranked.rank, RATE_HISTORY_SIZE))
+        .orderBy(ranked.entity_id, ranked.entity_variant_id, ranked.source_id, ranked.rank);
+
+    const histories: RateHistory[] = [];
+    for (const row of rows) {
+        const last = histories.at(-1);
+        if (
+            last &&
+            last.entity_id === row.entity_id &&
+            last.entity_variant_id === row.entity_variant_id &&
+            last.source_id === row.source_id
+        ) {
+            last.rates.push(row.rate);
+        } else {
+            histories.push({
+                entity_id: row.entity_id,
+                entity_variant_id: row.entity_variant_id,
+                source_id: row.source_id,
+                rates: [row.rate],
+            });
+        }
+    }
+    return histories;
+}
+
+/** Warning when the expense's rate is far from the recent average for its item and source, else null. */
+export async function checkExpenseRate(input: ExpenseInput): Promise<string | null> {
+    const [history] = await loadRateHistory(input);
+    return history ? checkRate(input.rate, history.rates, rateWarningPercent()) : null;
+}
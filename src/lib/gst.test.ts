@@ -0,0 +1,46 @@
+import { describe, expect, it } from 'vitest';
+import { computeGst, gstLabel, parseGstFields } from '~/lib/gst';
+
+describe('computeGst', () => {
+    it('splits an intra-state rate evenly into CGST and SGST', () => {
+        expect(computeGst(100_000, 18, 'intra')).toEqual({ cgst: 9_000, sgst: 9_000, igst: 0, tax: 18_000 });
+    });
+
+    it('charges the full rate as IGST across states', () => {
+        expect(computeGst(100_000, 18, 'inter')).toEqual({ cgst: 0, sgst: 0, igst: 18_000, tax: 18_000 });
+    });
+
+    it('rounds CGST and SGST separately to the nearest paisa', () => {
+        // 2.5% of 333 paise is 8.325 each, so the total tax is 16 rather than round(16.65) = 17
+        expect(computeGst(333, 5, 'intra')).toEqual({ cgst: 8, sgst: 8, igst: 0, tax: 16 });
+        expect(computeGst(333, 5, 'inter')).toEqual({ cgst: 0, sgst: 0, igst: 17, tax: 17 });
+    });
+
+    it('charges nothing at the zero rate', () => {
+        expect(computeGst(100_000, 0, 'intra').tax).toBe(0);
+        expect(computeGst(100_000, 0, 'inter').tax).toBe(0);
+    });
+});
+
+describe('parseGstFields', () => {
+    it('reads a known rate and defaults to intra-state supply', () => {
+        expect(parseGstFields('12', '')).toEqual({ rate: 12, supply: 'intra' });
+        expect(parseGstFields('28', 'inter')).toEqual({ rate: 28, supply: 'inter' });
+    });
+
+    it('treats a blank rate as no GST', () => {
+        expect(parseGstFields('', 'intra')).toEqual({ rate: 0, supply: 'intra' });
+    });
+
+    it('rejects a rate outside the GST slabs', () => {
+        expect(parseGstFields('15', 'intra')).toBeNull();
+    });
+});
+
+describe('gstLabel', () => {
+    it('names the tax by supply', () => {
+        expect(gstLabel(18, 'intra')).toBe('GST 18%');
+        expect(gstLabel(18, 'inter')).toBe('IGST 18%');
+        expect(gstLabel(0, 'inter')).toBe('No GST');
+    });
+});
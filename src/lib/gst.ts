@@ -0,0 +1,51 @@
+import type { Money } from '~/lib/money';
+
+// ── GST ────────────────────────────────────────────────────────────
+//
+// A purchase bill is taxed either within the state (CGST + SGST, each at half
+// the rate) or across states (IGST at the full rate). `Transaction.amount`
+// stays the taxable value; the tax components are stored next to it.
+
+export const GST_RATES = [0, 5, 12, 18, 28] as const;
+
+export type GstRate = (typeof GST_RATES)[number];
+
+/** `intra` = CGST + SGST, `inter` = IGST. */
+export type GstSupply = 'intra' | 'inter';
+
+export type GstBreakup = { cgst: Money; sgst: Money; igst: Money; tax: Money };
+
+export function isGstRate(value: number): value is GstRate {
+    return (GST_RATES as readonly number[]).includes(value);
+}
+
+/** Percentage of `taxable`, rounded to the nearest paisa. Half rates (2.5, 6, 9, 14) multiply exactly. */
+function percentOf(taxable: Money, percent: number): Money {
+    return Math.round((taxable * percent) / 100);
+}
+
+/**
+ * Split the tax on `taxable` into its components. CGST and SGST are each
+ * rounded separately, as they are printed on a tax invoice.
+ */
+export function computeGst(taxable: Money, rate: GstRate, supply: GstSupply): GstBreakup {
+    if (supply === 'inter') {
+        const igst = percentOf(taxable, rate);
+        return { cgst: 0, sgst: 0, igst, tax: igst };
+    }
+    const half = percentOf(taxable, rate / 2);
+    return { cgst: half, sgst: half, igst: 0, tax: half * 2 };
+}
+
+/** Label for a rate/supply pair, e.g. `"GST 18%"` or `"IGST 18%"`. */
+export function gstLabel(rate: number, supply: GstSupply): string {
+    if (rate === 0) return 'No GST';
+    return `${supply === 'inter' ? 'IGST' : 'GST'} ${rate}%`;
+}
+
+/** Read the `gst_rate` / `gst_supply` form fields. Returns `null` for a rate outside `GST_RATES`. */
+export function parseGstFields(rate: string, supply: string): { rate: GstRate; supply: GstSupply } | null {
+    const n = rate ? Number(rate) : 0;
+    if (!isGstRate(n)) return null;
+    return { rate: n, supply: supply === 'inter' ? 'inter' : 'intra' };
+}
@@ -0,0 +1,98 @@
+import { describe, expect, it } from 'vitest';
+import { addMoney, formatMoney, multiplyMoney, parseMoney, toRupees } from '~/lib/money';
+
+describe('parseMoney', () => {
+    it('reads rupee strings and numbers as paise', () => {
+        expect(parseMoney('380')).toBe(38_000);
+        expect(parseMoney('1234.50')).toBe(123_450);
+        expect(parseMoney(' 12.5 ')).toBe(1_250);
+        expect(parseMoney(12.5)).toBe(1_250);
+        expect(parseMoney('.75')).toBe(75);
+        expect(parseMoney('7.')).toBe(700);
+    });
+
+    it('rounds beyond the paisa half away from zero', () => {
+        expect(parseMoney('0.005')).toBe(1);
+        expect(parseMoney('0.004')).toBe(0);
+        expect(parseMoney('-0.005')).toBe(-1);
+        expect(parseMoney('-12.345')).toBe(-1_235);
+    });
+
+    it('keeps the paisa exact where floats would not', () => {
+        expect(parseMoney(0.1 + 0.2)).toBe(30);
+        expect(parseMoney('19.99')).toBe(1_999);
+    });
+
+    it('reads numbers that print in exponent form', () => {
+        expect(parseMoney(1e21)).toBe(1e23);
+        expect(parseMoney(5e-7)).toBe(0);
+    });
+
+    it('returns null for empty or non-numeric input', () => {
+        for (const value of [null, undefined, '', '   ', '.', '-', 'abc', '1,000', '12.5.0', Number.NaN, Infinity]) {
+            expect(parseMoney(value)).toBeNull();
+        }
+    });
+});
+
+describe('multiplyMoney', () => {
+    it('multiplies a rate by a quantity without float error', () => {
+        expect(multiplyMoney(10, 0.1 * 3)).toBe(3);
+        expect(multiplyMoney(38_000, 50)).toBe(1_900_000);
+        expect(multiplyMoney(38_000, '2.5')).toBe(95_000);
+    });
+
+    it('rounds to the nearest paisa, half away from zero', () => {
+        expect(multiplyMoney(333, 0.5)).toBe(167);
+        expect(multiplyMoney(-333, 0.5)).toBe(-167);
+        expect(multiplyMoney(100, '0.333333')).toBe(33);
+    });
+
+    it('reads quantities that print in exponent form', () => {
+        expect(multiplyMoney(100_000_000, 1e-6)).toBe(100);
+        expect(multiplyMoney(100_000_000, 5e-7)).toBe(100);
+        expect(multiplyMoney(100_000_000, 1.5e-6)).toBe(200);
+        expect(multiplyMoney(1, 1e21)).toBe(1e21);
+    });
+
+    it('treats an unreadable quantity as zero', () => {
+        expect(multiplyMoney(100, 'abc')).toBe(0);
+        expect(multiplyMoney(100, Number.NaN)).toBe(0);
+    });
+});
+
+describe('addMoney', () => {
+    it('adds amounts and skips missing ones', () => {
+        expect(addMoney(100, null, 250, undefined, -50)).toBe(300);
+        expect(addMoney()).toBe(0);
+    });
+});
+
+describe('toRupees', () => {
+    it('prints paise as rupees with two decimals', () => {
+        expect(toRupees(123_450)).toBe('1234.50');
+        expect(toRupees(5)).toBe('0.05');
+        expect(toRupees(-5)).toBe('-0.05');
+        expect(toRupees(null)).toBe('0.00');
+    });
+});
+
+describe('formatMoney', () => {
+    it('groups rupees the Indian way', () => {
+        expect(formatMoney(0)).toBe('Rs 0.00');
+        expect(formatMoney(99_999)).toBe('Rs 999.99');
+        expect(formatMoney(123_450)).toBe('Rs 1,234.50');
+        expect(formatMoney(12_345_678)).toBe('Rs 1,23,456.78');
+        expect(formatMoney(1_234_567_890)).toBe('Rs 1,23,45,678.90');
+    });
+
+    it('puts the sign before the symbol', () => {
+        expect(formatMoney(-123_450)).toBe('-Rs 1,234.50');
+        expect(formatMoney(-5)).toBe('-Rs 0.05');
+    });
+
+    it('takes another symbol', () => {
+        expect(formatMoney(123_450, { symbol: '₹' })).toBe('₹1,234.50');
+        expect(formatMoney(123_450, { symbol: '' })).toBe('1,234.50');
+    });
+});
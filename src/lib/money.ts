@@ -0,0 +1,91 @@
+// ── Money ──────────────────────────────────────────────────────────
+//
+// All money is stored and computed as integer paise (₹1 = 100 paise).
+// Rupee strings from forms, the quick-entry parser and the database are
+// converted with `parseMoney` at the edge; everything in between adds and
+// multiplies integers so the ledger, the CSV export and the quick-entry
+// preview always arrive at the same total.
+
+/** Integer amount in paise. */
+export type Money = number;
+
+const PAISE_PER_RUPEE = 100n;
+
+/** Quantities are stored with 6 decimal places (see `Transaction.quantity`). */
+const QUANTITY_SCALE = 1_000_000n;
+
+/** Split a decimal string into an integer scaled by `scale` (e.g. "12.5", 100 → 1250n). Rounds half away from zero. */
+function toScaled(value: string, scale: bigint): bigint | null {
+    const m = value.trim().match(/^(-)?(\d*)(?:\.(\d*))?$/);
+    if (!m || (!m[2] && !m[3])) return null;
+
+    const digits = scale.toString().length - 1;
+    const whole = BigInt(m[2] || '0');
+    const frac = (m[3] ?? '').padEnd(digits + 1, '0');
+    let scaled = whole * scale + BigInt(frac.slice(0, digits) || '0');
+    if (Number(frac[digits]) >= 5) scaled += 1n;
+
+    return m[1] ? -scaled : scaled;
+}
+
+/** A number as plain decimal digits; `String` would give exponent form (`1e-7`) for very small or large values. */
+function numberToDecimal(value: number): string {
+    const m = String(value).match(/^(-?)(\d)(?:\.(\d+))?e([+-]\d+)$/);
+    if (!m) return String(value);
+    const digits = m[2] + (m[3] ?? '');
+    const exponent = Number(m[4]);
+    return exponent < 0
+        ? `${m[1]}0.${'0'.repeat(-exponent - 1)}${digits}`
+        : `${m[1]}${digits.padEnd(exponent + 1, '0')}`;
+}
+
+/**
+ * Parse a rupee amount (e.g. `"380"`, `"1234.50"`, `12.5`) into paise.
+ * Returns `null` for empty or non-numeric input.
+ */
+export function parseMoney(value: string | number | null | undefined): Money | null {
+    if (value == null) return null;
+    const str = typeof value === 'number' ? (Number.isFinite(value) ? numberToDecimal(value) : '') : value;
+    if (!str.trim()) return null;
+    const scaled = toScaled(str, PAISE_PER_RUPEE);
+    return scaled === null ? null : Number(scaled);
+}
+
+/** Sum any number of amounts, treating `null`/`undefined` as zero. */
+export function addMoney(...values: (Money | null | undefined)[]): Money {
+    return values.reduce<number>((sum, v) => sum + (v ?? 0), 0);
+}
+
+/**
+ * Multiply a per-unit rate by a quantity, rounding to the nearest paisa.
+ * The quantity is scaled to an integer first so `0.1 * 3` style float
+ * error never reaches the stored amount.
+ */
+export function multiplyMoney(rate: Money, quantity: string | number): Money {
+    const q = toScaled(typeof quantity === 'number' ? numberToDecimal(quantity) : quantity, QUANTITY_SCALE);
+    if (q === null) return 0;
+    const product = BigInt(rate) * q;
+    const half = product < 0n ? -QUANTITY_SCALE / 2n : QUANTITY_SCALE / 2n;
+    return Number((product + half) / QUANTITY_SCALE);
+}
+
+/** Paise → plain rupee string with two decimals (`123450` → `"1234.50"`), for inputs and CSV cells. */
+export function toRupees(value: Money | null | undefined): string {
+    const paise = BigInt(value ?? 0);
+    const sign = paise < 0n ? '-' : '';
+    const abs = paise < 0n ? -paise : paise;
+    const rupees = abs / PAISE_PER_RUPEE;
+    const rem = String(abs % PAISE_PER_RUPEE).padStart(2, '0');
+    return `${sign}${rupees}.${rem}`;
+}
+
+/** Paise → display string in Indian grouping (`123450` → `"Rs 1,234.50"`). */
+export function formatMoney(value: Money | null | undefined, opts: { symbol?: string } = {}): string {
+    const [whole, frac] = toRupees(value).split('.');
+    const sign = whole.startsWith('-') ? '-' : '';
+    const digits = sign ? whole.slice(1) : whole;
+    const last3 = digits.slice(-3);
+    const rest = digits.slice(0, -3);
+    const grouped = rest ? `${rest.replace(/\B(?=(\d{2})+(?!\d))/g, ',')},${last3}` : last3;
+    return `${sign}${opts.symbol ?? 'Rs '}${grouped}.${frac}`;
+}
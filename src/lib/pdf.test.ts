@@ -0,0 +1,83 @@
+import { describe, expect, it } from 'vitest';
+import { PdfDocument, pdfDate } from '~/lib/pdf';
+
+const asText = (bytes: Uint8Array) => Buffer.from(bytes).toString('latin1');
+
+/** The byte offset of every object listed in the cross-reference table. */
+function xrefOffsets(pdf: string) {
+    const xref = Number(pdf.match(/startxref\n(\d+)\n%%EOF\n$/)![1]);
+    const [, count] = pdf.slice(xref).match(/^xref\n0 (\d+)\n/)!;
+    return pdf
+        .slice(xref)
+        .split('\n')
+        .slice(3, 2 + Number(count))
+        .map((line) => Number(line.slice(0, 10)));
+}
+
+describe('PdfDocument', () => {
+    it('measures text with the Helvetica metrics', () => {
+        const doc = new PdfDocument('Test');
+
+        expect(doc.measure('Hi', 10)).toBeCloseTo(9.44);
+        expect(doc.measure('Hi', 10, 'bold')).toBeCloseTo(10);
+    });
+
+    it('cuts text that does not fit', () => {
+        const doc = new PdfDocument('Test');
+
+        expect(doc.fit('Cement', 100, 10)).toBe('Cement');
+        const cut = doc.fit('Ordinary Portland Cement 53 grade', 60, 10);
+        expect(cut).toMatch(/^Ordinary.*\.\.\.$/);
+        expect(doc.measure(cut, 10)).toBeLessThanOrEqual(60);
+    });
+
+    it('writes a well-formed file whose cross-reference points at each object', () => {
+        const doc = new PdfDocument('Voucher (copy)');
+        doc.heading('Expense voucher', 'Green Park');
+        doc.fields([['Amount', '₹1,500.00 → paid']]);
+        const pdf = asText(doc.toBytes());
+
+        expect(pdf.startsWith('%PDF-1.4\n')).toBe(true);
+        // Catalog, pages, two fonts, one page with its content, and the info dictionary
+        const offsets = xrefOffsets(pdf);
+        expect(offsets).toHaveLength(7);
+        offsets.forEach((offset, i) => expect(pdf.slice(offset)).toMatch(new RegExp(`^${i + 1} 0 obj\n`)));
+        expect(pdf).toContain('/Title (Voucher \\(copy\\))');
+        expect(pdf).toContain('(Rs 1,500.00 -> paid) Tj');
+        expect(pdf).toContain('(Voucher \\(copy\\) - Page 1 of 1) Tj');
+    });
+
+    it('gives each content stream its exact length', () => {
+        const doc = new PdfDocument('Test');
+        doc.heading('Title');
+        const pdf = asText(doc.toBytes());
+        const [, length, content] = pdf.match(/<< \/Length (\d+) >>\nstream\n([\s\S]*?)\nendstream/)!;
+
+        expect(content.length).toBe(Number(length));
+    });
+
+    it('runs a long table onto new pages, repeating its header', () => {
+        const doc = new PdfDocument('Statement');
+        const rows = Array.from({ length: 80 }, (_, i) => ({ cells: [`Entry ${i + 1}`, '100.00'] }));
+        doc.table(
+            [
+                { header: 'Item', weight: 3 },
+                { header: 'Amount', weight: 1, align: 'right' },
+            ],
+            rows,
+        );
+        const pdf = asText(doc.toBytes());
+        const pages = Number(pdf.match(/\/Count (\d+)/)![1]);
+
+        expect(pages).toBeGreaterThan(1);
+        expect(pdf.match(/\(Item\) Tj/g)).toHaveLength(pages);
+        expect(pdf).toContain('(Entry 80) Tj');
+        expect(pdf).toContain(`(Statement - Page ${pages} of ${pages}) Tj`);
+    });
+});
+
+describe('pdfDate', () => {
+    it('formats the UTC date as dd-mm-yyyy', () => {
+        expect(pdfDate(new Date(Date.UTC(2026, 2, 5, 23, 30)))).toBe('05-03-2026');
+    });
+});
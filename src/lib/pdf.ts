@@ -0,0 +1,301 @@
+// ── PDF ────────────────────────────────────────────────────────────
+//
+// A small PDF writer for the printable documents: expense vouchers, transfer
+// challans and ledger statements. Pages are A4 portrait and text is set in
+// Helvetica, one of the fonts every PDF reader has built in, so nothing is
+// embedded and no library or outside service is needed. Positions are in
+// points from the top-left corner of the page; `y` is the flow cursor that
+// `heading`, `fields` and `table` advance, starting a new page when full.
+//
+// Text is written in WinAnsi encoding: characters outside Latin-1 (such as
+// ₹ or →) are spelled out or replaced, so amounts use `formatMoney`'s "Rs".
+
+const PAGE_WIDTH = 595.28;
+const PAGE_HEIGHT = 841.89;
+const MARGIN = 40;
+const FOOTER_SIZE = 8;
+
+type Font = 'regular' | 'bold';
+
+export type TextOptions = {
+    size?: number;
+    font?: Font;
+    align?: 'left' | 'right' | 'center';
+    /** Gray level, 0 (black) to 1 (white). */
+    gray?: number;
+};
+
+export type PdfColumn = {
+    header: string;
+    /** Share of the page width, relative to the other columns. */
+    weight: number;
+    align?: 'left' | 'right';
+};
+
+export type PdfRow = { cells: string[]; bold?: boolean; shade?: boolean };
+
+// Advance widths (per 1000 units of font size) of the printable ASCII
+// characters, from the Adobe metrics for Helvetica and Helvetica-Bold.
+// prettier-ignore
+const WIDTHS: Record<Font, number[]> = {
+    regular: [
+        278, 278, 355, 556, 556, 889, 667, 191, 333, 333, 389, 584, 278, 333, 278, 278,
+        556, 556, 556, 556, 556, 556, 556, 556, 556, 556, 278, 278, 584, 584, 584, 556,
+        1015, 667, 667, 722, 722, 667, 611, 778, 722, 278, 500, 667, 556, 833, 722, 778,
+        667, 778, 722, 667, 611, 722, 667, 944, 667, 667, 611, 278, 278, 278, 469, 556,
+        333, 556, 556, 500, 556, 556, 278, 556, 556, 222, 222, 500, 222, 833, 556, 556,
+        556, 556, 333, 500, 278, 556, 500, 722, 500, 500, 500, 334, 260, 334, 584,
+    ],
+    bold: [
+        278, 333, 474, 556, 556, 889, 722, 238, 333, 333, 389, 584, 278, 333, 278, 278,
+        556, 556, 556, 556, 556, 556, 556, 556, 556, 556, 333, 333, 584, 584, 584, 611,
+        975, 722, 722, 722, 722, 667, 611, 778, 722, 278, 556, 722, 611, 833, 722, 778,
+        667, 778, 722, 667, 611, 722, 667, 944, 667, 667, 611, 333, 278, 333, 584, 556,
+        333, 556, 611, 556, 611, 556, 333, 611, 611, 278, 278, 556, 278, 889, 611, 611,
+        611, 611, 389, 556, 333, 611, 556, 778, 556, 556, 500, 389, 280, 389, 584,
+    ],
+};
+
+const REPLACEMENTS: Record<string, string> = {
+    '₹': 'Rs ',
+    '→': '->',
+    '−': '-',
+    '–': '-',
+    '—': '-',
+    '…': '...',
+    '‘': "'",
+    '’': "'",
+    '“': '"',
+    '”': '"',
+};
+
+/** `text` reduced to characters WinAnsi shares with Latin-1. */
+function toWinAnsi(text: string) {
+    let out = '';
+    for (const char of text) {
+        if (REPLACEMENTS[char]) out += REPLACEMENTS[char];
+        else if (char === '\n' || char === '\t') out += ' ';
+        else {
+            const code = char.charCodeAt(0);
+            out += (code >= 32 && code < 127) || (code >= 160 && code <= 255) ? char : '?';
+        }
+    }
+    return out;
+}
+
+const escapeString = (text: string) => text.replace(/[\\()]/g, (c) => `\\${c}`);
+const num = (value: number) => String(Math.round(value * 100) / 100);
+
+export class PdfDocument {
+    private pages: string[][] = [];
+    /** Top of the next line of flowed content. */
+    y = MARGIN;
+    readonly left = MARGIN;
+    readonly right = PAGE_WIDTH - MARGIN;
+
+    constructor(private readonly title: string) {
+        this.addPage();
+    }
+
+    get width() {
+        return this.right - this.left;
+    }
+
+    addPage() {
+        this.pages.push([]);
+        this.y = MARGIN;
+    }
+
+    /** Width of `text` in points. */
+    measure(text: string, size: number, font: Font = 'regular') {
+        let units = 0;
+        for (const char of toWinAnsi(text)) {
+            const code = char.charCodeAt(0);
+            units += code >= 32 && code < 127 ? WIDTHS[font][code - 32] : 556;
+        }
+        return (units * size) / 1000;
+    }
+
+    /** `text` cut short with "..." so that it fits in `width`. */
+    fit(text: string, width: number, size: number, font: Font = 'regular') {
+        if (this.measure(text, size, font) <= width) return text;
+        let cut = text;
+        while (cut && this.measure(`${cut}...`, size, font) > width) cut = cut.slice(0, -1);
+        return `${cut}...`;
+    }
+
+    /** Set one line of text with its top at `y`; `x` is the left, right or centre edge per `align`. */
+    text(text: string, x: number, y: number, opts: TextOptions = {}) {
+        const size = opts.size ?? 10;
+        const font = opts.font ?? 'regular';
+        const width = this.measure(text, size, font);
+        const left = opts.align === 'right' ? x - width : opts.align === 'center' ? x - width / 2 : x;
+        const baseline = PAGE_HEIGHT - y - size * 0.8;
+        this.page.push(
+            `BT ${num(opts.gray ?? 0)} g /${font === 'bold' ? 'F2' : 'F1'} ${num(size)} Tf ` +
+                `${num(left)} ${num(baseline)} Td (${escapeString(toWinAnsi(text))}) Tj ET`,
+        );
+    }
+
+    line(x1: number, y1: number, x2: number, y2: number, opts: { width?: number; gray?: number } = {}) {
+        this.page.push(
+            `${num(opts.gray ?? 0.75)} G ${num(opts.width ?? 0.5)} w ` +
+                `${num(x1)} ${num(PAGE_HEIGHT - y1)} m ${num(x2)} ${num(PAGE_HEIGHT - y2)} l S`,
+        );
+    }
+
+    /** A filled rectangle with its top-left corner at (`x`, `y`). */
+    fill(x: number, y: number, width: number, height: number, gray = 0.94) {
+        this.page.push(`${num(gray)} g ${num(x)} ${num(PAGE_HEIGHT - y - height)} ${num(width)} ${num(height)} re f`);
+    }
+
+    /** Start a new page unless `height` more points fit above the footer. */
+    ensureSpace(height: number) {
+        if (this.y + height <= PAGE_HEIGHT - MARGIN - FOOTER_SIZE * 2) return false;
+        this.addPage();
+        return true;
+    }
+
+    /** Document title, with an optional line under it and a rule below both. */
+    heading(title: string, subtitle?: string) {
+        this.text(title, this.left, this.y, { size: 18, font: 'bold' });
+        this.y += 24;
+        if (subtitle) {
+            this.text(subtitle, this.left, this.y, { size: 10, gray: 0.35 });
+            this.y += 16;
+        }
+        this.line(this.left, this.y, this.right, this.y);
+        this.y += 12;
+    }
+
+    /** Label/value pairs laid out in `columns` columns. */
+    fields(pairs: [label: string, value: string][], columns = 2) {
+        const columnWidth = this.width / columns;
+        for (let i = 0; i < pairs.length; i += columns) {
+            this.ensureSpace(28);
+            pairs.slice(i, i + columns).forEach(([label, value], j) => {
+                const x = this.left + j * columnWidth;
+                this.text(label.toUpperCase(), x, this.y, { size: 7, font: 'bold', gray: 0.45 });
+                this.text(this.fit(value, columnWidth - 12, 10), x, this.y + 10, { size: 10 });
+            });
+            this.y += 28;
+        }
+        this.y += 4;
+    }
+
+    /** A table whose header is repeated at the top of every page it runs onto. */
+    table(columns: PdfColumn[], rows: PdfRow[]) {
+        const total = columns.reduce((sum, c) => sum + c.weight, 0);
+        const widths = columns.map((c) => (c.weight / total) * this.width);
+        const rowHeight = 18;
+        const padding = 4;
+
+        const drawRow = (cells: string[], font: Font, shade: boolean) => {
+            if (shade) this.fill(this.left, this.y, this.width, rowHeight);
+            let x = this.left;
+            cells.forEach((cell, i) => {
+                const content = this.fit(cell, widths[i] - padding * 2, 9, font);
+                const right = columns[i].align === 'right';
+                this.text(content, right ? x + widths[i] - padding : x + padding, this.y + 5, {
+                    size: 9,
+                    font,
+                    align: right ? 'right' : 'left',
+                });
+                x += widths[i];
+            });
+            this.y += rowHeight;
+            this.line(this.left, this.y, this.right, this.y);
+        };
+        const drawHeader = () =>
+            drawRow(
+                columns.map((c) => c.header),
+                'bold',
+                true,
+            );
+
+        this.ensureSpace(rowHeight * 2);
+        drawHeader();
+        for (const row of rows) {
+            if (this.ensureSpace(rowHeight)) drawHeader();
+            drawRow(row.cells, row.bold ? 'bold' : 'regular', !!row.shade);
+        }
+        this.y += 12;
+    }
+
+    /** Lines for signatures at the foot of the document. */
+    signatures(labels: string[]) {
+        this.ensureSpace(60);
+        this.y += 40;
+        const width = this.width / labels.length;
+        labels.forEach((label, i) => {
+            const x = this.left + i * width;
+            this.line(x, this.y, x + width - 24, this.y, { gray: 0.5 });
+            this.text(label, x, this.y + 4, { size: 8, gray: 0.35 });
+        });
+        this.y += 20;
+    }
+
+    /** The finished file. */
+    toBytes() {
+        const count = this.pages.length;
+        const streams = this.pages.map((ops, i) => {
+            const footer = `${this.title} - Page ${i + 1} of ${count}`;
+            const y = PAGE_HEIGHT - MARGIN + FOOTER_SIZE;
+            const saved = this.pages;
+            this.pages = [[...ops]];
+            this.text(footer, PAGE_WIDTH / 2, y, { size: FOOTER_SIZE, align: 'center', gray: 0.5 });
+            const content = this.pages[0].join('\n');
+            this.pages = saved;
+            return content;
+        });
+
+        // Objects 1-4 are fixed; each page then takes two: the page and its content.
+        const objects = [
+            '<< /Type /Catalog /Pages 2 0 R >>',
+            `<< /Type /Pages /Kids [${streams.map((_, i) => `${5 + i * 2} 0 R`).join(' ')}] /Count ${count} >>`,
+            '<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica /Encoding /WinAnsiEncoding >>',
+            '<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica-Bold /Encoding /WinAnsiEncoding >>',
+        ];
+        streams.forEach((content, i) => {
+            objects.push(
+                `<< /Type /Page /Parent 2 0 R /MediaBox [0 0 ${PAGE_WIDTH} ${PAGE_HEIGHT}] ` +
+                    `/Resources << /Font << /F1 3 0 R /F2 4 0 R >> >> /Contents ${6 + i * 2} 0 R >>`,
+                `<< /Length ${content.length} >>\nstream\n${content}\nendstream`,
+            );
+        });
+        objects.push(`<< /Title (${escapeString(toWinAnsi(this.title))}) /Producer (Site Ledger) >>`);
+
+        // Every character is one byte in latin1, so string lengths are byte offsets.
+        let out = '%PDF-1.4\n%\xe2\xe3\xcf\xd3\n';
+        const offsets = objects.map((body, i) => {
+            const offset = out.length;
+            out += `${i + 1} 0 obj\n${body}\nendobj\n`;
+            return offset;
+        });
+        const xref = out.length;
+        out += `xref\n0 ${objects.length + 1}\n0000000000 65535 f \n`;
+        out += offsets.map((offset) => `${String(offset).padStart(10, '0')} 00000 n \n`).join('');
+        out += `trailer\n<< /Size ${objects.length + 1} /Root 1 0 R /Info ${objects.length} 0 R >>\n`;
+        out += `startxref\n${xref}\n%%EOF\n`;
+        return new Uint8Array(Buffer.from(out, 'latin1'));
+    }
+
+    private get page() {
+        return this.pages[this.pages.length - 1];
+    }
+}
+
+/** A date as dd-mm-yyyy, in UTC like the CSV export. */
+export function pdfDate(date: Date) {
+    const dd = String(date.getUTCDate()).padStart(2, '0');
+    const mm = String(date.getUTCMonth() + 1).padStart(2, '0');
+    return `${dd}-${mm}-${date.getUTCFullYear()}`;
+}
+
+/** Response headers for a PDF download named `filename`. */
+export function pdfHeaders(filename: string) {
+    return {
+        'Content-Type': 'application/pdf',
+        'Content-Disposition': `attachment; filename="${filename}"`,
+    };
+}
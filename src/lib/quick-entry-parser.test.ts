@@ -0,0 +1,151 @@
+import { describe, expect, it } from 'vitest';
+import { QuickEntryParser } from '~/lib/quick-entry-parser';
+
+// A Sunday, so weekday tokens resolve to the days before it
+const today = new Date(2026, 9, 18);
+
+function makeParser() {
+    const parser = new QuickEntryParser();
+    parser.setEntities([
+        { id: 'cement', name: 'Cement', unit: 'bag', gst_rate: 28 },
+        { id: 'sand', name: 'Sand', unit: 'cft', gst_rate: 5 },
+    ]);
+    parser.setDestinations([
+        { id: 'green-park', name: 'Green Park' },
+        { id: 'sun-city', name: 'Sun City' },
+    ]);
+    return parser;
+}
+
+describe('QuickEntryParser.parse', () => {
+    it('reads a full line with carting and status', () => {
+        const entry = makeParser().parse(
+            '10 cement @380 debit from green park carting @500 tractor MH12AB1234 pending',
+            today,
+        );
+
+        expect(entry).toMatchObject({
+            quantity: 10,
+            rate: 38_000,
+            amount: 380_000,
+            gstRate: 28,
+            gstSupply: 'intra',
+            tax: 106_400,
+            gross: 486_400,
+            transactionType: 'debit',
+            transportCost: 50_000,
+            vehicleType: 'tractor',
+            regNo: 'MH12AB1234',
+            paymentStatus: 'pending',
+            date: null,
+            complete: true,
+            errors: [],
+        });
+        expect(entry.entity.match?.id).toBe('cement');
+        expect(entry.source.match?.id).toBe('green-park');
+    });
+
+    it('takes an IGST token over the item default', () => {
+        const entry = makeParser().parse('5 sand @40 igst18 credit from sun city', today);
+
+        expect(entry).toMatchObject({ gstRate: 18, gstSupply: 'inter', tax: 3_600, transactionType: 'credit' });
+    });
+
+    it('is incomplete without a rate to use', () => {
+        const entry = makeParser().parse('5 sand debit from green park', today);
+
+        expect(entry.rate).toBeNull();
+        expect(entry.complete).toBe(false);
+    });
+});
+
+describe('QuickEntryParser.parse dates', () => {
+    const dateOf = (line: string, lockedUntil: string | null = null) => {
+        const parser = makeParser();
+        parser.setLockedUntil(lockedUntil);
+        return parser.parse(line, today);
+    };
+
+    it('reads relative dates', () => {
+        expect(dateOf('5 sand @40 from green park yesterday')).toMatchObject({
+            date: '2026-10-17',
+            dateRaw: 'yesterday',
+        });
+        expect(dateOf('5 sand @40 from green park today').date).toBe('2026-10-18');
+        expect(dateOf('5 sand @40 from green park -3d').date).toBe('2026-10-15');
+    });
+
+    it('reads ISO and day-first dates', () => {
+        expect(dateOf('5 sand @40 from green park 2026-03-12').date).toBe('2026-03-12');
+        expect(dateOf('5 sand @40 from green park 12/03/2026').date).toBe('2026-03-12');
+        expect(dateOf('5 sand @40 from green park on 12/3').date).toBe('2026-03-12');
+    });
+
+    it('puts a day-first date without a year more than a month ahead in last year', () => {
+        expect(dateOf('5 sand @40 from green park on 28/12').date).toBe('2025-12-28');
+    });
+
+    it('takes a weekday as the most recent one, today included', () => {
+        expect(dateOf('on fri 5 sand @40 from green park').date).toBe('2026-10-16');
+        expect(dateOf('sunday 5 sand @40 from green park').date).toBe('2026-10-18');
+        expect(dateOf('5 sand @40 from green park fri pending')).toMatchObject({
+            date: '2026-10-16',
+            paymentStatus: 'pending',
+        });
+    });
+
+    it('keeps a weekday inside a source name', () => {
+        const entry = dateOf('5 sand @40 from sun city');
+
+        expect(entry.date).toBeNull();
+        expect(entry.source.match?.id).toBe('sun-city');
+    });
+
+    it('rejects future and locked dates', () => {
+        const future = dateOf('5 sand @40 from green park 2026-10-20');
+        expect(future.complete).toBe(false);
+        expect(future.errors).toEqual(['Date 2026-10-20 is in the future']);
+
+        const locked = dateOf('5 sand @40 from green park 2026-03-12', '2026-03-31');
+        expect(locked.complete).toBe(false);
+        expect(locked.errors).toHaveLength(1);
+    });
+});
+
+describe('QuickEntryParser.parse in Hinglish', () => {
+    it('reads Hinglish keywords, units and statuses', () => {
+        const entry = makeParser().parse('30 bori cement @380 se green park bhada @200 udhaar', today);
+
+        expect(entry).toMatchObject({
+            quantity: 30,
+            unit: 'bag',
+            rate: 38_000,
+            transportCost: 20_000,
+            paymentStatus: 'pending',
+            complete: true,
+        });
+        expect(entry.source.match?.id).toBe('green-park');
+    });
+
+    it('reads Hinglish dates and the advance status', () => {
+        const entry = makeParser().parse('kal 5 sand @40 se green park peshgi', today);
+
+        expect(entry).toMatchObject({ date: '2026-10-17', dateRaw: 'kal', paymentStatus: 'advance' });
+    });
+
+    it('takes a trailing weekday before a Hinglish status', () => {
+        const entry = makeParser().parse('5 sand @40 se green park friday udhaar', today);
+
+        expect(entry).toMatchObject({ date: '2026-10-16', paymentStatus: 'pending' });
+        expect(entry.source.match?.id).toBe('green-park');
+    });
+
+    it('ignores the words of languages that are switched off', () => {
+        const parser = makeParser();
+        parser.setLanguages(['en']);
+        const entry = parser.parse('5 sand @40 from green park fri udhaar', today);
+
+        expect(entry.date).toBeNull();
+        expect(entry.paymentStatus).toBe('paid');
+    });
+});
@@ -1,8 +1,21 @@
 import { distance } from 'fastest-levenshtein';
+import { addMoney, multiplyMoney, parseMoney, toRupees, type Money } from '~/lib/money';
+import { computeGst, GST_RATES, isGstRate, type GstRate, type GstSupply } from '~/lib/gst';
+import { checkEntryDate, shiftDate } from '~/lib/entry-date';
+import { checkRate, indexRateHistory, rateKey, type RateHistory } from '~/lib/rate-memory';
+import { serializeDateLocal } from '~/utils/dateUtils';
+import {
+    ALL_LANGUAGES,
+    alternation,
+    canonicalUnit,
+    mergeVocabularies,
+    type Language,
+    type Vocabulary,
+} from '~/lib/quick-entry-vocabulary';
 
 // ── Types ──────────────────────────────────────────────────────────
 
-export type MatchableItem = { id: string; name: string; unit?: string };
+export type MatchableItem = { id: string; name: string; unit?: string | null; gst_rate?: number };
 
 export type Variant = {
     id: string;
@@ -20,31 +33,74 @@ export type MatchResult = {
     suggestions: MatchableItem[];
 };
 
+/** A learned alias: typed text that should resolve straight to an item or source. */
+export type LearnedAlias = {
+    alias: string;
+    kind: 'entity' | 'destination';
+    target_id: string;
+    /** Null for aliases that apply to everyone. */
+    user_id: string | null;
+};
+
 export type ParsedEntry = {
     quantity: number | null;
+    /** Canonical unit typed after the quantity ("30 bori cement" → `bag`), if any. */
+    unit: string | null;
     entity: { raw: string } & MatchResult;
     variant: { raw: string; match: Variant | null };
-    rate: number | null;
+    /** Per-unit rate in paise. */
+    rate: Money | null;
+    /** The line had no @rate, so `rate` is the last one remembered for this item and source. */
+    rateRemembered: boolean;
+    /** Set when the rate is far from the recent average; saving it needs the user's confirmation. */
+    rateWarning: string | null;
+    /** Taxable value `quantity * rate` in paise, exactly as `createExpense` will store it. */
+    amount: Money | null;
+    /** From a `gst18` / `igst18` token, else the matched item's default rate. */
+    gstRate: GstRate;
+    gstSupply: GstSupply;
+    /** Total GST in paise. */
+    tax: Money | null;
+    /** `amount + tax` in paise. */
+    gross: Money | null;
     transactionType: 'credit' | 'debit';
     source: { raw: string } & MatchResult;
-    transportCost: number | null;
+    /** Carting cost in paise. */
+    transportCost: Money | null;
     vehicleType: string;
     regNo: string;
     paymentStatus: 'paid' | 'pending' | 'advance';
+    /** Entry date (YYYY-MM-DD) from a date token; null when the line has none or it is invalid. */
+    date: string | null;
+    /** The date token as typed, e.g. "on 12/3" or "yesterday". */
+    dateRaw: string;
     complete: boolean;
     errors: string[];
 };
 
+/** One non-blank line of a multi-line paste. */
+export type ParsedLine = {
+    /** 0-based index of the line in the pasted text, blank lines included. */
+    index: number;
+    text: string;
+    entry: ParsedEntry;
+};
+
 // ── Segments ───────────────────────────────────────────────────────
 //
 // The input is split into ordered segments by these keyword boundaries:
 //
-//   {qty} {item} {variant?} @{rate} credit|debit from {source} carting @{cost} {vehicleType} {regNo} {status}
+//   {qty} {item} {variant?} @{rate} {gst?} credit|debit from {source} carting @{cost} {vehicleType} {regNo} {status}
 //
 // Everything is positional. Keywords: "from", "carting".
 // "@" always prefixes a number (rate or carting cost).
 // Transaction type (credit | debit) appears between @rate and "from".
 // Payment status (paid | pending | advance) at the very end.
+// Every keyword above also has Hindi/Hinglish equivalents ("se", "bhada",
+// "udhaar", ...); see `quick-entry-vocabulary.ts`.
+// The GST token (gst18 = CGST + SGST, igst18 = IGST) and the date token
+// (on 12/3, on 12/3/2026, 2026-03-12, today, yesterday, mon..sun, -2d) are the
+// exceptions: they are pulled out wherever they appear.
 
 type Segments = {
     core: string;           // "{qty} {item} {variant?} @{rate}"
@@ -52,76 +108,160 @@ type Segments = {
     source: string;         // text after "from" until "carting" or end
     carting: string;        // text after "carting" until status/end  → "@{cost} {vehicleType} {regNo}"
     status: 'paid' | 'pending' | 'advance';
+    gst: { rate: number; supply: GstSupply } | null;
+    date: { raw: string; date: string | null } | null;
 };
 
-function segment(input: string): Segments {
+function segment(input: string, today: Date, vocab: Vocabulary): Segments {
     let remaining = input.trim();
     let status: Segments['status'] = 'paid';
+    let gst: Segments['gst'] = null;
+
+    // Strip the date token from anywhere
+    const date = extractDate(remaining, today, vocab);
+    if (date) remaining = date.rest;
+
+    // Strip the GST token from anywhere
+    const gstRe = /\b(i?gst)\s*(\d{1,2})\b/i;
+    const gm = remaining.match(gstRe);
+    if (gm) {
+        gst = { rate: Number(gm[2]), supply: gm[1].toLowerCase() === 'igst' ? 'inter' : 'intra' };
+        remaining = (remaining.slice(0, gm.index) + ' ' + remaining.slice(gm.index! + gm[0].length))
+            .replace(/\s+/g, ' ')
+            .trim();
+    }
 
     // Strip trailing payment status
-    const statusRe = /\b(paid|pending|advance)\s*$/i;
+    const statusWords = [...vocab.paid, ...vocab.pending, ...vocab.advance];
+    const statusRe = new RegExp(`\\b(${alternation(statusWords)})\\s*$`, 'i');
     const sm = remaining.match(statusRe);
     if (sm) {
-        status = sm[1].toLowerCase() as Segments['status'];
+        const word = sm[1].toLowerCase();
+        status = vocab.pending.includes(word) ? 'pending' : vocab.advance.includes(word) ? 'advance' : 'paid';
         remaining = remaining.slice(0, sm.index).trim();
     }
 
     // Split by keyword boundaries (case-insensitive, word-boundary)
     // We walk left-to-right looking for "from", "carting"
-    const fromIdx = indexOfKeyword(remaining, 'from');
-    const cartingIdx = indexOfKeyword(remaining, 'carting', fromIdx >= 0 ? fromIdx + 4 : 0);
+    const from = findKeyword(remaining, vocab.from);
+    const cartingKw = findKeyword(remaining, vocab.carting, from ? from.end : 0);
 
     let core = '';
     let source = '';
     let carting = '';
 
-    if (fromIdx >= 0) {
-        const beforeFrom = remaining.slice(0, fromIdx).trim();
-        if (cartingIdx >= 0) {
-            source = remaining.slice(fromIdx + 4, cartingIdx).trim(); // len("from") = 4
-            carting = remaining.slice(cartingIdx + 7).trim();         // len("carting") = 7
+    if (from) {
+        const beforeFrom = remaining.slice(0, from.index).trim();
+        if (cartingKw) {
+            source = remaining.slice(from.end, cartingKw.index).trim();
+            carting = remaining.slice(cartingKw.end).trim();
         } else {
-            source = remaining.slice(fromIdx + 4).trim();
+            source = remaining.slice(from.end).trim();
         }
 
         // Extract credit|debit keyword between @rate and "from"
-        const typeRe = /\b(credit|debit)\b/i;
-        const tm = beforeFrom.match(typeRe);
-        let transactionType: 'credit' | 'debit' = 'debit';
-        if (tm) {
-            transactionType = tm[1].toLowerCase() as 'credit' | 'debit';
-            core = (beforeFrom.slice(0, tm.index) + beforeFrom.slice(tm.index! + tm[0].length)).trim();
-        } else {
-            core = beforeFrom;
-        }
+        const { transactionType, rest } = extractTransactionType(beforeFrom, vocab);
+        core = rest;
 
-        return { core, transactionType, source, carting, status };
+        return { core, transactionType, source, carting, status, gst, date: date && { raw: date.raw, date: date.date } };
     }
 
     // No "from" keyword — the whole thing is core, extract type if present
-    const typeRe = /\b(credit|debit)\b/i;
-    const tm = remaining.match(typeRe);
-    let transactionType: 'credit' | 'debit' = 'debit';
-    if (tm) {
-        transactionType = tm[1].toLowerCase() as 'credit' | 'debit';
-        core = (remaining.slice(0, tm.index) + remaining.slice(tm.index! + tm[0].length)).trim();
-    } else {
-        core = remaining;
+    const { transactionType, rest } = extractTransactionType(remaining, vocab);
+    core = rest;
+
+    return { core, transactionType, source, carting, status, gst, date: date && { raw: date.raw, date: date.date } };
+}
+
+// ── Dates ──────────────────────────────────────────────────────────
+
+const WEEKDAYS = ['sun', 'mon', 'tue', 'wed', 'thu', 'fri', 'sat'];
+
+/** YYYY-MM-DD for the given parts, or null if they do not form a real date. */
+function dateFromParts(year: number, month: number, day: number): string | null {
+    const d = new Date(year, month - 1, day);
+    if (d.getFullYear() !== year || d.getMonth() !== month - 1 || d.getDate() !== day) return null;
+    return serializeDateLocal(d);
+}
+
+/** The most recent `weekday` ("mon", "tue", ...), today included. */
+function weekdayOnOrBefore(today: Date, weekday: string): string {
+    return shiftDate(today, -((today.getDay() - WEEKDAYS.indexOf(weekday.toLowerCase()) + 7) % 7));
+}
+
+/**
+ * Find a date token and return it with the rest of the input. Day-first
+ * dates without a year take the current year, or last year if that would be
+ * more than a month ahead ("on 28/12" typed in January). Weekdays mean the
+ * most recent one, today included.
+ */
+function extractDate(input: string, today: Date, vocab: Vocabulary): { rest: string; raw: string; date: string | null } | null {
+    const todayStr = serializeDateLocal(today);
+    const statusWords = alternation([...vocab.paid, ...vocab.pending, ...vocab.advance]);
+    const rules: [RegExp, (m: RegExpMatchArray) => string | null][] = [
+        [/\b(?:on\s+)?(\d{4})-(\d{1,2})-(\d{1,2})\b/i, (m) => dateFromParts(+m[1], +m[2], +m[3])],
+        [
+            /\b(?:on\s+)?(\d{1,2})\/(\d{1,2})\/(\d{4})\b/i,
+            (m) => dateFromParts(+m[3], +m[2], +m[1]),
+        ],
+        [
+            /\bon\s+(\d{1,2})[/.-](\d{1,2})(?:[/.-](\d{2}))?\b/i,
+            (m) => {
+                if (m[3]) return dateFromParts(2000 + +m[3], +m[2], +m[1]);
+                const thisYear = dateFromParts(today.getFullYear(), +m[2], +m[1]);
+                if (!thisYear || thisYear <= shiftDate(today, 31)) return thisYear;
+                return dateFromParts(today.getFullYear() - 1, +m[2], +m[1]);
+            },
+        ],
+        [new RegExp(`\\b(?:on\\s+)?(?:${alternation(vocab.today)})\\b`, 'i'), () => todayStr],
+        [new RegExp(`\\b(?:on\\s+)?(?:${alternation(vocab.yesterday)})\\b`, 'i'), () => shiftDate(today, -1)],
+        // A bare weekday only at the start or end of the line, so "from Sun City" stays a source
+        [/\bon\s+(sun|mon|tue|wed|thu|fri|sat)(?:day)?\b/i, (m) => weekdayOnOrBefore(today, m[1])],
+        [/^(sun|mon|tue|wed|thu|fri|sat)(?:day)?\b/i, (m) => weekdayOnOrBefore(today, m[1])],
+        [
+            new RegExp(`\\b(sun|mon|tue|wed|thu|fri|sat)(?:day)?\\b(?=\\s*(?:${statusWords})?\\s*$)`, 'i'),
+            (m) => weekdayOnOrBefore(today, m[1]),
+        ],
+        [/(?:^|\s)-(\d{1,3})d\b/i, (m) => shiftDate(today, -Number(m[1]))],
+    ];
+
+    for (const [re, toDate] of rules) {
+        const m = input.match(re);
+        if (!m) continue;
+        const rest = (input.slice(0, m.index) + ' ' + input.slice(m.index! + m[0].length)).replace(/\s+/g, ' ').trim();
+        return { rest, raw: m[0].trim(), date: toDate(m) };
     }
+    return null;
+}
 
-    return { core, transactionType, source, carting, status };
+/** Pull the credit|debit keyword (or an alias) out of `text`. Defaults to debit. */
+function extractTransactionType(text: string, vocab: Vocabulary): { transactionType: 'credit' | 'debit'; rest: string } {
+    const typeRe = new RegExp(`\\b(${alternation([...vocab.credit, ...vocab.debit])})\\b`, 'i');
+    const tm = text.match(typeRe);
+    if (!tm) return { transactionType: 'debit', rest: text };
+    return {
+        transactionType: vocab.credit.includes(tm[1].toLowerCase()) ? 'credit' : 'debit',
+        rest: (text.slice(0, tm.index) + text.slice(tm.index! + tm[0].length)).trim(),
+    };
 }
 
-/** Find keyword at a word boundary, starting search from `start`. Returns -1 if not found. */
-function indexOfKeyword(text: string, keyword: string, start = 0): number {
-    const re = new RegExp(`\\b${keyword}\\b`, 'i');
-    const slice = text.slice(start);
-    const m = slice.match(re);
-    return m ? start + m.index! : -1;
+/**
+ * Find the first of `keywords` at a word boundary, starting search from `start`.
+ * Returns where the keyword starts and ends, or null if none is found.
+ */
+function findKeyword(text: string, keywords: string[], start = 0): { index: number; end: number } | null {
+    const re = new RegExp(`\\b(?:${alternation(keywords)})\\b`, 'i');
+    const m = text.slice(start).match(re);
+    return m ? { index: start + m.index!, end: start + m.index! + m[0].length } : null;
 }
 
 // ── Fuzzy search ───────────────────────────────────────────────────
 
+/** Form aliases are stored and looked up in: lower-case, single spaces. */
+export function normalizeAlias(text: string): string {
+    return text.trim().toLowerCase().replace(/\s+/g, ' ');
+}
+
 function fuzzySearch(query: string, items: MatchableItem[], limit = 5): MatchResult {
     const q = query.toLowerCase().trim();
     if (!q || items.length === 0) return { match: null, suggestions: [] };
@@ -157,7 +297,7 @@ function fuzzySearch(query: string, items: MatchableItem[], limit = 5): MatchRes
 // ── Variant matching ───────────────────────────────────────────────
 
 /** Build a human-readable label for a variant (e.g. "10x20x5 mm" or "T:2 mm") */
-function variantLabel(v: Variant): string {
+export function variantLabel(v: Variant): string {
     const fmt = (val: string | null) => {
         if (!val) return null;
         const n = parseFloat(val);
@@ -210,7 +350,8 @@ function matchVariant(raw: string, variants: Variant[], entityId: string): Varia
 // Parse "{qty} {item} {variant?} @{rate}" from the core segment.
 //
 // Strategy:
-// 1. First token must be a number (quantity).
+// 1. First token must be a number (quantity), optionally followed by a unit
+//    word from the vocabulary ("30 bori cement").
 // 2. Find the last "@{number}" → that's the rate.
 // 3. Everything between qty and @rate is "{item} {variant?}".
 // 4. To separate item from variant: try progressively shorter prefixes
@@ -219,13 +360,14 @@ function matchVariant(raw: string, variants: Variant[], entityId: string): Varia
 
 type CoreResult = {
     quantity: number | null;
+    unit: string | null;
     entityRaw: string;
     variantRaw: string;
-    rate: number | null;
+    rate: Money | null;
 };
 
-function parseCore(core: string): CoreResult {
-    const result: CoreResult = { quantity: null, entityRaw: '', variantRaw: '', rate: null };
+function parseCore(core: string, vocab: Vocabulary): CoreResult {
+    const result: CoreResult = { quantity: null, unit: null, entityRaw: '', variantRaw: '', rate: null };
     if (!core) return result;
 
     // Extract quantity from the start
@@ -235,10 +377,18 @@ function parseCore(core: string): CoreResult {
     result.quantity = parseFloat(qtyMatch[1]);
     let rest = core.slice(qtyMatch[0].length);
 
+    // A unit word right after the quantity, unless it is all that is left (then it is the item)
+    const unitMatch = rest.match(/^(\S+)\s+(?=\S)/);
+    const unit = unitMatch && canonicalUnit(unitMatch[1], vocab);
+    if (unit && !rest.slice(unitMatch[0].length).startsWith('@')) {
+        result.unit = unit;
+        rest = rest.slice(unitMatch[0].length);
+    }
+
     // Extract @rate from the end (or anywhere — last occurrence)
     const rateMatch = rest.match(/@(\d+(?:\.\d+)?)\s*$/);
     if (rateMatch) {
-        result.rate = parseFloat(rateMatch[1]);
+        result.rate = parseMoney(rateMatch[1]);
         rest = rest.slice(0, rateMatch.index).trim();
     } else {
         // Maybe they typed @ but no number yet
@@ -257,7 +407,7 @@ function parseCore(core: string): CoreResult {
  */
 function splitEntityVariant(
     combined: string,
-    entities: MatchableItem[],
+    search: (query: string) => MatchResult,
 ): { entityRaw: string; variantRaw: string; entityResult: MatchResult } {
     if (!combined) {
         return { entityRaw: '', variantRaw: '', entityResult: { match: null, suggestions: [] } };
@@ -268,7 +418,7 @@ function splitEntityVariant(
     // Try full string first, then progressively fewer tokens
     for (let n = tokens.length; n >= 1; n--) {
         const candidate = tokens.slice(0, n).join(' ');
-        const result = fuzzySearch(candidate, entities);
+        const result = search(candidate);
         if (result.match) {
             return {
                 entityRaw: candidate,
@@ -282,7 +432,7 @@ function splitEntityVariant(
     return {
         entityRaw: combined,
         variantRaw: '',
-        entityResult: fuzzySearch(combined, entities),
+        entityResult: search(combined),
     };
 }
 
@@ -291,7 +441,7 @@ function splitEntityVariant(
 // Format after "carting": "@{cost} {vehicleType?} {regNo?}"
 
 type CartingResult = {
-    cost: number | null;
+    cost: Money | null;
     vehicleType: string;
     regNo: string;
 };
@@ -304,7 +454,7 @@ function parseCarting(carting: string): CartingResult {
     const costMatch = carting.match(/@(\d+(?:\.\d+)?)/);
     if (!costMatch) return result;
 
-    result.cost = parseFloat(costMatch[1]);
+    result.cost = parseMoney(costMatch[1]);
     const rest = carting.slice(costMatch.index! + costMatch[0].length).trim();
 
     if (!rest) return result;
@@ -327,34 +477,98 @@ function parseCarting(carting: string): CartingResult {
     return result;
 }
 
+// ── Multi-line input ───────────────────────────────────────────────
+
+/** Drop a chat header ("[12/03, 10:15] Ramesh: ") and list bullets ("- ", "• ") before parsing. */
+function stripLinePrefix(line: string): string {
+    return line
+        .replace(/^\s*\[[^\]]*\]\s*[^:]*:\s*/, '')
+        .replace(/^\s*[-*•]\s+/, '')
+        .trim();
+}
+
 // ── Parser class ───────────────────────────────────────────────────
 
 export class QuickEntryParser {
     private entities: MatchableItem[] = [];
     private destinations: MatchableItem[] = [];
     private variants: Variant[] = [];
+    private lockedUntil: string | null = null;
+    private rates = new Map<string, Money[]>();
+    private rateWarningPercent = 25;
+    private vocab: Vocabulary = mergeVocabularies(ALL_LANGUAGES);
+    private aliases: Record<LearnedAlias['kind'], Map<string, string>> = { entity: new Map(), destination: new Map() };
 
     setEntities(entities: MatchableItem[]) { this.entities = entities; }
     setDestinations(destinations: MatchableItem[]) { this.destinations = destinations; }
     setVariants(variants: Variant[]) { this.variants = variants; }
+    setLockedUntil(date: string | null) { this.lockedUntil = date; }
+    /** Recent rates per item + variant + source, for pre-filling a missing @rate and flagging odd ones. */
+    setRateHistory(histories: RateHistory[], warningPercent: number) {
+        this.rates = indexRateHistory(histories);
+        this.rateWarningPercent = warningPercent;
+    }
+    /** Restrict the keywords and unit aliases to these languages (all of them by default). */
+    setLanguages(languages: Language[]) { this.vocab = mergeVocabularies(languages); }
+
+    /** Load learned aliases. A user's own alias wins over a global one for the same text. */
+    setAliases(aliases: LearnedAlias[]) {
+        this.aliases = { entity: new Map(), destination: new Map() };
+        const ordered = [...aliases.filter((a) => !a.user_id), ...aliases.filter((a) => a.user_id)];
+        for (const a of ordered) this.addAlias(a);
+    }
+
+    /** Remember one alias, e.g. right after the user accepts a suggestion. */
+    addAlias(alias: Pick<LearnedAlias, 'alias' | 'kind' | 'target_id'>) {
+        this.aliases[alias.kind].set(normalizeAlias(alias.alias), alias.target_id);
+    }
+
+    /** The merged keyword dictionary in use, for callers that rewrite parts of an input line. */
+    get vocabulary(): Vocabulary { return this.vocab; }
+
+    /** Fuzzy-match a single item name, the same way `parse` matches the item segment. */
+    matchEntity(raw: string): MatchResult { return this.search('entity', raw); }
+
+    /** Fuzzy-match a single source name, the same way `parse` matches the text after "from". */
+    matchSource(raw: string): MatchResult { return this.search('destination', raw); }
+
+    /** Match variant text such as "10x20" against the variants of `entityId`. */
+    matchVariant(raw: string, entityId: string): Variant | null { return matchVariant(raw, this.variants, entityId); }
+
+    /** Variants defined for `entityId`, for suggesting alternatives. */
+    variantsFor(entityId: string): Variant[] { return this.variants.filter((v) => v.entity_id === entityId); }
+
+    /** Learned aliases first, then Levenshtein matching. */
+    private search(kind: LearnedAlias['kind'], query: string): MatchResult {
+        const items = kind === 'entity' ? this.entities : this.destinations;
+        const targetId = this.aliases[kind].get(normalizeAlias(query));
+        const aliased = targetId ? items.find((i) => i.id === targetId) : undefined;
+        if (aliased) return { match: aliased, suggestions: [aliased] };
+        return fuzzySearch(query, items);
+    }
 
     /**
      * Parse a quick-entry string into structured data.
      *
      * Format:
-     *   {qty} {item} {variant?} @{rate} credit|debit from {source} carting @{cost} {vehicleType} {regNo} {paid|pending|advance}
+     *   {qty} {item} {variant?} @{rate} {gst18|igst18?} credit|debit from {source} carting @{cost} {vehicleType} {regNo} {paid|pending|advance}
+     * plus an optional date token anywhere (on 12/3, yesterday, mon, -2d, 2026-03-12).
+     * Keywords, statuses and units may also be given in Hinglish.
+     * Without an @rate, the last rate remembered for the item and source is used.
      *
      * Examples:
      *   30 cement @100 debit from site A
-     *   50 steel 10x20 @250 credit from depot carting @200 truck MH12AB1234 pending
+     *   50 steel 10x20 @250 gst18 credit from depot carting @200 truck MH12AB1234 pending
      *   10 sand @50 from quarry advance
+     *   20 bricks @8 from site B yesterday
+     *   30 bori cement @380 se site A udhaar
      */
-    parse(input: string): ParsedEntry {
-        const segments = segment(input);
+    parse(input: string, today = new Date()): ParsedEntry {
+        const segments = segment(input, today, this.vocab);
 
-        // Parse core: qty, entity+variant, rate
-        const core = parseCore(segments.core);
-        const { entityRaw, variantRaw, entityResult } = splitEntityVariant(core.entityRaw, this.entities);
+        // Parse core: qty, unit, entity+variant, rate
+        const core = parseCore(segments.core, this.vocab);
+        const { entityRaw, variantRaw, entityResult } = splitEntityVariant(core.entityRaw, (q) => this.search('entity', q));
 
         // Match variant if entity was found and variant text exists
         let variantMatch: Variant | null = null;
@@ -363,7 +577,7 @@ export class QuickEntryParser {
         }
 
         // Match source
-        const sourceResult = segments.source ? fuzzySearch(segments.source, this.destinations) : { match: null, suggestions: [] };
+        const sourceResult = segments.source ? this.search('destination', segments.source) : { match: null, suggestions: [] };
 
         // Parse carting
         const carting = parseCarting(segments.carting);
@@ -376,48 +590,102 @@ export class QuickEntryParser {
         if (variantRaw && entityResult.match && !variantMatch) {
             errors.push(`Variant "${variantRaw}" not found for ${entityResult.match.name}`);
         }
+        const entityUnit = canonicalUnit(entityResult.match?.unit, this.vocab);
+        if (core.unit && entityUnit && core.unit !== entityUnit) {
+            errors.push(`${entityResult.match!.name} is counted in ${entityResult.match!.unit}, not ${core.unit}`);
+        }
         if (segments.source && !sourceResult.match) {
             errors.push(`Source "${segments.source}" not found`);
         }
+        if (segments.gst && !isGstRate(segments.gst.rate)) {
+            errors.push(`GST ${segments.gst.rate}% is not a valid rate (${GST_RATES.join(', ')})`);
+        }
+        if (segments.date) {
+            const dateError = segments.date.date
+                ? checkEntryDate(segments.date.date, this.lockedUntil, serializeDateLocal(today))
+                : `Date "${segments.date.raw}" is not a valid date`;
+            if (dateError) errors.push(dateError.replace(/\.$/, ''));
+        }
+
+        // No @rate typed: fall back to the last rate for this item, variant and source
+        const recentRates =
+            entityResult.match && sourceResult.match
+                ? (this.rates.get(rateKey(entityResult.match.id, variantMatch?.id ?? null, sourceResult.match.id)) ?? [])
+                : [];
+        const rateRemembered = core.rate === null && recentRates.length > 0;
+        const rate = rateRemembered ? recentRates[0] : core.rate;
+        const rateWarning = rate !== null ? checkRate(rate, recentRates, this.rateWarningPercent) : null;
+
+        const defaultRate = entityResult.match?.gst_rate ?? 0;
+        const requestedRate = segments.gst?.rate ?? defaultRate;
+        const gstRate: GstRate = isGstRate(requestedRate) ? requestedRate : 0;
+        const gstSupply: GstSupply = segments.gst?.supply ?? 'intra';
+        const amount = core.quantity !== null && rate !== null ? multiplyMoney(rate, core.quantity) : null;
+        const tax = amount !== null ? computeGst(amount, gstRate, gstSupply).tax : null;
 
         const complete =
             core.quantity !== null && core.quantity > 0 &&
             !!entityResult.match &&
-            core.rate !== null && core.rate >= 0 &&
+            rate !== null && rate >= 0 &&
             !!sourceResult.match &&
             errors.length === 0;
 
         return {
             quantity: core.quantity,
+            unit: core.unit,
             entity: { raw: entityRaw, ...entityResult },
             variant: { raw: variantRaw, match: variantMatch },
-            rate: core.rate,
+            rate,
+            rateRemembered,
+            rateWarning,
+            amount,
+            gstRate,
+            gstSupply,
+            tax,
+            gross: amount !== null ? addMoney(amount, tax) : null,
             transactionType: segments.transactionType,
             source: { raw: segments.source, ...sourceResult },
             transportCost: carting.cost,
             vehicleType: carting.vehicleType,
             regNo: carting.regNo,
             paymentStatus: segments.status,
+            date: segments.date?.date ?? null,
+            dateRaw: segments.date?.raw ?? '',
             complete,
             errors,
         };
     }
 
+    /**
+     * Parse a multi-line paste (e.g. a WhatsApp message from site), one entry
+     * per line. Blank lines are skipped; list bullets and a leading
+     * "[date, time] Name:" chat header are ignored.
+     */
+    parseLines(input: string): ParsedLine[] {
+        return input
+            .split(/\r?\n/)
+            .map((text, index) => ({ index, text }))
+            .filter((line) => line.text.trim() !== '')
+            .map((line) => ({ ...line, entry: this.parse(stripLinePrefix(line.text)) }));
+    }
+
     /** Build FormData ready for the createExpense server action. */
     toFormData(entry: ParsedEntry): FormData {
         const fd = new FormData();
         fd.set('entity_id', entry.entity.match!.id);
         fd.set('entity_variant_id', entry.variant.match?.id ?? '');
         fd.set('quantity', String(entry.quantity));
-        fd.set('rate', String(entry.rate));
+        fd.set('rate', toRupees(entry.rate));
         fd.set('source_id', entry.source.match!.id);
         fd.set('transaction_type', entry.transactionType);
         fd.set('payment_status', entry.paymentStatus);
-        fd.set('date', new Date().toISOString().split('T')[0]);
+        fd.set('gst_rate', String(entry.gstRate));
+        fd.set('gst_supply', entry.gstSupply);
+        fd.set('date', entry.date ?? serializeDateLocal(new Date()));
 
         if (entry.transportCost !== null && entry.transportCost > 0) {
             fd.set('add_transportation_cost', 'on');
-            fd.set('transportation_cost', String(entry.transportCost));
+            fd.set('transportation_cost', toRupees(entry.transportCost));
             fd.set('vehicle_type', entry.vehicleType);
             fd.set('reg_no', entry.regNo);
         }
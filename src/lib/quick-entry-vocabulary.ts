@@ -0,0 +1,132 @@
+// ── Quick-entry vocabulary ─────────────────────────────────────────
+//
+// The words QuickEntryParser recognises, per language. Field staff mix
+// English with Hindi written in Latin script ("30 bori cement @380 se site A
+// udhaar"), so by default every language is merged and any of the words below
+// can be used in the same line. Keywords are matched case-insensitively as
+// whole words.
+
+export type Language = 'en' | 'hi';
+
+export type Vocabulary = {
+    /** Segment keyword before the source. */
+    from: string[];
+    /** Segment keyword before the carting details. */
+    carting: string[];
+    credit: string[];
+    debit: string[];
+    paid: string[];
+    pending: string[];
+    advance: string[];
+    today: string[];
+    yesterday: string[];
+    /** Unit words typed after the quantity, mapped to the canonical unit (e.g. `bori` → `bag`). */
+    units: Record<string, string>;
+};
+
+export const VOCABULARIES: Record<Language, Vocabulary> = {
+    en: {
+        from: ['from'],
+        carting: ['carting'],
+        credit: ['credit'],
+        debit: ['debit'],
+        paid: ['paid'],
+        pending: ['pending'],
+        advance: ['advance'],
+        today: ['today'],
+        yesterday: ['yesterday'],
+        units: {
+            bag: 'bag',
+            bags: 'bag',
+            pc: 'pcs',
+            pcs: 'pcs',
+            piece: 'pcs',
+            pieces: 'pcs',
+            nos: 'pcs',
+            kg: 'kg',
+            kgs: 'kg',
+            ton: 'ton',
+            tons: 'ton',
+            tonne: 'ton',
+            mt: 'ton',
+            brass: 'brass',
+            cft: 'cft',
+            sqft: 'sqft',
+            ft: 'ft',
+            feet: 'ft',
+            mtr: 'mtr',
+            meter: 'mtr',
+            metre: 'mtr',
+            ltr: 'ltr',
+            litre: 'ltr',
+            liter: 'ltr',
+            trip: 'trip',
+            trips: 'trip',
+        },
+    },
+    hi: {
+        from: ['se'],
+        carting: ['bhada', 'bhaada', 'kiraya'],
+        credit: ['aaya', 'aavak'],
+        debit: ['gaya', 'bheja', 'jaavak'],
+        paid: ['nakad', 'chukta'],
+        pending: ['udhaar', 'udhar', 'baaki', 'baki'],
+        advance: ['peshgi'],
+        today: ['aaj'],
+        // "kal" is also tomorrow, but entries are never future-dated
+        yesterday: ['kal'],
+        units: {
+            bori: 'bag',
+            bora: 'bag',
+            katta: 'bag',
+            nag: 'pcs',
+            adad: 'pcs',
+            kilo: 'kg',
+            tan: 'ton',
+            phera: 'trip',
+            gaadi: 'trip',
+        },
+    },
+};
+
+export const ALL_LANGUAGES: Language[] = ['en', 'hi'];
+
+/** Union of the given languages' vocabularies. */
+export function mergeVocabularies(languages: Language[]): Vocabulary {
+    const merged: Vocabulary = {
+        from: [],
+        carting: [],
+        credit: [],
+        debit: [],
+        paid: [],
+        pending: [],
+        advance: [],
+        today: [],
+        yesterday: [],
+        units: {},
+    };
+    for (const lang of languages) {
+        const v = VOCABULARIES[lang];
+        for (const key of Object.keys(merged) as (keyof Vocabulary)[]) {
+            if (key === 'units') Object.assign(merged.units, v.units);
+            else merged[key].push(...v[key]);
+        }
+    }
+    return merged;
+}
+
+/** Regex alternation of `words`, longest first so "bhaada" wins over a shorter prefix. */
+export function alternation(words: string[]): string {
+    return [...words]
+        .sort((a, b) => b.length - a.length)
+        .map((w) => w.replace(/[.*+?^${}()|[\]\\]/g, '\\$&'))
+        .join('|');
+}
+
+/** Canonical unit for a typed or stored unit name, or null if the vocabulary does not know it. */
+export function canonicalUnit(unit: string | null | undefined, vocabulary: Vocabulary): string | null {
+    const key = unit?.trim().toLowerCase();
+    if (!key) return null;
+    if (vocabulary.units[key]) return vocabulary.units[key];
+    return Object.values(vocabulary.units).includes(key) ? key : null;
+}
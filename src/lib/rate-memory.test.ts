@@ -0,0 +1,47 @@
+import { describe, expect, it } from 'vitest';
+import { averageRate, checkRate, indexRateHistory, rateKey } from '~/lib/rate-memory';
+
+describe('checkRate', () => {
+    it('accepts a rate within the allowed deviation', () => {
+        expect(checkRate(40_000, [38_000, 38_000], 25)).toBeNull();
+        expect(checkRate(47_500, [38_000], 25)).toBeNull();
+    });
+
+    it('flags a rate far above the recent average', () => {
+        expect(checkRate(100_000, [38_000, 38_000], 25)).toBe(
+            'Rate ₹1,000.00 is 163% above the recent average of ₹380.00.',
+        );
+    });
+
+    it('flags a rate far below the recent average', () => {
+        expect(checkRate(20_000, [40_000], 25)).toBe('Rate ₹200.00 is 50% below the recent average of ₹400.00.');
+    });
+
+    it('uses the given percentage as the limit', () => {
+        expect(checkRate(44_000, [40_000], 5)).not.toBeNull();
+        expect(checkRate(44_000, [40_000], 10)).toBeNull();
+    });
+
+    it('has nothing to compare against without history', () => {
+        expect(checkRate(100_000, [], 25)).toBeNull();
+    });
+});
+
+describe('averageRate', () => {
+    it('rounds to the nearest paisa', () => {
+        expect(averageRate([100, 101])).toBe(101);
+        expect(averageRate([])).toBe(0);
+    });
+});
+
+describe('indexRateHistory', () => {
+    it('keys histories by item, variant and source', () => {
+        const index = indexRateHistory([
+            { entity_id: 'cement', entity_variant_id: null, source_id: 'site', rates: [38_000] },
+            { entity_id: 'steel', entity_variant_id: '8mm', source_id: 'site', rates: [6_500, 6_400] },
+        ]);
+        expect(index.get(rateKey('cement', null, 'site'))).toEqual([38_000]);
+        expect(index.get(rateKey('steel', '8mm', 'site'))).toEqual([6_500, 6_400]);
+        expect(index.get(rateKey('steel', null, 'site'))).toBeUndefined();
+    });
+});
@@ -0,0 +1,53 @@
+import { formatMoney, type Money } from '~/lib/money';
+
+// ── Rate memory ────────────────────────────────────────────────────
+//
+// The last few rates paid for each item + variant + source are remembered so
+// the expense form and quick entry can pre-fill the rate, and so a typo such
+// as @1000 for cement that always costs 380 is caught. A rate further than
+// RATE_WARNING_PERCENT (default 25) from the recent average needs an explicit
+// confirmation before createExpense saves it.
+
+/** How many recent rates are kept per item + variant + source. */
+export const RATE_HISTORY_SIZE = 5;
+
+const DEFAULT_WARNING_PERCENT = 25;
+
+/** Recent rates for one item + variant + source, newest first. */
+export type RateHistory = {
+    entity_id: string;
+    entity_variant_id: string | null;
+    source_id: string;
+    rates: Money[];
+};
+
+/** Allowed deviation from the average rate, in percent. Server only. */
+export function rateWarningPercent(): number {
+    const value = Number(process.env.RATE_WARNING_PERCENT);
+    return Number.isFinite(value) && value > 0 ? value : DEFAULT_WARNING_PERCENT;
+}
+
+export function rateKey(entityId: string, variantId: string | null, sourceId: string) {
+    return `${entityId}|${variantId ?? ''}|${sourceId}`;
+}
+
+/** Index histories by `rateKey` for lookups while typing. */
+export function indexRateHistory(histories: RateHistory[]): Map<string, Money[]> {
+    return new Map(histories.map((h) => [rateKey(h.entity_id, h.entity_variant_id, h.source_id), h.rates]));
+}
+
+export function averageRate(rates: Money[]): Money {
+    return rates.length ? Math.round(rates.reduce((sum, r) => sum + r, 0) / rates.length) : 0;
+}
+
+/**
+ * Warning for a rate that is more than `percent` away from the average of
+ * `rates`, or null if it is within range or there is no history to compare.
+ */
+export function checkRate(rate: Money, rates: Money[], percent: number): string | null {
+    const average = averageRate(rates);
+    if (!average) return null;
+    const deviation = ((rate - average) / average) * 100;
+    if (Math.abs(deviation) <= percent) return null;
+    return `Rate ${formatMoney(rate, { symbol: '₹' })} is ${Math.round(Math.abs(deviation))}% ${deviation > 0 ? 'above' : 'below'} the recent average of ${formatMoney(average, { symbol: '₹' })}.`;
+}
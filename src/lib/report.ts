@@ -0,0 +1,92 @@
+import { buildWorkbook, xlsxHeaders, type XlsxCell, type XlsxStyle } from '~/lib/xlsx';
+
+// ── Reports ────────────────────────────────────────────────────────
+//
+// Tabular exports that can be downloaded as CSV or as an Excel workbook.
+// A report is described once, as columns over its rows, and `reportResponse`
+// writes it in the format that was asked for.
+
+export type ReportFormat = 'csv' | 'xlsx';
+
+export type ReportColumn<T> = {
+    header: string;
+    /** Column width in the workbook, in characters. */
+    width: number;
+    value: (row: T) => string | number | Date | null | undefined;
+    /** How numbers and dates are shown in the workbook; CSV writes them plainly. */
+    style?: Extract<XlsxStyle, 'quantity' | 'date'>;
+};
+
+export type Report<T> = {
+    /** File name without the extension. */
+    filename: string;
+    sheet: string;
+    columns: ReportColumn<T>[];
+    rows: T[];
+    /** Rows under the table, shown in bold in the workbook. */
+    footer?: (string | number | null)[][];
+};
+
+/** The `format` query parameter, or null if it is not one we write. */
+export function parseReportFormat(value: string | null): ReportFormat | null {
+    if (value === null || value === 'csv') return 'csv';
+    return value === 'xlsx' ? 'xlsx' : null;
+}
+
+export function escapeCSV(value: string | null | undefined): string {
+    if (value == null) return '';
+    const str = String(value);
+    if (str.includes(',') || str.includes('"') || str.includes('\n')) {
+        return `"${str.replace(/"/g, '""')}"`;
+    }
+    return str;
+}
+
+/** dd-mm-yyyy in UTC, as in the expense CSV export. */
+function csvDate(date: Date) {
+    const dd = String(date.getUTCDate()).padStart(2, '0');
+    const mm = String(date.getUTCMonth() + 1).padStart(2, '0');
+    return `${dd}-${mm}-${date.getUTCFullYear()}`;
+}
+
+const csvValue = (value: string | number | Date | null | undefined) =>
+    escapeCSV(value instanceof Date ? csvDate(value) : value == null ? '' : String(value));
+
+function toCSV<T>(report: Report<T>) {
+    return [
+        report.columns.map((c) => escapeCSV(c.header)).join(','),
+        ...report.rows.map((row) => report.columns.map((c) => csvValue(c.value(row))).join(',')),
+        ...(report.footer ?? []).map((cells) => cells.map(csvValue).join(',')),
+    ].join('\n');
+}
+
+function toWorkbook<T>(report: Report<T>) {
+    const cell = (value: string | number | Date | null | undefined, style?: XlsxStyle): XlsxCell =>
+        value == null || !style || typeof value === 'string' ? value : { value, style };
+    return buildWorkbook([
+        {
+            name: report.sheet,
+            widths: report.columns.map((c) => c.width),
+            rows: [
+                report.columns.map((c): XlsxCell => ({ value: c.header, style: 'header' })),
+                ...report.rows.map((row) => report.columns.map((c) => cell(c.value(row), c.style))),
+                ...(report.footer ?? []).map((cells) =>
+                    cells.map((value): XlsxCell => (value == null ? null : { value, style: 'bold' })),
+                ),
+            ],
+        },
+    ]);
+}
+
+/** The report as a download in `format`. */
+export function reportResponse<T>(report: Report<T>, format: ReportFormat) {
+    if (format === 'xlsx') {
+        return new Response(toWorkbook(report), { headers: xlsxHeaders(`${report.filename}.xlsx`) });
+    }
+    return new Response(toCSV(report), {
+        headers: {
+            'Content-Type': 'text/csv; charset=utf-8',
+            'Content-Disposition': `attachment; filename="${report.filename}.csv"`,
+        },
+    });
+}
@@ -0,0 +1,65 @@
+import { describe, expect, it } from 'vitest';
+import { allocateOldestFirst, fullyCovered } from '~/lib/settlement';
+
+describe('allocateOldestFirst', () => {
+    const rows = [
+        { id: 'a', outstanding: 10_000 },
+        { id: 'b', outstanding: 5_000 },
+        { id: 'c', outstanding: 2_500 },
+    ];
+
+    it('fills the oldest rows first', () => {
+        expect(allocateOldestFirst(12_000, rows)).toEqual({
+            allocations: [
+                { transaction_id: 'a', amount: 10_000 },
+                { transaction_id: 'b', amount: 2_000 },
+            ],
+            unallocated: 0,
+        });
+    });
+
+    it('covers every row exactly when the amount matches the total', () => {
+        const { allocations, unallocated } = allocateOldestFirst(17_500, rows);
+        expect(allocations.map((a) => a.amount)).toEqual([10_000, 5_000, 2_500]);
+        expect(unallocated).toBe(0);
+    });
+
+    it('returns what is left over once every row is covered', () => {
+        expect(allocateOldestFirst(20_000, rows).unallocated).toBe(2_500);
+    });
+
+    it('skips rows with nothing outstanding', () => {
+        const { allocations } = allocateOldestFirst(3_000, [
+            { id: 'settled', outstanding: 0 },
+            { id: 'overpaid', outstanding: -500 },
+            { id: 'open', outstanding: 4_000 },
+        ]);
+        expect(allocations).toEqual([{ transaction_id: 'open', amount: 3_000 }]);
+    });
+
+    it('allocates nothing for a zero amount or no rows', () => {
+        expect(allocateOldestFirst(0, rows)).toEqual({ allocations: [], unallocated: 0 });
+        expect(allocateOldestFirst(1_000, [])).toEqual({ allocations: [], unallocated: 1_000 });
+    });
+});
+
+describe('fullyCovered', () => {
+    const rows = [
+        { id: 'a', outstanding: 10_000 },
+        { id: 'b', outstanding: 5_000 },
+    ];
+
+    it('lists only the rows whose whole outstanding amount is allocated', () => {
+        const { allocations } = allocateOldestFirst(12_000, rows);
+        expect(fullyCovered(allocations, rows)).toEqual(['a']);
+    });
+
+    it('lists every row when the payment settles them all', () => {
+        const { allocations } = allocateOldestFirst(15_000, rows);
+        expect(fullyCovered(allocations, rows)).toEqual(['a', 'b']);
+    });
+
+    it('ignores allocations to rows it was not given', () => {
+        expect(fullyCovered([{ transaction_id: 'z', amount: 5_000 }], rows)).toEqual([]);
+    });
+});
@@ -0,0 +1,296 @@
+import { and, asc, eq, inArray, isNull, lte, ne, sql } from 'drizzle-orm';
+import { db } from '~/drizzle/client';
+import {
+    AdvanceAdjustment,
+    Payment,
+    PaymentAllocation,
+    PaymentMode,
+    PaymentStatus,
+    Transaction,
+    TransportationCost,
+} from '~/drizzle/schema';
+import { addMoney, formatMoney, type Money } from '~/lib/money';
+
+// ── Settlement ─────────────────────────────────────────────────────
+//
+// A Payment is recorded against a site and split across that site's
+// pending/advance transactions, oldest first. Each split is a
+// PaymentAllocation row; a pending transaction is flipped to `paid` only once
+// its allocations cover its full amount (including GST and transport cost).
+//
+// Advances work the same way from the other side: a transaction with status
+// `advance` is a credit for its source, and later pending debit bills draw it
+// down oldest first through AdvanceAdjustment rows. Both payment allocations
+// and advance adjustments count towards a bill's settled amount.
+//
+// A bill's transport is paid with it: when a bill stops being pending, its
+// TransportationCost gets `paid_at` too. Transport paid to the transporter on
+// its own is recorded as a payment against the bill (see `lib/transport`), so
+// the bill's outstanding amount never counts it twice.
+
+export type DbTransaction = Parameters<Parameters<typeof db.transaction>[0]>[0];
+
+export type OutstandingRow = { id: string; outstanding: Money };
+
+export type Allocation = { transaction_id: string; amount: Money };
+
+export class SettlementError extends Error {}
+
+/**
+ * Split `amount` across `rows` in the given order. Rows with nothing
+ * outstanding are skipped. Returns the allocations and whatever is left over.
+ */
+export function allocateOldestFirst(amount: Money, rows: OutstandingRow[]) {
+    const allocations: Allocation[] = [];
+    let remaining = amount;
+
+    for (const row of rows) {
+        if (remaining <= 0) break;
+        if (row.outstanding <= 0) continue;
+        const take = Math.min(remaining, row.outstanding);
+        allocations.push({ transaction_id: row.id, amount: take });
+        remaining -= take;
+    }
+
+    return { allocations, unallocated: remaining };
+}
+
+/** Ids of the rows whose whole outstanding amount `allocations` cover. */
+export function fullyCovered(allocations: Allocation[], rows: OutstandingRow[]) {
+    const outstandingById = new Map(rows.map((r) => [r.id, r.outstanding]));
+    return allocations.filter((a) => a.amount === outstandingById.get(a.transaction_id)).map((a) => a.transaction_id);
+}
+
+type OutstandingFilter = {
+    /** Restrict to a user selection. */
+    transactionIds?: string[];
+    /** Defaults to pending and advance. */
+    statuses?: (typeof PaymentStatus)[number][];
+};
+
+/** Lock and load a site's unsettled transactions, oldest first. */
+export async function loadOutstanding(tx: DbTransaction, siteId: string, filter: OutstandingFilter = {}) {
+    const { transactionIds, statuses = ['pending', 'advance'] } = filter;
+
+    const paid = tx
+        .select({
+            transaction_id: PaymentAllocation.transaction_id,
+            paid: sql<number>`SUM(${PaymentAllocation.amount})`.mapWith(Number).as('paid'),
+        })
+        .from(PaymentAllocation)
+        .groupBy(PaymentAllocation.transaction_id)
+        .as('paid');
+
+    const adjusted = tx
+        .select({
+            transaction_id: AdvanceAdjustment.transaction_id,
+            adjusted: sql<number>`SUM(${AdvanceAdjustment.amount})`.mapWith(Number).as('adjusted'),
+        })
+        .from(AdvanceAdjustment)
+        .groupBy(AdvanceAdjustment.transaction_id)
+        .as('adjusted');
+
+    const rows = await tx
+        .select({
+            id: Transaction.id,
+            amount: Transaction.amount,
+            cgst: Transaction.cgst,
+            sgst: Transaction.sgst,
+            igst: Transaction.igst,
+            cost: TransportationCost.cost,
+            paid: paid.paid,
+            adjusted: adjusted.adjusted,
+        })
+        .from(Transaction)
+        .leftJoin(TransportationCost, eq(Transaction.transportation_cost_id, TransportationCost.id))
+        .leftJoin(paid, eq(paid.transaction_id, Transaction.id))
+        .leftJoin(adjusted, eq(adjusted.transaction_id, Transaction.id))
+        .where(
+            and(
+                eq(Transaction.source_id, siteId),
+                inArray(Transaction.payment_status, statuses),
+                isNull(Transaction.deleted_at),
+                transactionIds ? inArray(Transaction.id, transactionIds) : undefined,
+            ),
+        )
+        .orderBy(asc(Transaction.created_at), asc(Transaction.id))
+        .for('update', { of: Transaction });
+
+    return rows.map((r): OutstandingRow => ({
+        id: r.id,
+        outstanding: addMoney(r.amount, r.cgst, r.sgst, r.igst, r.cost) - addMoney(r.paid, r.adjusted),
+    }));
+}
+
+type RecordPaymentInput = {
+    siteId: string;
+    amount: Money;
+    mode: (typeof PaymentMode)[number];
+    referenceNo?: string;
+    note?: string | null;
+    paidAt?: Date;
+    /** Restrict allocation to these transactions; defaults to every unsettled one for the site. */
+    transactionIds?: string[];
+    /** Cap on what each listed transaction takes of the payment. */
+    limits?: Map<string, Money>;
+};
+
+/**
+ * Insert a Payment and its allocations inside `tx`. Throws `SettlementError`
+ * if the amount exceeds what is outstanding on the selected transactions.
+ */
+export async function recordPayment(tx: DbTransaction, input: RecordPaymentInput) {
+    const rows = await loadOutstanding(tx, input.siteId, { transactionIds: input.transactionIds });
+    const { limits } = input;
+    const { allocations, unallocated } = allocateOldestFirst(
+        input.amount,
+        limits ? rows.map((r) => ({ ...r, outstanding: Math.min(r.outstanding, limits.get(r.id) ?? r.outstanding) })) : rows,
+    );
+
+    if (allocations.length === 0) throw new SettlementError('Nothing is outstanding on the selected entries.');
+    if (unallocated > 0) {
+        throw new SettlementError(`Payment exceeds the outstanding balance by ${formatMoney(unallocated)}.`);
+    }
+
+    const [payment] = await tx
+        .insert(Payment)
+        .values({
+            site_id: input.siteId,
+            amount: input.amount,
+            mode: input.mode,
+            reference_no: input.referenceNo ?? '',
+            note: input.note || null,
+            ...(input.paidAt ? { paid_at: input.paidAt } : {}),
+        })
+        .returning({ id: Payment.id });
+
+    await tx.insert(PaymentAllocation).values(allocations.map((a) => ({ ...a, payment_id: payment.id })));
+
+    // Flip fully covered bills to paid. Advances keep their status, or their
+    // unadjusted credit would drop out of `loadAdvanceBalances`.
+    const coveredIds = fullyCovered(allocations, rows);
+    const settledIds =
+        coveredIds.length > 0
+            ? await tx
+                  .update(Transaction)
+                  .set({ payment_status: 'paid' })
+                  .where(and(inArray(Transaction.id, coveredIds), eq(Transaction.payment_status, 'pending')))
+                  .returning({ id: Transaction.id })
+                  .then((rows) => rows.map((r) => r.id))
+            : [];
+    await settleTransport(tx, settledIds);
+
+    return { paymentId: payment.id, allocations, settledIds };
+}
+
+/**
+ * Stamp `paid_at` on the transport of those of `transactionIds` that are no
+ * longer pending. Transport already marked paid keeps its date.
+ */
+export async function settleTransport(tx: DbTransaction, transactionIds: string[]) {
+    if (transactionIds.length === 0) return;
+
+    const settled = tx
+        .select({ id: Transaction.transportation_cost_id })
+        .from(Transaction)
+        .where(and(inArray(Transaction.id, transactionIds), ne(Transaction.payment_status, 'pending')));
+    await tx
+        .update(TransportationCost)
+        .set({ paid_at: new Date() })
+        .where(and(inArray(TransportationCost.id, settled), isNull(TransportationCost.paid_at)));
+}
+
+// ── Advances ───────────────────────────────────────────────────────
+
+/**
+ * Amount drawn from each advance, as a subquery. Adjustments of a deleted bill
+ * are kept for a restore but do not count, so deleting a bill gives its
+ * credit back.
+ */
+export function advanceDrawn(executor: typeof db | DbTransaction) {
+    return executor
+        .select({
+            advance_id: AdvanceAdjustment.advance_id,
+            drawn: sql<number>`SUM(${AdvanceAdjustment.amount})`.mapWith(Number).as('drawn'),
+        })
+        .from(AdvanceAdjustment)
+        .innerJoin(Transaction, eq(Transaction.id, AdvanceAdjustment.transaction_id))
+        .where(isNull(Transaction.deleted_at))
+        .groupBy(AdvanceAdjustment.advance_id)
+        .as('drawn');
+}
+
+type AdvanceFilter = {
+    /** Only advances dated on or before this (a bill never draws on a later advance). */
+    asOf?: Date;
+    excludeId?: string;
+};
+
+/** Lock and load a site's advances with their unadjusted balance, oldest first. */
+export async function loadAdvanceBalances(tx: DbTransaction, siteId: string, filter: AdvanceFilter = {}) {
+    const { asOf, excludeId } = filter;
+
+    const drawn = advanceDrawn(tx);
+    const rows = await tx
+        .select({
+            id: Transaction.id,
+            amount: Transaction.amount,
+            cgst: Transaction.cgst,
+            sgst: Transaction.sgst,
+            igst: Transaction.igst,
+            cost: TransportationCost.cost,
+            drawn: drawn.drawn,
+        })
+        .from(Transaction)
+        .leftJoin(TransportationCost, eq(Transaction.transportation_cost_id, TransportationCost.id))
+        .leftJoin(drawn, eq(drawn.advance_id, Transaction.id))
+        .where(
+            and(
+                eq(Transaction.source_id, siteId),
+                eq(Transaction.payment_status, 'advance'),
+                isNull(Transaction.deleted_at),
+                asOf ? lte(Transaction.created_at, asOf) : undefined,
+                excludeId ? ne(Transaction.id, excludeId) : undefined,
+            ),
+        )
+        .orderBy(asc(Transaction.created_at), asc(Transaction.id))
+        .for('update', { of: Transaction });
+
+    return rows.map((r): OutstandingRow => ({ id: r.id, outstanding: addMoney(r.amount, r.cgst, r.sgst, r.igst, r.cost) - (r.drawn ?? 0) }));
+}
+
+/**
+ * Draw a newly recorded bill down against the site's unadjusted advances,
+ * oldest advance first. The bill is flipped to `paid` when the advances cover
+ * it completely. Returns the total adjusted (zero when there is no credit).
+ */
+export async function applyAdvances(tx: DbTransaction, siteId: string, transactionId: string) {
+    const [bill] = await loadOutstanding(tx, siteId, { transactionIds: [transactionId], statuses: ['pending'] });
+    if (!bill || bill.outstanding <= 0) return 0;
+
+    const [{ created_at }] = await tx
+        .select({ created_at: Transaction.created_at })
+        .from(Transaction)
+        .where(eq(Transaction.id, transactionId));
+    // Entries are dated by day, so any advance from the bill's day counts
+    const asOf = new Date(created_at);
+    asOf.setUTCHours(23, 59, 59, 999);
+    const advances = await loadAdvanceBalances(tx, siteId, { asOf, excludeId: transactionId });
+    const credit = addMoney(...advances.map((a) => Math.max(a.outstanding, 0)));
+    if (credit <= 0) return 0;
+
+    const adjusted = Math.min(credit, bill.outstanding);
+    const { allocations } = allocateOldestFirst(adjusted, advances);
+    await tx
+        .insert(AdvanceAdjustment)
+        .values(
+            allocations.map((a) => ({ advance_id: a.transaction_id, transaction_id: transactionId, amount: a.amount })),
+        );
+
+    if (adjusted === bill.outstanding) {
+        await tx.update(Transaction).set({ payment_status: 'paid' }).where(eq(Transaction.id, transactionId));
+        await settleTransport(tx, [transactionId]);
+    }
+
+    return adjusted;
+}
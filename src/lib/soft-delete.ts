@@ -0,0 +1,26 @@
+// ── Soft delete ────────────────────────────────────────────────────
+//
+// Deleting an expense or warehouse transaction only stamps `deleted_at`; the
+// detail views (and so every list, total, export and stock balance built on
+// them) skip stamped rows. Site users can restore a row for
+// `RESTORE_WINDOW_DAYS` after deleting it. Admins can purge a deleted row
+// for good at any time.
+//
+// Payment allocations and advance adjustments on a deleted expense are kept,
+// so a restore brings it back exactly as it was. While it is deleted its
+// adjustments do not count against the advance, so the credit can be used
+// again; a restore is refused once it has been. Purging removes the advance
+// adjustments; an expense with payments allocated to it cannot be purged.
+
+export const RESTORE_WINDOW_DAYS = 30;
+
+/** Rows deleted before this instant can no longer be restored by site users. */
+export function restoreCutoff(now = new Date()): Date {
+    const cutoff = new Date(now);
+    cutoff.setDate(cutoff.getDate() - RESTORE_WINDOW_DAYS);
+    return cutoff;
+}
+
+export function isRestorable(deletedAt: Date | string | null, now = new Date()): boolean {
+    return !!deletedAt && new Date(deletedAt) >= restoreCutoff(now);
+}
@@ -0,0 +1,105 @@
+import { describe, expect, it } from 'vitest';
+import { countDifference, exceedsStock, shortageMessage, stockKey, variantLabel } from '~/lib/stock';
+
+describe('exceedsStock', () => {
+    const godown = { name: 'Godown A', is_warehouse: true, allow_negative_stock: false };
+
+    it('lets a godown give out what it holds', () => {
+        expect(exceedsStock(godown, 10, 4)).toBe(false);
+        expect(exceedsStock(godown, 10, 10)).toBe(false);
+    });
+
+    it('stops a godown giving out more than it holds', () => {
+        expect(exceedsStock(godown, 10, 10.5)).toBe(true);
+        expect(exceedsStock(godown, -2, 1)).toBe(true);
+    });
+
+    it('does not hold a godown allowed negative stock to its balance', () => {
+        expect(exceedsStock({ ...godown, allow_negative_stock: true }, 0, 5)).toBe(false);
+    });
+
+    it('does not check sites, suppliers or unknown locations', () => {
+        expect(exceedsStock({ ...godown, is_warehouse: false }, 0, 5)).toBe(false);
+        expect(exceedsStock(undefined, 0, 5)).toBe(false);
+    });
+});
+
+describe('shortageMessage', () => {
+    it('says what is available and what was asked for', () => {
+        expect(shortageMessage({ location: 'Godown A', item: 'Cement', unit: 'bags', available: 3, quantity: 5 })).toBe(
+            'Only 3 bags of Cement available at Godown A; 5 requested.',
+        );
+    });
+
+    it('trims quantities to three decimals and shows an overdrawn balance as none', () => {
+        expect(
+            shortageMessage({ location: 'Yard', item: 'Sand', unit: 'cft', available: -1.5, quantity: 0.12345 }),
+        ).toBe('Only 0 cft of Sand available at Yard; 0.123 requested.');
+        expect(shortageMessage({ location: 'Yard', item: 'Sand', unit: 'cft', available: 2.5, quantity: 3.1 })).toBe(
+            'Only 2.5 cft of Sand available at Yard; 3.1 requested.',
+        );
+    });
+});
+
+describe('stockKey', () => {
+    it('keys an item without a variant apart from each of its variants', () => {
+        expect(stockKey('cement', null)).toBe('cement|');
+        expect(stockKey('cement', 'v1')).toBe('cement|v1');
+        expect(stockKey('cement', null)).not.toBe(stockKey('cement', 'v1'));
+    });
+});
+
+describe('countDifference', () => {
+    it('is what was found or is missing against the computed balance', () => {
+        expect(countDifference(12, 10)).toBe(2);
+        expect(countDifference(5, 7.5)).toBe(-2.5);
+        expect(countDifference(0, 3)).toBe(-3);
+    });
+
+    it('drops float error below the stored precision', () => {
+        // Math.abs: the rounding may leave -0
+        expect(Math.abs(countDifference(0.3, 0.1 + 0.2))).toBe(0);
+        expect(Math.abs(countDifference(10, 9.9999999))).toBe(0);
+        expect(countDifference(1.000001, 1)).toBe(0.000001);
+    });
+});
+
+describe('variantLabel', () => {
+    const none = {
+        length: null,
+        width: null,
+        height: null,
+        thickness: null,
+        dimension_unit: null,
+        thickness_unit: null,
+    };
+
+    it('joins the dimensions and trims their trailing zeros', () => {
+        expect(variantLabel({ ...none, length: '2.000000', width: '1.500000', dimension_unit: 'm' })).toBe('2x1.5 m');
+        expect(variantLabel({ ...none, length: '8', width: '4', height: '0.25', dimension_unit: 'ft' })).toBe(
+            '8x4x0.25 ft',
+        );
+    });
+
+    it('adds the thickness after the dimensions', () => {
+        expect(
+            variantLabel({
+                ...none,
+                length: '2',
+                width: '1',
+                dimension_unit: 'm',
+                thickness: '12.000000',
+                thickness_unit: 'mm',
+            }),
+        ).toBe('2x1 m · Thickness: 12 mm');
+        expect(variantLabel({ ...none, thickness: '6', thickness_unit: 'mm' })).toBe('Thickness: 6 mm');
+    });
+
+    it('is empty for a variant without dimensions', () => {
+        expect(variantLabel(none)).toBe('');
+    });
+
+    it('rounds to three decimals and keeps values that are not numbers', () => {
+        expect(variantLabel({ ...none, length: '1.23456', width: 'A4' })).toBe('1.235xA4');
+    });
+});
@@ -0,0 +1,328 @@
+import { and, eq, isNotNull, isNull, lt, or, sql } from 'drizzle-orm';
+import { unionAll } from 'drizzle-orm/pg-core';
+import { db } from '~/drizzle/client';
+import {
+    Destination,
+    EntityVariantWarehouse,
+    EntityWarehouse,
+    StockAdjustmentReason,
+    StockLevel,
+    WarehouseTransaction,
+    WarehouseTransactionDetail,
+} from '~/drizzle/schema';
+import type { DbTransaction } from '~/lib/settlement';
+
+// ── Stock ──────────────────────────────────────────────────────────
+//
+// Warehouse stock is never stored. A location's balance of an item (and
+// variant) is what warehouse transactions brought in to it as destination
+// less what they took out of it as source. Deleted transactions are already
+// left out of `warehouse_transaction_detail`.
+//
+// A StockLevel sets the minimum for one item (and variant) at one location;
+// anything under it is low stock, including items that have never been
+// moved there at all.
+//
+// Transfers out of a godown may not take more than it holds, unless an admin
+// has set `Destination.allow_negative_stock` for it. Other locations (sites,
+// suppliers) are not checked: stock arriving from them is never recorded as
+// leaving them first.
+//
+// A stock-take posts the difference between a counted and the computed
+// balance as an adjustment: a warehouse transaction with an
+// `adjustment_reason` and only a destination (stock found) or only a source
+// (stock written off). Opening balances are adjustments too.
+
+export type StockBalance = {
+    location_id: string;
+    location_name: string;
+    entity_id: string;
+    entity_name: string;
+    entity_unit: string;
+    entity_variant_id: string | null;
+    entity_variant: string | null;
+    balance: number;
+};
+
+export type LowStock = Omit<StockBalance, 'entity_variant'> & {
+    entity_variant: string;
+    min_quantity: number;
+    reorder_quantity: number | null;
+};
+
+export type AdjustmentReason = (typeof StockAdjustmentReason)[number];
+
+export const ADJUSTMENT_REASON_LABELS: Record<AdjustmentReason, string> = {
+    opening: 'Opening stock',
+    count_error: 'Count error',
+    damage: 'Damage',
+    theft: 'Theft',
+    other: 'Other',
+};
+
+export class StockError extends Error {}
+
+/** Map key for one item and variant's balance. */
+export const stockKey = (entityId: string, variantId: string | null) => `${entityId}|${variantId ?? ''}`;
+
+/** What a stock-take posts: counted less computed, to the 6 decimals quantities are stored with. */
+export const countDifference = (counted: number, balance: number) => Math.round((counted - balance) * 1e6) / 1e6;
+
+/** A transfer of `quantity` of an item (and variant) out of `sourceId`. */
+export type StockMove = {
+    sourceId: string;
+    entityId: string;
+    variantId: string | null;
+    quantity: number;
+};
+
+type StockFilter = {
+    locationId?: string;
+    entityId?: string;
+};
+
+/** One signed row per stock movement: + at the destination, − at the source. */
+function movements() {
+    const W = WarehouseTransactionDetail;
+    const quantity = sql`COALESCE(CAST(${W.quantity} AS numeric), 0)`;
+    return unionAll(
+        db
+            .select({
+                location_id: sql<string>`${W.destination_id}`.as('location_id'),
+                entity_id: sql<string>`${W.entity_id}`.as('entity_id'),
+                entity_variant_id: W.entity_variant_id,
+                entity_variant: W.entity_variant,
+                quantity: sql<number>`${quantity}`.as('quantity'),
+            })
+            .from(W)
+            .where(and(isNotNull(W.destination_id), isNotNull(W.entity_id))),
+        db
+            .select({
+                location_id: sql<string>`${W.source_id}`.as('location_id'),
+                entity_id: sql<string>`${W.entity_id}`.as('entity_id'),
+                entity_variant_id: W.entity_variant_id,
+                entity_variant: W.entity_variant,
+                quantity: sql<number>`-${quantity}`.as('quantity'),
+            })
+            .from(W)
+            .where(and(isNotNull(W.source_id), isNotNull(W.entity_id))),
+    ).as('movements');
+}
+
+/** Current stock per location, item and variant. */
+export function loadStockBalances(filter: StockFilter = {}): Promise<StockBalance[]> {
+    const moves = movements();
+    const balance = sql<number>`SUM(${moves.quantity})`;
+
+    return db
+        .select({
+            location_id: moves.location_id,
+            location_name: Destination.name,
+            entity_id: moves.entity_id,
+            entity_name: EntityWarehouse.name,
+            entity_unit: EntityWarehouse.unit,
+            entity_variant_id: moves.entity_variant_id,
+            entity_variant: sql<string | null>`MIN(${moves.entity_variant})`,
+            balance: balance.mapWith(Number),
+        })
+        .from(moves)
+        .innerJoin(Destination, eq(Destination.id, moves.location_id))
+        .innerJoin(EntityWarehouse, eq(EntityWarehouse.id, moves.entity_id))
+        .where(
+            and(
+                filter.locationId ? eq(moves.location_id, filter.locationId) : undefined,
+                filter.entityId ? eq(moves.entity_id, filter.entityId) : undefined,
+            ),
+        )
+        .groupBy(
+            moves.location_id,
+            Destination.name,
+            moves.entity_id,
+            EntityWarehouse.name,
+            EntityWarehouse.unit,
+            moves.entity_variant_id,
+        )
+        .orderBy(Destination.name, EntityWarehouse.name);
+}
+
+type VariantDimensions = {
+    length: string | null;
+    width: string | null;
+    height: string | null;
+    thickness: string | null;
+    dimension_unit: string | null;
+    thickness_unit: string | null;
+};
+
+/** "2x1 m · Thickness: 12 mm", or '' for a variant without dimensions. */
+export function variantLabel(v: VariantDimensions) {
+    const formatNumber = (value: string | null) => {
+        if (!value) return null;
+        const num = Number.parseFloat(value);
+        if (!Number.isFinite(num)) return value;
+        return num.toFixed(3).replace(/\.?0+$/, '');
+    };
+    const dimensions = [v.length, v.width, v.height].map(formatNumber).filter((part) => part);
+    const dimensionLabel = dimensions.length ? `${dimensions.join('x')} ${v.dimension_unit ?? ''}`.trim() : '';
+    const thickness = formatNumber(v.thickness);
+    const thicknessLabel = thickness ? `Thickness: ${thickness} ${v.thickness_unit ?? ''}`.trim() : '';
+    return [dimensionLabel, thicknessLabel].filter(Boolean).join(' · ');
+}
+
+/** Stock levels whose location holds less than `min_quantity`, most short first. */
+export async function loadLowStock(filter: { locationId?: string; entityId?: string } = {}): Promise<LowStock[]> {
+    const moves = movements();
+    const balances = db
+        .select({
+            // Aliased apart from `StockLevel`'s columns so the join below is unambiguous.
+            location_id: sql<string>`${moves.location_id}`.as('balance_location_id'),
+            entity_id: sql<string>`${moves.entity_id}`.as('balance_entity_id'),
+            entity_variant_id: moves.entity_variant_id,
+            balance: sql<number>`SUM(${moves.quantity})`.as('balance'),
+        })
+        .from(moves)
+        .groupBy(moves.location_id, moves.entity_id, moves.entity_variant_id)
+        .as('balances');
+    const balance = sql<number>`COALESCE(${balances.balance}, 0)`;
+
+    const rows = await db
+        .select({
+            location_id: StockLevel.destination_id,
+            location_name: Destination.name,
+            entity_id: StockLevel.entity_id,
+            entity_name: EntityWarehouse.name,
+            entity_unit: EntityWarehouse.unit,
+            entity_variant_id: StockLevel.entity_variant_id,
+            variant: {
+                length: EntityVariantWarehouse.length,
+                width: EntityVariantWarehouse.width,
+                height: EntityVariantWarehouse.height,
+                thickness: EntityVariantWarehouse.thickness,
+                dimension_unit: EntityVariantWarehouse.dimension_unit,
+                thickness_unit: EntityVariantWarehouse.thickness_unit,
+            },
+            balance: balance.mapWith(Number),
+            min_quantity: sql<number>`${StockLevel.min_quantity}`.mapWith(Number),
+            reorder_quantity: StockLevel.reorder_quantity,
+        })
+        .from(StockLevel)
+        .innerJoin(Destination, eq(Destination.id, StockLevel.destination_id))
+        .innerJoin(EntityWarehouse, eq(EntityWarehouse.id, StockLevel.entity_id))
+        .leftJoin(EntityVariantWarehouse, eq(EntityVariantWarehouse.id, StockLevel.entity_variant_id))
+        .leftJoin(
+            balances,
+            and(
+                eq(balances.location_id, StockLevel.destination_id),
+                eq(balances.entity_id, StockLevel.entity_id),
+                sql`${balances.entity_variant_id} IS NOT DISTINCT FROM ${StockLevel.entity_variant_id}`,
+            ),
+        )
+        .where(
+            and(
+                lt(balance, StockLevel.min_quantity),
+                filter.locationId ? eq(StockLevel.destination_id, filter.locationId) : undefined,
+                filter.entityId ? eq(StockLevel.entity_id, filter.entityId) : undefined,
+            ),
+        )
+        .orderBy(sql`${balance} / NULLIF(${StockLevel.min_quantity}, 0)`, Destination.name, EntityWarehouse.name);
+
+    return rows.map(({ variant, reorder_quantity, ...row }) => ({
+        ...row,
+        entity_variant: variant ? variantLabel(variant) : '',
+        reorder_quantity: reorder_quantity === null ? null : Number(reorder_quantity),
+    }));
+}
+
+const formatQuantity = (value: number) => value.toFixed(3).replace(/\.?0+$/, '');
+
+/**
+ * Lock a location and read its balances per item and variant, keyed by
+ * `stockKey`. Transfers out of and stock-takes at the location wait on the
+ * lock, so the balances hold until `tx` commits.
+ */
+export async function lockStockAt(tx: DbTransaction, locationId: string, entityId?: string) {
+    const [location] = await tx
+        .select({
+            name: Destination.name,
+            is_warehouse: Destination.is_warehouse,
+            allow_negative_stock: Destination.allow_negative_stock,
+        })
+        .from(Destination)
+        .where(eq(Destination.id, locationId))
+        .for('update');
+
+    const W = WarehouseTransaction;
+    const quantity = sql`COALESCE(CAST(${W.quantity} AS numeric), 0)`;
+    const rows = await tx
+        .select({
+            entity_id: W.entity_id,
+            entity_variant_id: W.entity_variant_id,
+            balance: sql<number>`COALESCE(SUM(
+                CASE WHEN ${W.destination_id} = ${locationId} THEN ${quantity} ELSE 0 END
+                - CASE WHEN ${W.source_id} = ${locationId} THEN ${quantity} ELSE 0 END
+            ), 0)`.mapWith(Number),
+        })
+        .from(W)
+        .where(
+            and(
+                isNull(W.deleted_at),
+                isNotNull(W.entity_id),
+                entityId ? eq(W.entity_id, entityId) : undefined,
+                or(eq(W.destination_id, locationId), eq(W.source_id, locationId)),
+            ),
+        )
+        .groupBy(W.entity_id, W.entity_variant_id);
+
+    return {
+        location,
+        balances: new Map(rows.map((r) => [stockKey(r.entity_id!, r.entity_variant_id), r.balance])),
+    };
+}
+
+type StockLocation = { name: string; is_warehouse: boolean; allow_negative_stock: boolean };
+
+/**
+ * Whether taking `quantity` out of `location`, which holds `available`, would
+ * take it below zero where that is not allowed.
+ */
+export function exceedsStock(location: StockLocation | undefined, available: number, quantity: number) {
+    return !!location && location.is_warehouse && !location.allow_negative_stock && available < quantity;
+}
+
+type Shortage = { location: string; item: string; unit: string; available: number; quantity: number };
+
+/** "Only 3 bags of Cement available at Godown A; 5 requested." */
+export function shortageMessage({ location, item, unit, available, quantity }: Shortage) {
+    return (
+        `Only ${formatQuantity(Math.max(available, 0))} ${unit} of ${item} available at ${location}; ` +
+        `${formatQuantity(quantity)} requested.`
+    );
+}
+
+/**
+ * Throw a StockError if `move` would take its source godown's stock of the
+ * item below zero. Call it inside the database transaction that records the
+ * move; see `lockStockAt`.
+ */
+export async function assertStockAvailable(tx: DbTransaction, move: StockMove) {
+    const { location: source, balances } = await lockStockAt(tx, move.sourceId, move.entityId);
+    const available = balances.get(stockKey(move.entityId, move.variantId)) ?? 0;
+    if (!exceedsStock(source, available, move.quantity)) return;
+
+    const [item] = await tx
+        .select({ name: EntityWarehouse.name, unit: EntityWarehouse.unit })
+        .from(EntityWarehouse)
+        .where(eq(EntityWarehouse.id, move.entityId));
+    const [variant] = move.variantId
+        ? await tx.select().from(EntityVariantWarehouse).where(eq(EntityVariantWarehouse.id, move.variantId))
+        : [];
+    throw new StockError(
+        shortageMessage({
+            location: source.name,
+            item: [item?.name ?? 'this item', variant ? variantLabel(variant) : ''].filter(Boolean).join(' '),
+            unit: item?.unit ?? '',
+            available,
+            quantity: move.quantity,
+        }),
+    );
+}
@@ -0,0 +1,64 @@
+import { describe, expect, it } from 'vitest';
+import { normalizeRegNo, paidTransportIds, transportDue } from '~/lib/transport';
+
+describe('normalizeRegNo', () => {
+    it('drops spaces and punctuation and upper-cases', () => {
+        expect(normalizeRegNo('mh 12-ab 1234')).toBe('MH12AB1234');
+        expect(normalizeRegNo(' MH12.AB.1234 ')).toBe('MH12AB1234');
+    });
+
+    it('leaves nothing of a blank number', () => {
+        expect(normalizeRegNo(' - ')).toBe('');
+    });
+});
+
+describe('transportDue', () => {
+    const costs = new Map([
+        ['a', 1_500],
+        ['b', 2_000],
+        ['c', 500],
+    ]);
+
+    it('takes the whole cost of a bill that owes more than it', () => {
+        expect(transportDue([{ id: 'a', outstanding: 40_000 }], costs)).toBe(1_500);
+    });
+
+    it('takes only what is left of a part-paid bill', () => {
+        expect(transportDue([{ id: 'b', outstanding: 800 }], costs)).toBe(800);
+    });
+
+    it('takes nothing from a bill that owes nothing or is overpaid', () => {
+        expect(transportDue([{ id: 'c', outstanding: 0 }], costs)).toBe(0);
+        expect(transportDue([{ id: 'c', outstanding: -200 }], costs)).toBe(0);
+    });
+
+    it('adds up over bills and ignores bills without transport', () => {
+        const bills = [
+            { id: 'a', outstanding: 40_000 },
+            { id: 'b', outstanding: 800 },
+            { id: 'x', outstanding: 9_000 },
+        ];
+        expect(transportDue(bills, costs)).toBe(2_300);
+    });
+});
+
+describe('paidTransportIds', () => {
+    const entries = [
+        { id: 't1', transaction_id: 'a', payment_status: 'pending' as const },
+        { id: 't2', transaction_id: 'b', payment_status: 'pending' as const },
+        { id: 't3', transaction_id: 'c', payment_status: 'paid' as const },
+        { id: 't4', transaction_id: 'd', payment_status: 'advance' as const },
+    ];
+
+    it('keeps entries whose pending bill took part of the payment', () => {
+        expect(paidTransportIds(entries, [{ transaction_id: 'a', amount: 1_500 }])).toEqual(['t1', 't3', 't4']);
+    });
+
+    it('keeps entries on bills that were no longer pending', () => {
+        expect(paidTransportIds(entries, [])).toEqual(['t3', 't4']);
+    });
+
+    it('leaves entries whose pending bill was paid nothing', () => {
+        expect(paidTransportIds(entries, [{ transaction_id: 'b', amount: 0 }])).toEqual(['t3', 't4']);
+    });
+});
@@ -0,0 +1,283 @@
+import { and, desc, eq, gte, inArray, isNotNull, isNull, lte, sql, type SQL } from 'drizzle-orm';
+import { db } from '~/drizzle/client';
+import {
+    PaymentMode,
+    PaymentStatus,
+    Transaction,
+    TransactionDetail,
+    TransportationCost,
+    Vehicle,
+    VehicleRateBasis,
+} from '~/drizzle/schema';
+import { recordAudit, type AuditActor } from '~/lib/audit';
+import { addMoney, type Money } from '~/lib/money';
+import {
+    loadOutstanding,
+    recordPayment,
+    type Allocation,
+    type DbTransaction,
+    type OutstandingRow,
+} from '~/lib/settlement';
+
+// ── Transport ──────────────────────────────────────────────────────
+//
+// Carting is entered with an expense: a TransportationCost row hangs off the
+// transaction and its cost is part of the bill's outstanding amount. Each
+// entry is also linked to a Vehicle by its registration number, creating the
+// vehicle the first time a number is seen, so that what each transporter is
+// owed can be followed on its own.
+//
+// A transport entry is pending until `paid_at` is set. It is set when the bill
+// it came with is settled (see `settleTransport`), or when the transporter is
+// paid on their own, which records a payment against the bill for the cost.
+// Either way the bill's outstanding amount and the vehicle's pending total
+// agree. Entries on deleted transactions are left out everywhere, as
+// `transaction_detail` leaves them out.
+//
+// Cost per tonne only counts trips whose load was recorded; trips without a
+// load are in the cost and trip totals but not in the per-tonne figure.
+
+export type RateBasis = (typeof VehicleRateBasis)[number];
+
+export const RATE_BASIS_LABELS: Record<RateBasis, string> = {
+    trip: 'Per trip',
+    tonne: 'Per tonne',
+    km: 'Per km',
+    day: 'Per day',
+};
+
+export type TransportStatus = 'pending' | 'paid';
+
+export type TransportFilter = {
+    vehicleId?: string;
+    status?: TransportStatus;
+    /** Inclusive range of the expense dates. */
+    from?: Date;
+    to?: Date;
+};
+
+/** "MH 12-AB 1234" → "MH12AB1234", the form vehicles are stored and matched in. */
+export const normalizeRegNo = (value: string) => value.toUpperCase().replace(/[^A-Z0-9]/g, '');
+
+/**
+ * The id of the vehicle with registration number `regNo`, creating it (with
+ * `vehicleType`) if there is none yet. Null for a blank number.
+ */
+export async function resolveVehicle(tx: DbTransaction, transport: { regNo: string; vehicleType: string }) {
+    const regNo = normalizeRegNo(transport.regNo);
+    if (!regNo) return null;
+
+    const [created] = await tx
+        .insert(Vehicle)
+        .values({ reg_no: regNo, vehicle_type: transport.vehicleType })
+        .onConflictDoNothing({ target: Vehicle.reg_no })
+        .returning({ id: Vehicle.id });
+    if (created) return created.id;
+
+    const [existing] = await tx.select({ id: Vehicle.id }).from(Vehicle).where(eq(Vehicle.reg_no, regNo));
+    return existing.id;
+}
+
+/** What the transport on `bills` still owes: each bill's outstanding amount, up to its transport cost. */
+export function transportDue(bills: OutstandingRow[], costs: Map<string, Money>): Money {
+    return addMoney(...bills.map((b) => Math.max(Math.min(b.outstanding, costs.get(b.id) ?? 0), 0)));
+}
+
+/**
+ * The transport entries that paying their transporter leaves paid: those whose
+ * bill took part of the payment, and those whose bill was no longer pending.
+ */
+export function paidTransportIds(
+    entries: { id: string; transaction_id: string; payment_status: (typeof PaymentStatus)[number] }[],
+    allocations: Allocation[],
+) {
+    const allocated = new Set(allocations.filter((a) => a.amount > 0).map((a) => a.transaction_id));
+    return entries.filter((e) => e.payment_status !== 'pending' || allocated.has(e.transaction_id)).map((e) => e.id);
+}
+
+/**
+ * Pay one transport entry, or every pending entry of one vehicle, now. The
+ * part of each cost still outstanding on its bill is recorded as a payment
+ * against the bill, one payment per site. Entries already paid and entries on
+ * deleted transactions are left alone, as are entries on pending bills that
+ * owed nothing more. Returns how many were paid.
+ */
+export async function payTransport(
+    tx: DbTransaction,
+    target: { id: string } | { vehicleId: string },
+    mode: (typeof PaymentMode)[number],
+    actor: AuditActor,
+) {
+    const rows = await tx
+        .select({
+            entry: TransportationCost,
+            transaction_id: Transaction.id,
+            site_id: Transaction.source_id,
+            payment_status: Transaction.payment_status,
+        })
+        .from(TransportationCost)
+        .innerJoin(Transaction, eq(Transaction.transportation_cost_id, TransportationCost.id))
+        .where(
+            and(
+                'id' in target
+                    ? eq(TransportationCost.id, target.id)
+                    : eq(TransportationCost.vehicle_id, target.vehicleId),
+                isNull(TransportationCost.paid_at),
+                isNull(Transaction.deleted_at),
+            ),
+        )
+        .for('update', { of: TransportationCost });
+    if (!rows.length) return 0;
+
+    const bySite = new Map<string, typeof rows>();
+    for (const r of rows) {
+        if (r.site_id) bySite.set(r.site_id, [...(bySite.get(r.site_id) ?? []), r]);
+    }
+    const allocations: Allocation[] = [];
+    for (const [siteId, entries] of bySite) {
+        const limits = new Map(entries.map((r) => [r.transaction_id, r.entry.cost]));
+        const bills = await loadOutstanding(tx, siteId, { transactionIds: [...limits.keys()], statuses: ['pending'] });
+        const amount = transportDue(bills, limits);
+        if (amount <= 0) continue;
+        const payment = await recordPayment(tx, {
+            siteId,
+            amount,
+            mode,
+            note: `Transport, ${entries[0].entry.reg_no}`,
+            transactionIds: bills.map((b) => b.id),
+            limits,
+        });
+        allocations.push(...payment.allocations);
+    }
+
+    const ids = paidTransportIds(
+        rows.map((r) => ({ id: r.entry.id, transaction_id: r.transaction_id, payment_status: r.payment_status })),
+        allocations,
+    );
+    if (ids.length === 0) return 0;
+    const updated = await tx
+        .update(TransportationCost)
+        .set({ paid_at: new Date() })
+        .where(inArray(TransportationCost.id, ids))
+        .returning();
+    const sites = new Map(rows.map((r) => [r.entry.id, r.site_id]));
+    const before = new Map(rows.map((r) => [r.entry.id, r.entry]));
+    await recordAudit(
+        tx,
+        actor,
+        updated.map((after) => ({
+            table: TransportationCost,
+            rowId: after.id,
+            siteId: sites.get(after.id),
+            before: before.get(after.id),
+            after,
+        })),
+    );
+    return updated.length;
+}
+
+function transportWhere(filter: TransportFilter): SQL | undefined {
+    return and(
+        filter.vehicleId ? eq(TransportationCost.vehicle_id, filter.vehicleId) : undefined,
+        filter.status === 'pending' ? isNull(TransportationCost.paid_at) : undefined,
+        filter.status === 'paid' ? isNotNull(TransportationCost.paid_at) : undefined,
+        filter.from ? gte(TransactionDetail.created_at, filter.from) : undefined,
+        filter.to ? lte(TransactionDetail.created_at, filter.to) : undefined,
+    );
+}
+
+const load = sql`CAST(${TransportationCost.load_tonnes} AS numeric)`;
+
+const cartingColumns = () => ({
+    trips: sql<number>`COUNT(*)`.mapWith(Number),
+    cost: sql<number>`COALESCE(SUM(${TransportationCost.cost}), 0)`.mapWith(Number),
+    tonnes: sql<number>`COALESCE(SUM(${load}), 0)`.mapWith(Number),
+    loaded_cost: sql<number>`COALESCE(SUM(${TransportationCost.cost}) FILTER (WHERE ${load} > 0), 0)`.mapWith(Number),
+});
+
+function toCartingRow<T extends { trips: number; cost: number; tonnes: number; loaded_cost: number }>({
+    loaded_cost,
+    ...row
+}: T) {
+    return { ...row, per_tonne: row.tonnes > 0 ? Math.round(loaded_cost / row.tonnes) : null };
+}
+
+/** Transport entries matching `filter`, newest first. */
+export async function loadTransportEntries(filter: TransportFilter, limit: number, offset: number) {
+    const entries = await db
+        .select({
+            id: TransportationCost.id,
+            transaction_id: TransactionDetail.id,
+            created_at: TransactionDetail.created_at,
+            source_id: TransactionDetail.source_id,
+            source_name: TransactionDetail.source_name,
+            entity_name: TransactionDetail.entity_name,
+            vendor_name: TransactionDetail.vendor_name,
+            reg_no: TransportationCost.reg_no,
+            cost: TransportationCost.cost,
+            load_tonnes: TransportationCost.load_tonnes,
+            paid_at: TransportationCost.paid_at,
+            total_count: sql<number>`COUNT(*) OVER()`.mapWith(Number),
+        })
+        .from(TransportationCost)
+        .innerJoin(TransactionDetail, eq(TransactionDetail.transportation_cost_id, TransportationCost.id))
+        .where(transportWhere(filter))
+        .orderBy(desc(TransactionDetail.created_at))
+        .limit(limit)
+        .offset(offset);
+
+    return { entries, totalCount: entries[0]?.total_count ?? 0 };
+}
+
+/** Pending and paid totals of the transport entries matching `filter`. */
+export async function loadTransportTotals(filter: TransportFilter) {
+    const [totals] = await db
+        .select({
+            ...cartingColumns(),
+            pending:
+                sql<number>`COALESCE(SUM(${TransportationCost.cost}) FILTER (WHERE ${TransportationCost.paid_at} IS NULL), 0)`.mapWith(
+                    Number,
+                ),
+        })
+        .from(TransportationCost)
+        .innerJoin(TransactionDetail, eq(TransactionDetail.transportation_cost_id, TransportationCost.id))
+        .where(transportWhere(filter));
+
+    const { pending, ...row } = totals;
+    return { ...toCartingRow(row), pending, paid: row.cost - pending };
+}
+
+/** Carting cost per vehicle and per site over `filter`, largest cost first. */
+export async function loadCartingReport(filter: TransportFilter) {
+    const where = transportWhere(filter);
+    const [vehicles, sites, totals] = await Promise.all([
+        db
+            .select({
+                vehicle_id: TransportationCost.vehicle_id,
+                reg_no: Vehicle.reg_no,
+                vehicle_type: Vehicle.vehicle_type,
+                owner: Vehicle.owner,
+                ...cartingColumns(),
+            })
+            .from(TransportationCost)
+            .innerJoin(TransactionDetail, eq(TransactionDetail.transportation_cost_id, TransportationCost.id))
+            .leftJoin(Vehicle, eq(Vehicle.id, TransportationCost.vehicle_id))
+            .where(where)
+            .groupBy(TransportationCost.vehicle_id, Vehicle.reg_no, Vehicle.vehicle_type, Vehicle.owner)
+            .orderBy(desc(sql`SUM(${TransportationCost.cost})`)),
+        db
+            .select({
+                site_id: TransactionDetail.source_id,
+                site_name: TransactionDetail.source_name,
+                ...cartingColumns(),
+            })
+            .from(TransportationCost)
+            .innerJoin(TransactionDetail, eq(TransactionDetail.transportation_cost_id, TransportationCost.id))
+            .where(where)
+            .groupBy(TransactionDetail.source_id, TransactionDetail.source_name)
+            .orderBy(desc(sql`SUM(${TransportationCost.cost})`)),
+        loadTransportTotals(filter),
+    ]);
+
+    return { vehicles: vehicles.map(toCartingRow), sites: sites.map(toCartingRow), totals };
+}
@@ -0,0 +1,117 @@
+import { crc32, inflateRawSync } from 'node:zlib';
+import { describe, expect, it } from 'vitest';
+import { buildWorkbook } from '~/lib/xlsx';
+
+/** Read every file of a zip through its central directory, checking each CRC. */
+function unzip(bytes: Uint8Array) {
+    const buf = Buffer.from(bytes);
+    const end = buf.length - 22;
+    expect(buf.readUInt32LE(end)).toBe(0x06054b50);
+
+    const files = new Map<string, string>();
+    let at = buf.readUInt32LE(end + 16);
+    for (let i = 0; i < buf.readUInt16LE(end + 10); i++) {
+        expect(buf.readUInt32LE(at)).toBe(0x02014b50);
+        const size = buf.readUInt32LE(at + 20);
+        const nameLength = buf.readUInt16LE(at + 28);
+        const name = buf.toString('utf8', at + 46, at + 46 + nameLength);
+        const local = buf.readUInt32LE(at + 42);
+        const start = local + 30 + buf.readUInt16LE(local + 26);
+        const data = inflateRawSync(buf.subarray(start, start + size));
+        expect(crc32(data)).toBe(buf.readUInt32LE(at + 16));
+        files.set(name, data.toString('utf8'));
+        at += 46 + nameLength;
+    }
+    return files;
+}
+
+describe('buildWorkbook', () => {
+    it('writes the parts Excel needs, one worksheet per sheet', () => {
+        const files = unzip(
+            buildWorkbook([
+                { name: 'Expenses', rows: [] },
+                { name: 'Summary', rows: [] },
+            ]),
+        );
+
+        expect([...files.keys()]).toEqual([
+            '[Content_Types].xml',
+            '_rels/.rels',
+            'xl/workbook.xml',
+            'xl/_rels/workbook.xml.rels',
+            'xl/styles.xml',
+            'xl/worksheets/sheet1.xml',
+            'xl/worksheets/sheet2.xml',
+        ]);
+        expect(files.get('xl/workbook.xml')).toContain('<sheet name="Expenses" sheetId="1" r:id="rId1"/>');
+        expect(files.get('xl/workbook.xml')).toContain('<sheet name="Summary" sheetId="2" r:id="rId2"/>');
+        expect(files.get('xl/_rels/workbook.xml.rels')).toContain('Id="rId3"');
+    });
+
+    it('writes strings inline and escaped, numbers and dates as values', () => {
+        const files = unzip(
+            buildWorkbook([
+                {
+                    name: 'Sheet',
+                    widths: [20, 10],
+                    rows: [
+                        ['Item', 'Amount'],
+                        ['Nuts & <bolts>\x07', { value: 1_234.5, style: 'money' }],
+                        [new Date(Date.UTC(2026, 0, 1)), null, 3],
+                    ],
+                },
+            ]),
+        );
+        const sheet = files.get('xl/worksheets/sheet1.xml')!;
+
+        expect(sheet).toContain('<col min="1" max="1" width="20" customWidth="1"/>');
+        expect(sheet).toContain(
+            '<c r="A2" t="inlineStr"><is><t xml:space="preserve">Nuts &amp; &lt;bolts&gt;</t></is></c>',
+        );
+        expect(sheet).toContain('<c r="B2" s="3"><v>1234.5</v></c>');
+        expect(sheet).toContain('<c r="A3" s="6"><v>46023</v></c>');
+        expect(sheet).not.toContain('r="B3"');
+        expect(sheet).toContain('<c r="C3"><v>3</v></c>');
+    });
+
+    it('names columns past Z with two letters', () => {
+        const row = Array.from({ length: 28 }, (_, i) => i);
+        const sheet = unzip(buildWorkbook([{ name: 'Wide', rows: [row] }])).get('xl/worksheets/sheet1.xml')!;
+
+        expect(sheet).toContain('<c r="Z1"><v>25</v></c>');
+        expect(sheet).toContain('<c r="AB1"><v>27</v></c>');
+    });
+
+    it('cleans sheet names Excel would refuse', () => {
+        const files = unzip(buildWorkbook([{ name: 'Site A/B: stock [2026] and a very long tail', rows: [] }]));
+
+        expect(files.get('xl/workbook.xml')).toContain('<sheet name="Site A-B- stock -2026- and a ve" ');
+    });
+
+    it('cuts long sheet names by character, never inside one', () => {
+        const name = `${'x'.repeat(30)}🏗️ site`;
+        const files = unzip(buildWorkbook([{ name, rows: [] }]));
+
+        expect(files.get('xl/workbook.xml')).toContain(`<sheet name="${'x'.repeat(30)}🏗" `);
+    });
+
+    it('numbers repeated sheet names, within the length limit', () => {
+        const long = 'Godown stock for the month of March';
+        const files = unzip(
+            buildWorkbook([
+                { name: 'Daily', rows: [] },
+                { name: 'daily', rows: [] },
+                { name: 'Daily', rows: [] },
+                { name: long, rows: [] },
+                { name: long, rows: [] },
+            ]),
+        );
+        const workbook = files.get('xl/workbook.xml')!;
+
+        expect(workbook).toContain('<sheet name="Daily" sheetId="1"');
+        expect(workbook).toContain('<sheet name="daily (2)" sheetId="2"');
+        expect(workbook).toContain('<sheet name="Daily (3)" sheetId="3"');
+        expect(workbook).toContain('<sheet name="Godown stock for the month of M" sheetId="4"');
+        expect(workbook).toContain('<sheet name="Godown stock for the month (2)" sheetId="5"');
+    });
+});
@@ -0,0 +1,237 @@
+import { crc32, deflateRawSync } from 'node:zlib';
+
+// ── XLSX ───────────────────────────────────────────────────────────
+//
+// A small writer for Excel workbooks, used by the expense export. A workbook
+// is a zip of XML parts; this writes the few parts Excel needs, with strings
+// inline in each cell and a fixed set of cell styles (`XlsxStyle`) so that
+// money shows in rupees and totals in bold without any formatting by hand.
+//
+// Money cells take rupees (see `toRupees`), not paise; dates are written as
+// Excel serial days counted in UTC, like the CSV export's labels.
+
+export type XlsxStyle = 'bold' | 'header' | 'money' | 'moneyBold' | 'quantity' | 'date';
+
+export type XlsxCell = string | number | Date | null | undefined | { value: string | number | Date; style: XlsxStyle };
+
+export type XlsxSheet = {
+    name: string;
+    /** Column widths in characters, from column A. */
+    widths?: number[];
+    rows: XlsxCell[][];
+};
+
+// Index of each style in `cellXfs` below; 0 is the default.
+const STYLE_INDEX: Record<XlsxStyle, number> = { bold: 1, header: 2, money: 3, moneyBold: 4, quantity: 5, date: 6 };
+
+const STYLES = `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<styleSheet xmlns="http://schemas.openxmlformats.org/spreadsheetml/2006/main">
+<numFmts count="2"><numFmt numFmtId="164" formatCode="&quot;₹&quot;#,##0.00"/><numFmt numFmtId="165" formatCode="dd\\-mm\\-yyyy"/></numFmts>
+<fonts count="2"><font><sz val="11"/><name val="Calibri"/></font><font><b/><sz val="11"/><name val="Calibri"/></font></fonts>
+<fills count="3"><fill><patternFill patternType="none"/></fill><fill><patternFill patternType="gray125"/></fill><fill><patternFill patternType="solid"><fgColor rgb="FFF4F4F5"/></patternFill></fill></fills>
+<borders count="1"><border><left/><right/><top/><bottom/><diagonal/></border></borders>
+<cellStyleXfs count="1"><xf numFmtId="0" fontId="0" fillId="0" borderId="0"/></cellStyleXfs>
+<cellXfs count="7">
+<xf numFmtId="0" fontId="0" fillId="0" borderId="0" xfId="0"/>
+<xf numFmtId="0" fontId="1" fillId="0" borderId="0" xfId="0" applyFont="1"/>
+<xf numFmtId="0" fontId="1" fillId="2" borderId="0" xfId="0" applyFont="1" applyFill="1"/>
+<xf numFmtId="164" fontId="0" fillId="0" borderId="0" xfId="0" applyNumberFormat="1"/>
+<xf numFmtId="164" fontId="1" fillId="0" borderId="0" xfId="0" applyNumberFormat="1" applyFont="1"/>
+<xf numFmtId="2" fontId="0" fillId="0" borderId="0" xfId="0" applyNumberFormat="1"/>
+<xf numFmtId="165" fontId="0" fillId="0" borderId="0" xfId="0" applyNumberFormat="1"/>
+</cellXfs>
+<cellStyles count="1"><cellStyle name="Normal" xfId="0" builtinId="0"/></cellStyles>
+</styleSheet>`;
+
+const MAIN_NS = 'http://schemas.openxmlformats.org/spreadsheetml/2006/main';
+const REL_NS = 'http://schemas.openxmlformats.org/officeDocument/2006/relationships';
+const XML_HEAD = '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>\n';
+
+const escapeXml = (text: string) =>
+    text
+        // Control characters are not allowed in XML at all.
+        .replace(/[\x00-\x08\x0b\x0c\x0e-\x1f]/g, '')
+        .replace(/&/g, '&amp;')
+        .replace(/</g, '&lt;')
+        .replace(/>/g, '&gt;')
+        .replace(/"/g, '&quot;');
+
+/** "A" for column 0, "AA" for column 26. */
+function columnName(index: number) {
+    let name = '';
+    for (let n = index + 1; n > 0; n = Math.floor((n - 1) / 26)) {
+        name = String.fromCharCode(65 + ((n - 1) % 26)) + name;
+    }
+    return name;
+}
+
+/** Days since 30-12-1899, which is how Excel stores dates. */
+const excelDate = (date: Date) => date.getTime() / 86_400_000 + 25_569;
+
+function cellXml(cell: XlsxCell, ref: string) {
+    if (cell == null || cell === '') return '';
+    const { value, style } =
+        typeof cell === 'object' && !(cell instanceof Date)
+            ? cell
+            : { value: cell, style: cell instanceof Date ? ('date' as const) : undefined };
+    const s = style ? ` s="${STYLE_INDEX[style]}"` : '';
+    if (value instanceof Date) return `<c r="${ref}"${s}><v>${excelDate(value)}</v></c>`;
+    if (typeof value === 'number') return `<c r="${ref}"${s}><v>${value}</v></c>`;
+    return `<c r="${ref}"${s} t="inlineStr"><is><t xml:space="preserve">${escapeXml(value)}</t></is></c>`;
+}
+
+function sheetXml(sheet: XlsxSheet) {
+    const cols = sheet.widths?.length
+        ? `<cols>${sheet.widths
+              .map((width, i) => `<col min="${i + 1}" max="${i + 1}" width="${width}" customWidth="1"/>`)
+              .join('')}</cols>`
+        : '';
+    const rows = sheet.rows
+        .map((cells, r) => {
+            const content = cells.map((cell, c) => cellXml(cell, `${columnName(c)}${r + 1}`)).join('');
+            return `<row r="${r + 1}">${content}</row>`;
+        })
+        .join('');
+    // The first row is the header; keep it in view while scrolling.
+    const pane = '<pane ySplit="1" topLeftCell="A2" activePane="bottomLeft" state="frozen"/>';
+    return (
+        `${XML_HEAD}<worksheet xmlns="${MAIN_NS}"><sheetViews><sheetView workbookViewId="0">${pane}</sheetView></sheetViews>` +
+        `${cols}<sheetData>${rows}</sheetData></worksheet>`
+    );
+}
+
+const MAX_SHEET_NAME = 31;
+
+/**
+ * Sheet names are at most 31 characters, may not contain []:*?/\ and must
+ * differ ignoring case; a repeated name gets a numeric suffix, " (2)".
+ */
+function sheetNames(names: string[]) {
+    const taken = new Set<string>();
+    return names.map((name, i) => {
+        // Truncated by code point, so a character outside the BMP is never split
+        const chars = [...(name.replace(/[[\]:*?/\\]/g, '-') || `Sheet${i + 1}`)];
+        let unique = chars.slice(0, MAX_SHEET_NAME).join('');
+        for (let n = 2; taken.has(unique.toLowerCase()); n++) {
+            const suffix = ` (${n})`;
+            unique = chars.slice(0, MAX_SHEET_NAME - suffix.length).join('').trimEnd() + suffix;
+        }
+        taken.add(unique.toLowerCase());
+        return unique;
+    });
+}
+
+/** A workbook with `sheets` in order, as the bytes of an .xlsx file. */
+export function buildWorkbook(sheets: XlsxSheet[]) {
+    const names = sheetNames(sheets.map((s) => s.name));
+    const files: [string, string][] = [
+        [
+            '[Content_Types].xml',
+            `${XML_HEAD}<Types xmlns="http://schemas.openxmlformats.org/package/2006/content-types">` +
+                '<Default Extension="rels" ContentType="application/vnd.openxmlformats-package.relationships+xml"/>' +
+                '<Default Extension="xml" ContentType="application/xml"/>' +
+                '<Override PartName="/xl/workbook.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.sheet.main+xml"/>' +
+                '<Override PartName="/xl/styles.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.styles+xml"/>' +
+                sheets
+                    .map(
+                        (_, i) =>
+                            `<Override PartName="/xl/worksheets/sheet${i + 1}.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.worksheet+xml"/>`,
+                    )
+                    .join('') +
+                '</Types>',
+        ],
+        [
+            '_rels/.rels',
+            `${XML_HEAD}<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships">` +
+                `<Relationship Id="rId1" Type="${REL_NS}/officeDocument" Target="xl/workbook.xml"/></Relationships>`,
+        ],
+        [
+            'xl/workbook.xml',
+            `${XML_HEAD}<workbook xmlns="${MAIN_NS}" xmlns:r="${REL_NS}"><sheets>` +
+                names
+                    .map((name, i) => `<sheet name="${escapeXml(name)}" sheetId="${i + 1}" r:id="rId${i + 1}"/>`)
+                    .join('') +
+                '</sheets></workbook>',
+        ],
+        [
+            'xl/_rels/workbook.xml.rels',
+            `${XML_HEAD}<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships">` +
+                sheets
+                    .map(
+                        (_, i) =>
+                            `<Relationship Id="rId${i + 1}" Type="${REL_NS}/worksheet" Target="worksheets/sheet${i + 1}.xml"/>`,
+                    )
+                    .join('') +
+                `<Relationship Id="rId${sheets.length + 1}" Type="${REL_NS}/styles" Target="styles.xml"/>` +
+                '</Relationships>',
+        ],
+        ['xl/styles.xml', STYLES],
+        ...sheets.map((sheet, i): [string, string] => [`xl/worksheets/sheet${i + 1}.xml`, sheetXml(sheet)]),
+    ];
+    return zip(files);
+}
+
+/** Response headers for a workbook download named `filename`. */
+export function xlsxHeaders(filename: string) {
+    return {
+        'Content-Type': 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet',
+        'Content-Disposition': `attachment; filename="${filename}"`,
+    };
+}
+
+// A zip archive of deflated files. Timestamps are left at the zip epoch
+// (01-01-1980); nothing reads them.
+function zip(files: [name: string, content: string][]) {
+    const DOS_DATE = (1 << 5) | 1;
+    const locals: Buffer[] = [];
+    const central: Buffer[] = [];
+    let offset = 0;
+
+    for (const [name, content] of files) {
+        const nameBytes = Buffer.from(name, 'utf8');
+        const data = Buffer.from(content, 'utf8');
+        const packed = deflateRawSync(data);
+        const crc = crc32(data);
+
+        const local = Buffer.alloc(30);
+        local.writeUInt32LE(0x04034b50, 0);
+        local.writeUInt16LE(20, 4); // version needed
+        local.writeUInt16LE(0x0800, 6); // names are UTF-8
+        local.writeUInt16LE(8, 8); // deflate
+        local.writeUInt16LE(0, 10);
+        local.writeUInt16LE(DOS_DATE, 12);
+        local.writeUInt32LE(crc, 14);
+        local.writeUInt32LE(packed.length, 18);
+        local.writeUInt32LE(data.length, 22);
+        local.writeUInt16LE(nameBytes.length, 26);
+        local.writeUInt16LE(0, 28);
+        locals.push(local, nameBytes, packed);
+
+        const entry = Buffer.alloc(46);
+        entry.writeUInt32LE(0x02014b50, 0);
+        entry.writeUInt16LE(20, 4); // version made by
+        entry.writeUInt16LE(20, 6);
+        entry.writeUInt16LE(0x0800, 8);
+        entry.writeUInt16LE(8, 10);
+        entry.writeUInt16LE(0, 12);
+        entry.writeUInt16LE(DOS_DATE, 14);
+        entry.writeUInt32LE(crc, 16);
+        entry.writeUInt32LE(packed.length, 20);
+        entry.writeUInt32LE(data.length, 24);
+        entry.writeUInt16LE(nameBytes.length, 28);
+        entry.writeUInt32LE(offset, 42);
+        central.push(entry, nameBytes);
+
+        offset += local.length + nameBytes.length + packed.length;
+    }
+
+    const directory = Buffer.concat(central);
+    const end = Buffer.alloc(22);
+    end.writeUInt32LE(0x06054b50, 0);
+    end.writeUInt16LE(files.length, 8);
+    end.writeUInt16LE(files.length, 10);
+    end.writeUInt32LE(directory.length, 12);
+    end.writeUInt32LE(offset, 16);
+
+    return new Uint8Array(Buffer.concat([...locals, directory, end]));
+}
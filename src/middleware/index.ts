@@ -4,7 +4,7 @@ import { redirect } from '@solidjs/router';
 
 // --- Config ---
 const PUBLIC_ROUTES = ['/login', '/signup'];
-const DEFAULT_REDIRECT = '/asd';
+const DEFAULT_REDIRECT = '/';
 
 type Role = 'admin' | 'warehouse-user' | 'expense-user';
 
@@ -13,9 +13,13 @@ type Role = 'admin' | 'warehouse-user' | 'expense-user';
 const ROUTE_ACCESS: Record<string, Role[]> = {
     '/expenses': ['expense-user'],
     '/sites': ['expense-user'],
+    '/vendors': ['expense-user'],
+    '/vehicles': ['expense-user'],
     '/dashboard': ['warehouse-user'],
     '/items': ['warehouse-user'],
     '/destination': ['warehouse-user', 'expense-user'],
+    '/audit': [],
+    '/aliases': [],
 };
 
 // --- Helpers ---
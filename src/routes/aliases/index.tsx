@@ -0,0 +1,279 @@
+import { action, createAsync, query, useSubmission } from '@solidjs/router';
+import { and, asc, eq, isNull, ne } from 'drizzle-orm';
+import { createMemo, createSignal, For, Show, Suspense } from 'solid-js';
+import { db } from '~/drizzle/client';
+import { Destination, Entity, EntryAlias, user } from '~/drizzle/schema';
+import { requireAuth } from '~/lib/require-auth';
+import { aliasTargetName } from '~/lib/entry-aliases';
+import { normalizeAlias } from '~/lib/quick-entry-parser';
+
+type ActionResponse = {
+    success: boolean;
+    error?: string;
+};
+
+// --- QUERIES & ACTIONS ---
+
+export const loadAliases = query(async () => {
+    'use server';
+    await requireAuth(['admin']);
+
+    const [aliases, entities, destinations, users] = await Promise.all([
+        db
+            .select({
+                id: EntryAlias.id,
+                alias: EntryAlias.alias,
+                kind: EntryAlias.kind,
+                target_id: EntryAlias.target_id,
+                user_id: EntryAlias.user_id,
+                user_name: user.name,
+                updated_at: EntryAlias.updated_at,
+            })
+            .from(EntryAlias)
+            .leftJoin(user, eq(user.id, EntryAlias.user_id))
+            .orderBy(asc(EntryAlias.kind), asc(EntryAlias.alias)),
+        db.select({ id: Entity.id, name: Entity.name }).from(Entity).orderBy(asc(Entity.name)),
+        db.select({ id: Destination.id, name: Destination.name }).from(Destination).orderBy(asc(Destination.name)),
+        db.select({ id: user.id, name: user.name }).from(user).orderBy(asc(user.name)),
+    ]);
+    return { aliases, entities, destinations, users };
+}, 'entry-aliases');
+
+export const updateAlias = action(async (formData: FormData): Promise<ActionResponse> => {
+    'use server';
+    await requireAuth(['admin']);
+
+    const id = (formData.get('id') as string)?.trim() ?? '';
+    const alias = normalizeAlias((formData.get('alias') as string) ?? '');
+    const targetId = (formData.get('target_id') as string)?.trim() ?? '';
+    const userId = (formData.get('user_id') as string)?.trim() || null;
+    if (!id || !alias || !targetId) {
+        return { success: false, error: 'Alias text and target are required.' };
+    }
+
+    try {
+        const [existing] = await db.select().from(EntryAlias).where(eq(EntryAlias.id, id));
+        if (!existing) return { success: false, error: 'Alias not found.' };
+        if (!(await aliasTargetName(existing.kind, targetId))) {
+            return { success: false, error: 'The selected target no longer exists.' };
+        }
+
+        const [duplicate] = await db
+            .select({ id: EntryAlias.id })
+            .from(EntryAlias)
+            .where(
+                and(
+                    ne(EntryAlias.id, id),
+                    eq(EntryAlias.kind, existing.kind),
+                    eq(EntryAlias.alias, alias),
+                    userId ? eq(EntryAlias.user_id, userId) : isNull(EntryAlias.user_id),
+                ),
+            );
+        if (duplicate) {
+            return { success: false, error: `"${alias}" is already an alias for that scope.` };
+        }
+
+        await db.update(EntryAlias).set({ alias, target_id: targetId, user_id: userId }).where(eq(EntryAlias.id, id));
+        return { success: true };
+    } catch (error: unknown) {
+        console.error('Database error:', error);
+        return { success: false, error: 'System error. Please try again.' };
+    }
+});
+
+export const deleteAlias = action(async (formData: FormData): Promise<ActionResponse> => {
+    'use server';
+    await requireAuth(['admin']);
+
+    const id = (formData.get('id') as string)?.trim() ?? '';
+    if (!id) return { success: false, error: 'Alias id is missing.' };
+
+    try {
+        await db.delete(EntryAlias).where(eq(EntryAlias.id, id));
+        return { success: true };
+    } catch (error: unknown) {
+        console.error('Database error:', error);
+        return { success: false, error: 'System error. Please try again.' };
+    }
+});
+
+// --- PAGE ---
+
+export default function AliasesPage() {
+    const data = createAsync(() => loadAliases());
+    const updating = useSubmission(updateAlias);
+    const deleting = useSubmission(deleteAlias);
+    const error = () => updating.result?.error ?? deleting.result?.error;
+
+    const [kind, setKind] = createSignal('');
+    const [scope, setScope] = createSignal('');
+
+    const aliases = createMemo(() =>
+        (data()?.aliases ?? []).filter(
+            (a) =>
+                (!kind() || a.kind === kind()) &&
+                (!scope() || (scope() === 'global' ? a.user_id === null : a.user_id === scope())),
+        ),
+    );
+
+    const targets = (aliasKind: string) => (aliasKind === 'entity' ? data()?.entities : data()?.destinations) ?? [];
+
+    const selectClass =
+        'h-9 bg-white border border-zinc-200 rounded-lg px-3 text-sm text-black outline-none cursor-pointer hover:border-zinc-300 transition-colors';
+    const inputClass =
+        'h-9 w-full bg-white border border-zinc-200 rounded-lg px-3 text-sm text-black outline-none focus:border-black/40 transition-colors';
+
+    return (
+        <div class="w-full mx-auto px-4 py-12">
+            <div class="mb-8">
+                <h1 class="text-3xl font-bold text-black tracking-tight">Quick Entry Aliases</h1>
+                <p class="mt-1 text-sm text-zinc-500">
+                    Spellings learned when users picked a suggestion in quick entry. An alias with no user applies to
+                    everyone.
+                </p>
+            </div>
+
+            <div class="mb-6 flex flex-wrap items-center gap-3 bg-white border border-zinc-200 rounded-2xl px-4 py-3">
+                <select class={selectClass} value={kind()} onChange={(e) => setKind(e.currentTarget.value)}>
+                    <option value="">Items and sites</option>
+                    <option value="entity">Items</option>
+                    <option value="destination">Sites</option>
+                </select>
+                <select class={selectClass} value={scope()} onChange={(e) => setScope(e.currentTarget.value)}>
+                    <option value="">All users</option>
+                    <option value="global">Everyone (global)</option>
+                    <For each={data()?.users}>{(u) => <option value={u.id}>{u.name}</option>}</For>
+                </select>
+            </div>
+
+            <div class="bg-white border border-zinc-200 rounded-2xl overflow-hidden shadow-2xl shadow-black/5">
+                <Show when={error()}>
+                    <div class="px-6 py-3 bg-red-500/10 border-b border-red-500/10 text-sm text-red-500">{error()}</div>
+                </Show>
+                <div class="overflow-x-auto">
+                    <table class="w-full min-w-[900px] text-left border-collapse">
+                        <thead>
+                            <tr class="border-b border-zinc-200 bg-zinc-50">
+                                <th class="py-3 px-3 text-xs font-bold uppercase tracking-wider text-zinc-600">
+                                    Typed text
+                                </th>
+                                <th class="py-3 px-3 text-xs font-bold uppercase tracking-wider text-zinc-600">Kind</th>
+                                <th class="py-3 px-3 text-xs font-bold uppercase tracking-wider text-zinc-600">
+                                    Resolves to
+                                </th>
+                                <th class="py-3 px-3 text-xs font-bold uppercase tracking-wider text-zinc-600">
+                                    Applies to
+                                </th>
+                                <th class="py-3 px-3 text-right text-xs font-bold uppercase tracking-wider text-zinc-600"></th>
+                            </tr>
+                        </thead>
+                        <tbody class="divide-y divide-zinc-100">
+                            <Suspense>
+                                <Show
+                                    when={aliases().length > 0}
+                                    fallback={
+                                        <tr>
+                                            <td colspan={5} class="text-center py-12 text-sm text-zinc-400">
+                                                No aliases learned yet.
+                                            </td>
+                                        </tr>
+                                    }
+                                >
+                                    <For each={aliases()}>
+                                        {(alias) => {
+                                            const formId = `alias-${alias.id}`;
+                                            return (
+                                                <tr class="hover:bg-zinc-50/80">
+                                                    <td class="py-3 px-3">
+                                                        <input
+                                                            form={formId}
+                                                            name="alias"
+                                                            value={alias.alias}
+                                                            class={`${inputClass} font-mono`}
+                                                        />
+                                                    </td>
+                                                    <td class="py-3 px-3 text-sm text-zinc-700">
+                                                        {alias.kind === 'entity' ? 'Item' : 'Site'}
+                                                    </td>
+                                                    <td class="py-3 px-3">
+                                                        <select form={formId} name="target_id" class={selectClass}>
+                                                            <Show
+                                                                when={
+                                                                    !targets(alias.kind).some(
+                                                                        (t) => t.id === alias.target_id,
+                                                                    )
+                                                                }
+                                                            >
+                                                                <option value="" selected>
+                                                                    (deleted)
+                                                                </option>
+                                                            </Show>
+                                                            <For each={targets(alias.kind)}>
+                                                                {(t) => (
+                                                                    <option
+                                                                        value={t.id}
+                                                                        selected={t.id === alias.target_id}
+                                                                    >
+                                                                        {t.name}
+                                                                    </option>
+                                                                )}
+                                                            </For>
+                                                        </select>
+                                                    </td>
+                                                    <td class="py-3 px-3">
+                                                        <select form={formId} name="user_id" class={selectClass}>
+                                                            <option value="" selected={alias.user_id === null}>
+                                                                Everyone
+                                                            </option>
+                                                            <For each={data()?.users}>
+                                                                {(u) => (
+                                                                    <option
+                                                                        value={u.id}
+                                                                        selected={u.id === alias.user_id}
+                                                                    >
+                                                                        {u.name}
+                                                                    </option>
+                                                                )}
+                                                            </For>
+                                                        </select>
+                                                    </td>
+                                                    <td class="py-3 px-3 text-right">
+                                                        <div class="flex items-center justify-end gap-3">
+                                                            <form id={formId} action={updateAlias} method="post">
+                                                                <input type="hidden" name="id" value={alias.id} />
+                                                                <button
+                                                                    type="submit"
+                                                                    class="text-xs font-semibold text-blue-500 hover:text-blue-700"
+                                                                >
+                                                                    Save
+                                                                </button>
+                                                            </form>
+                                                            <form action={deleteAlias} method="post">
+                                                                <input type="hidden" name="id" value={alias.id} />
+                                                                <button
+                                                                    type="submit"
+                                                                    class="text-xs font-semibold text-red-500 hover:text-red-700"
+                                                                    onClick={(e) =>
+                                                                        !confirm(
+                                                                            `Delete the alias "${alias.alias}"?`,
+                                                                        ) && e.preventDefault()
+                                                                    }
+                                                                >
+                                                                    Delete
+                                                                </button>
+                                                            </form>
+                                                        </div>
+                                                    </td>
+                                                </tr>
+                                            );
+                                        }}
+                                    </For>
+                                </Show>
+                            </Suspense>
+                        </tbody>
+                    </table>
+                </div>
+            </div>
+        </div>
+    );
+}
@@ -0,0 +1,52 @@
+import { type APIEvent } from '@solidjs/start/server';
+import { auth } from '~/lib/auth';
+import { challanNumber, loadChallan } from '~/lib/challan';
+import { PdfDocument, pdfDate, pdfHeaders } from '~/lib/pdf';
+
+/** Delivery challan for a warehouse transfer, as a PDF. */
+export async function GET(event: APIEvent) {
+	const session = await auth.api.getSession({ headers: event.request.headers });
+	if (!session?.user) return new Response('Unauthorized', { status: 401 });
+	const role = session.user.role as string;
+	if (role !== 'admin' && role !== 'warehouse-user') return new Response('Forbidden', { status: 403 });
+
+	const challan = await loadChallan(event.params.id);
+	if (!challan) return new Response('Not found', { status: 404 });
+
+	const number = challanNumber(challan.challan_no);
+	const doc = new PdfDocument(`Challan ${number}`);
+
+	doc.heading('Delivery Challan', number);
+	doc.fields([
+		['Date', pdfDate(challan.challan_date)],
+		['Vehicle No.', challan.vehicle_no || '--'],
+		['From', challan.source_name],
+		['To', challan.destination_name],
+		['Driver', challan.driver_name || '--'],
+	]);
+
+	doc.table(
+		[
+			{ header: '#', weight: 0.5 },
+			{ header: 'Item', weight: 4 },
+			{ header: 'Variant', weight: 2.5 },
+			{ header: 'Quantity', weight: 1.5, align: 'right' },
+			{ header: 'Unit', weight: 1 },
+		],
+		challan.lines.map((line, i) => ({
+			cells: [
+				String(i + 1),
+				line.entity_name,
+				line.variant || '--',
+				line.quantity.toFixed(3).replace(/\.?0+$/, ''),
+				line.entity_unit,
+			],
+		})),
+	);
+
+	if (challan.note) doc.fields([['Note', challan.note]], 1);
+
+	doc.signatures(['Prepared by', 'Driver', 'Received by']);
+
+	return new Response(doc.toBytes(), { headers: pdfHeaders(`challan-${number}.pdf`) });
+}
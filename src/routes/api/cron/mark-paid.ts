@@ -1,8 +1,16 @@
 import { type APIEvent } from '@solidjs/start/server';
 import { eq } from 'drizzle-orm';
 import { db } from '~/drizzle/client';
-import { Transaction } from '~/drizzle/schema';
+import { Destination } from '~/drizzle/schema';
+import { addMoney } from '~/lib/money';
+import { loadOutstanding, recordPayment } from '~/lib/settlement';
 
+/**
+ * Weekly auto-settle. Only sites that opted in (`Destination.auto_settle`)
+ * are touched; for each, a single `auto` Payment is recorded covering every
+ * pending transaction's outstanding balance, so the settlement history stays
+ * complete.
+ */
 export async function GET(event: APIEvent) {
 	const secret = process.env.CRON_SECRET;
 	const authHeader = event.request.headers.get('authorization');
@@ -11,14 +19,34 @@ export async function GET(event: APIEvent) {
 		return new Response('Unauthorized', { status: 401 });
 	}
 
-	const result = await db
-		.update(Transaction)
-		.set({ payment_status: 'paid' })
-		.where(eq(Transaction.payment_status, 'pending'))
-		.returning({ id: Transaction.id });
+	const sites = await db
+		.select({ id: Destination.id })
+		.from(Destination)
+		.where(eq(Destination.auto_settle, true));
+
+	let payments = 0;
+	let updated = 0;
+
+	for (const site of sites) {
+		await db.transaction(async (tx) => {
+			const rows = await loadOutstanding(tx, site.id, { statuses: ['pending'] });
+			const amount = addMoney(...rows.map((r) => Math.max(r.outstanding, 0)));
+			if (amount <= 0) return;
+
+			const result = await recordPayment(tx, {
+				siteId: site.id,
+				amount,
+				transactionIds: rows.map((r) => r.id),
+				mode: 'auto',
+				referenceNo: `auto-settle ${new Date().toISOString().split('T')[0]}`,
+			});
+			payments += 1;
+			updated += result.settledIds.length;
+		});
+	}
 
 	return new Response(
-		JSON.stringify({ success: true, updated: result.length }),
+		JSON.stringify({ success: true, sites: sites.length, payments, updated }),
 		{ headers: { 'Content-Type': 'application/json' } },
 	);
 }
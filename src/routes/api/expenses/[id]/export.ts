@@ -3,25 +3,24 @@ import { eq, and, getViewSelectedFields, gte, lte, asc } from 'drizzle-orm';
 import { db } from '~/drizzle/client';
 import { TransactionDetail } from '~/drizzle/schema';
 import { auth } from '~/lib/auth';
+import { addMoney, toRupees, type Money } from '~/lib/money';
+import { escapeCSV } from '~/lib/report';
+import { buildWorkbook, xlsxHeaders, type XlsxCell, type XlsxSheet } from '~/lib/xlsx';
 
 // ---------------------------------------------------------------------------
 // Helpers
 // ---------------------------------------------------------------------------
 
-function escapeCSV(value: string | null | undefined): string {
-	if (value == null) return '';
-	const str = String(value);
-	if (str.includes(',') || str.includes('"') || str.includes('\n')) {
-		return `"${str.replace(/"/g, '""')}"`;
-	}
-	return str;
-}
-
 /** Format a number, trimming redundant trailing zeros: 1.00 → "1", 1.50 → "1.5" */
 function fmtNum(n: number): string {
 	return n.toFixed(2).replace(/\.?0+$/, '');
 }
 
+/** Format paise as rupees, trimming redundant trailing zeros: 10000 → "100", 1050 → "10.5" */
+function fmtMoney(paise: Money): string {
+	return toRupees(paise).replace(/\.?0+$/, '');
+}
+
 /** Format a Date as dd-mm-yyyy (for display labels) — always UTC */
 function fmtDateLabel(d: Date): string {
 	const dd   = String(d.getUTCDate()).padStart(2, '0');
@@ -65,35 +64,41 @@ function colKey(entityName: string | null, entityVariant: string | null): string
 }
 
 // ---------------------------------------------------------------------------
-// Pivot-table CSV builder
+// Pivot table
 // ---------------------------------------------------------------------------
 
 type TxRow = {
-	created_at:     Date | null;
-	entity_name:    string | null;
-	entity_variant: string | null;
-	quantity:       string | null;
-	rate:           string | null;
-	amount:         string | null;
+	created_at:          Date | null;
+	type:                'credit' | 'debit' | null;
+	entity_name:         string | null;
+	entity_variant:      string | null;
+	quantity:            string | null;
+	rate:                Money | null;
+	amount:              Money | null;
+	tax_amount:          Money | null;
+	gross_amount:        Money | null;
+	transportation_cost: Money | null;
 };
 
-function buildPivotCSV(rows: TxRow[], groupBy: 'date' | 'week'): string {
+/** Quantities per date (or week) and item, with the per-item footer totals */
+type Pivot = {
+	firstCol:    'Date' | 'Week';
+	cols:        string[];
+	groups:      { label: string; qty: number[] }[];
+	latestRate:  Money[]; // last-seen rate per col (paise)
+	totalAmount: Money[]; // sum of taxable amounts per col (paise)
+	totalTax:    Money[]; // sum of GST per col (paise)
+	totalGross:  Money[]; // sum of taxable + GST per col (paise)
+	netTotal:    Money;   // credits less debits, transport included: the ledger's total (paise)
+};
+
+function buildPivot(rows: TxRow[], groupBy: 'date' | 'week'): Pivot {
 	// 1. Collect unique column keys, sorted alphabetically
 	const colSet = new Set<string>();
 	for (const r of rows) colSet.add(colKey(r.entity_name, r.entity_variant));
 	const cols = [...colSet].sort();
 
-	const firstCol = groupBy === 'date' ? 'Date' : 'Week';
-
-	if (rows.length === 0 || cols.length === 0) {
-		// Return a valid, empty CSV
-		return [firstCol, ...cols].join(',') + '\n';
-	}
-
-	// 2. Header
-	const header = [firstCol, ...cols.map(escapeCSV)].join(',');
-
-	// 3. Group rows by sort key (yyyy-mm-dd for dates, ISO Monday for weeks)
+	// 2. Group rows by sort key (yyyy-mm-dd for dates, ISO Monday for weeks)
 	const groupMap   = new Map<string, TxRow[]>();
 	const labelMap   = new Map<string, string>();  // sortKey → display label
 
@@ -124,48 +129,179 @@ function buildPivotCSV(rows: TxRow[], groupBy: 'date' | 'week'): string {
 	const sortedKeys = [...groupMap.keys()].sort();
 
 	// Accumulators for footer rows
-	const latestRate  = new Map<string, number>(); // last-seen rate per col
-	const totalAmount = new Map<string, number>(); // sum of amounts per col
-	cols.forEach(c => totalAmount.set(c, 0));
-
-	// 4. Data rows
-	const dataRows: string[] = [];
-	for (const key of sortedKeys) {
-		const groupRows = groupMap.get(key)!;
-		const label     = labelMap.get(key)!;
+	const latestRate  = new Map<string, Money>();
+	const totalAmount = new Map<string, Money>();
+	const totalTax    = new Map<string, Money>();
+	const totalGross  = new Map<string, Money>();
 
-		// Sum quantities per column within this group
+	// 3. Sum quantities per column within each group
+	const groups = sortedKeys.map((key) => {
 		const qtyMap = new Map<string, number>();
-		for (const r of groupRows) {
+		for (const r of groupMap.get(key)!) {
 			const col = colKey(r.entity_name, r.entity_variant);
 			qtyMap.set(col, (qtyMap.get(col) ?? 0) + Number(r.quantity ?? 0));
-			if (r.rate  != null) latestRate.set(col, Number(r.rate));
-			totalAmount.set(col, (totalAmount.get(col) ?? 0) + Number(r.amount ?? 0));
+			if (r.rate  != null) latestRate.set(col, r.rate);
+			totalAmount.set(col, addMoney(totalAmount.get(col), r.amount));
+			totalTax.set(col, addMoney(totalTax.get(col), r.tax_amount));
+			totalGross.set(col, addMoney(totalGross.get(col), r.gross_amount));
 		}
+		return { label: labelMap.get(key)!, qty: cols.map(c => qtyMap.get(c) ?? 0) };
+	});
+
+	const perCol = (totals: Map<string, Money>) => cols.map(c => totals.get(c) ?? 0);
+
+	// Signed as in `loadTotalAmount`
+	const netTotal = addMoney(
+		...rows.map(r => (r.type === 'credit' ? 1 : -1) * addMoney(r.gross_amount, r.transportation_cost)),
+	);
+
+	return {
+		firstCol:    groupBy === 'date' ? 'Date' : 'Week',
+		cols,
+		groups,
+		latestRate:  perCol(latestRate),
+		totalAmount: perCol(totalAmount),
+		totalTax:    perCol(totalTax),
+		totalGross:  perCol(totalGross),
+		netTotal,
+	};
+}
 
-		const cells = cols.map(c => fmtNum(qtyMap.get(c) ?? 0));
-		dataRows.push([escapeCSV(label), ...cells].join(','));
+/** Footer rows under the pivot, in order: [label, per-col paise, grand total?] */
+function pivotFooters(p: Pivot): { label: string; values: Money[]; grand: boolean }[] {
+	return [
+		{ label: 'Latest Rate',   values: p.latestRate,  grand: false },
+		{ label: 'Total Taxable', values: p.totalAmount, grand: false },
+		{ label: 'Total GST',     values: p.totalTax,    grand: false },
+		{ label: 'Total Amount',  values: p.totalGross,  grand: false },
+		{ label: 'Grand Taxable', values: p.totalAmount, grand: true },
+		{ label: 'Grand GST',     values: p.totalTax,    grand: true },
+		{ label: 'Grand Total',   values: p.totalGross,  grand: true },
+		{ label: 'Net Total incl. Transport', values: [p.netTotal], grand: true },
+	];
+}
+
+// ---------------------------------------------------------------------------
+// CSV builder
+// ---------------------------------------------------------------------------
+
+function buildPivotCSV(p: Pivot): string {
+	if (p.groups.length === 0 || p.cols.length === 0) {
+		// Return a valid, empty CSV
+		return [p.firstCol, ...p.cols].join(',') + '\n';
 	}
 
-	// 5. Footer rows
-	const rateRow = [
-		'Latest Rate (Rs)',
-		...cols.map(c => fmtNum(latestRate.get(c) ?? 0)),
-	].join(',');
-
-	const amtRow = [
-		'Total Amount (Rs)',
-		...cols.map(c => fmtNum(totalAmount.get(c) ?? 0)),
-	].join(',');
-
-	const grandTotal = [...totalAmount.values()].reduce((a, b) => a + b, 0);
-	const grandRow = [
-		'Grand Total (Rs)',
-		fmtNum(grandTotal),
-		...Array(cols.length - 1).fill(''),
-	].join(',');
-
-	return [header, ...dataRows, rateRow, amtRow, grandRow].join('\n');
+	const header   = [p.firstCol, ...p.cols.map(escapeCSV)].join(',');
+	const dataRows = p.groups.map(g => [escapeCSV(g.label), ...g.qty.map(fmtNum)].join(','));
+
+	const footerRows = pivotFooters(p).map(({ label, values, grand }) =>
+		grand
+			? [`${label} (Rs)`, fmtMoney(addMoney(...values)), ...Array(p.cols.length - 1).fill('')].join(',')
+			: [`${label} (Rs)`, ...values.map(fmtMoney)].join(','),
+	);
+
+	return [header, ...dataRows, ...footerRows].join('\n');
+}
+
+// ---------------------------------------------------------------------------
+// XLSX builder
+// ---------------------------------------------------------------------------
+
+type DetailRow = TxRow & {
+	entity_unit:         string | null;
+	entity_hsn_code:     string | null;
+	vendor_name:         string | null;
+	gst_rate:            number | null;
+	cgst:                Money | null;
+	sgst:                Money | null;
+	igst:                Money | null;
+	payment_status:      string | null;
+	settled_amount:      Money | null;
+	outstanding_amount:  Money | null;
+	vehicle_type:        string | null;
+	reg_no:              string | null;
+};
+
+/** Paise as a rupee cell; `toRupees` keeps the value exact */
+const rupees = (paise: Money | null | undefined, style: 'money' | 'moneyBold' = 'money'): XlsxCell =>
+	({ value: Number(toRupees(paise)), style });
+
+const headerRow = (...labels: string[]): XlsxCell[] => labels.map(value => ({ value, style: 'header' }));
+
+/** Sheet 1: the pivot as in the CSV, with bold footer rows */
+function pivotSheet(p: Pivot, name: string): XlsxSheet {
+	const footers = pivotFooters(p).map(({ label, values, grand }): XlsxCell[] => [
+		{ value: label, style: 'bold' },
+		...(grand ? [rupees(addMoney(...values), 'moneyBold')] : values.map(v => rupees(v, 'moneyBold'))),
+	]);
+	return {
+		name,
+		widths: [22, ...p.cols.map(c => Math.min(Math.max(c.length + 2, 14), 40))],
+		rows: [
+			headerRow(p.firstCol, ...p.cols),
+			...p.groups.map(g => [g.label, ...g.qty.map((value): XlsxCell => ({ value, style: 'quantity' }))]),
+			...(p.groups.length ? footers : []),
+		],
+	};
+}
+
+/** Sheet 2: every transaction in the range, one per row */
+function transactionsSheet(rows: DetailRow[]): XlsxSheet {
+	return {
+		name: 'Transactions',
+		widths: [12, 8, 28, 16, 24, 10, 10, 8, 12, 14, 8, 12, 12, 12, 12, 14, 10, 14, 14],
+		rows: [
+			headerRow(
+				'Date', 'Type', 'Item', 'Variant', 'Vendor', 'HSN', 'Quantity', 'Unit', 'Rate', 'Taxable',
+				'GST %', 'CGST', 'SGST', 'IGST', 'GST', 'Amount', 'Status', 'Settled', 'Outstanding',
+			),
+			...rows.map((r): XlsxCell[] => [
+				r.created_at,
+				r.type === 'credit' ? 'Credit' : 'Debit',
+				r.entity_name,
+				r.entity_variant,
+				r.vendor_name,
+				r.entity_hsn_code,
+				{ value: Number(r.quantity ?? 0), style: 'quantity' },
+				r.entity_unit,
+				rupees(r.rate),
+				rupees(r.amount),
+				r.gst_rate ?? 0,
+				rupees(r.cgst),
+				rupees(r.sgst),
+				rupees(r.igst),
+				rupees(r.tax_amount),
+				rupees(r.gross_amount),
+				r.payment_status,
+				rupees(r.settled_amount),
+				rupees(r.payment_status === 'paid' ? 0 : r.outstanding_amount),
+			]),
+		],
+	};
+}
+
+/** Sheet 3: transactions that carried a transport cost */
+function transportSheet(rows: DetailRow[]): XlsxSheet {
+	const withTransport = rows.filter(r => r.transportation_cost);
+	return {
+		name: 'Transport',
+		widths: [12, 28, 16, 16, 16, 14],
+		rows: [
+			headerRow('Date', 'Item', 'Variant', 'Vehicle', 'Reg. No.', 'Cost'),
+			...withTransport.map((r): XlsxCell[] => [
+				r.created_at,
+				r.entity_name,
+				r.entity_variant,
+				r.vehicle_type,
+				r.reg_no,
+				rupees(r.transportation_cost),
+			]),
+			[
+				{ value: 'Total', style: 'bold' }, null, null, null, null,
+				rupees(addMoney(...withTransport.map(r => r.transportation_cost)), 'moneyBold'),
+			],
+		],
+	};
 }
 
 // ---------------------------------------------------------------------------
@@ -180,7 +316,9 @@ export async function GET(event: APIEvent) {
 
 	const dest      = event.params.id;
 	const url       = new URL(event.request.url);
-	const format    = url.searchParams.get('format') ?? 'simple'; // 'simple' | 'weekly'
+	const format    = url.searchParams.get('format') ?? 'simple'; // 'simple' | 'weekly' | 'xlsx'
+	// For xlsx, which report the workbook's pivot sheet holds
+	const weekly    = format === 'weekly' || (format === 'xlsx' && url.searchParams.get('report') === 'weekly');
 	const fromParam = url.searchParams.get('from');
 	const toParam   = url.searchParams.get('to');
 
@@ -203,7 +341,7 @@ export async function GET(event: APIEvent) {
 	];
 
 	// Weekly report = pending transactions only
-	if (format === 'weekly') {
+	if (weekly) {
 		conditions.push(eq(TransactionDetail.payment_status, 'pending'));
 	}
 
@@ -213,11 +351,23 @@ export async function GET(event: APIEvent) {
 		.where(and(...conditions))
 		.orderBy(asc(TransactionDetail.created_at));
 
-	const csv = buildPivotCSV(results, format === 'weekly' ? 'week' : 'date');
+	const pivot = buildPivot(results, weekly ? 'week' : 'date');
+
+	const basename = weekly
+		? `weekly-report-${fromParam}-to-${toParam}`
+		: `expenses-${fromParam}-to-${toParam}`;
+
+	if (format === 'xlsx') {
+		const workbook = buildWorkbook([
+			pivotSheet(pivot, weekly ? 'Weekly Pending' : 'Daily'),
+			transactionsSheet(results),
+			transportSheet(results),
+		]);
+		return new Response(workbook, { headers: xlsxHeaders(`${basename}.xlsx`) });
+	}
 
-	const filename = format === 'weekly'
-		? `weekly-report-${fromParam}-to-${toParam}.csv`
-		: `expenses-${fromParam}-to-${toParam}.csv`;
+	const csv = buildPivotCSV(pivot);
+	const filename = `${basename}.csv`;
 
 	return new Response(csv, {
 		headers: {
@@ -0,0 +1,122 @@
+import { type APIEvent } from '@solidjs/start/server';
+import { and, asc, eq, getViewSelectedFields, gte, lt, lte, sql } from 'drizzle-orm';
+import { db } from '~/drizzle/client';
+import { Destination, TransactionDetail } from '~/drizzle/schema';
+import { auth } from '~/lib/auth';
+import { addMoney, formatMoney, type Money } from '~/lib/money';
+import { PdfDocument, pdfDate, pdfHeaders } from '~/lib/pdf';
+
+/**
+ * Site ledger statement for a date range, as a PDF: the balance brought
+ * forward from before `from`, every entry in the range with a running
+ * balance, and the closing balance. Credits add to the balance and debits
+ * take from it, as in the ledger's totals; each entry counts its gross
+ * amount plus transport.
+ */
+export async function GET(event: APIEvent) {
+	const session = await auth.api.getSession({ headers: event.request.headers });
+	if (!session?.user) return new Response('Unauthorized', { status: 401 });
+	const role = session.user.role as string;
+	if (role !== 'admin' && role !== 'expense-user') return new Response('Forbidden', { status: 403 });
+
+	const dest      = event.params.id;
+	const url       = new URL(event.request.url);
+	const fromParam = url.searchParams.get('from');
+	const toParam   = url.searchParams.get('to');
+
+	if (!fromParam || !toParam) {
+		return new Response('Missing required query params: from and to (YYYY-MM-DD)', { status: 400 });
+	}
+
+	// Parse dates as UTC midnight / end-of-day, as the CSV export does
+	const dateFrom = new Date(fromParam + 'T00:00:00.000Z');
+	const dateTo   = new Date(toParam   + 'T23:59:59.999Z');
+
+	if (isNaN(dateFrom.getTime()) || isNaN(dateTo.getTime())) {
+		return new Response('Invalid date format. Use YYYY-MM-DD.', { status: 400 });
+	}
+
+	const [site] = await db.select({ name: Destination.name }).from(Destination).where(eq(Destination.id, dest));
+	if (!site) return new Response('Not found', { status: 404 });
+
+	const sign  = sql`CASE WHEN ${TransactionDetail.type} = 'credit' THEN 1 ELSE -1 END`;
+	const total = sql`COALESCE(${TransactionDetail.gross_amount}, 0) + COALESCE(${TransactionDetail.transportation_cost}, 0)`;
+
+	const [[brought], entries] = await Promise.all([
+		db
+			.select({ opening: sql<number>`COALESCE(SUM(${sign} * (${total})), 0)`.mapWith(Number) })
+			.from(TransactionDetail)
+			.where(and(eq(TransactionDetail.source_id, dest), lt(TransactionDetail.created_at, dateFrom))),
+		db
+			.select(getViewSelectedFields(TransactionDetail))
+			.from(TransactionDetail)
+			.where(
+				and(
+					eq(TransactionDetail.source_id, dest),
+					gte(TransactionDetail.created_at, dateFrom),
+					lte(TransactionDetail.created_at, dateTo),
+				),
+			)
+			.orderBy(asc(TransactionDetail.created_at)),
+	]);
+
+	let balance: Money = brought.opening;
+	let credits: Money = 0;
+	let debits: Money  = 0;
+	const rows = entries.map((tx) => {
+		const amount   = addMoney(tx.gross_amount, tx.transportation_cost);
+		const isCredit = tx.type === 'credit';
+		if (isCredit) credits = addMoney(credits, amount);
+		else debits = addMoney(debits, amount);
+		balance = addMoney(balance, isCredit ? amount : -amount);
+
+		const item = tx.entity_variant ? `${tx.entity_name} (${tx.entity_variant})` : (tx.entity_name ?? '--');
+		return {
+			cells: [
+				tx.created_at ? pdfDate(tx.created_at) : '--',
+				tx.vendor_name ? `${item} - ${tx.vendor_name}` : item,
+				`${Number(tx.quantity ?? 0).toFixed(2)} ${tx.entity_unit ?? ''}`,
+				isCredit ? formatMoney(amount) : '',
+				isCredit ? '' : formatMoney(amount),
+				formatMoney(balance),
+			],
+		};
+	});
+
+	const period = `${pdfDate(dateFrom)} to ${pdfDate(dateTo)}`;
+	const doc = new PdfDocument(`${site.name} statement`);
+	doc.heading('Ledger Statement', `${site.name} - ${period}`);
+	doc.fields(
+		[
+			['Opening balance', formatMoney(brought.opening)],
+			['Credits', formatMoney(credits)],
+			['Debits', formatMoney(debits)],
+			['Closing balance', formatMoney(balance)],
+		],
+		4,
+	);
+
+	doc.table(
+		[
+			{ header: 'Date', weight: 1.3 },
+			{ header: 'Particulars', weight: 3.6 },
+			{ header: 'Quantity', weight: 1.5, align: 'right' },
+			{ header: 'Credit', weight: 1.7, align: 'right' },
+			{ header: 'Debit', weight: 1.7, align: 'right' },
+			{ header: 'Balance', weight: 1.8, align: 'right' },
+		],
+		[
+			{ cells: [pdfDate(dateFrom), 'Opening balance', '', '', '', formatMoney(brought.opening)], bold: true },
+			...rows,
+			{
+				cells: [pdfDate(dateTo), 'Closing balance', '', formatMoney(credits), formatMoney(debits), formatMoney(balance)],
+				bold: true,
+				shade: true,
+			},
+		],
+	);
+
+	return new Response(doc.toBytes(), {
+		headers: pdfHeaders(`statement-${fromParam}-to-${toParam}.pdf`),
+	});
+}
@@ -0,0 +1,84 @@
+import { type APIEvent } from '@solidjs/start/server';
+import { eq, getViewSelectedFields } from 'drizzle-orm';
+import { db } from '~/drizzle/client';
+import { TransactionDetail, Vendor } from '~/drizzle/schema';
+import { auth } from '~/lib/auth';
+import { gstLabel } from '~/lib/gst';
+import { addMoney, formatMoney } from '~/lib/money';
+import { PdfDocument, pdfDate, pdfHeaders } from '~/lib/pdf';
+
+/** Voucher for a single expense entry, as a PDF. */
+export async function GET(event: APIEvent) {
+	const session = await auth.api.getSession({ headers: event.request.headers });
+	if (!session?.user) return new Response('Unauthorized', { status: 401 });
+	const role = session.user.role as string;
+	if (role !== 'admin' && role !== 'expense-user') return new Response('Forbidden', { status: 403 });
+
+	const [tx] = await db
+		.select({ ...getViewSelectedFields(TransactionDetail), vendor_gstin: Vendor.gstin })
+		.from(TransactionDetail)
+		.leftJoin(Vendor, eq(Vendor.id, TransactionDetail.vendor_id))
+		.where(eq(TransactionDetail.id, event.params.id));
+	if (!tx) return new Response('Not found', { status: 404 });
+
+	const voucherNo = tx.id!.replace(/^tran_/, '').toUpperCase();
+	const supply = tx.igst ? 'inter' : 'intra';
+	const doc = new PdfDocument(`Voucher ${voucherNo}`);
+
+	doc.heading('Expense Voucher', `No. ${voucherNo}`);
+	doc.fields([
+		['Date', tx.created_at ? pdfDate(tx.created_at) : '--'],
+		['Site', tx.source_name ?? '--'],
+		['Type', tx.type === 'credit' ? 'Credit (inward)' : 'Debit (outward)'],
+		['Payment', tx.payment_status ?? '--'],
+		['Vendor', tx.vendor_name ?? '--'],
+		['Vendor GSTIN', tx.vendor_gstin || '--'],
+	]);
+
+	doc.table(
+		[
+			{ header: 'Item', weight: 3 },
+			{ header: 'HSN', weight: 1.2 },
+			{ header: 'Quantity', weight: 1.6, align: 'right' },
+			{ header: 'Rate', weight: 1.6, align: 'right' },
+			{ header: 'Taxable', weight: 1.8, align: 'right' },
+		],
+		[
+			{
+				cells: [
+					tx.entity_variant ? `${tx.entity_name} (${tx.entity_variant})` : (tx.entity_name ?? '--'),
+					tx.entity_hsn_code || '--',
+					`${Number(tx.quantity ?? 0).toFixed(2)} ${tx.entity_unit ?? ''}`,
+					formatMoney(tx.rate),
+					formatMoney(tx.amount),
+				],
+			},
+		],
+	);
+
+	const total = addMoney(tx.gross_amount, tx.transportation_cost);
+	const summary: [string, string][] = [['Taxable value', formatMoney(tx.amount)]];
+	if (tx.cgst) summary.push(['CGST', formatMoney(tx.cgst)], ['SGST', formatMoney(tx.sgst)]);
+	if (tx.igst) summary.push(['IGST', formatMoney(tx.igst)]);
+	if (tx.tax_amount) summary.push([`Total tax (${gstLabel(tx.gst_rate ?? 0, supply)})`, formatMoney(tx.tax_amount)]);
+	if (tx.transportation_cost) {
+		const vehicle = [tx.vehicle_type, tx.reg_no].filter(Boolean).join(' ');
+		summary.push([vehicle ? `Transport (${vehicle})` : 'Transport', formatMoney(tx.transportation_cost)]);
+	}
+	doc.table(
+		[
+			{ header: 'Summary', weight: 3 },
+			{ header: 'Amount', weight: 1, align: 'right' },
+		],
+		[
+			...summary.map(([label, value]) => ({ cells: [label, value] })),
+			{ cells: ['Total', formatMoney(total)], bold: true, shade: true },
+			{ cells: ['Settled', formatMoney(tx.settled_amount)] },
+			{ cells: ['Outstanding', formatMoney(tx.payment_status === 'paid' ? 0 : tx.outstanding_amount)] },
+		],
+	);
+
+	doc.signatures(['Prepared by', 'Approved by', 'Received by']);
+
+	return new Response(doc.toBytes(), { headers: pdfHeaders(`voucher-${voucherNo}.pdf`) });
+}
@@ -0,0 +1,99 @@
+import { type APIEvent } from '@solidjs/start/server';
+import { and, asc, eq, getViewSelectedFields, gte, lte, or } from 'drizzle-orm';
+import { db } from '~/drizzle/client';
+import { Challan, Destination, GoodsReceipt, GoodsReceiptLine, Vendor, WarehouseTransactionDetail } from '~/drizzle/schema';
+import { auth } from '~/lib/auth';
+import { challanNumber } from '~/lib/challan';
+import { parseReportFormat, reportResponse } from '~/lib/report';
+import { ADJUSTMENT_REASON_LABELS } from '~/lib/stock';
+
+/**
+ * A godown's movement ledger for a date range, as CSV or XLSX: one row per
+ * warehouse transaction into or out of it, with the quantity under In or Out.
+ */
+export async function GET(event: APIEvent) {
+	const session = await auth.api.getSession({ headers: event.request.headers });
+	if (!session?.user) return new Response('Unauthorized', { status: 401 });
+	const role = session.user.role as string;
+	if (role !== 'admin' && role !== 'warehouse-user') return new Response('Forbidden', { status: 403 });
+
+	const dest      = event.params.id;
+	const url       = new URL(event.request.url);
+	const format    = parseReportFormat(url.searchParams.get('format'));
+	const fromParam = url.searchParams.get('from');
+	const toParam   = url.searchParams.get('to');
+
+	if (!format) return new Response('Invalid format. Use csv or xlsx.', { status: 400 });
+	if (!fromParam || !toParam) {
+		return new Response('Missing required query params: from and to (YYYY-MM-DD)', { status: 400 });
+	}
+
+	// Parse dates as UTC midnight / end-of-day, as the expense export does
+	const dateFrom = new Date(fromParam + 'T00:00:00.000Z');
+	const dateTo   = new Date(toParam   + 'T23:59:59.999Z');
+
+	if (isNaN(dateFrom.getTime()) || isNaN(dateTo.getTime())) {
+		return new Response('Invalid date format. Use YYYY-MM-DD.', { status: 400 });
+	}
+
+	const [godown] = await db.select({ name: Destination.name }).from(Destination).where(eq(Destination.id, dest));
+	if (!godown) return new Response('Not found', { status: 404 });
+
+	const W = WarehouseTransactionDetail;
+	const rows = await db
+		.select({
+			...getViewSelectedFields(W),
+			challan_no:  Challan.challan_no,
+			invoice_no:  GoodsReceipt.invoice_no,
+			vendor_name: Vendor.name,
+		})
+		.from(W)
+		.leftJoin(Challan, eq(Challan.id, W.challan_id))
+		.leftJoin(GoodsReceiptLine, eq(GoodsReceiptLine.warehouse_transaction_id, W.id))
+		.leftJoin(GoodsReceipt, eq(GoodsReceipt.id, GoodsReceiptLine.receipt_id))
+		.leftJoin(Vendor, eq(Vendor.id, GoodsReceipt.vendor_id))
+		.where(
+			and(
+				or(eq(W.destination_id, dest), eq(W.source_id, dest)),
+				gte(W.created_at, dateFrom),
+				lte(W.created_at, dateTo),
+			),
+		)
+		.orderBy(asc(W.created_at));
+
+	type Row = (typeof rows)[number];
+
+	const entry = (r: Row) =>
+		r.adjustment_reason ? `Adjustment: ${ADJUSTMENT_REASON_LABELS[r.adjustment_reason]}`
+		: r.challan_no != null ? 'Challan'
+		: r.invoice_no != null ? 'Goods receipt'
+		: 'Transfer';
+
+	const reference = (r: Row) =>
+		r.challan_no != null ? challanNumber(r.challan_no)
+		: r.invoice_no != null ? `${r.vendor_name} - Inv ${r.invoice_no}`
+		: (r.adjustment_note ?? '');
+
+	const quantity = (r: Row) => Number(r.quantity ?? 0);
+
+	return reportResponse(
+		{
+			filename: `godown-ledger-${fromParam}-to-${toParam}`,
+			sheet:    `${godown.name} ledger`,
+			columns: [
+				{ header: 'Date',      width: 12, value: r => r.created_at, style: 'date' },
+				{ header: 'Entry',     width: 20, value: entry },
+				{ header: 'Item',      width: 28, value: r => r.entity_name },
+				{ header: 'Variant',   width: 24, value: r => r.entity_variant },
+				{ header: 'From',      width: 20, value: r => r.source_name },
+				{ header: 'To',        width: 20, value: r => r.destination_name },
+				{ header: 'In',        width: 12, value: r => (r.destination_id === dest ? quantity(r) : null), style: 'quantity' },
+				{ header: 'Out',       width: 12, value: r => (r.source_id === dest ? quantity(r) : null), style: 'quantity' },
+				{ header: 'Unit',      width: 8,  value: r => r.entity_unit },
+				{ header: 'Reference', width: 28, value: reference },
+			],
+			rows,
+		},
+		format,
+	);
+}
@@ -0,0 +1,51 @@
+import { type APIEvent } from '@solidjs/start/server';
+import { eq } from 'drizzle-orm';
+import { db } from '~/drizzle/client';
+import { Destination, StockLevel } from '~/drizzle/schema';
+import { auth } from '~/lib/auth';
+import { parseReportFormat, reportResponse } from '~/lib/report';
+import { loadStockBalances, stockKey } from '~/lib/stock';
+
+/**
+ * A godown's current stock from `loadStockBalances`, one row per item and
+ * variant, with the minimum from its stock level where one is set.
+ */
+export async function GET(event: APIEvent) {
+	const session = await auth.api.getSession({ headers: event.request.headers });
+	if (!session?.user) return new Response('Unauthorized', { status: 401 });
+	const role = session.user.role as string;
+	if (role !== 'admin' && role !== 'warehouse-user') return new Response('Forbidden', { status: 403 });
+
+	const dest   = event.params.id;
+	const format = parseReportFormat(new URL(event.request.url).searchParams.get('format'));
+	if (!format) return new Response('Invalid format. Use csv or xlsx.', { status: 400 });
+
+	const [godown] = await db.select({ name: Destination.name }).from(Destination).where(eq(Destination.id, dest));
+	if (!godown) return new Response('Not found', { status: 404 });
+
+	const [balances, levels] = await Promise.all([
+		loadStockBalances({ locationId: dest }),
+		db.select().from(StockLevel).where(eq(StockLevel.destination_id, dest)),
+	]);
+	const minimums = new Map(levels.map(l => [stockKey(l.entity_id, l.entity_variant_id), Number(l.min_quantity)]));
+	const minimum  = (b: (typeof balances)[number]) => minimums.get(stockKey(b.entity_id, b.entity_variant_id));
+
+	const today = new Date().toISOString().slice(0, 10);
+
+	return reportResponse(
+		{
+			filename: `stock-${today}`,
+			sheet:    `${godown.name} stock`,
+			columns: [
+				{ header: 'Item',      width: 28, value: b => b.entity_name },
+				{ header: 'Variant',   width: 24, value: b => b.entity_variant },
+				{ header: 'Balance',   width: 12, value: b => b.balance, style: 'quantity' },
+				{ header: 'Unit',      width: 8,  value: b => b.entity_unit },
+				{ header: 'Minimum',   width: 12, value: b => minimum(b), style: 'quantity' },
+				{ header: 'Low stock', width: 10, value: b => (b.balance < (minimum(b) ?? -Infinity) ? 'Yes' : '') },
+			],
+			rows: balances,
+		},
+		format,
+	);
+}
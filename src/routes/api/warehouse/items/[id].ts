@@ -0,0 +1,46 @@
+import { type APIEvent } from '@solidjs/start/server';
+import { eq } from 'drizzle-orm';
+import { db } from '~/drizzle/client';
+import { EntityWarehouse } from '~/drizzle/schema';
+import { auth } from '~/lib/auth';
+import { parseReportFormat, reportResponse } from '~/lib/report';
+import { loadStockBalances } from '~/lib/stock';
+
+/** An item's current stock at every location that holds or owes some, per variant, with the total. */
+export async function GET(event: APIEvent) {
+	const session = await auth.api.getSession({ headers: event.request.headers });
+	if (!session?.user) return new Response('Unauthorized', { status: 401 });
+	const role = session.user.role as string;
+	if (role !== 'admin' && role !== 'warehouse-user') return new Response('Forbidden', { status: 403 });
+
+	const itemId = event.params.id;
+	const format = parseReportFormat(new URL(event.request.url).searchParams.get('format'));
+	if (!format) return new Response('Invalid format. Use csv or xlsx.', { status: 400 });
+
+	const [item] = await db
+		.select({ name: EntityWarehouse.name, unit: EntityWarehouse.unit })
+		.from(EntityWarehouse)
+		.where(eq(EntityWarehouse.id, itemId));
+	if (!item) return new Response('Not found', { status: 404 });
+
+	const balances = (await loadStockBalances({ entityId: itemId })).filter(b => b.balance !== 0);
+	const total    = balances.reduce((sum, b) => sum + b.balance, 0);
+
+	const today = new Date().toISOString().slice(0, 10);
+
+	return reportResponse(
+		{
+			filename: `item-balance-${today}`,
+			sheet:    item.name,
+			columns: [
+				{ header: 'Location', width: 28, value: b => b.location_name },
+				{ header: 'Variant',  width: 24, value: b => b.entity_variant },
+				{ header: 'Balance',  width: 12, value: b => b.balance, style: 'quantity' },
+				{ header: 'Unit',     width: 8,  value: b => b.entity_unit },
+			],
+			rows: balances,
+			footer: [['Total', null, Number(total.toFixed(6)), item.unit]],
+		},
+		format,
+	);
+}
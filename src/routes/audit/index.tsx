@@ -0,0 +1,271 @@
+import { createAsync, query } from '@solidjs/router';
+import { and, asc, desc, eq, gte, lte, sql } from 'drizzle-orm';
+import { createEffect, createSignal, For, Show, Suspense } from 'solid-js';
+import { db } from '~/drizzle/client';
+import { AuditLog, Destination, user } from '~/drizzle/schema';
+import DateRangePicker from '~/components/DateRangePicker';
+import { Pagination } from '~/components/Pagination';
+import { requireAuth } from '~/lib/require-auth';
+import { serializeDateLocal } from '~/utils/dateUtils';
+
+type AuditFilters = {
+    actorId: string;
+    siteId: string;
+    table: string;
+    dateRange: { from: string; to: string } | null;
+};
+
+// Tables that write audit rows, in the order they appear in the filter
+const AUDIT_TABLES = [
+    'transaction',
+    'transportation_cost',
+    'entity',
+    'entity_variant',
+    'destination',
+    'warehouse_transaction',
+    'entity_warehouse',
+    'entity_variant_warehouse',
+];
+
+// --- QUERIES ---
+
+export const loadAuditFilterOptions = query(async () => {
+    'use server';
+    await requireAuth(['admin']);
+
+    const [users, sites] = await Promise.all([
+        db.select({ id: user.id, name: user.name }).from(user).orderBy(asc(user.name)),
+        db.select({ id: Destination.id, name: Destination.name }).from(Destination).orderBy(asc(Destination.name)),
+    ]);
+    return { users, sites };
+}, 'audit-filter-options');
+
+export const loadAuditLog = query(async (filters: AuditFilters, limit: number, offset: number) => {
+    'use server';
+    await requireAuth(['admin']);
+
+    const entries = await db
+        .select({
+            id: AuditLog.id,
+            created_at: AuditLog.created_at,
+            actor_name: AuditLog.actor_name,
+            table_name: AuditLog.table_name,
+            row_id: AuditLog.row_id,
+            action: AuditLog.action,
+            site_name: Destination.name,
+            changes: AuditLog.changes,
+            total_count: sql<number>`COUNT(*) OVER()`.mapWith(Number),
+        })
+        .from(AuditLog)
+        .leftJoin(Destination, eq(Destination.id, AuditLog.site_id))
+        .where(
+            and(
+                filters.actorId ? eq(AuditLog.actor_id, filters.actorId) : undefined,
+                filters.siteId ? eq(AuditLog.site_id, filters.siteId) : undefined,
+                filters.table ? eq(AuditLog.table_name, filters.table) : undefined,
+                filters.dateRange
+                    ? and(
+                          gte(AuditLog.created_at, new Date(filters.dateRange.from + 'T00:00:00')),
+                          lte(AuditLog.created_at, new Date(filters.dateRange.to + 'T23:59:59')),
+                      )
+                    : undefined,
+            ),
+        )
+        .orderBy(desc(AuditLog.created_at))
+        .limit(limit)
+        .offset(offset);
+
+    return { entries, totalCount: entries[0]?.total_count ?? 0 };
+}, 'audit-log');
+
+// --- PAGE ---
+
+const ACTION_CLASSES: Record<string, string> = {
+    create: 'bg-green-50 text-green-700',
+    update: 'bg-blue-50 text-blue-700',
+    delete: 'bg-red-50 text-red-700',
+    restore: 'bg-amber-50 text-amber-700',
+    purge: 'bg-zinc-900 text-white',
+};
+
+const formatValue = (value: unknown) => (value === null || value === undefined || value === '' ? '∅' : String(value));
+
+const formatTable = (table: string) => table.replace(/_/g, ' ');
+
+export default function AuditLogPage() {
+    const [actorId, setActorId] = createSignal('');
+    const [siteId, setSiteId] = createSignal('');
+    const [table, setTable] = createSignal('');
+    const [dateRange, setDateRange] = createSignal<{ from: Date; to: Date } | null>(null);
+    const [page, setPage] = createSignal(1);
+    const [pageSize, setPageSize] = createSignal(25);
+
+    const filters = (): AuditFilters => {
+        const range = dateRange();
+        return {
+            actorId: actorId(),
+            siteId: siteId(),
+            table: table(),
+            dateRange: range ? { from: serializeDateLocal(range.from), to: serializeDateLocal(range.to) } : null,
+        };
+    };
+
+    const options = createAsync(() => loadAuditFilterOptions());
+    const data = createAsync(() => loadAuditLog(filters(), pageSize(), (page() - 1) * pageSize()));
+
+    createEffect(() => {
+        filters();
+        setPage(1);
+    });
+
+    const selectClass =
+        'h-9 bg-white border border-zinc-200 rounded-lg px-3 text-sm text-black outline-none cursor-pointer hover:border-zinc-300 transition-colors';
+
+    return (
+        <div class="w-full mx-auto px-4 py-12">
+            <div class="mb-8">
+                <h1 class="text-3xl font-bold text-black tracking-tight">Audit Log</h1>
+                <p class="mt-1 text-sm text-zinc-500">
+                    Every create, edit and delete, with who made it and what changed.
+                </p>
+            </div>
+
+            <div class="mb-6 flex flex-wrap items-center gap-3 bg-white border border-zinc-200 rounded-2xl px-4 py-3">
+                <select class={selectClass} value={actorId()} onChange={(e) => setActorId(e.currentTarget.value)}>
+                    <option value="">All users</option>
+                    <For each={options()?.users}>{(u) => <option value={u.id}>{u.name}</option>}</For>
+                </select>
+                <select class={selectClass} value={siteId()} onChange={(e) => setSiteId(e.currentTarget.value)}>
+                    <option value="">All sites</option>
+                    <For each={options()?.sites}>{(s) => <option value={s.id}>{s.name}</option>}</For>
+                </select>
+                <select class={selectClass} value={table()} onChange={(e) => setTable(e.currentTarget.value)}>
+                    <option value="">All records</option>
+                    <For each={AUDIT_TABLES}>{(t) => <option value={t}>{formatTable(t)}</option>}</For>
+                </select>
+                <DateRangePicker value={dateRange()} onRangeChange={setDateRange} />
+                <Show when={dateRange()}>
+                    <button onClick={() => setDateRange(null)} class="text-sm text-blue-600 hover:underline">
+                        Clear dates
+                    </button>
+                </Show>
+            </div>
+
+            <div class="bg-white border border-zinc-200 rounded-2xl overflow-hidden shadow-2xl shadow-black/5">
+                <div class="overflow-x-auto">
+                    <table class="w-full min-w-[1000px] text-left border-collapse">
+                        <thead>
+                            <tr class="border-b border-zinc-200 bg-zinc-50">
+                                <th class="py-3 px-3 text-xs font-bold uppercase tracking-wider text-zinc-600">When</th>
+                                <th class="py-3 px-3 text-xs font-bold uppercase tracking-wider text-zinc-600">User</th>
+                                <th class="py-3 px-3 text-xs font-bold uppercase tracking-wider text-zinc-600">
+                                    Action
+                                </th>
+                                <th class="py-3 px-3 text-xs font-bold uppercase tracking-wider text-zinc-600">
+                                    Record
+                                </th>
+                                <th class="py-3 px-3 text-xs font-bold uppercase tracking-wider text-zinc-600">Site</th>
+                                <th class="py-3 px-3 text-xs font-bold uppercase tracking-wider text-zinc-600">
+                                    Changes
+                                </th>
+                            </tr>
+                        </thead>
+                        <tbody class="divide-y divide-zinc-100">
+                            <Suspense>
+                                <Show
+                                    when={(data()?.entries ?? []).length > 0}
+                                    fallback={
+                                        <tr>
+                                            <td colspan={6} class="text-center py-12 text-sm text-zinc-400">
+                                                No audit entries match these filters.
+                                            </td>
+                                        </tr>
+                                    }
+                                >
+                                    <For each={data()?.entries}>
+                                        {(entry) => (
+                                            <tr class="align-top hover:bg-zinc-50/80">
+                                                <td class="py-3 px-3 text-sm text-zinc-700 whitespace-nowrap">
+                                                    {new Date(entry.created_at).toLocaleString()}
+                                                </td>
+                                                <td class="py-3 px-3 text-sm text-black whitespace-nowrap">
+                                                    {entry.actor_name || '--'}
+                                                </td>
+                                                <td class="py-3 px-3 text-sm">
+                                                    <span
+                                                        class={`px-2 py-0.5 text-xs font-medium rounded-full capitalize ${ACTION_CLASSES[entry.action]}`}
+                                                    >
+                                                        {entry.action}
+                                                    </span>
+                                                </td>
+                                                <td class="py-3 px-3 text-sm text-black">
+                                                    <span class="capitalize">{formatTable(entry.table_name)}</span>
+                                                    <span class="block text-xs text-zinc-400 font-mono">
+                                                        {entry.row_id}
+                                                    </span>
+                                                </td>
+                                                <td class="py-3 px-3 text-sm text-zinc-700">
+                                                    {entry.site_name ?? '--'}
+                                                </td>
+                                                <td class="py-3 px-3 text-xs text-zinc-700">
+                                                    <dl class="grid grid-cols-[auto_1fr] gap-x-3 gap-y-0.5">
+                                                        <For each={Object.entries(entry.changes)}>
+                                                            {([field, change]) => {
+                                                                // Purges and hard deletes have no after; soft deletes do
+                                                                const showBefore = entry.action !== 'create';
+                                                                const showAfter =
+                                                                    entry.action !== 'purge' &&
+                                                                    !(
+                                                                        entry.action === 'delete' &&
+                                                                        change.after === null
+                                                                    );
+                                                                return (
+                                                                    <>
+                                                                        <dt class="font-mono text-zinc-500">{field}</dt>
+                                                                        <dd class="break-all">
+                                                                            <Show when={showBefore}>
+                                                                                <span class="text-red-600 line-through">
+                                                                                    {formatValue(change.before)}
+                                                                                </span>
+                                                                            </Show>
+                                                                            <Show when={showBefore && showAfter}>
+                                                                                {' '}
+                                                                                →{' '}
+                                                                            </Show>
+                                                                            <Show when={showAfter}>
+                                                                                <span class="text-green-700">
+                                                                                    {formatValue(change.after)}
+                                                                                </span>
+                                                                            </Show>
+                                                                        </dd>
+                                                                    </>
+                                                                );
+                                                            }}
+                                                        </For>
+                                                    </dl>
+                                                </td>
+                                            </tr>
+                                        )}
+                                    </For>
+                                </Show>
+                            </Suspense>
+                        </tbody>
+                    </table>
+                </div>
+            </div>
+
+            <div class="mt-6 bg-white border border-zinc-200 rounded-2xl px-6 py-4 shadow-2xl shadow-black/5">
+                <Pagination
+                    page={page()}
+                    pageSize={pageSize()}
+                    totalCount={data()?.totalCount ?? 0}
+                    onPageChange={setPage}
+                    onPageSizeChange={(size) => {
+                        setPageSize(size);
+                        setPage(1);
+                    }}
+                />
+            </div>
+        </div>
+    );
+}
@@ -4,6 +4,7 @@ import { action } from '@solidjs/router';
 import { db } from '~/drizzle/client';
 import { Destination } from '~/drizzle/schema';
 import { requireAuth } from '~/lib/require-auth';
+import { recordAudit } from '~/lib/audit';
 
 type ActionResponse = {
     success: boolean;
@@ -12,7 +13,7 @@ type ActionResponse = {
 
 export const createDestination = action(async (formData: FormData): Promise<ActionResponse> => {
     'use server';
-    await requireAuth(['expense-user', 'warehouse-user']);
+    const session = await requireAuth(['expense-user', 'warehouse-user']);
 
     // Artificial delay to show off the loading state (optional, remove in prod)
     // await new Promise(r => setTimeout(r, 800));
@@ -25,13 +26,18 @@ export const createDestination = action(async (formData: FormData): Promise<Acti
     }
 
     try {
-        await db
-            .insert(Destination)
-            .values({
-                name,
-                is_warehouse: isWarehouse,
-            })
-            .returning();
+        await db.transaction(async (tx) => {
+            const [destination] = await tx
+                .insert(Destination)
+                .values({
+                    name,
+                    is_warehouse: isWarehouse,
+                })
+                .returning();
+            await recordAudit(tx, session.user, [
+                { table: Destination, rowId: destination.id, siteId: destination.id, after: destination },
+            ]);
+        });
 
         return { success: true };
     } catch (e: any) {
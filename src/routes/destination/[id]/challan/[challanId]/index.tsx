@@ -0,0 +1,144 @@
+import { A, createAsync, query, useParams } from '@solidjs/router';
+import { For, Show, Suspense } from 'solid-js';
+import Breadcrumb from '~/components/Breadcrumb';
+import { requireAuth } from '~/lib/require-auth';
+import { challanNumber, loadChallan } from '~/lib/challan';
+
+export const loadChallanPage = query(async (challanId: string) => {
+    'use server';
+    await requireAuth(['warehouse-user']);
+    return loadChallan(challanId);
+}, 'challan');
+
+const formatQuantity = (value: number) => value.toFixed(3).replace(/\.?0+$/, '');
+
+export default function ChallanPage() {
+    const params = useParams<{ id: string; challanId: string }>();
+    const challan = createAsync(() => loadChallanPage(params.challanId));
+
+    return (
+        <div class="w-full mx-auto px-4 py-12 print:p-0">
+            <div class="mb-6 flex items-center justify-between print:hidden">
+                <Breadcrumb
+                    items={[
+                        { label: 'All godown', href: '/dashboard' },
+                        {
+                            label:
+                                (challan()?.destination_id === params.id
+                                    ? challan()?.destination_name
+                                    : challan()?.source_name) ?? 'Godown',
+                            href: `/destination/${params.id}`,
+                        },
+                        { label: 'Ledger', href: `/destination/${params.id}/ledger` },
+                        { label: challan() ? challanNumber(challan()!.challan_no) : 'Challan' },
+                    ]}
+                />
+                <div class="flex items-center gap-3">
+                    <A
+                        href={`/destination/${params.id}/challan/new`}
+                        class="px-4 py-2 bg-white border border-zinc-200 hover:border-zinc-300 text-black font-semibold text-sm rounded-lg transition-colors"
+                    >
+                        New Challan
+                    </A>
+                    <a
+                        href={`/api/challans/${params.challanId}`}
+                        class="px-4 py-2 bg-white border border-zinc-200 hover:border-zinc-300 text-black font-semibold text-sm rounded-lg transition-colors"
+                    >
+                        Download PDF
+                    </a>
+                    <button
+                        type="button"
+                        onClick={() => window.print()}
+                        class="px-4 py-2 bg-black hover:bg-black/80 text-white font-semibold text-sm rounded-lg transition-colors shadow-sm"
+                    >
+                        Print
+                    </button>
+                </div>
+            </div>
+
+            <Suspense fallback={<div class="h-64 bg-zinc-100 rounded-2xl animate-pulse" />}>
+                <Show
+                    when={challan()}
+                    fallback={<p class="py-12 text-center text-sm text-zinc-400">Challan not found.</p>}
+                >
+                    {(c) => (
+                        <div class="bg-white border border-zinc-200 rounded-2xl p-8 print:border-0 print:rounded-none print:p-0">
+                            <div class="flex items-start justify-between border-b border-zinc-200 pb-6">
+                                <div>
+                                    <h1 class="text-2xl font-bold text-black tracking-tight">Delivery Challan</h1>
+                                    <p class="mt-1 text-sm text-zinc-500">{challanNumber(c().challan_no)}</p>
+                                </div>
+                                <p class="text-sm text-zinc-700">Date: {c().challan_date.toLocaleDateString()}</p>
+                            </div>
+
+                            <div class="grid grid-cols-2 gap-6 py-6 text-sm">
+                                <Detail label="From" value={c().source_name} />
+                                <Detail label="To" value={c().destination_name} />
+                                <Detail label="Vehicle No." value={c().vehicle_no || '--'} />
+                                <Detail label="Driver" value={c().driver_name || '--'} />
+                            </div>
+
+                            <table class="w-full text-left border-collapse">
+                                <thead>
+                                    <tr class="border-y border-zinc-200 bg-zinc-50">
+                                        <th class="py-2 px-3 text-xs font-bold uppercase tracking-wider text-zinc-600">
+                                            #
+                                        </th>
+                                        <th class="py-2 px-3 text-xs font-bold uppercase tracking-wider text-zinc-600">
+                                            Item
+                                        </th>
+                                        <th class="py-2 px-3 text-xs font-bold uppercase tracking-wider text-zinc-600">
+                                            Variant
+                                        </th>
+                                        <th class="py-2 px-3 text-right text-xs font-bold uppercase tracking-wider text-zinc-600">
+                                            Quantity
+                                        </th>
+                                        <th class="py-2 px-3 text-xs font-bold uppercase tracking-wider text-zinc-600">
+                                            Unit
+                                        </th>
+                                    </tr>
+                                </thead>
+                                <tbody class="divide-y divide-zinc-100">
+                                    <For each={c().lines}>
+                                        {(line, index) => (
+                                            <tr>
+                                                <td class="py-2 px-3 text-sm tabular-nums text-zinc-500">
+                                                    {index() + 1}
+                                                </td>
+                                                <td class="py-2 px-3 text-sm text-black">{line.entity_name}</td>
+                                                <td class="py-2 px-3 text-sm text-zinc-700">{line.variant || '--'}</td>
+                                                <td class="py-2 px-3 text-right text-sm tabular-nums text-black">
+                                                    {formatQuantity(line.quantity)}
+                                                </td>
+                                                <td class="py-2 px-3 text-sm text-zinc-700">{line.entity_unit}</td>
+                                            </tr>
+                                        )}
+                                    </For>
+                                </tbody>
+                            </table>
+
+                            <Show when={c().note}>
+                                <p class="mt-6 text-sm text-zinc-700">Note: {c().note}</p>
+                            </Show>
+
+                            <div class="mt-16 grid grid-cols-3 gap-6 text-xs text-zinc-500">
+                                <p class="border-t border-zinc-300 pt-2">Prepared by</p>
+                                <p class="border-t border-zinc-300 pt-2">Driver</p>
+                                <p class="border-t border-zinc-300 pt-2">Received by</p>
+                            </div>
+                        </div>
+                    )}
+                </Show>
+            </Suspense>
+        </div>
+    );
+}
+
+function Detail(props: { label: string; value: string }) {
+    return (
+        <div>
+            <p class="text-[10px] font-bold uppercase tracking-wide text-zinc-400">{props.label}</p>
+            <p class="mt-0.5 text-black">{props.value}</p>
+        </div>
+    );
+}
@@ -0,0 +1,307 @@
+import { action, createAsync, query, redirect, useParams, useSubmission } from '@solidjs/router';
+import { asc, eq } from 'drizzle-orm';
+import { createMemo, createSignal, For, Show, Suspense } from 'solid-js';
+import { db } from '~/drizzle/client';
+import { Challan, Destination, EntityVariantWarehouse, EntityWarehouse, WarehouseTransaction } from '~/drizzle/schema';
+import Breadcrumb from '~/components/Breadcrumb';
+import { SelectInput, TextInput } from '~/components/form';
+import { requireAuth } from '~/lib/require-auth';
+import { recordAudit, type AuditEntry } from '~/lib/audit';
+import { checkEntryDate, shiftDate } from '~/lib/entry-date';
+import { assertStockAvailable, StockError, variantLabel } from '~/lib/stock';
+import { serializeDateLocal } from '~/utils/dateUtils';
+
+type ChallanLineInput = {
+    entityId: string;
+    variantId: string | null;
+    quantity: number;
+};
+
+// --- QUERIES & ACTIONS ---
+
+export const loadChallanForm = query(async () => {
+    'use server';
+    await requireAuth(['warehouse-user']);
+
+    const [entities, variants, destinations] = await Promise.all([
+        db
+            .select({ id: EntityWarehouse.id, name: EntityWarehouse.name, unit: EntityWarehouse.unit })
+            .from(EntityWarehouse)
+            .orderBy(asc(EntityWarehouse.name)),
+        db.select().from(EntityVariantWarehouse),
+        db.select({ id: Destination.id, name: Destination.name }).from(Destination).orderBy(asc(Destination.name)),
+    ]);
+
+    return {
+        entities,
+        variants: variants.map((v) => ({ id: v.id, entity_id: v.entity_id, label: variantLabel(v) || 'Standard' })),
+        destinations,
+    };
+}, 'challan-form');
+
+export const createChallan = action(async (formData: FormData) => {
+    'use server';
+    const session = await requireAuth(['warehouse-user']);
+
+    const field = (key: string) => ((formData.get(key) as string) ?? '').trim();
+    const column = (key: string) => formData.getAll(key).map((value) => String(value).trim());
+
+    const sourceId = field('source_id');
+    const destinationId = field('destination_id');
+    const challanOn = field('challan_date');
+
+    if (!sourceId || !destinationId || !challanOn) {
+        return { success: false, error: 'Destination and date are required.' };
+    }
+    if (sourceId === destinationId) return { success: false, error: 'Pick a destination other than this one.' };
+    const dateError = checkEntryDate(challanOn, null, shiftDate(new Date(), 1));
+    if (dateError) return { success: false, error: dateError };
+
+    const entityIds = column('entity_id');
+    const variantIds = column('variant_id');
+    const quantities = column('quantity');
+
+    // One entry per row of the grid; rows without an item are ignored.
+    const lines: ChallanLineInput[] = [];
+    for (let i = 0; i < entityIds.length; i++) {
+        if (!entityIds[i]) continue;
+        const quantity = Number.parseFloat(quantities[i] ?? '');
+        if (!Number.isFinite(quantity) || quantity <= 0) {
+            return { success: false, error: 'Quantities must be positive numbers.' };
+        }
+        lines.push({ entityId: entityIds[i], variantId: variantIds[i] || null, quantity });
+    }
+    if (lines.length === 0) return { success: false, error: 'Add at least one item.' };
+
+    try {
+        const challanDate = new Date(challanOn);
+        const challanId = await db.transaction(async (tx) => {
+            const [challan] = await tx
+                .insert(Challan)
+                .values({
+                    challan_date: challanDate,
+                    source_id: sourceId,
+                    destination_id: destinationId,
+                    vehicle_no: field('vehicle_no'),
+                    driver_name: field('driver_name'),
+                    note: field('note') || null,
+                })
+                .returning();
+            const audit: AuditEntry[] = [{ table: Challan, rowId: challan.id, siteId: sourceId, after: challan }];
+
+            // Checked one line at a time so that two lines of the same item add up.
+            for (const line of lines) {
+                await assertStockAvailable(tx, { sourceId, ...line });
+                const [inserted] = await tx
+                    .insert(WarehouseTransaction)
+                    .values({
+                        entity_id: line.entityId,
+                        entity_variant_id: line.variantId,
+                        source_id: sourceId,
+                        destination_id: destinationId,
+                        quantity: String(line.quantity),
+                        type: 'debit',
+                        challan_id: challan.id,
+                        created_at: challanDate,
+                    })
+                    .returning();
+                audit.push({ table: WarehouseTransaction, rowId: inserted.id, siteId: sourceId, after: inserted });
+            }
+
+            await recordAudit(tx, session.user, audit);
+            return challan.id;
+        });
+
+        throw redirect(`/destination/${sourceId}/challan/${challanId}`);
+    } catch (error) {
+        if (error instanceof Response) throw error;
+        if (error instanceof StockError) return { success: false, error: error.message };
+        console.error(error);
+        return { success: false, error: 'Failed to create challan.' };
+    }
+});
+
+// --- PAGE ---
+
+const inputClass =
+    'h-9 w-28 bg-white border border-zinc-200 rounded-lg px-3 text-sm text-right text-black outline-none focus:border-black/40 transition-colors';
+const selectClass =
+    'h-9 bg-white border border-zinc-200 rounded-lg px-3 text-sm text-black outline-none cursor-pointer hover:border-zinc-300 transition-colors';
+
+export default function NewChallanPage() {
+    const params = useParams<{ id: string }>();
+    const data = createAsync(() => loadChallanForm());
+    const submission = useSubmission(createChallan);
+
+    const [rows, setRows] = createSignal<number[]>([0, 1, 2]);
+    let nextRow = 3;
+
+    const source = createMemo(() => data()?.destinations.find((d) => d.id === params.id)?.name ?? 'Godown');
+    const destinations = createMemo(() => (data()?.destinations ?? []).filter((d) => d.id !== params.id));
+
+    return (
+        <div class="w-full mx-auto px-4 py-12">
+            <div class="mb-4">
+                <Breadcrumb
+                    items={[
+                        { label: 'All godown', href: '/dashboard' },
+                        { label: source(), href: `/destination/${params.id}` },
+                        { label: 'New challan' },
+                    ]}
+                />
+            </div>
+            <div class="mb-8">
+                <h1 class="text-3xl font-bold text-black tracking-tight">New Challan</h1>
+                <p class="mt-1 text-sm text-zinc-500">
+                    Send several items from {source()} in one load. Each line is recorded as a transfer and the challan
+                    can be printed to go with the vehicle.
+                </p>
+            </div>
+
+            <Suspense fallback={<div class="h-64 bg-zinc-100 rounded-2xl animate-pulse" />}>
+                <form action={createChallan} method="post" class="space-y-6">
+                    <input type="hidden" name="source_id" value={params.id} />
+
+                    <div class="grid grid-cols-1 md:grid-cols-2 gap-4">
+                        <SelectInput name="destination_id" label="Sent To" required>
+                            <option value="">Select a destination...</option>
+                            <For each={destinations()}>{(d) => <option value={d.id}>{d.name}</option>}</For>
+                        </SelectInput>
+                        <TextInput
+                            name="challan_date"
+                            label="Date"
+                            type="date"
+                            required
+                            value={serializeDateLocal(new Date())}
+                        />
+                        <TextInput name="vehicle_no" label="Vehicle No. (Optional)" placeholder="e.g. MH12 AB 1234" />
+                        <TextInput name="driver_name" label="Driver (Optional)" placeholder="Name and phone" />
+                    </div>
+
+                    <div class="bg-white border border-zinc-200 rounded-2xl overflow-hidden shadow-2xl shadow-black/5">
+                        <div class="overflow-x-auto">
+                            <table class="w-full text-left border-collapse">
+                                <thead>
+                                    <tr class="border-b border-zinc-200 bg-zinc-50">
+                                        <th class="py-3 px-3 text-xs font-bold uppercase tracking-wider text-zinc-600">
+                                            #
+                                        </th>
+                                        <th class="py-3 px-3 text-xs font-bold uppercase tracking-wider text-zinc-600">
+                                            Item
+                                        </th>
+                                        <th class="py-3 px-3 text-xs font-bold uppercase tracking-wider text-zinc-600">
+                                            Variant
+                                        </th>
+                                        <th class="py-3 px-3 text-right text-xs font-bold uppercase tracking-wider text-zinc-600">
+                                            Quantity
+                                        </th>
+                                        <th class="py-3 px-3"></th>
+                                    </tr>
+                                </thead>
+                                <tbody class="divide-y divide-zinc-100">
+                                    <For each={rows()}>
+                                        {(rowId, index) => (
+                                            <LineRow
+                                                index={index() + 1}
+                                                entities={data()?.entities ?? []}
+                                                variants={data()?.variants ?? []}
+                                                onRemove={
+                                                    rows().length > 1
+                                                        ? () => setRows(rows().filter((id) => id !== rowId))
+                                                        : undefined
+                                                }
+                                            />
+                                        )}
+                                    </For>
+                                </tbody>
+                            </table>
+                        </div>
+                        <div class="border-t border-zinc-200 px-4 py-3">
+                            <button
+                                type="button"
+                                class="text-xs font-semibold text-blue-500 hover:text-blue-700"
+                                onClick={() => setRows([...rows(), nextRow++])}
+                            >
+                                + Add line
+                            </button>
+                        </div>
+                    </div>
+
+                    <div class="group relative bg-white border border-zinc-200 focus-within:border-black/40 focus-within:ring-1 focus-within:ring-black/10 rounded-xl transition-all duration-200">
+                        <label
+                            for="challan-note"
+                            class="absolute top-2 left-3.5 text-[10px] font-bold uppercase tracking-wide text-zinc-500"
+                        >
+                            Note (Optional)
+                        </label>
+                        <textarea
+                            id="challan-note"
+                            name="note"
+                            rows={2}
+                            placeholder="e.g. For slab casting, floor 3"
+                            class="w-full bg-transparent text-black text-sm px-3.5 pt-7 pb-2.5 outline-none placeholder:text-zinc-400 resize-none"
+                        />
+                    </div>
+
+                    <Show when={submission.result?.success === false}>
+                        <div class="p-3 bg-red-500/10 border border-red-500/20 rounded-lg text-xs text-red-500 font-medium">
+                            {submission.result?.error}
+                        </div>
+                    </Show>
+
+                    <button
+                        type="submit"
+                        disabled={submission.pending}
+                        class="w-full bg-black hover:bg-black/90 disabled:opacity-50 text-white font-bold text-sm rounded-xl py-4 transition-all"
+                    >
+                        {submission.pending ? 'Saving...' : 'Create Challan'}
+                    </button>
+                </form>
+            </Suspense>
+        </div>
+    );
+}
+
+function LineRow(props: {
+    index: number;
+    entities: { id: string; name: string; unit: string }[];
+    variants: { id: string; entity_id: string | null; label: string }[];
+    onRemove?: () => void;
+}) {
+    const [entityId, setEntityId] = createSignal('');
+    const availableVariants = createMemo(() => props.variants.filter((v) => v.entity_id === entityId()));
+    const unit = createMemo(() => props.entities.find((e) => e.id === entityId())?.unit);
+
+    return (
+        <tr>
+            <td class="py-3 px-3 text-sm tabular-nums text-zinc-400">{props.index}</td>
+            <td class="py-3 px-3">
+                <select name="entity_id" class={selectClass} onChange={(e) => setEntityId(e.currentTarget.value)}>
+                    <option value="">Select an item...</option>
+                    <For each={props.entities}>{(e) => <option value={e.id}>{e.name}</option>}</For>
+                </select>
+            </td>
+            <td class="py-3 px-3">
+                <select name="variant_id" class={selectClass}>
+                    <option value="">Default / No Variant</option>
+                    <For each={availableVariants()}>{(v) => <option value={v.id}>{v.label}</option>}</For>
+                </select>
+            </td>
+            <td class="py-3 px-3 text-right">
+                <input name="quantity" type="number" step="0.001" min="0" class={inputClass} />
+                <span class="ml-1 inline-block w-10 text-left text-xs text-zinc-400">{unit() ?? ''}</span>
+            </td>
+            <td class="py-3 px-3 text-right">
+                <Show when={props.onRemove}>
+                    <button
+                        type="button"
+                        class="text-xs font-semibold text-red-500 hover:text-red-700"
+                        onClick={() => props.onRemove?.()}
+                    >
+                        Remove
+                    </button>
+                </Show>
+            </td>
+        </tr>
+    );
+}
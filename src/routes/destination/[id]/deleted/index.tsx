@@ -0,0 +1,281 @@
+import { A, action, createAsync, query, useParams, useSubmission } from '@solidjs/router';
+import { alias } from 'drizzle-orm/pg-core';
+import { and, desc, eq, isNotNull, or } from 'drizzle-orm';
+import { For, Show, Suspense } from 'solid-js';
+import { db } from '~/drizzle/client';
+import { Destination, EntityWarehouse, WarehouseTransaction } from '~/drizzle/schema';
+import { requireAuth } from '~/lib/require-auth';
+import { recordAudit } from '~/lib/audit';
+import { isRestorable, RESTORE_WINDOW_DAYS } from '~/lib/soft-delete';
+import { assertStockAvailable, StockError } from '~/lib/stock';
+
+type ActionResponse = {
+    success: boolean;
+    error?: string;
+};
+
+const SourceDestination = alias(Destination, 'source_destination');
+const TargetDestination = alias(Destination, 'target_destination');
+
+export const loadDeletedTransactions = query(async (dest: string) => {
+    'use server';
+    const session = await requireAuth(['warehouse-user']);
+
+    const [rows, destination] = await Promise.all([
+        db
+            .select({
+                id: WarehouseTransaction.id,
+                created_at: WarehouseTransaction.created_at,
+                deleted_at: WarehouseTransaction.deleted_at,
+                type: WarehouseTransaction.type,
+                quantity: WarehouseTransaction.quantity,
+                entity_name: EntityWarehouse.name,
+                unit: EntityWarehouse.unit,
+                source_name: SourceDestination.name,
+                destination_name: TargetDestination.name,
+            })
+            .from(WarehouseTransaction)
+            .leftJoin(EntityWarehouse, eq(EntityWarehouse.id, WarehouseTransaction.entity_id))
+            .leftJoin(SourceDestination, eq(SourceDestination.id, WarehouseTransaction.source_id))
+            .leftJoin(TargetDestination, eq(TargetDestination.id, WarehouseTransaction.destination_id))
+            .where(
+                and(
+                    or(eq(WarehouseTransaction.source_id, dest), eq(WarehouseTransaction.destination_id, dest)),
+                    isNotNull(WarehouseTransaction.deleted_at),
+                ),
+            )
+            .orderBy(desc(WarehouseTransaction.deleted_at)),
+        db
+            .select({ name: Destination.name })
+            .from(Destination)
+            .where(eq(Destination.id, dest))
+            .then((rows) => rows[0]?.name ?? 'Unknown'),
+    ]);
+
+    return {
+        destination,
+        transactions: rows.map((r) => ({ ...r, restorable: isRestorable(r.deleted_at) })),
+        canPurge: session.user.role === 'admin',
+    };
+}, 'deleted-warehouse-transactions');
+
+export const restoreTransaction = action(async (formData: FormData): Promise<ActionResponse> => {
+    'use server';
+    const session = await requireAuth(['warehouse-user']);
+
+    const rawId = formData.get('id');
+    const id = typeof rawId === 'string' ? rawId.trim() : '';
+    if (!id) {
+        return { success: false, error: 'Transaction id is missing.' };
+    }
+
+    try {
+        return await db.transaction(async (tx) => {
+            const [before] = await tx
+                .select()
+                .from(WarehouseTransaction)
+                .where(and(eq(WarehouseTransaction.id, id), isNotNull(WarehouseTransaction.deleted_at)))
+                .for('update');
+            if (!before) {
+                return { success: false, error: 'This entry is not in the recently deleted list.' };
+            }
+            if (!isRestorable(before.deleted_at)) {
+                return {
+                    success: false,
+                    error: `Only entries deleted in the last ${RESTORE_WINDOW_DAYS} days can be restored.`,
+                };
+            }
+            // Restoring a move out of a godown takes its stock out again
+            if (before.source_id && before.entity_id) {
+                await assertStockAvailable(tx, {
+                    sourceId: before.source_id,
+                    entityId: before.entity_id,
+                    variantId: before.entity_variant_id,
+                    quantity: Number(before.quantity ?? 0),
+                });
+            }
+
+            const [after] = await tx
+                .update(WarehouseTransaction)
+                .set({ deleted_at: null })
+                .where(eq(WarehouseTransaction.id, id))
+                .returning();
+            await recordAudit(tx, session.user, [
+                { table: WarehouseTransaction, rowId: id, siteId: before.source_id, before, after, action: 'restore' },
+            ]);
+            return { success: true };
+        });
+    } catch (error: unknown) {
+        if (error instanceof StockError) return { success: false, error: error.message };
+        console.error('Database error:', error);
+        return { success: false, error: 'System error. Please try again.' };
+    }
+});
+
+export const purgeTransaction = action(async (formData: FormData): Promise<ActionResponse> => {
+    'use server';
+    const session = await requireAuth(['admin']);
+
+    const rawId = formData.get('id');
+    const id = typeof rawId === 'string' ? rawId.trim() : '';
+    if (!id) {
+        return { success: false, error: 'Transaction id is missing.' };
+    }
+
+    try {
+        return await db.transaction(async (tx) => {
+            const [before] = await tx
+                .delete(WarehouseTransaction)
+                .where(and(eq(WarehouseTransaction.id, id), isNotNull(WarehouseTransaction.deleted_at)))
+                .returning();
+            if (!before) {
+                return { success: false, error: 'Only deleted entries can be purged.' };
+            }
+            await recordAudit(tx, session.user, [
+                { table: WarehouseTransaction, rowId: id, siteId: before.source_id, before, action: 'purge' },
+            ]);
+            return { success: true };
+        });
+    } catch (error: unknown) {
+        console.error('Database error:', error);
+        return { success: false, error: 'System error. Please try again.' };
+    }
+});
+
+const formatDate = (date: Date | string | null) => (date ? new Date(date).toLocaleDateString() : '--');
+
+export default function DeletedWarehouseTransactionsPage() {
+    const params = useParams<{ id: string }>();
+    const data = createAsync(() => loadDeletedTransactions(params.id));
+    const restoring = useSubmission(restoreTransaction);
+    const purging = useSubmission(purgeTransaction);
+    const error = () => restoring.result?.error ?? purging.result?.error;
+
+    return (
+        <div class="w-full mx-auto px-4 py-12">
+            <div class="mb-8 space-y-2">
+                <h1 class="text-3xl font-bold text-black tracking-tight">Recently Deleted</h1>
+                <Suspense fallback={<span class="block w-32 h-4 bg-zinc-200 rounded-md animate-pulse" />}>
+                    <p class="text-base text-zinc-600">
+                        Site name:
+                        <span class="ml-1 font-medium text-zinc-900">{data()?.destination}</span>
+                    </p>
+                </Suspense>
+                <p class="text-sm text-zinc-500">
+                    Deleted entries are left out of the ledger and stock balances. They can be restored for{' '}
+                    {RESTORE_WINDOW_DAYS} days.
+                </p>
+            </div>
+
+            <div class="bg-white border border-zinc-200 rounded-2xl overflow-hidden shadow-2xl shadow-black/5">
+                <Show when={error()}>
+                    <div class="px-6 py-3 bg-red-500/10 border-b border-red-500/10 text-sm text-red-400">{error()}</div>
+                </Show>
+                <div class="overflow-x-auto">
+                    <table class="w-full text-left border-collapse">
+                        <thead>
+                            <tr class="border-b border-zinc-200">
+                                <th class="py-5 pl-8 pr-4 text-xs font-bold uppercase tracking-wider text-zinc-800">
+                                    Date
+                                </th>
+                                <th class="py-5 px-4 text-xs font-bold uppercase tracking-wider text-zinc-800">
+                                    From/To
+                                </th>
+                                <th class="py-5 px-4 text-xs font-bold uppercase tracking-wider text-zinc-800">Item</th>
+                                <th class="py-5 px-4 text-right text-xs font-bold uppercase tracking-wider text-zinc-800">
+                                    Quantity
+                                </th>
+                                <th class="py-5 px-4 text-xs font-bold uppercase tracking-wider text-zinc-800">
+                                    Deleted
+                                </th>
+                                <th class="py-5 pr-8 text-right text-xs font-bold uppercase tracking-wider text-zinc-800">
+                                    Actions
+                                </th>
+                            </tr>
+                        </thead>
+                        <tbody class="divide-y divide-zinc-200">
+                            <Suspense>
+                                <Show
+                                    when={(data()?.transactions ?? []).length > 0}
+                                    fallback={
+                                        <tr>
+                                            <td colspan={6} class="py-12 text-center text-sm text-zinc-500">
+                                                Nothing has been deleted from this site.
+                                            </td>
+                                        </tr>
+                                    }
+                                >
+                                    <For each={data()?.transactions}>
+                                        {(transaction) => (
+                                            <tr class="hover:bg-zinc-50 transition-colors">
+                                                <td class="py-4 pl-8 pr-4 text-sm text-zinc-700 whitespace-nowrap">
+                                                    {formatDate(transaction.created_at)}
+                                                </td>
+                                                <td class="py-4 px-4 text-sm text-zinc-700">
+                                                    {transaction.source_name ?? '--'} →{' '}
+                                                    {transaction.destination_name ?? '--'}
+                                                </td>
+                                                <td class="py-4 px-4 text-sm font-medium text-black">
+                                                    {transaction.entity_name ?? 'Unknown'}
+                                                </td>
+                                                <td class="py-4 px-4 text-right text-sm text-zinc-700 tabular-nums">
+                                                    {Number(transaction.quantity ?? 0)} {transaction.unit ?? ''}
+                                                </td>
+                                                <td class="py-4 px-4 text-sm text-zinc-700 whitespace-nowrap">
+                                                    {formatDate(transaction.deleted_at)}
+                                                </td>
+                                                <td class="py-4 pr-8 text-right">
+                                                    <div class="flex items-center justify-end gap-3">
+                                                        <Show
+                                                            when={transaction.restorable}
+                                                            fallback={
+                                                                <span class="text-xs text-zinc-400">
+                                                                    Restore window passed
+                                                                </span>
+                                                            }
+                                                        >
+                                                            <form action={restoreTransaction} method="post">
+                                                                <input type="hidden" name="id" value={transaction.id} />
+                                                                <button
+                                                                    type="submit"
+                                                                    class="text-xs font-semibold text-blue-500 hover:text-blue-700"
+                                                                >
+                                                                    Restore
+                                                                </button>
+                                                            </form>
+                                                        </Show>
+                                                        <Show when={data()?.canPurge}>
+                                                            <form action={purgeTransaction} method="post">
+                                                                <input type="hidden" name="id" value={transaction.id} />
+                                                                <button
+                                                                    type="submit"
+                                                                    class="text-xs font-semibold text-red-500 hover:text-red-700"
+                                                                    onClick={(e) =>
+                                                                        !confirm('Permanently delete this entry?') &&
+                                                                        e.preventDefault()
+                                                                    }
+                                                                >
+                                                                    Purge
+                                                                </button>
+                                                            </form>
+                                                        </Show>
+                                                    </div>
+                                                </td>
+                                            </tr>
+                                        )}
+                                    </For>
+                                </Show>
+                            </Suspense>
+                        </tbody>
+                    </table>
+                </div>
+            </div>
+
+            <div class="mt-6">
+                <A href={`/destination/${params.id}/ledger`} class="text-sm text-blue-600 hover:underline">
+                    Back to ledger
+                </A>
+            </div>
+        </div>
+    );
+}
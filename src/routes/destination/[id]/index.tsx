@@ -1,61 +1,48 @@
 import { query, createAsync, useNavigate, useParams, A } from '@solidjs/router';
-import { eq, or, sql } from 'drizzle-orm';
+import { eq } from 'drizzle-orm';
 import { db } from '~/drizzle/client';
-import { Destination, WarehouseTransactionDetail } from '~/drizzle/schema';
+import { Destination, StockLevel } from '~/drizzle/schema';
+import { loadLowStock, loadStockBalances } from '~/lib/stock';
 import { createEffect, createSignal, For, Show, Suspense } from 'solid-js';
 import { Pagination, PaginationSkeleton } from '~/components/Pagination';
 
 export const loadEntitiesForDestination = query(async (dest: string, limit: number, offset: number) => {
     'use server';
 
-    // Aggregate quantities per entity+variant using the view (variant is pre-computed)
-    const sq = db.$with('sq').as(
+    const [balances, levels, destination, lowStock] = await Promise.all([
+        loadStockBalances({ locationId: dest }),
         db
             .select({
-                entity_id: WarehouseTransactionDetail.entity_id,
-                entity_variant_id: WarehouseTransactionDetail.entity_variant_id,
-                entity_name: sql<string>`MIN(${WarehouseTransactionDetail.entity_name})`.as('entity_name'),
-                variant_formatted: sql<string>`MIN(${WarehouseTransactionDetail.entity_variant})`.as('variant_formatted'),
-                net_quantity: sql<number>`SUM(
-                CASE
-                    WHEN ${WarehouseTransactionDetail.destination_id} = ${dest}
-                    THEN COALESCE(CAST(${WarehouseTransactionDetail.quantity} as REAL), 0)
-                    WHEN ${WarehouseTransactionDetail.source_id} = ${dest}
-                    THEN -COALESCE(CAST(${WarehouseTransactionDetail.quantity} as REAL), 0)
-                    ELSE 0
-                END)`.as('net_quantity'),
+                entity_id: StockLevel.entity_id,
+                entity_variant_id: StockLevel.entity_variant_id,
+                min_quantity: StockLevel.min_quantity,
             })
-            .from(WarehouseTransactionDetail)
-            .where(or(eq(WarehouseTransactionDetail.destination_id, dest), eq(WarehouseTransactionDetail.source_id, dest)))
-            .groupBy(WarehouseTransactionDetail.entity_id, WarehouseTransactionDetail.entity_variant_id),
-    );
-
-    const rows = await db
-        .with(sq)
-        .select({
-            entity_id: sq.entity_id,
-            entity_variant_id: sq.entity_variant_id,
-            net_quantity: sq.net_quantity,
-            entity_name: sq.entity_name,
-            variant_formatted: sq.variant_formatted,
-        })
-        .from(sq)
-        .limit(limit)
-        .offset(offset);
-
-    const totalCount = await db
-        .with(sq)
-        .select({ total: sql<number>`COUNT(*)`.as('total') })
-        .from(sq)
-        .then((rows) => rows[0]?.total ?? 0);
-
-    // Get the name of the destination
-    const destination = db.select({ name: Destination.name }).from(Destination).where(eq(Destination.id, dest));
+            .from(StockLevel)
+            .where(eq(StockLevel.destination_id, dest)),
+        db
+            .select({ name: Destination.name })
+            .from(Destination)
+            .where(eq(Destination.id, dest))
+            .then((rows) => rows[0]?.name ?? 'Unknown'),
+        loadLowStock({ locationId: dest }),
+    ]);
+    const minimum = (entityId: string, variantId: string | null) => {
+        const level = levels.find((l) => l.entity_id === entityId && l.entity_variant_id === variantId);
+        return level ? Number(level.min_quantity) : null;
+    };
 
     return {
-        entities: rows,
-        destination: await destination.then((dest) => dest[0]?.name ?? 'Unknown'),
-        totalCount,
+        entities: balances.slice(offset, offset + limit).map((b) => ({
+            entity_id: b.entity_id,
+            entity_variant_id: b.entity_variant_id,
+            entity_name: b.entity_name,
+            variant_formatted: b.entity_variant,
+            net_quantity: b.balance,
+            min_quantity: minimum(b.entity_id, b.entity_variant_id),
+        })),
+        destination,
+        totalCount: balances.length,
+        lowStock,
     };
 }, 'all-entities-for-destination');
 
@@ -94,9 +81,36 @@ export default function DestinationPage() {
                     </p>
                 </div>
                 <div class="flex items-center gap-4">
+                    <A class="bg-secondary text-brand py-2.5 px-2 rounded-lg" href={`/destination/${params.id}/levels`}>
+                        Stock Levels
+                    </A>
+                    <A
+                        class="bg-secondary text-brand py-2.5 px-2 rounded-lg"
+                        href={`/destination/${params.id}/stock-take`}
+                    >
+                        Stock Take
+                    </A>
+                    <A
+                        class="bg-secondary text-brand py-2.5 px-2 rounded-lg"
+                        href={`/destination/${params.id}/receipts`}
+                    >
+                        Goods Receipts
+                    </A>
+                    <A
+                        class="bg-secondary text-brand py-2.5 px-2 rounded-lg"
+                        href={`/destination/${params.id}/challan/new`}
+                    >
+                        New Challan
+                    </A>
                     <A class="bg-secondary text-brand py-2.5 px-2 rounded-lg" href={`ledger`}>
                         Open Ledger
                     </A>
+                    <a
+                        class="bg-secondary text-brand py-2.5 px-2 rounded-lg"
+                        href={`/api/warehouse/godowns/${params.id}/stock?format=xlsx`}
+                    >
+                        Export Stock
+                    </a>
                     <A
                         class="bg-secondary text-brand py-2.5 px-2 rounded-lg"
                         href={`/destination/${params.id}/transaction/new`}
@@ -106,6 +120,32 @@ export default function DestinationPage() {
                 </div>
             </div>
 
+            <Suspense>
+                <Show when={(inventory()?.lowStock ?? []).length > 0}>
+                    <div class="mb-6 p-4 bg-red-500/10 border border-red-500/20 rounded-2xl">
+                        <p class="text-sm font-semibold text-red-600">
+                            {inventory()?.lowStock.length} item(s) below minimum stock
+                        </p>
+                        <ul class="mt-2 space-y-1 text-sm text-red-600">
+                            <For each={inventory()?.lowStock}>
+                                {(item) => (
+                                    <li>
+                                        {item.entity_name}
+                                        {item.entity_variant ? ` (${item.entity_variant})` : ''}:{' '}
+                                        {item.balance.toLocaleString()} of {item.min_quantity.toLocaleString()}{' '}
+                                        {item.entity_unit}
+                                        <Show when={item.reorder_quantity !== null}>
+                                            {' '}
+                                            · reorder {item.reorder_quantity?.toLocaleString()}
+                                        </Show>
+                                    </li>
+                                )}
+                            </For>
+                        </ul>
+                    </div>
+                </Show>
+            </Suspense>
+
             {/* Main Surface Card */}
             <div class="bg-white border border-zinc-200 rounded-2xl overflow-hidden shadow-2xl shadow-black/5">
                 <div class="overflow-x-auto">
@@ -118,6 +158,9 @@ export default function DestinationPage() {
                                 <th class="py-5 px-4 text-xs font-semibold uppercase tracking-wider text-zinc-500">
                                     Dimension
                                 </th>
+                                <th class="py-5 px-4 text-right text-xs font-semibold uppercase tracking-wider text-zinc-500">
+                                    Minimum
+                                </th>
                                 <th class="py-5 pl-4 pr-8 text-right text-xs font-semibold uppercase tracking-wider text-zinc-500">
                                     Net Quantity
                                 </th>
@@ -130,6 +173,11 @@ export default function DestinationPage() {
                                         {(item) => (
                                             <tr
                                                 class="group cursor-pointer hover:bg-zinc-50 transition-colors duration-200"
+                                                classList={{
+                                                    'bg-red-50/60':
+                                                        item.min_quantity !== null &&
+                                                        (item.net_quantity ?? 0) < item.min_quantity,
+                                                }}
                                                 role="link"
                                                 tabindex={0}
                                                 onClick={() => navigate(`ledger?entity=${item.entity_id}`)}
@@ -153,11 +201,20 @@ export default function DestinationPage() {
                                                     </div>
                                                 </td>
 
+                                                {/* Minimum Column */}
+                                                <td class="py-5 px-4 text-right text-sm text-zinc-500">
+                                                    {item.min_quantity?.toLocaleString() ?? '--'}
+                                                </td>
+
                                                 {/* Quantity Column */}
                                                 <td class="py-5 pl-4 pr-8 text-right">
                                                     <span
                                                         class={`text-sm font-medium ${
-                                                            (item.net_quantity ?? 0) < 0 ? 'text-red-500' : 'text-black'
+                                                            (item.net_quantity ?? 0) < 0 ||
+                                                            (item.min_quantity !== null &&
+                                                                (item.net_quantity ?? 0) < item.min_quantity)
+                                                                ? 'text-red-500'
+                                                                : 'text-black'
                                                         }`}
                                                     >
                                                         {item.net_quantity?.toLocaleString() ?? 0}
@@ -202,7 +259,7 @@ export default function DestinationPage() {
 
 const EmptyState = () => (
     <tr>
-        <td colspan={3} class="py-16 text-center">
+        <td colspan={4} class="py-16 text-center">
             <div class="flex flex-col items-center justify-center gap-3">
                 <div class="p-3 bg-zinc-900 rounded-full border border-zinc-800">
                     <svg
@@ -236,6 +293,9 @@ const TableSkeleton = () => (
                 <td class="py-5 px-4">
                     <div class="h-6 w-24 bg-zinc-800/50 rounded-md"></div>
                 </td>
+                <td class="py-5 px-4">
+                    <div class="h-4 w-12 bg-zinc-800/50 rounded ml-auto"></div>
+                </td>
                 <td class="py-5 pl-4 pr-8 text-right flex justify-end">
                     <div class="h-4 w-12 bg-zinc-800/50 rounded"></div>
                 </td>
@@ -1,53 +1,133 @@
-import { action, createAsync, query, redirect, useLocation, useParams, useSubmission } from '@solidjs/router';
-import { and, desc, eq, or, sql } from 'drizzle-orm';
+import {
+    A,
+    action,
+    createAsync,
+    query,
+    redirect,
+    useLocation,
+    useNavigate,
+    useParams,
+    useSubmission,
+} from '@solidjs/router';
+import { and, asc, desc, eq, inArray, isNotNull, isNull, or, sql } from 'drizzle-orm';
 import { createEffect, createSignal, For, Show, Suspense } from 'solid-js';
 import { db } from '~/drizzle/client';
-import { Destination, WarehouseTransaction, WarehouseTransactionDetail } from '~/drizzle/schema';
+import {
+    Challan,
+    Destination,
+    GoodsReceipt,
+    GoodsReceiptLine,
+    Vendor,
+    WarehouseTransaction,
+    WarehouseTransactionDetail,
+} from '~/drizzle/schema';
 import { Pagination, PaginationSkeleton } from '~/components/Pagination';
 import { requireAuth } from '~/lib/require-auth';
+import { recordAudit } from '~/lib/audit';
+import { challanNumber } from '~/lib/challan';
+import { ADJUSTMENT_REASON_LABELS, assertStockAvailable, StockError } from '~/lib/stock';
 
-export const loadTransactions = query(async (dest: string, entity: string, limit: number, offset: number) => {
-    'use server';
+export const loadTransactions = query(
+    async (dest: string, entity: string, kind: string, limit: number, offset: number) => {
+        'use server';
 
-    const entityFilter = entity?.trim();
-
-    const baseFilter = or(eq(WarehouseTransactionDetail.destination_id, dest), eq(WarehouseTransactionDetail.source_id, dest));
-    const filters = entityFilter ? and(baseFilter, eq(WarehouseTransactionDetail.entity_id, entityFilter)) : baseFilter;
-
-    const transactions = await db
-        .select({
-            id: WarehouseTransactionDetail.id,
-            created_at: WarehouseTransactionDetail.created_at,
-            type: WarehouseTransactionDetail.type,
-            quantity: WarehouseTransactionDetail.quantity,
-            entity_name: WarehouseTransactionDetail.entity_name,
-            unit: WarehouseTransactionDetail.entity_unit,
-            variant_formatted: WarehouseTransactionDetail.entity_variant,
-            source_name: WarehouseTransactionDetail.source_name,
-            destination_name: WarehouseTransactionDetail.destination_name,
-            source_id: WarehouseTransactionDetail.source_id,
-            destination_id: WarehouseTransactionDetail.destination_id,
-        })
-        .from(WarehouseTransactionDetail)
-        .where(filters)
-        .orderBy(desc(WarehouseTransactionDetail.created_at))
-        .limit(limit)
-        .offset(offset);
-
-    const totalCount = await db
-        .select({ total: sql<number>`COUNT(*)`.as('total') })
-        .from(WarehouseTransactionDetail)
-        .where(filters)
-        .then((rows) => rows[0]?.total ?? 0);
-
-    const destination = db.select({ name: Destination.name }).from(Destination).where(eq(Destination.id, dest));
-
-    return {
-        transactions,
-        destination: await destination.then((rows) => rows[0]?.name ?? 'Unknown'),
-        totalCount,
-    };
-}, 'transactions-by-destination-id');
+        const entityFilter = entity?.trim();
+
+        const baseFilter = or(
+            eq(WarehouseTransactionDetail.destination_id, dest),
+            eq(WarehouseTransactionDetail.source_id, dest),
+        );
+        // Stock-take adjustments, goods receipts and transfers can be viewed apart.
+        const kindFilter =
+            kind === 'adjustment'
+                ? isNotNull(WarehouseTransactionDetail.adjustment_reason)
+                : kind === 'receipt'
+                  ? isNotNull(GoodsReceiptLine.id)
+                  : kind === 'challan'
+                    ? isNotNull(WarehouseTransactionDetail.challan_id)
+                    : kind === 'transfer'
+                      ? and(isNull(WarehouseTransactionDetail.adjustment_reason), isNull(GoodsReceiptLine.id))
+                      : undefined;
+        const filters = and(
+            baseFilter,
+            entityFilter ? eq(WarehouseTransactionDetail.entity_id, entityFilter) : undefined,
+            kindFilter,
+        );
+
+        // A challan's lines make one entry of the ledger, so pages are counted in entries.
+        const entryKey = sql<string>`COALESCE(${WarehouseTransactionDetail.challan_id}, ${WarehouseTransactionDetail.id})`;
+        const entryKeys = await db
+            .select({ key: entryKey })
+            .from(WarehouseTransactionDetail)
+            .leftJoin(GoodsReceiptLine, eq(GoodsReceiptLine.warehouse_transaction_id, WarehouseTransactionDetail.id))
+            .where(filters)
+            .groupBy(entryKey)
+            .orderBy(desc(sql`MAX(${WarehouseTransactionDetail.created_at})`), desc(entryKey))
+            .limit(limit)
+            .offset(offset)
+            .then((rows) => rows.map((row) => row.key));
+
+        const transactions = await db
+            .select({
+                id: WarehouseTransactionDetail.id,
+                created_at: WarehouseTransactionDetail.created_at,
+                type: WarehouseTransactionDetail.type,
+                quantity: WarehouseTransactionDetail.quantity,
+                entity_name: WarehouseTransactionDetail.entity_name,
+                unit: WarehouseTransactionDetail.entity_unit,
+                variant_formatted: WarehouseTransactionDetail.entity_variant,
+                source_name: WarehouseTransactionDetail.source_name,
+                destination_name: WarehouseTransactionDetail.destination_name,
+                source_id: WarehouseTransactionDetail.source_id,
+                destination_id: WarehouseTransactionDetail.destination_id,
+                adjustment_reason: WarehouseTransactionDetail.adjustment_reason,
+                adjustment_note: WarehouseTransactionDetail.adjustment_note,
+                receipt_invoice_no: GoodsReceipt.invoice_no,
+                receipt_vendor_name: Vendor.name,
+                challan_id: WarehouseTransactionDetail.challan_id,
+            })
+            .from(WarehouseTransactionDetail)
+            .leftJoin(GoodsReceiptLine, eq(GoodsReceiptLine.warehouse_transaction_id, WarehouseTransactionDetail.id))
+            .leftJoin(GoodsReceipt, eq(GoodsReceipt.id, GoodsReceiptLine.receipt_id))
+            .leftJoin(Vendor, eq(Vendor.id, GoodsReceipt.vendor_id))
+            .where(and(filters, entryKeys.length ? inArray(entryKey, entryKeys) : sql`false`))
+            .orderBy(desc(WarehouseTransactionDetail.created_at), asc(WarehouseTransactionDetail.entity_name));
+
+        const challanIds = transactions.flatMap((t) => (t.challan_id ? [t.challan_id] : []));
+        const challans = challanIds.length
+            ? await db
+                  .select({
+                      id: Challan.id,
+                      challan_no: Challan.challan_no,
+                      vehicle_no: Challan.vehicle_no,
+                      driver_name: Challan.driver_name,
+                  })
+                  .from(Challan)
+                  .where(inArray(Challan.id, challanIds))
+            : [];
+
+        const entries = entryKeys.map((key) => {
+            const lines = transactions.filter((t) => (t.challan_id ?? t.id) === key);
+            return { key, challan: challans.find((c) => c.id === key) ?? null, lines };
+        });
+
+        const totalCount = await db
+            .select({ total: sql<number>`COUNT(DISTINCT ${entryKey})`.mapWith(Number) })
+            .from(WarehouseTransactionDetail)
+            .leftJoin(GoodsReceiptLine, eq(GoodsReceiptLine.warehouse_transaction_id, WarehouseTransactionDetail.id))
+            .where(filters)
+            .then((rows) => rows[0]?.total ?? 0);
+
+        const destination = db.select({ name: Destination.name }).from(Destination).where(eq(Destination.id, dest));
+
+        return {
+            entries,
+            destination: await destination.then((rows) => rows[0]?.name ?? 'Unknown'),
+            totalCount,
+        };
+    },
+    'transactions-by-destination-id',
+);
 
 type ActionResponse = {
     success: boolean;
@@ -56,7 +136,7 @@ type ActionResponse = {
 
 export const deleteTransaction = action(async (formData: FormData): Promise<ActionResponse> => {
     'use server';
-    await requireAuth(['warehouse-user']);
+    const session = await requireAuth(['warehouse-user']);
 
     const rawId = formData.get('id');
     const rawDest = formData.get('dest');
@@ -70,11 +150,36 @@ export const deleteTransaction = action(async (formData: FormData): Promise<Acti
     }
 
     try {
-        await db.delete(WarehouseTransaction).where(eq(WarehouseTransaction.id, id));
+        await db.transaction(async (tx) => {
+            const [before] = await tx
+                .select()
+                .from(WarehouseTransaction)
+                .where(and(eq(WarehouseTransaction.id, id), isNull(WarehouseTransaction.deleted_at)))
+                .for('update');
+            if (!before) return;
+            // Deleting a move into a godown takes that stock back out of it
+            if (before.destination_id && before.entity_id) {
+                await assertStockAvailable(tx, {
+                    sourceId: before.destination_id,
+                    entityId: before.entity_id,
+                    variantId: before.entity_variant_id,
+                    quantity: Number(before.quantity ?? 0),
+                });
+            }
+            const [after] = await tx
+                .update(WarehouseTransaction)
+                .set({ deleted_at: new Date() })
+                .where(eq(WarehouseTransaction.id, id))
+                .returning();
+            await recordAudit(tx, session.user, [
+                { table: WarehouseTransaction, rowId: id, siteId: before.source_id, before, after, action: 'delete' },
+            ]);
+        });
         const search = entity ? `?entity=${encodeURIComponent(entity)}` : '';
         throw redirect(dest ? `/destination/${dest}/ledger${search}` : '/dashboard');
     } catch (error: unknown) {
         if (error instanceof Response) throw error;
+        if (error instanceof StockError) return { success: false, error: error.message };
         console.error('Database error:', error);
         return { success: false, error: 'System error. Please try again.' };
     }
@@ -92,15 +197,24 @@ export default function LedgerPage() {
     const location = useLocation();
     const [page, setPage] = createSignal(1);
     const [pageSize, setPageSize] = createSignal(10);
+    const navigate = useNavigate();
     const entityFilter = () => new URLSearchParams(location.search).get('entity') ?? '';
+    const kindFilter = () => new URLSearchParams(location.search).get('kind') ?? '';
+    const setKindFilter = (kind: string) => {
+        const search = new URLSearchParams(location.search);
+        if (kind) search.set('kind', kind);
+        else search.delete('kind');
+        navigate(`${location.pathname}${search.size ? `?${search}` : ''}`);
+    };
     const transactions = createAsync(() =>
-        loadTransactions(params.id, entityFilter(), pageSize(), (page() - 1) * pageSize()),
+        loadTransactions(params.id, entityFilter(), kindFilter(), pageSize(), (page() - 1) * pageSize()),
     );
     const totalCount = () => transactions()?.totalCount ?? 0;
     const deletion = useSubmission(deleteTransaction);
 
     createEffect(() => {
         entityFilter();
+        kindFilter();
         setPage(1);
     });
 
@@ -124,8 +238,26 @@ export default function LedgerPage() {
                         </p>
                     </Suspense>
                 </div>
+                <div class="flex items-center gap-4">
+                    <select
+                        class="h-9 bg-white border border-zinc-200 rounded-lg px-3 text-sm text-black outline-none cursor-pointer hover:border-zinc-300 transition-colors"
+                        value={kindFilter()}
+                        onChange={(e) => setKindFilter(e.currentTarget.value)}
+                    >
+                        <option value="">All entries</option>
+                        <option value="transfer">Transfers</option>
+                        <option value="adjustment">Stock-take adjustments</option>
+                        <option value="receipt">Goods receipts</option>
+                        <option value="challan">Challans</option>
+                    </select>
+                    <A href={`/destination/${params.id}/deleted`} class="text-sm text-blue-600 hover:underline">
+                        Recently deleted
+                    </A>
+                </div>
             </div>
 
+            <LedgerExport destinationId={params.id} />
+
             <div class="bg-white border border-zinc-200 rounded-2xl overflow-hidden shadow-2xl shadow-black/5">
                 <Show when={deletion.result?.success === false}>
                     <div class="px-6 py-3 bg-red-500/10 border-b border-red-500/10 text-sm text-red-400">
@@ -168,105 +300,33 @@ export default function LedgerPage() {
                         <tbody class="divide-y divide-zinc-200">
                             <Suspense fallback={<TableSkeleton />}>
                                 <Show
-                                    when={transactions()?.transactions && transactions()!.transactions.length > 0}
+                                    when={transactions()?.entries && transactions()!.entries.length > 0}
                                     fallback={<EmptyState />}
                                 >
-                                    <For each={transactions()?.transactions}>
-                                        {(transaction, index) => {
-                                            const entityLabel = () => {
-                                                const name = transaction.entity_name ?? 'Unknown';
-                                                return name;
-                                            };
-
-                                            const variant = () => {
-                                                const variant = transaction.variant_formatted
-                                                    ? formatVariantDetails(transaction.variant_formatted)
-                                                    : '--';
-                                                return variant;
-                                            };
-
-                                            const typeLabel = () => {
-                                                const isCurrentSource = transaction.source_id === params.id;
-                                                const isCurrentDestination = transaction.destination_id === params.id;
-                                                if (!transaction.type) {
-                                                    return '-';
-                                                }
-                                                if (isCurrentDestination && !isCurrentSource) {
-                                                    return transaction.type === 'credit' ? 'debit' : 'credit';
+                                    <For each={transactions()?.entries}>
+                                        {(entry, index) => (
+                                            <Show
+                                                when={entry.challan}
+                                                fallback={
+                                                    <LedgerRow
+                                                        transaction={entry.lines[0]}
+                                                        serial={String(index() + 1)}
+                                                        destinationId={params.id}
+                                                        entityFilter={entityFilter()}
+                                                    />
                                                 }
-                                                return transaction.type;
-                                            };
-
-                                            const routeLabel = () => {
-                                                const isCurrentSource = transaction.source_id === params.id;
-
-                                                const otherName = isCurrentSource
-                                                    ? (transaction.destination_name ?? 'Unknown')
-                                                    : (transaction.source_name ?? 'Unknown');
-
-                                                return `${otherName}`;
-                                            };
-
-                                            const quantityValue = () => {
-                                                const value = Number(transaction.quantity ?? 0);
-                                                return Number.isFinite(value) ? value.toLocaleString() : '0';
-                                            };
-
-                                            return (
-                                                <tr class="group hover:bg-zinc-50 transition-colors duration-200">
-                                                    <td class="py-5 border-r border-zinc-200  pl-8 text-sm text-zinc-700">
-                                                        {index() + 1}
-                                                    </td>
-                                                    <td class="py-5 border-r border-zinc-200  pl-8 pr-4 text-sm text-zinc-700">
-                                                        {transaction.created_at
-                                                            ? new Date(transaction.created_at).toLocaleDateString()
-                                                            : '-'}
-                                                    </td>
-                                                    <td class="py-5 px-4  border-r border-zinc-200 ">
-                                                        <span class="text-xs  text-zinc-700 uppercase">
-                                                            {typeLabel() === 'debit' ? 'Outward' : 'Inward'}
-                                                        </span>
-                                                    </td>
-                                                    <td class="py-5 px-4  border-r border-zinc-200  text-sm text-zinc-700">
-                                                        {routeLabel()}
-                                                    </td>
-                                                    <td class="py-5 px-4 border-r border-zinc-200  text-sm text-black">
-                                                        {entityLabel()}
-                                                    </td>
-                                                    <td class="py-5 px-4  border-r border-zinc-200  text-sm text-black">
-                                                        {variant()}
-                                                    </td>
-                                                    <td class="py-5 px-4 border-r border-zinc-200  text-right text-sm text-black">
-                                                        {quantityValue()}
-                                                    </td>
-                                                    <td class="py-5 px-4  border-r border-zinc-200 text-right text-sm text-black">
-                                                        {transaction.unit ?? ''}
-                                                    </td>
-                                                    <td class="py-5 pr-8 border-r border-zinc-200  text-right">
-                                                        <form action={deleteTransaction} method="post">
-                                                            <input type="hidden" name="id" value={transaction.id} />
-                                                            <input type="hidden" name="dest" value={params.id} />
-                                                            <input type="hidden" name="entity" value={entityFilter()} />
-                                                            <button
-                                                                type="submit"
-                                                                class="text-xs font-semibold text-red-400 hover:text-red-300 border border-red-500/30 rounded-lg px-3 py-1.5 transition-colors"
-                                                                onClick={(event) => {
-                                                                    if (
-                                                                        !window.confirm(
-                                                                            'Delete this transaction? This cannot be undone.',
-                                                                        )
-                                                                    ) {
-                                                                        event.preventDefault();
-                                                                    }
-                                                                }}
-                                                            >
-                                                                Delete
-                                                            </button>
-                                                        </form>
-                                                    </td>
-                                                </tr>
-                                            );
-                                        }}
+                                            >
+                                                {(challan) => (
+                                                    <ChallanRows
+                                                        challan={challan()}
+                                                        lines={entry.lines}
+                                                        serial={index() + 1}
+                                                        destinationId={params.id}
+                                                        entityFilter={entityFilter()}
+                                                    />
+                                                )}
+                                            </Show>
+                                        )}
                                     </For>
                                 </Show>
                             </Suspense>
@@ -300,6 +360,236 @@ export default function LedgerPage() {
     );
 }
 
+type LedgerEntry = Awaited<ReturnType<typeof loadTransactions>>['entries'][number];
+type LedgerTransaction = LedgerEntry['lines'][number];
+
+function LedgerRow(props: {
+    transaction: LedgerTransaction;
+    serial: string;
+    destinationId: string;
+    entityFilter: string;
+    nested?: boolean;
+}) {
+    const transaction = props.transaction;
+    const entityLabel = () => {
+        const name = transaction.entity_name ?? 'Unknown';
+        return name;
+    };
+
+    const variant = () => {
+        const variant = transaction.variant_formatted ? formatVariantDetails(transaction.variant_formatted) : '--';
+        return variant;
+    };
+
+    const typeLabel = () => {
+        const isCurrentSource = transaction.source_id === props.destinationId;
+        const isCurrentDestination = transaction.destination_id === props.destinationId;
+        if (!transaction.type) {
+            return '-';
+        }
+        if (isCurrentDestination && !isCurrentSource) {
+            return transaction.type === 'credit' ? 'debit' : 'credit';
+        }
+        return transaction.type;
+    };
+
+    const routeLabel = () => {
+        if (transaction.adjustment_reason) {
+            return transaction.adjustment_note || 'Stock take';
+        }
+        if (transaction.receipt_invoice_no) {
+            return `${transaction.receipt_vendor_name ?? 'Unknown'} · Inv ${transaction.receipt_invoice_no}`;
+        }
+        const isCurrentSource = transaction.source_id === props.destinationId;
+
+        const otherName = isCurrentSource
+            ? (transaction.destination_name ?? 'Unknown')
+            : (transaction.source_name ?? 'Unknown');
+
+        return `${otherName}`;
+    };
+
+    const quantityValue = () => {
+        const value = Number(transaction.quantity ?? 0);
+        const formatted = Number.isFinite(value) ? value.toLocaleString() : '0';
+        if (!transaction.adjustment_reason && !transaction.receipt_invoice_no) {
+            return formatted;
+        }
+        return `${transaction.destination_id === props.destinationId ? '+' : '−'}${formatted}`;
+    };
+
+    return (
+        <tr
+            class="group hover:bg-zinc-50 transition-colors duration-200"
+            classList={{
+                'bg-amber-50/60': !!transaction.adjustment_reason,
+                'bg-zinc-50/60': !!props.nested && !transaction.adjustment_reason,
+            }}
+        >
+            <td class="py-5 border-r border-zinc-200  pl-8 text-sm text-zinc-700">{props.serial}</td>
+            <td class="py-5 border-r border-zinc-200  pl-8 pr-4 text-sm text-zinc-700">
+                {transaction.created_at ? new Date(transaction.created_at).toLocaleDateString() : '-'}
+            </td>
+            <td class="py-5 px-4  border-r border-zinc-200 ">
+                <Show
+                    when={transaction.adjustment_reason}
+                    fallback={
+                        <Show
+                            when={transaction.receipt_invoice_no}
+                            fallback={
+                                <span class="text-xs  text-zinc-700 uppercase">
+                                    {typeLabel() === 'debit' ? 'Outward' : 'Inward'}
+                                </span>
+                            }
+                        >
+                            <span class="text-xs text-green-700 uppercase">Goods receipt</span>
+                        </Show>
+                    }
+                >
+                    {(reason) => (
+                        <span class="text-xs text-amber-700 uppercase">
+                            Adjustment · {ADJUSTMENT_REASON_LABELS[reason()]}
+                        </span>
+                    )}
+                </Show>
+            </td>
+            <td class="py-5 px-4  border-r border-zinc-200  text-sm text-zinc-700">{routeLabel()}</td>
+            <td class="py-5 px-4 border-r border-zinc-200  text-sm text-black">{entityLabel()}</td>
+            <td class="py-5 px-4  border-r border-zinc-200  text-sm text-black">{variant()}</td>
+            <td class="py-5 px-4 border-r border-zinc-200  text-right text-sm text-black">{quantityValue()}</td>
+            <td class="py-5 px-4  border-r border-zinc-200 text-right text-sm text-black">{transaction.unit ?? ''}</td>
+            <td class="py-5 pr-8 border-r border-zinc-200  text-right">
+                <form action={deleteTransaction} method="post">
+                    <input type="hidden" name="id" value={transaction.id} />
+                    <input type="hidden" name="dest" value={props.destinationId} />
+                    <input type="hidden" name="entity" value={props.entityFilter} />
+                    <button
+                        type="submit"
+                        class="text-xs font-semibold text-red-400 hover:text-red-300 border border-red-500/30 rounded-lg px-3 py-1.5 transition-colors"
+                        onClick={(event) => {
+                            if (!window.confirm('Delete this transaction? This cannot be undone.')) {
+                                event.preventDefault();
+                            }
+                        }}
+                    >
+                        Delete
+                    </button>
+                </form>
+            </td>
+        </tr>
+    );
+}
+
+/** A challan as one row, expanding to its lines. */
+function LedgerExport(props: { destinationId: string }) {
+    const [from, setFrom] = createSignal('');
+    const [to, setTo] = createSignal('');
+    const ready = () => !!from() && !!to() && from() <= to();
+    const href = (format: 'csv' | 'xlsx') =>
+        `/api/warehouse/godowns/${props.destinationId}/ledger?format=${format}&from=${from()}&to=${to()}`;
+    const inputClass =
+        'h-9 bg-white border border-zinc-200 rounded-lg px-3 text-sm text-black outline-none focus:border-black/40 transition-colors';
+    const linkClass = 'text-sm font-semibold text-blue-600 hover:underline';
+
+    return (
+        <div class="mb-4 flex flex-wrap items-center justify-end gap-3">
+            <span class="text-xs font-bold uppercase tracking-wide text-zinc-500">Export</span>
+            <input
+                type="date"
+                class={inputClass}
+                value={from()}
+                max={to() || undefined}
+                onInput={(e) => setFrom(e.currentTarget.value)}
+            />
+            <span class="text-sm text-zinc-500">to</span>
+            <input
+                type="date"
+                class={inputClass}
+                value={to()}
+                min={from() || undefined}
+                onInput={(e) => setTo(e.currentTarget.value)}
+            />
+            <Show when={ready()} fallback={<span class="text-sm text-zinc-400">Pick a date range</span>}>
+                <a href={href('csv')} class={linkClass}>
+                    CSV
+                </a>
+                <a href={href('xlsx')} class={linkClass}>
+                    Excel
+                </a>
+            </Show>
+        </div>
+    );
+}
+
+function ChallanRows(props: {
+    challan: NonNullable<LedgerEntry['challan']>;
+    lines: LedgerTransaction[];
+    serial: number;
+    destinationId: string;
+    entityFilter: string;
+}) {
+    const [open, setOpen] = createSignal(false);
+    const first = () => props.lines[0];
+    const outward = () => first()?.source_id === props.destinationId;
+    const otherName = () => (outward() ? first()?.destination_name : first()?.source_name) ?? 'Unknown';
+
+    return (
+        <>
+            <tr
+                class="group bg-sky-50/40 hover:bg-zinc-50 transition-colors duration-200 cursor-pointer"
+                onClick={() => setOpen(!open())}
+            >
+                <td class="py-5 border-r border-zinc-200  pl-8 text-sm text-zinc-700">{props.serial}</td>
+                <td class="py-5 border-r border-zinc-200  pl-8 pr-4 text-sm text-zinc-700">
+                    {first()?.created_at ? new Date(first()!.created_at!).toLocaleDateString() : '-'}
+                </td>
+                <td class="py-5 px-4  border-r border-zinc-200 ">
+                    <span class="text-xs text-sky-700 uppercase">
+                        {open() ? '▾' : '▸'} Challan {challanNumber(props.challan.challan_no)} ·{' '}
+                        {outward() ? 'Outward' : 'Inward'}
+                    </span>
+                </td>
+                <td class="py-5 px-4  border-r border-zinc-200  text-sm text-zinc-700">
+                    {otherName()}
+                    <Show when={props.challan.vehicle_no}> · {props.challan.vehicle_no}</Show>
+                </td>
+                <td colspan={4} class="py-5 px-4 border-r border-zinc-200  text-sm text-zinc-700">
+                    {props.lines.length} {props.lines.length === 1 ? 'item' : 'items'}
+                </td>
+                <td class="py-5 pr-8 border-r border-zinc-200  text-right">
+                    <A
+                        href={`/destination/${props.destinationId}/challan/${props.challan.id}`}
+                        onClick={(event) => event.stopPropagation()}
+                        class="text-xs font-semibold text-blue-600 hover:underline"
+                    >
+                        View / Print
+                    </A>
+                    <a
+                        href={`/api/challans/${props.challan.id}`}
+                        onClick={(event) => event.stopPropagation()}
+                        class="ml-3 text-xs font-semibold text-blue-600 hover:underline"
+                    >
+                        PDF
+                    </a>
+                </td>
+            </tr>
+            <Show when={open()}>
+                <For each={props.lines}>
+                    {(line, index) => (
+                        <LedgerRow
+                            transaction={line}
+                            serial={`${props.serial}.${index() + 1}`}
+                            destinationId={props.destinationId}
+                            entityFilter={props.entityFilter}
+                            nested
+                        />
+                    )}
+                </For>
+            </Show>
+        </>
+    );
+}
+
 const EmptyState = () => (
     <tr>
         <td colspan={6} class="py-16 text-center">
@@ -0,0 +1,403 @@
+import { action, createAsync, query, useParams, useSubmission } from '@solidjs/router';
+import { and, asc, eq, isNull, ne } from 'drizzle-orm';
+import { createEffect, createMemo, createSignal, For, Show, Suspense } from 'solid-js';
+import { db } from '~/drizzle/client';
+import { Destination, EntityVariantWarehouse, EntityWarehouse, StockLevel } from '~/drizzle/schema';
+import { SelectInput, TextInput } from '~/components/form';
+import Breadcrumb from '~/components/Breadcrumb';
+import Sheet from '~/components/Sheet';
+import { requireAuth } from '~/lib/require-auth';
+import { loadStockBalances, stockKey, variantLabel } from '~/lib/stock';
+
+type StockLevelFormValues = {
+    id: string;
+    entity_id: string;
+    entity_variant_id: string | null;
+    min_quantity: number;
+    reorder_quantity: number | null;
+};
+
+// --- QUERIES & ACTIONS ---
+
+export const loadStockLevels = query(async (destinationId: string) => {
+    'use server';
+    await requireAuth(['warehouse-user']);
+
+    const [levels, balances, entities, variants, destination] = await Promise.all([
+        db
+            .select({
+                id: StockLevel.id,
+                entity_id: StockLevel.entity_id,
+                entity_variant_id: StockLevel.entity_variant_id,
+                min_quantity: StockLevel.min_quantity,
+                reorder_quantity: StockLevel.reorder_quantity,
+                entity_name: EntityWarehouse.name,
+                entity_unit: EntityWarehouse.unit,
+            })
+            .from(StockLevel)
+            .innerJoin(EntityWarehouse, eq(EntityWarehouse.id, StockLevel.entity_id))
+            .where(eq(StockLevel.destination_id, destinationId))
+            .orderBy(asc(EntityWarehouse.name)),
+        loadStockBalances({ locationId: destinationId }),
+        db
+            .select({ id: EntityWarehouse.id, name: EntityWarehouse.name, unit: EntityWarehouse.unit })
+            .from(EntityWarehouse)
+            .orderBy(asc(EntityWarehouse.name)),
+        db.select().from(EntityVariantWarehouse),
+        db
+            .select({ name: Destination.name })
+            .from(Destination)
+            .where(eq(Destination.id, destinationId))
+            .then((rows) => rows[0]?.name ?? 'Unknown'),
+    ]);
+
+    const balanceOf = new Map(balances.map((b) => [stockKey(b.entity_id, b.entity_variant_id), b.balance]));
+    const variantOptions = variants.map((v) => ({
+        id: v.id,
+        entity_id: v.entity_id,
+        label: variantLabel(v) || 'Standard',
+    }));
+    const variantName = new Map(variantOptions.map((v) => [v.id, v.label]));
+
+    return {
+        destination,
+        entities,
+        variants: variantOptions,
+        levels: levels.map((level) => ({
+            ...level,
+            variant: level.entity_variant_id ? (variantName.get(level.entity_variant_id) ?? '') : '',
+            min_quantity: Number(level.min_quantity),
+            reorder_quantity: level.reorder_quantity === null ? null : Number(level.reorder_quantity),
+            balance: balanceOf.get(stockKey(level.entity_id, level.entity_variant_id)) ?? 0,
+        })),
+    };
+}, 'stock-levels');
+
+export const saveStockLevel = action(async (formData: FormData) => {
+    'use server';
+    await requireAuth(['warehouse-user']);
+
+    const getStringField = (key: string) => (formData.get(key) as string)?.trim() ?? '';
+
+    const id = getStringField('id');
+    const destinationId = getStringField('destination_id');
+    const entityId = getStringField('entity_id');
+    const variantId = getStringField('variant_id') || null;
+    const minQuantity = Number.parseFloat(getStringField('min_quantity'));
+    const rawReorder = getStringField('reorder_quantity');
+    const reorderQuantity = rawReorder ? Number.parseFloat(rawReorder) : null;
+
+    if (!destinationId || !entityId) return { error: 'Please choose an item.' };
+    if (!Number.isFinite(minQuantity) || minQuantity < 0) {
+        return { error: 'Minimum quantity must be zero or more.' };
+    }
+    if (reorderQuantity !== null && (!Number.isFinite(reorderQuantity) || reorderQuantity <= 0)) {
+        return { error: 'Reorder quantity must be a positive number.' };
+    }
+
+    try {
+        const [duplicate] = await db
+            .select({ id: StockLevel.id })
+            .from(StockLevel)
+            .where(
+                and(
+                    id ? ne(StockLevel.id, id) : undefined,
+                    eq(StockLevel.destination_id, destinationId),
+                    eq(StockLevel.entity_id, entityId),
+                    variantId ? eq(StockLevel.entity_variant_id, variantId) : isNull(StockLevel.entity_variant_id),
+                ),
+            );
+        if (duplicate) return { error: 'This item already has a level here. Edit that one instead.' };
+
+        const values = {
+            destination_id: destinationId,
+            entity_id: entityId,
+            entity_variant_id: variantId,
+            min_quantity: String(minQuantity),
+            reorder_quantity: reorderQuantity === null ? null : String(reorderQuantity),
+        };
+        if (id) {
+            await db
+                .update(StockLevel)
+                .set(values)
+                .where(and(eq(StockLevel.id, id), eq(StockLevel.destination_id, destinationId)));
+        } else {
+            await db.insert(StockLevel).values(values);
+        }
+        return { success: true };
+    } catch (error: unknown) {
+        console.error(error);
+        return { error: 'Failed to save stock level.' };
+    }
+});
+
+export const deleteStockLevel = action(async (formData: FormData) => {
+    'use server';
+    await requireAuth(['warehouse-user']);
+
+    const id = (formData.get('id') as string)?.trim() ?? '';
+    if (!id) return { error: 'Stock level id is missing.' };
+
+    try {
+        await db.delete(StockLevel).where(eq(StockLevel.id, id));
+        return { success: true };
+    } catch (error: unknown) {
+        console.error(error);
+        return { error: 'Failed to delete stock level.' };
+    }
+});
+
+// --- PAGE ---
+
+const formatQuantity = (value: number) => value.toFixed(3).replace(/\.?0+$/, '');
+
+export default function StockLevelsPage() {
+    const params = useParams<{ id: string }>();
+    const data = createAsync(() => loadStockLevels(params.id));
+    const deleting = useSubmission(deleteStockLevel);
+
+    const [sheetOpen, setSheetOpen] = createSignal(false);
+    const [editing, setEditing] = createSignal<StockLevelFormValues | undefined>();
+    const openForm = (level?: StockLevelFormValues) => {
+        setEditing(level);
+        setSheetOpen(true);
+    };
+
+    return (
+        <div class="w-full mx-auto px-4 py-12">
+            <div class="mb-4">
+                <Breadcrumb
+                    items={[
+                        { label: 'All godown', href: '/dashboard' },
+                        { label: data()?.destination ?? 'Godown', href: `/destination/${params.id}` },
+                        { label: 'Stock levels' },
+                    ]}
+                />
+            </div>
+            <div class="mb-8 flex justify-between items-start">
+                <div>
+                    <h1 class="text-3xl font-bold text-black tracking-tight">Stock Levels</h1>
+                    <p class="mt-1 text-sm text-zinc-500">
+                        Items whose stock falls below their minimum show up as low stock.
+                    </p>
+                </div>
+                <button
+                    onClick={() => openForm()}
+                    class="px-4 py-2 bg-black hover:bg-black/80 text-white font-semibold text-sm rounded-lg transition-colors shadow-sm"
+                >
+                    + Add Level
+                </button>
+            </div>
+
+            <Show when={deleting.result?.error}>
+                <div class="mb-4 p-3 bg-red-500/10 border border-red-500/20 rounded-lg text-xs text-red-500 font-medium">
+                    {deleting.result?.error}
+                </div>
+            </Show>
+
+            <div class="bg-white border border-zinc-200 rounded-2xl overflow-hidden shadow-2xl shadow-black/5">
+                <div class="overflow-x-auto">
+                    <table class="w-full text-left border-collapse">
+                        <thead>
+                            <tr class="border-b border-zinc-200 bg-zinc-50">
+                                <th class="py-3 px-3 text-xs font-bold uppercase tracking-wider text-zinc-600">Item</th>
+                                <th class="py-3 px-3 text-xs font-bold uppercase tracking-wider text-zinc-600">
+                                    Variant
+                                </th>
+                                <th class="py-3 px-3 text-right text-xs font-bold uppercase tracking-wider text-zinc-600">
+                                    In Stock
+                                </th>
+                                <th class="py-3 px-3 text-right text-xs font-bold uppercase tracking-wider text-zinc-600">
+                                    Minimum
+                                </th>
+                                <th class="py-3 px-3 text-right text-xs font-bold uppercase tracking-wider text-zinc-600">
+                                    Reorder Qty
+                                </th>
+                                <th class="py-3 px-3 text-right text-xs font-bold uppercase tracking-wider text-zinc-600"></th>
+                            </tr>
+                        </thead>
+                        <tbody class="divide-y divide-zinc-100">
+                            <Suspense>
+                                <Show
+                                    when={(data()?.levels ?? []).length > 0}
+                                    fallback={
+                                        <tr>
+                                            <td colspan={6} class="text-center py-12 text-sm text-zinc-400">
+                                                No stock levels set for this destination.
+                                            </td>
+                                        </tr>
+                                    }
+                                >
+                                    <For each={data()?.levels}>
+                                        {(level) => {
+                                            const low = () => level.balance < level.min_quantity;
+                                            return (
+                                                <tr class="hover:bg-zinc-50/80" classList={{ 'bg-red-50/60': low() }}>
+                                                    <td class="py-3 px-3 text-sm text-black">{level.entity_name}</td>
+                                                    <td class="py-3 px-3 text-sm text-zinc-700">
+                                                        {level.variant || 'NA'}
+                                                    </td>
+                                                    <td
+                                                        class="py-3 px-3 text-right text-sm font-medium tabular-nums"
+                                                        classList={{ 'text-red-500': low(), 'text-black': !low() }}
+                                                    >
+                                                        {formatQuantity(level.balance)} {level.entity_unit}
+                                                    </td>
+                                                    <td class="py-3 px-3 text-right text-sm tabular-nums text-zinc-700">
+                                                        {formatQuantity(level.min_quantity)}
+                                                    </td>
+                                                    <td class="py-3 px-3 text-right text-sm tabular-nums text-zinc-700">
+                                                        {level.reorder_quantity === null
+                                                            ? '--'
+                                                            : formatQuantity(level.reorder_quantity)}
+                                                    </td>
+                                                    <td class="py-3 px-3 text-right">
+                                                        <div class="flex items-center justify-end gap-3">
+                                                            <button
+                                                                type="button"
+                                                                class="text-xs font-semibold text-blue-500 hover:text-blue-700"
+                                                                onClick={() => openForm(level)}
+                                                            >
+                                                                Edit
+                                                            </button>
+                                                            <form action={deleteStockLevel} method="post">
+                                                                <input type="hidden" name="id" value={level.id} />
+                                                                <button
+                                                                    type="submit"
+                                                                    class="text-xs font-semibold text-red-500 hover:text-red-700"
+                                                                    onClick={(e) =>
+                                                                        !confirm(
+                                                                            `Delete the level for ${level.entity_name}?`,
+                                                                        ) && e.preventDefault()
+                                                                    }
+                                                                >
+                                                                    Delete
+                                                                </button>
+                                                            </form>
+                                                        </div>
+                                                    </td>
+                                                </tr>
+                                            );
+                                        }}
+                                    </For>
+                                </Show>
+                            </Suspense>
+                        </tbody>
+                    </table>
+                </div>
+            </div>
+
+            <Sheet
+                open={sheetOpen()}
+                onClose={() => setSheetOpen(false)}
+                title={editing() ? 'Edit Stock Level' : 'Add Stock Level'}
+            >
+                <Show when={sheetOpen()}>
+                    <StockLevelFormContent
+                        destinationId={params.id}
+                        level={editing()}
+                        entities={data()?.entities ?? []}
+                        variants={data()?.variants ?? []}
+                        onSuccess={() => setSheetOpen(false)}
+                    />
+                </Show>
+            </Sheet>
+        </div>
+    );
+}
+
+function StockLevelFormContent(props: {
+    destinationId: string;
+    level?: StockLevelFormValues;
+    entities: { id: string; name: string; unit: string }[];
+    variants: { id: string; entity_id: string | null; label: string }[];
+    onSuccess?: () => void;
+}) {
+    const submission = useSubmission(saveStockLevel);
+    const [entityId, setEntityId] = createSignal(props.level?.entity_id ?? '');
+    const availableVariants = createMemo(() => props.variants.filter((v) => v.entity_id === entityId()));
+    const unit = createMemo(() => props.entities.find((e) => e.id === entityId())?.unit ?? '');
+
+    let prevResult = submission.result;
+    createEffect(() => {
+        const result = submission.result as any;
+        if (result !== prevResult && result?.success === true) {
+            prevResult = result;
+            props.onSuccess?.();
+        }
+    });
+
+    return (
+        <form action={saveStockLevel} method="post" class="space-y-8">
+            <input type="hidden" name="destination_id" value={props.destinationId} />
+            <Show when={props.level}>{(l) => <input type="hidden" name="id" value={l().id} />}</Show>
+
+            <div class="space-y-5">
+                <div class="grid grid-cols-1 md:grid-cols-2 gap-4">
+                    <SelectInput
+                        name="entity_id"
+                        label="Item"
+                        onChange={(e) => setEntityId(e.currentTarget.value)}
+                        required
+                    >
+                        <option value="" disabled selected={!props.level}>
+                            Select an item...
+                        </option>
+                        <For each={props.entities}>
+                            {(e) => (
+                                <option value={e.id} selected={props.level?.entity_id === e.id}>
+                                    {e.name}
+                                </option>
+                            )}
+                        </For>
+                    </SelectInput>
+                    <SelectInput name="variant_id" label="Variant (Optional)">
+                        <option value="" selected={!props.level?.entity_variant_id}>
+                            Default / No Variant
+                        </option>
+                        <For each={availableVariants()}>
+                            {(v) => (
+                                <option value={v.id} selected={props.level?.entity_variant_id === v.id}>
+                                    {v.label}
+                                </option>
+                            )}
+                        </For>
+                    </SelectInput>
+                </div>
+                <div class="grid grid-cols-1 md:grid-cols-2 gap-4">
+                    <TextInput
+                        name="min_quantity"
+                        label={`Minimum${unit() ? ` (${unit()})` : ''}`}
+                        type="number"
+                        step="0.01"
+                        value={props.level?.min_quantity ?? ''}
+                        required
+                    />
+                    <TextInput
+                        name="reorder_quantity"
+                        label="Reorder Qty (Optional)"
+                        type="number"
+                        step="0.01"
+                        value={props.level?.reorder_quantity ?? ''}
+                    />
+                </div>
+            </div>
+
+            <Show when={submission.result?.error}>
+                <div class="p-3 bg-red-500/10 border border-red-500/20 rounded-lg text-xs text-red-500 font-medium">
+                    {submission.result?.error}
+                </div>
+            </Show>
+
+            <div class="sticky bottom-0 bg-white -mx-5 px-5 pt-4 pb-4 border-t border-zinc-100">
+                <button
+                    type="submit"
+                    disabled={submission.pending}
+                    class="w-full bg-black hover:bg-black/90 disabled:opacity-50 text-white font-bold text-sm rounded-xl py-4 transition-all"
+                >
+                    {submission.pending ? 'Saving...' : 'Save Level'}
+                </button>
+            </div>
+        </form>
+    );
+}
@@ -0,0 +1,197 @@
+import { A, createAsync, query, useParams } from '@solidjs/router';
+import { asc, desc, eq, inArray, sql } from 'drizzle-orm';
+import { For, Show, Suspense } from 'solid-js';
+import { db } from '~/drizzle/client';
+import {
+    Destination,
+    EntityVariantWarehouse,
+    EntityWarehouse,
+    GoodsReceipt,
+    GoodsReceiptLine,
+    Vendor,
+    WarehouseTransaction,
+} from '~/drizzle/schema';
+import Breadcrumb from '~/components/Breadcrumb';
+import { requireAuth } from '~/lib/require-auth';
+import { addMoney, formatMoney, multiplyMoney } from '~/lib/money';
+import { variantLabel } from '~/lib/stock';
+
+// --- QUERIES ---
+
+export const loadGoodsReceipts = query(async (destinationId: string) => {
+    'use server';
+    await requireAuth(['warehouse-user']);
+
+    const [receipts, destination] = await Promise.all([
+        db
+            .select({
+                id: GoodsReceipt.id,
+                invoice_no: GoodsReceipt.invoice_no,
+                received_at: GoodsReceipt.received_at,
+                note: GoodsReceipt.note,
+                vendor_id: GoodsReceipt.vendor_id,
+                vendor_name: Vendor.name,
+            })
+            .from(GoodsReceipt)
+            .innerJoin(Vendor, eq(Vendor.id, GoodsReceipt.vendor_id))
+            .where(eq(GoodsReceipt.destination_id, destinationId))
+            .orderBy(desc(GoodsReceipt.received_at), desc(GoodsReceipt.created_at)),
+        db
+            .select({ name: Destination.name })
+            .from(Destination)
+            .where(eq(Destination.id, destinationId))
+            .then((rows) => rows[0]?.name ?? 'Unknown'),
+    ]);
+
+    const lines = receipts.length
+        ? await db
+              .select({
+                  id: GoodsReceiptLine.id,
+                  receipt_id: GoodsReceiptLine.receipt_id,
+                  quantity: GoodsReceiptLine.quantity,
+                  rate: GoodsReceiptLine.rate,
+                  transaction_id: GoodsReceiptLine.transaction_id,
+                  entity_name: EntityWarehouse.name,
+                  entity_unit: EntityWarehouse.unit,
+                  variant: EntityVariantWarehouse,
+                  // The stock entry was later deleted from the ledger, or purged.
+                  removed: sql<boolean>`${WarehouseTransaction.id} IS NULL OR ${WarehouseTransaction.deleted_at} IS NOT NULL`,
+              })
+              .from(GoodsReceiptLine)
+              .innerJoin(EntityWarehouse, eq(EntityWarehouse.id, GoodsReceiptLine.entity_id))
+              .leftJoin(EntityVariantWarehouse, eq(EntityVariantWarehouse.id, GoodsReceiptLine.entity_variant_id))
+              .leftJoin(WarehouseTransaction, eq(WarehouseTransaction.id, GoodsReceiptLine.warehouse_transaction_id))
+              .where(
+                  inArray(
+                      GoodsReceiptLine.receipt_id,
+                      receipts.map((r) => r.id),
+                  ),
+              )
+              .orderBy(asc(GoodsReceiptLine.created_at))
+        : [];
+
+    return {
+        destination,
+        receipts: receipts.map((receipt) => {
+            const own = lines
+                .filter((line) => line.receipt_id === receipt.id)
+                .map(({ variant, ...line }) => ({
+                    ...line,
+                    variant: variant ? variantLabel(variant) : '',
+                    amount: multiplyMoney(line.rate, line.quantity),
+                }));
+            return {
+                ...receipt,
+                lines: own,
+                total: addMoney(...own.map((line) => line.amount)),
+                expensed: own.some((line) => line.transaction_id !== null),
+            };
+        }),
+    };
+}, 'goods-receipts');
+
+// --- PAGE ---
+
+const fmt = (paise: number) => formatMoney(paise, { symbol: '₹' });
+const formatQuantity = (value: string) =>
+    Number(value)
+        .toFixed(3)
+        .replace(/\.?0+$/, '');
+
+export default function GoodsReceiptsPage() {
+    const params = useParams<{ id: string }>();
+    const data = createAsync(() => loadGoodsReceipts(params.id));
+
+    return (
+        <div class="w-full mx-auto px-4 py-12">
+            <div class="mb-4">
+                <Breadcrumb
+                    items={[
+                        { label: 'All godown', href: '/dashboard' },
+                        { label: data()?.destination ?? 'Godown', href: `/destination/${params.id}` },
+                        { label: 'Goods receipts' },
+                    ]}
+                />
+            </div>
+            <div class="mb-8 flex justify-between items-start">
+                <div>
+                    <h1 class="text-3xl font-bold text-black tracking-tight">Goods Receipts</h1>
+                    <p class="mt-1 text-sm text-zinc-500">
+                        Material received from vendors at this godown, one receipt per vendor invoice.
+                    </p>
+                </div>
+                <A
+                    href={`/destination/${params.id}/receipts/new`}
+                    class="px-4 py-2 bg-black hover:bg-black/80 text-white font-semibold text-sm rounded-lg transition-colors shadow-sm"
+                >
+                    + New Receipt
+                </A>
+            </div>
+
+            <Suspense fallback={<div class="h-64 bg-zinc-100 rounded-2xl animate-pulse" />}>
+                <Show
+                    when={(data()?.receipts ?? []).length > 0}
+                    fallback={
+                        <div class="bg-white border border-zinc-200 rounded-2xl py-12 text-center text-sm text-zinc-400">
+                            No goods received here yet.
+                        </div>
+                    }
+                >
+                    <div class="space-y-4">
+                        <For each={data()?.receipts}>
+                            {(receipt) => (
+                                <div class="bg-white border border-zinc-200 rounded-2xl overflow-hidden shadow-2xl shadow-black/5">
+                                    <div class="flex flex-wrap items-start justify-between gap-4 px-4 py-3 bg-zinc-50 border-b border-zinc-200">
+                                        <div>
+                                            <p class="text-sm font-semibold text-black">
+                                                <A href={`/vendors/${receipt.vendor_id}`} class="hover:underline">
+                                                    {receipt.vendor_name}
+                                                </A>{' '}
+                                                · Invoice {receipt.invoice_no}
+                                            </p>
+                                            <p class="text-xs text-zinc-500">
+                                                Received {receipt.received_at.toLocaleDateString()}
+                                                <Show when={receipt.note}> · {receipt.note}</Show>
+                                            </p>
+                                        </div>
+                                        <div class="text-right">
+                                            <p class="text-sm font-bold tabular-nums text-black">
+                                                {fmt(receipt.total)}
+                                            </p>
+                                            <p class="text-xs text-zinc-500">
+                                                {receipt.expensed ? 'Booked as expense' : 'Stock only'}
+                                            </p>
+                                        </div>
+                                    </div>
+                                    <table class="w-full text-left border-collapse">
+                                        <tbody class="divide-y divide-zinc-100">
+                                            <For each={receipt.lines}>
+                                                {(line) => (
+                                                    <tr classList={{ 'text-zinc-400 line-through': line.removed }}>
+                                                        <td class="py-2 px-4 text-sm">{line.entity_name}</td>
+                                                        <td class="py-2 px-3 text-sm text-zinc-600">
+                                                            {line.variant || 'NA'}
+                                                        </td>
+                                                        <td class="py-2 px-3 text-right text-sm tabular-nums">
+                                                            {formatQuantity(line.quantity)} {line.entity_unit}
+                                                        </td>
+                                                        <td class="py-2 px-3 text-right text-sm tabular-nums text-zinc-600">
+                                                            @ {fmt(line.rate)}
+                                                        </td>
+                                                        <td class="py-2 px-4 text-right text-sm tabular-nums">
+                                                            {fmt(line.amount)}
+                                                        </td>
+                                                    </tr>
+                                                )}
+                                            </For>
+                                        </tbody>
+                                    </table>
+                                </div>
+                            )}
+                        </For>
+                    </div>
+                </Show>
+            </Suspense>
+        </div>
+    );
+}
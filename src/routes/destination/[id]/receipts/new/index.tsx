@@ -0,0 +1,527 @@
+import { action, createAsync, query, redirect, useParams, useSubmission } from '@solidjs/router';
+import { asc, eq, inArray } from 'drizzle-orm';
+import { createEffect, createMemo, createSignal, For, Show, Suspense } from 'solid-js';
+import { db } from '~/drizzle/client';
+import {
+    Destination,
+    Entity,
+    EntityVariantWarehouse,
+    EntityWarehouse,
+    GoodsReceipt,
+    GoodsReceiptLine,
+    Vendor,
+    WarehouseTransaction,
+} from '~/drizzle/schema';
+import Breadcrumb from '~/components/Breadcrumb';
+import { SelectInput, TextInput } from '~/components/form';
+import { requireAuth } from '~/lib/require-auth';
+import { recordAudit, type AuditEntry } from '~/lib/audit';
+import { checkEntryDate, checkEntryDateOnServer, shiftDate } from '~/lib/entry-date';
+import { insertExpense } from '~/lib/expenses';
+import { isGstRate } from '~/lib/gst';
+import { addMoney, formatMoney, multiplyMoney, parseMoney, type Money } from '~/lib/money';
+import { variantLabel } from '~/lib/stock';
+import { serializeDateLocal } from '~/utils/dateUtils';
+
+type ReceiptLineInput = {
+    entityId: string;
+    variantId: string | null;
+    quantity: number;
+    rate: Money;
+    expenseEntityId: string | null;
+};
+
+const canBookExpense = (role: string | null | undefined) => role === 'admin' || role === 'expense-user';
+
+// --- QUERIES & ACTIONS ---
+
+export const loadReceiptForm = query(async (destinationId: string) => {
+    'use server';
+    const session = await requireAuth(['warehouse-user']);
+    const bookExpense = canBookExpense(session.user.role);
+
+    const [destination, vendors, entities, variants, destinations, expenseEntities] = await Promise.all([
+        db
+            .select({ name: Destination.name })
+            .from(Destination)
+            .where(eq(Destination.id, destinationId))
+            .then((rows) => rows[0]?.name ?? 'Unknown'),
+        db.select({ id: Vendor.id, name: Vendor.name }).from(Vendor).orderBy(asc(Vendor.name)),
+        db
+            .select({ id: EntityWarehouse.id, name: EntityWarehouse.name, unit: EntityWarehouse.unit })
+            .from(EntityWarehouse)
+            .orderBy(asc(EntityWarehouse.name)),
+        db.select().from(EntityVariantWarehouse),
+        bookExpense
+            ? db.select({ id: Destination.id, name: Destination.name }).from(Destination).orderBy(asc(Destination.name))
+            : [],
+        bookExpense ? db.select({ id: Entity.id, name: Entity.name }).from(Entity).orderBy(asc(Entity.name)) : [],
+    ]);
+
+    return {
+        destination,
+        vendors,
+        entities,
+        variants: variants.map((v) => ({ id: v.id, entity_id: v.entity_id, label: variantLabel(v) || 'Standard' })),
+        canBookExpense: bookExpense,
+        destinations,
+        expenseEntities,
+    };
+}, 'goods-receipt-form');
+
+export const postGoodsReceipt = action(async (formData: FormData) => {
+    'use server';
+    const session = await requireAuth(['warehouse-user']);
+
+    const field = (key: string) => ((formData.get(key) as string) ?? '').trim();
+    const column = (key: string) => formData.getAll(key).map((value) => String(value).trim());
+
+    const destinationId = field('destination_id');
+    const vendorId = field('vendor_id');
+    const invoiceNo = field('invoice_no');
+    const receivedOn = field('received_on');
+    const note = field('note') || null;
+    const bookExpense = formData.get('book_expense') === 'on';
+
+    if (!destinationId) return { success: false, error: 'Godown is missing.' };
+    if (!vendorId || !invoiceNo || !receivedOn) {
+        return { success: false, error: 'Vendor, invoice number and date are required.' };
+    }
+    if (bookExpense && !canBookExpense(session.user.role)) {
+        return { success: false, error: 'You are not allowed to book expenses.' };
+    }
+    // Only a booked expense is held to the books lock; stock may be received into a closed period.
+    const dateError = bookExpense
+        ? checkEntryDateOnServer(receivedOn)
+        : checkEntryDate(receivedOn, null, shiftDate(new Date(), 1));
+    if (dateError) return { success: false, error: dateError };
+
+    const chargeTo = field('charge_to');
+    const paymentStatus = field('payment_status');
+    const supply = field('gst_supply') === 'inter' ? 'inter' : 'intra';
+    if (bookExpense && !chargeTo) return { success: false, error: 'Pick the site the expense is charged to.' };
+    if (bookExpense && paymentStatus !== 'paid' && paymentStatus !== 'pending') {
+        return { success: false, error: 'Invalid payment status.' };
+    }
+
+    const entityIds = column('entity_id');
+    const variantIds = column('variant_id');
+    const quantities = column('quantity');
+    const rates = column('rate');
+    const expenseEntityIds = column('expense_entity_id');
+
+    // One entry per row of the form; rows without an item are ignored.
+    const lines: ReceiptLineInput[] = [];
+    for (let i = 0; i < entityIds.length; i++) {
+        if (!entityIds[i]) continue;
+        const quantity = Number.parseFloat(quantities[i] ?? '');
+        const rate = parseMoney(rates[i]);
+        if (!Number.isFinite(quantity) || quantity <= 0) {
+            return { success: false, error: 'Quantities must be positive numbers.' };
+        }
+        if (rate === null || rate < 0) return { success: false, error: 'Rates must be zero or more.' };
+        if (bookExpense && !expenseEntityIds[i]) {
+            return { success: false, error: 'Pick the expense item for every line.' };
+        }
+        lines.push({
+            entityId: entityIds[i],
+            variantId: variantIds[i] || null,
+            quantity,
+            rate,
+            expenseEntityId: bookExpense ? expenseEntityIds[i] : null,
+        });
+    }
+    if (lines.length === 0) return { success: false, error: 'Add at least one item.' };
+
+    try {
+        const receivedAt = new Date(receivedOn);
+        await db.transaction(async (tx) => {
+            const [receipt] = await tx
+                .insert(GoodsReceipt)
+                .values({
+                    vendor_id: vendorId,
+                    destination_id: destinationId,
+                    invoice_no: invoiceNo,
+                    received_at: receivedAt,
+                    note,
+                })
+                .returning();
+
+            // Stock arrives from outside, so the warehouse transactions have no source.
+            const moves = await tx
+                .insert(WarehouseTransaction)
+                .values(
+                    lines.map((line) => ({
+                        entity_id: line.entityId,
+                        entity_variant_id: line.variantId,
+                        source_id: null,
+                        destination_id: destinationId,
+                        quantity: String(line.quantity),
+                        type: 'credit' as const,
+                        created_at: receivedAt,
+                    })),
+                )
+                .returning();
+
+            const expenseIds: (string | null)[] = lines.map(() => null);
+            if (bookExpense) {
+                const items = await tx
+                    .select({ id: Entity.id, gst_rate: Entity.gst_rate })
+                    .from(Entity)
+                    .where(
+                        inArray(
+                            Entity.id,
+                            lines.map((line) => line.expenseEntityId!),
+                        ),
+                    );
+                const gstRateOf = new Map(items.map((item) => [item.id, item.gst_rate]));
+                for (const [i, line] of lines.entries()) {
+                    const gstRate = gstRateOf.get(line.expenseEntityId!) ?? 0;
+                    const { id } = await insertExpense(
+                        tx,
+                        {
+                            entityId: line.expenseEntityId!,
+                            entityVariantId: null,
+                            sourceId: chargeTo,
+                            vendorId,
+                            paymentStatus: paymentStatus as 'paid' | 'pending',
+                            transactionType: 'credit',
+                            quantity: line.quantity,
+                            rate: line.rate,
+                            gst: { rate: isGstRate(gstRate) ? gstRate : 0, supply },
+                            date: receivedAt,
+                            transport: null,
+                        },
+                        session.user,
+                    );
+                    expenseIds[i] = id;
+                }
+            }
+
+            const receiptLines = await tx
+                .insert(GoodsReceiptLine)
+                .values(
+                    lines.map((line, i) => ({
+                        receipt_id: receipt.id,
+                        entity_id: line.entityId,
+                        entity_variant_id: line.variantId,
+                        quantity: String(line.quantity),
+                        rate: line.rate,
+                        warehouse_transaction_id: moves[i].id,
+                        transaction_id: expenseIds[i],
+                    })),
+                )
+                .returning();
+
+            const audit: AuditEntry[] = [
+                { table: GoodsReceipt, rowId: receipt.id, siteId: destinationId, after: receipt },
+                ...moves.map((row) => ({
+                    table: WarehouseTransaction,
+                    rowId: row.id,
+                    siteId: destinationId,
+                    after: row,
+                })),
+                ...receiptLines.map((row) => ({
+                    table: GoodsReceiptLine,
+                    rowId: row.id,
+                    siteId: destinationId,
+                    after: row,
+                })),
+            ];
+            await recordAudit(tx, session.user, audit);
+        });
+
+        throw redirect(`/destination/${destinationId}/receipts`);
+    } catch (error: any) {
+        if (error instanceof Response) throw error;
+        // One receipt per vendor invoice, enforced by goods_receipt_vendor_invoice_idx
+        if (error.code === '23505' && error.constraint_name === 'goods_receipt_vendor_invoice_idx') {
+            return { success: false, error: `Invoice ${invoiceNo} from this vendor is already received.` };
+        }
+        console.error(error);
+        return { success: false, error: 'Failed to save goods receipt.' };
+    }
+});
+
+// --- PAGE ---
+
+const fmt = (paise: number) => formatMoney(paise, { symbol: '₹' });
+
+const inputClass =
+    'h-9 w-28 bg-white border border-zinc-200 rounded-lg px-3 text-sm text-right text-black outline-none focus:border-black/40 transition-colors';
+const selectClass =
+    'h-9 bg-white border border-zinc-200 rounded-lg px-3 text-sm text-black outline-none cursor-pointer hover:border-zinc-300 transition-colors';
+
+type Option = { id: string; name: string };
+
+export default function NewGoodsReceiptPage() {
+    const params = useParams<{ id: string }>();
+    const data = createAsync(() => loadReceiptForm(params.id));
+    const submission = useSubmission(postGoodsReceipt);
+
+    const [rows, setRows] = createSignal<number[]>([0]);
+    const [amounts, setAmounts] = createSignal<Record<number, Money>>({});
+    const [bookExpense, setBookExpense] = createSignal(false);
+    let nextRow = 1;
+
+    const total = createMemo(() => addMoney(...rows().map((row) => amounts()[row])));
+
+    return (
+        <div class="w-full mx-auto px-4 py-12">
+            <div class="mb-4">
+                <Breadcrumb
+                    items={[
+                        { label: 'All godown', href: '/dashboard' },
+                        { label: data()?.destination ?? 'Godown', href: `/destination/${params.id}` },
+                        { label: 'Goods receipts', href: `/destination/${params.id}/receipts` },
+                        { label: 'New' },
+                    ]}
+                />
+            </div>
+            <div class="mb-8">
+                <h1 class="text-3xl font-bold text-black tracking-tight">New Goods Receipt</h1>
+                <p class="mt-1 text-sm text-zinc-500">
+                    Record material received from a vendor. Each line adds to this godown's stock.
+                </p>
+            </div>
+
+            <Suspense fallback={<div class="h-64 bg-zinc-100 rounded-2xl animate-pulse" />}>
+                <form action={postGoodsReceipt} method="post" class="space-y-6">
+                    <input type="hidden" name="destination_id" value={params.id} />
+
+                    <div class="grid grid-cols-1 md:grid-cols-3 gap-4">
+                        <SelectInput name="vendor_id" label="Vendor" required>
+                            <option value="">Select a vendor...</option>
+                            <For each={data()?.vendors}>{(v) => <option value={v.id}>{v.name}</option>}</For>
+                        </SelectInput>
+                        <TextInput name="invoice_no" label="Invoice No." required placeholder="e.g. INV-2041" />
+                        <TextInput
+                            name="received_on"
+                            label="Received On"
+                            type="date"
+                            required
+                            value={serializeDateLocal(new Date())}
+                        />
+                    </div>
+
+                    <div class="bg-white border border-zinc-200 rounded-2xl overflow-hidden shadow-2xl shadow-black/5">
+                        <div class="overflow-x-auto">
+                            <table class="w-full text-left border-collapse">
+                                <thead>
+                                    <tr class="border-b border-zinc-200 bg-zinc-50">
+                                        <th class="py-3 px-3 text-xs font-bold uppercase tracking-wider text-zinc-600">
+                                            Item
+                                        </th>
+                                        <th class="py-3 px-3 text-xs font-bold uppercase tracking-wider text-zinc-600">
+                                            Variant
+                                        </th>
+                                        <th class="py-3 px-3 text-right text-xs font-bold uppercase tracking-wider text-zinc-600">
+                                            Quantity
+                                        </th>
+                                        <th class="py-3 px-3 text-right text-xs font-bold uppercase tracking-wider text-zinc-600">
+                                            Rate (₹)
+                                        </th>
+                                        <th class="py-3 px-3 text-right text-xs font-bold uppercase tracking-wider text-zinc-600">
+                                            Amount
+                                        </th>
+                                        <Show when={bookExpense()}>
+                                            <th class="py-3 px-3 text-xs font-bold uppercase tracking-wider text-zinc-600">
+                                                Expense Item
+                                            </th>
+                                        </Show>
+                                        <th class="py-3 px-3"></th>
+                                    </tr>
+                                </thead>
+                                <tbody class="divide-y divide-zinc-100">
+                                    <For each={rows()}>
+                                        {(rowId) => (
+                                            <LineRow
+                                                entities={data()?.entities ?? []}
+                                                variants={data()?.variants ?? []}
+                                                expenseEntities={data()?.expenseEntities ?? []}
+                                                bookExpense={bookExpense()}
+                                                onAmount={(amount) => setAmounts({ ...amounts(), [rowId]: amount })}
+                                                onRemove={
+                                                    rows().length > 1
+                                                        ? () => setRows(rows().filter((id) => id !== rowId))
+                                                        : undefined
+                                                }
+                                            />
+                                        )}
+                                    </For>
+                                </tbody>
+                            </table>
+                        </div>
+                        <div class="flex items-center justify-between border-t border-zinc-200 px-4 py-3">
+                            <button
+                                type="button"
+                                class="text-xs font-semibold text-blue-500 hover:text-blue-700"
+                                onClick={() => setRows([...rows(), nextRow++])}
+                            >
+                                + Add line
+                            </button>
+                            <span class="text-sm font-bold tabular-nums text-black">Total {fmt(total())}</span>
+                        </div>
+                    </div>
+
+                    <Show when={data()?.canBookExpense}>
+                        <div class="space-y-4">
+                            <label class="flex items-center gap-2 text-sm text-black cursor-pointer">
+                                <input
+                                    type="checkbox"
+                                    name="book_expense"
+                                    checked={bookExpense()}
+                                    onChange={(e) => setBookExpense(e.currentTarget.checked)}
+                                />
+                                Also book this invoice as an expense
+                            </label>
+                            <Show when={bookExpense()}>
+                                <div class="grid grid-cols-1 md:grid-cols-3 gap-4">
+                                    <SelectInput name="charge_to" label="Charge To (Site)" required>
+                                        <For each={data()?.destinations}>
+                                            {(d) => (
+                                                <option value={d.id} selected={d.id === params.id}>
+                                                    {d.name}
+                                                </option>
+                                            )}
+                                        </For>
+                                    </SelectInput>
+                                    <SelectInput name="payment_status" label="Payment Status" required>
+                                        <option value="pending">Pending</option>
+                                        <option value="paid">Paid</option>
+                                    </SelectInput>
+                                    <SelectInput name="gst_supply" label="Supply">
+                                        <option value="intra">Within state (CGST + SGST)</option>
+                                        <option value="inter">Inter-state (IGST)</option>
+                                    </SelectInput>
+                                </div>
+                                <p class="text-xs text-zinc-500">
+                                    Each line becomes an inward expense at the expense item's usual GST rate.
+                                </p>
+                            </Show>
+                        </div>
+                    </Show>
+
+                    <div class="group relative bg-white border border-zinc-200 focus-within:border-black/40 focus-within:ring-1 focus-within:ring-black/10 rounded-xl transition-all duration-200">
+                        <label
+                            for="receipt-note"
+                            class="absolute top-2 left-3.5 text-[10px] font-bold uppercase tracking-wide text-zinc-500"
+                        >
+                            Note (Optional)
+                        </label>
+                        <textarea
+                            id="receipt-note"
+                            name="note"
+                            rows={2}
+                            placeholder="e.g. Vehicle MH12 AB 1234, two bundles short"
+                            class="w-full bg-transparent text-black text-sm px-3.5 pt-7 pb-2.5 outline-none placeholder:text-zinc-400 resize-none"
+                        />
+                    </div>
+
+                    <Show when={submission.result?.success === false}>
+                        <div class="p-3 bg-red-500/10 border border-red-500/20 rounded-lg text-xs text-red-500 font-medium">
+                            {submission.result?.error}
+                        </div>
+                    </Show>
+
+                    <button
+                        type="submit"
+                        disabled={submission.pending}
+                        class="w-full bg-black hover:bg-black/90 disabled:opacity-50 text-white font-bold text-sm rounded-xl py-4 transition-all"
+                    >
+                        {submission.pending ? 'Saving...' : 'Save Receipt'}
+                    </button>
+                </form>
+            </Suspense>
+        </div>
+    );
+}
+
+function LineRow(props: {
+    entities: { id: string; name: string; unit: string }[];
+    variants: { id: string; entity_id: string | null; label: string }[];
+    expenseEntities: Option[];
+    bookExpense: boolean;
+    onAmount: (amount: Money) => void;
+    onRemove?: () => void;
+}) {
+    const [entityId, setEntityId] = createSignal('');
+    const [quantity, setQuantity] = createSignal('');
+    const [rate, setRate] = createSignal('');
+    const availableVariants = createMemo(() => props.variants.filter((v) => v.entity_id === entityId()));
+    const entity = createMemo(() => props.entities.find((e) => e.id === entityId()));
+    // Expense items are a separate master; preselect the one with the same name, if any.
+    const matchingExpense = createMemo(
+        () => props.expenseEntities.find((e) => e.name.toLowerCase() === entity()?.name.toLowerCase())?.id ?? '',
+    );
+    const amount = createMemo(() => multiplyMoney(parseMoney(rate()) ?? 0, quantity() || 0));
+    createEffect(() => props.onAmount(amount()));
+
+    return (
+        <tr>
+            <td class="py-3 px-3">
+                <select name="entity_id" class={selectClass} onChange={(e) => setEntityId(e.currentTarget.value)}>
+                    <option value="">Select an item...</option>
+                    <For each={props.entities}>{(e) => <option value={e.id}>{e.name}</option>}</For>
+                </select>
+            </td>
+            <td class="py-3 px-3">
+                <select name="variant_id" class={selectClass}>
+                    <option value="">Default / No Variant</option>
+                    <For each={availableVariants()}>{(v) => <option value={v.id}>{v.label}</option>}</For>
+                </select>
+            </td>
+            <td class="py-3 px-3 text-right">
+                <input
+                    name="quantity"
+                    type="number"
+                    step="0.001"
+                    min="0"
+                    value={quantity()}
+                    onInput={(e) => setQuantity(e.currentTarget.value)}
+                    class={inputClass}
+                />
+                <Show when={entity()}>
+                    <span class="ml-1 text-xs text-zinc-400">{entity()?.unit}</span>
+                </Show>
+            </td>
+            <td class="py-3 px-3 text-right">
+                <input
+                    name="rate"
+                    type="number"
+                    step="0.01"
+                    min="0"
+                    value={rate()}
+                    onInput={(e) => setRate(e.currentTarget.value)}
+                    class={inputClass}
+                />
+            </td>
+            <td class="py-3 px-3 text-right text-sm tabular-nums text-zinc-700">{fmt(amount())}</td>
+            <Show when={props.bookExpense}>
+                <td class="py-3 px-3">
+                    <select name="expense_entity_id" class={selectClass}>
+                        <option value="">Select expense item...</option>
+                        <For each={props.expenseEntities}>
+                            {(e) => (
+                                <option value={e.id} selected={e.id === matchingExpense()}>
+                                    {e.name}
+                                </option>
+                            )}
+                        </For>
+                    </select>
+                </td>
+            </Show>
+            <td class="py-3 px-3 text-right">
+                <Show when={props.onRemove}>
+                    <button
+                        type="button"
+                        class="text-xs font-semibold text-red-500 hover:text-red-700"
+                        onClick={() => props.onRemove?.()}
+                    >
+                        Remove
+                    </button>
+                </Show>
+            </td>
+        </tr>
+    );
+}
@@ -0,0 +1,386 @@
+import { action, createAsync, query, redirect, useParams, useSubmission } from '@solidjs/router';
+import { asc, eq } from 'drizzle-orm';
+import { createMemo, createSignal, For, Show, Suspense } from 'solid-js';
+import { db } from '~/drizzle/client';
+import { Destination, EntityVariantWarehouse, EntityWarehouse, WarehouseTransaction } from '~/drizzle/schema';
+import Breadcrumb from '~/components/Breadcrumb';
+import { requireAuth } from '~/lib/require-auth';
+import { recordAudit } from '~/lib/audit';
+import {
+    ADJUSTMENT_REASON_LABELS,
+    type AdjustmentReason,
+    countDifference,
+    loadStockBalances,
+    lockStockAt,
+    stockKey,
+    variantLabel,
+} from '~/lib/stock';
+
+const REASONS = Object.keys(ADJUSTMENT_REASON_LABELS) as AdjustmentReason[];
+
+// --- QUERIES & ACTIONS ---
+
+export const loadStockTake = query(async (destinationId: string) => {
+    'use server';
+    await requireAuth(['warehouse-user']);
+
+    const [balances, entities, variants, destination] = await Promise.all([
+        loadStockBalances({ locationId: destinationId }),
+        db
+            .select({ id: EntityWarehouse.id, name: EntityWarehouse.name, unit: EntityWarehouse.unit })
+            .from(EntityWarehouse)
+            .orderBy(asc(EntityWarehouse.name)),
+        db.select().from(EntityVariantWarehouse),
+        db
+            .select({ name: Destination.name })
+            .from(Destination)
+            .where(eq(Destination.id, destinationId))
+            .then((rows) => rows[0]?.name ?? 'Unknown'),
+    ]);
+
+    return {
+        destination,
+        balances,
+        entities,
+        variants: variants.map((v) => ({ id: v.id, entity_id: v.entity_id, label: variantLabel(v) || 'Standard' })),
+    };
+}, 'stock-take');
+
+export const postStockTake = action(async (formData: FormData) => {
+    'use server';
+    const session = await requireAuth(['warehouse-user']);
+
+    const destinationId = ((formData.get('destination_id') as string) ?? '').trim();
+    const note = ((formData.get('note') as string) ?? '').trim() || null;
+    const column = (key: string) => formData.getAll(key).map((value) => String(value).trim());
+    const entityIds = column('entity_id');
+    const variantIds = column('variant_id');
+    const counted = column('counted');
+    const reasons = column('reason');
+
+    if (!destinationId) return { success: false, error: 'Godown is missing.' };
+
+    // One entry per row of the form; rows left blank are not counted.
+    const counts: { entityId: string; variantId: string | null; counted: number; reason: AdjustmentReason }[] = [];
+    for (let i = 0; i < entityIds.length; i++) {
+        if (!entityIds[i] || !counted[i]) continue;
+        const quantity = Number.parseFloat(counted[i]);
+        if (!Number.isFinite(quantity) || quantity < 0) {
+            return { success: false, error: 'Counted quantities must be zero or more.' };
+        }
+        if (!REASONS.includes(reasons[i] as AdjustmentReason)) {
+            return { success: false, error: 'Invalid adjustment reason.' };
+        }
+        counts.push({
+            entityId: entityIds[i],
+            variantId: variantIds[i] || null,
+            counted: quantity,
+            reason: reasons[i] as AdjustmentReason,
+        });
+    }
+    if (counts.length === 0) return { success: false, error: 'Enter at least one counted quantity.' };
+    if (new Set(counts.map((c) => stockKey(c.entityId, c.variantId))).size < counts.length) {
+        return { success: false, error: 'An item is counted twice. Remove the extra row.' };
+    }
+
+    try {
+        const posted = await db.transaction(async (tx) => {
+            const { balances } = await lockStockAt(tx, destinationId);
+            const adjustments = counts
+                .map((count) => {
+                    const system = balances.get(stockKey(count.entityId, count.variantId)) ?? 0;
+                    return { count, difference: countDifference(count.counted, system) };
+                })
+                .filter(({ difference }) => difference !== 0);
+            if (adjustments.length === 0) return 0;
+
+            const inserted = await tx
+                .insert(WarehouseTransaction)
+                .values(
+                    adjustments.map(({ count, difference }) => ({
+                        entity_id: count.entityId,
+                        entity_variant_id: count.variantId,
+                        source_id: difference < 0 ? destinationId : null,
+                        destination_id: difference > 0 ? destinationId : null,
+                        quantity: String(Math.abs(difference)),
+                        type: difference > 0 ? ('credit' as const) : ('debit' as const),
+                        adjustment_reason: count.reason,
+                        adjustment_note: note,
+                    })),
+                )
+                .returning();
+            await recordAudit(
+                tx,
+                session.user,
+                inserted.map((row) => ({
+                    table: WarehouseTransaction,
+                    rowId: row.id,
+                    siteId: destinationId,
+                    after: row,
+                })),
+            );
+            return inserted.length;
+        });
+
+        if (posted === 0) return { success: false, error: 'Counts match the current stock; nothing to adjust.' };
+        throw redirect(`/destination/${destinationId}/ledger?kind=adjustment`);
+    } catch (error) {
+        if (error instanceof Response) throw error;
+        console.error(error);
+        return { success: false, error: 'Failed to post stock-take.' };
+    }
+});
+
+// --- PAGE ---
+
+const formatQuantity = (value: number) => value.toFixed(3).replace(/\.?0+$/, '');
+
+const inputClass =
+    'h-9 w-28 bg-white border border-zinc-200 rounded-lg px-3 text-sm text-right text-black outline-none focus:border-black/40 transition-colors';
+const selectClass =
+    'h-9 bg-white border border-zinc-200 rounded-lg px-3 text-sm text-black outline-none cursor-pointer hover:border-zinc-300 transition-colors';
+
+export default function StockTakePage() {
+    const params = useParams<{ id: string }>();
+    const data = createAsync(() => loadStockTake(params.id));
+    const submission = useSubmission(postStockTake);
+
+    // Items with no stock here yet, e.g. opening balances.
+    const [extraRows, setExtraRows] = createSignal<number[]>([]);
+    let nextRow = 0;
+
+    return (
+        <div class="w-full mx-auto px-4 py-12">
+            <div class="mb-4">
+                <Breadcrumb
+                    items={[
+                        { label: 'All godown', href: '/dashboard' },
+                        { label: data()?.destination ?? 'Godown', href: `/destination/${params.id}` },
+                        { label: 'Stock take' },
+                    ]}
+                />
+            </div>
+            <div class="mb-8">
+                <h1 class="text-3xl font-bold text-black tracking-tight">Stock Take</h1>
+                <p class="mt-1 text-sm text-zinc-500">
+                    Enter what was counted. Each difference from the system quantity is posted as an adjustment with its
+                    reason; rows left blank are not changed.
+                </p>
+            </div>
+
+            <form action={postStockTake} method="post" class="space-y-6">
+                <input type="hidden" name="destination_id" value={params.id} />
+
+                <div class="bg-white border border-zinc-200 rounded-2xl overflow-hidden shadow-2xl shadow-black/5">
+                    <div class="overflow-x-auto">
+                        <table class="w-full text-left border-collapse">
+                            <thead>
+                                <tr class="border-b border-zinc-200 bg-zinc-50">
+                                    <th class="py-3 px-3 text-xs font-bold uppercase tracking-wider text-zinc-600">
+                                        Item
+                                    </th>
+                                    <th class="py-3 px-3 text-xs font-bold uppercase tracking-wider text-zinc-600">
+                                        Variant
+                                    </th>
+                                    <th class="py-3 px-3 text-right text-xs font-bold uppercase tracking-wider text-zinc-600">
+                                        System Qty
+                                    </th>
+                                    <th class="py-3 px-3 text-right text-xs font-bold uppercase tracking-wider text-zinc-600">
+                                        Counted
+                                    </th>
+                                    <th class="py-3 px-3 text-right text-xs font-bold uppercase tracking-wider text-zinc-600">
+                                        Difference
+                                    </th>
+                                    <th class="py-3 px-3 text-xs font-bold uppercase tracking-wider text-zinc-600">
+                                        Reason
+                                    </th>
+                                    <th class="py-3 px-3"></th>
+                                </tr>
+                            </thead>
+                            <tbody class="divide-y divide-zinc-100">
+                                <Suspense>
+                                    <For each={data()?.balances}>
+                                        {(row) => {
+                                            const [counted, setCounted] = createSignal('');
+                                            return (
+                                                <tr class="hover:bg-zinc-50/80">
+                                                    <td class="py-3 px-3 text-sm text-black">
+                                                        <input type="hidden" name="entity_id" value={row.entity_id} />
+                                                        <input
+                                                            type="hidden"
+                                                            name="variant_id"
+                                                            value={row.entity_variant_id ?? ''}
+                                                        />
+                                                        {row.entity_name}
+                                                    </td>
+                                                    <td class="py-3 px-3 text-sm text-zinc-700">
+                                                        {row.entity_variant || 'NA'}
+                                                    </td>
+                                                    <td class="py-3 px-3 text-right text-sm tabular-nums text-zinc-700">
+                                                        {formatQuantity(row.balance)} {row.entity_unit}
+                                                    </td>
+                                                    <td class="py-3 px-3 text-right">
+                                                        <input
+                                                            name="counted"
+                                                            type="number"
+                                                            step="0.001"
+                                                            value={counted()}
+                                                            onInput={(e) => setCounted(e.currentTarget.value)}
+                                                            class={inputClass}
+                                                        />
+                                                    </td>
+                                                    <td class="py-3 px-3 text-right">
+                                                        <Difference counted={counted()} system={row.balance} />
+                                                    </td>
+                                                    <td class="py-3 px-3">
+                                                        <ReasonSelect default="count_error" />
+                                                    </td>
+                                                    <td class="py-3 px-3"></td>
+                                                </tr>
+                                            );
+                                        }}
+                                    </For>
+                                    <For each={extraRows()}>
+                                        {(rowId) => (
+                                            <ExtraRow
+                                                entities={data()?.entities ?? []}
+                                                variants={data()?.variants ?? []}
+                                                onRemove={() => setExtraRows(extraRows().filter((id) => id !== rowId))}
+                                            />
+                                        )}
+                                    </For>
+                                </Suspense>
+                            </tbody>
+                        </table>
+                    </div>
+                    <div class="border-t border-zinc-200 px-4 py-3">
+                        <button
+                            type="button"
+                            class="text-xs font-semibold text-blue-500 hover:text-blue-700"
+                            onClick={() => setExtraRows([...extraRows(), nextRow++])}
+                        >
+                            + Add item not listed
+                        </button>
+                    </div>
+                </div>
+
+                <div class="group relative bg-white border border-zinc-200 focus-within:border-black/40 focus-within:ring-1 focus-within:ring-black/10 rounded-xl transition-all duration-200">
+                    <label
+                        for="stock-take-note"
+                        class="absolute top-2 left-3.5 text-[10px] font-bold uppercase tracking-wide text-zinc-500"
+                    >
+                        Note (Optional)
+                    </label>
+                    <textarea
+                        id="stock-take-note"
+                        name="note"
+                        rows={2}
+                        placeholder="e.g. Quarterly audit by site engineer"
+                        class="w-full bg-transparent text-black text-sm px-3.5 pt-7 pb-2.5 outline-none placeholder:text-zinc-400 resize-none"
+                    />
+                </div>
+
+                <Show when={submission.result?.success === false}>
+                    <div class="p-3 bg-red-500/10 border border-red-500/20 rounded-lg text-xs text-red-500 font-medium">
+                        {submission.result?.error}
+                    </div>
+                </Show>
+
+                <button
+                    type="submit"
+                    disabled={submission.pending}
+                    class="w-full bg-black hover:bg-black/90 disabled:opacity-50 text-white font-bold text-sm rounded-xl py-4 transition-all"
+                >
+                    {submission.pending ? 'Posting...' : 'Post Adjustments'}
+                </button>
+            </form>
+        </div>
+    );
+}
+
+function Difference(props: { counted: string; system: number }) {
+    const difference = () => {
+        if (props.counted.trim() === '') return null;
+        const value = Number.parseFloat(props.counted);
+        return Number.isFinite(value) ? countDifference(value, props.system) : null;
+    };
+    return (
+        <span
+            class="text-sm font-medium tabular-nums"
+            classList={{
+                'text-green-600': (difference() ?? 0) > 0,
+                'text-red-500': (difference() ?? 0) < 0,
+                'text-zinc-400': !difference(),
+            }}
+        >
+            {difference() === null ? '--' : `${difference()! > 0 ? '+' : ''}${formatQuantity(difference()!)}`}
+        </span>
+    );
+}
+
+function ReasonSelect(props: { default: AdjustmentReason }) {
+    return (
+        <select name="reason" class={selectClass}>
+            <For each={REASONS}>
+                {(reason) => (
+                    <option value={reason} selected={reason === props.default}>
+                        {ADJUSTMENT_REASON_LABELS[reason]}
+                    </option>
+                )}
+            </For>
+        </select>
+    );
+}
+
+function ExtraRow(props: {
+    entities: { id: string; name: string; unit: string }[];
+    variants: { id: string; entity_id: string | null; label: string }[];
+    onRemove: () => void;
+}) {
+    const [entityId, setEntityId] = createSignal('');
+    const [counted, setCounted] = createSignal('');
+    const availableVariants = createMemo(() => props.variants.filter((v) => v.entity_id === entityId()));
+
+    return (
+        <tr class="bg-zinc-50/50">
+            <td class="py-3 px-3">
+                <select name="entity_id" class={selectClass} onChange={(e) => setEntityId(e.currentTarget.value)}>
+                    <option value="">Select an item...</option>
+                    <For each={props.entities}>{(e) => <option value={e.id}>{e.name}</option>}</For>
+                </select>
+            </td>
+            <td class="py-3 px-3">
+                <select name="variant_id" class={selectClass}>
+                    <option value="">Default / No Variant</option>
+                    <For each={availableVariants()}>{(v) => <option value={v.id}>{v.label}</option>}</For>
+                </select>
+            </td>
+            <td class="py-3 px-3 text-right text-sm tabular-nums text-zinc-400">0</td>
+            <td class="py-3 px-3 text-right">
+                <input
+                    name="counted"
+                    type="number"
+                    step="0.001"
+                    value={counted()}
+                    onInput={(e) => setCounted(e.currentTarget.value)}
+                    class={inputClass}
+                />
+            </td>
+            <td class="py-3 px-3 text-right">
+                <Difference counted={counted()} system={0} />
+            </td>
+            <td class="py-3 px-3">
+                <ReasonSelect default="opening" />
+            </td>
+            <td class="py-3 px-3 text-right">
+                <button
+                    type="button"
+                    class="text-xs font-semibold text-red-500 hover:text-red-700"
+                    onClick={props.onRemove}
+                >
+                    Remove
+                </button>
+            </td>
+        </tr>
+    );
+}
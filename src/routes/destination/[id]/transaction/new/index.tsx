@@ -11,6 +11,8 @@ import {
 } from '~/drizzle/schema'; // Adjust path if needed
 import { SelectInput } from '~/components/form';
 import { requireAuth } from '~/lib/require-auth';
+import { recordAudit } from '~/lib/audit';
+import { assertStockAvailable, StockError } from '~/lib/stock';
 
 type WarehouseTransactionType = (typeof TransactionTypeValues)[number];
 
@@ -36,7 +38,7 @@ export const loadTransactionFormData = query(async () => {
 
 export const createTransaction = action(async (formData: FormData) => {
     'use server';
-    await requireAuth(['warehouse-user']);
+    const session = await requireAuth(['warehouse-user']);
 
     const getStringField = (key: string) => {
         const value = formData.get(key);
@@ -64,18 +66,33 @@ export const createTransaction = action(async (formData: FormData) => {
     const transactionType = rawTransactionType;
 
     try {
-        await db.insert(WarehouseTransaction).values({
-            entity_id: entityId,
-            entity_variant_id: variantId || null,
-            source_id: sourceId,
-            destination_id: destId,
-            quantity: String(quantity),
-            type: transactionType,
+        await db.transaction(async (tx) => {
+            await assertStockAvailable(tx, {
+                sourceId,
+                entityId,
+                variantId: variantId || null,
+                quantity,
+            });
+            const [inserted] = await tx
+                .insert(WarehouseTransaction)
+                .values({
+                    entity_id: entityId,
+                    entity_variant_id: variantId || null,
+                    source_id: sourceId,
+                    destination_id: destId,
+                    quantity: String(quantity),
+                    type: transactionType,
+                })
+                .returning();
+            await recordAudit(tx, session.user, [
+                { table: WarehouseTransaction, rowId: inserted.id, siteId: sourceId, after: inserted },
+            ]);
         });
 
         throw redirect(`/destination/${sourceId}`);
     } catch (error) {
         if (error instanceof Response) throw error;
+        if (error instanceof StockError) return { success: false, error: error.message };
         console.error(error);
         return { success: false, error: 'Failed to record transaction.' };
     }
@@ -0,0 +1,258 @@
+import { createAsync, query, useParams } from '@solidjs/router';
+import { and, asc, eq, inArray, isNull, lte, sql } from 'drizzle-orm';
+import { For, Show, Suspense } from 'solid-js';
+import { db } from '~/drizzle/client';
+import { AdvanceAdjustment, Destination, Transaction, TransactionDetail, TransportationCost } from '~/drizzle/schema';
+import Breadcrumb from '~/components/Breadcrumb';
+import { addMoney, formatMoney, toRupees } from '~/lib/money';
+import { advanceDrawn } from '~/lib/settlement';
+
+// --- QUERIES ---
+
+export const loadAdvanceStatement = query(async (siteId: string) => {
+    'use server';
+
+    const [advances, site] = await Promise.all([
+        db
+            .select({
+                id: TransactionDetail.id,
+                created_at: TransactionDetail.created_at,
+                entity_name: TransactionDetail.entity_name,
+                entity_variant: TransactionDetail.entity_variant,
+                gross_amount: TransactionDetail.gross_amount,
+                transportation_cost: TransactionDetail.transportation_cost,
+            })
+            .from(TransactionDetail)
+            .where(and(eq(TransactionDetail.source_id, siteId), eq(TransactionDetail.payment_status, 'advance')))
+            .orderBy(asc(TransactionDetail.created_at)),
+        db
+            .select({ name: Destination.name })
+            .from(Destination)
+            .where(eq(Destination.id, siteId))
+            .then((rows) => rows[0]?.name ?? 'Unknown'),
+    ]);
+
+    const advanceIds = advances.map((a) => a.id ?? '');
+    const adjustments =
+        advanceIds.length === 0
+            ? []
+            : await db
+                  .select({
+                      id: AdvanceAdjustment.id,
+                      advance_id: AdvanceAdjustment.advance_id,
+                      amount: AdvanceAdjustment.amount,
+                      bill_date: TransactionDetail.created_at,
+                      entity_name: TransactionDetail.entity_name,
+                      entity_variant: TransactionDetail.entity_variant,
+                      bill_amount: TransactionDetail.gross_amount,
+                  })
+                  .from(AdvanceAdjustment)
+                  // Inner join: a soft-deleted bill's adjustment is kept for a restore but gives its credit back
+                  .innerJoin(TransactionDetail, eq(TransactionDetail.id, AdvanceAdjustment.transaction_id))
+                  .where(inArray(AdvanceAdjustment.advance_id, advanceIds))
+                  .orderBy(asc(TransactionDetail.created_at));
+
+    const rows = advances.map((a) => {
+        const applied = adjustments.filter((adj) => adj.advance_id === a.id);
+        const total = addMoney(a.gross_amount, a.transportation_cost);
+        const adjusted = addMoney(...applied.map((adj) => adj.amount));
+        return { ...a, id: a.id ?? '', total, applied, adjusted, remaining: total - adjusted };
+    });
+
+    return {
+        site,
+        advances: rows,
+        totalAdvanced: addMoney(...rows.map((r) => r.total)),
+        totalAdjusted: addMoney(...rows.map((r) => r.adjusted)),
+        unadjusted: addMoney(...rows.map((r) => r.remaining)),
+    };
+}, 'site-advance-statement');
+
+/**
+ * Unadjusted advance credit for a site as of `date` — what a pending debit
+ * bill recorded on that date would draw down. Used for the quick-entry preview.
+ */
+export const loadAdvanceCredit = query(async (siteId: string, date?: string) => {
+    'use server';
+
+    const drawn = advanceDrawn(db);
+
+    const [row] = await db
+        .select({
+            credit: sql<number>`COALESCE(SUM(COALESCE(${Transaction.amount}, 0) + ${Transaction.cgst} + ${Transaction.sgst} + ${Transaction.igst} + COALESCE(${TransportationCost.cost}, 0) - COALESCE(${drawn.drawn}, 0)), 0)`.mapWith(
+                Number,
+            ),
+        })
+        .from(Transaction)
+        .leftJoin(TransportationCost, eq(Transaction.transportation_cost_id, TransportationCost.id))
+        .leftJoin(drawn, eq(drawn.advance_id, Transaction.id))
+        .where(
+            and(
+                eq(Transaction.source_id, siteId),
+                eq(Transaction.payment_status, 'advance'),
+                isNull(Transaction.deleted_at),
+                date ? lte(Transaction.created_at, new Date(`${date}T23:59:59.999Z`)) : undefined,
+            ),
+        );
+
+    return row?.credit ?? 0;
+}, 'site-advance-credit');
+
+// --- PAGE ---
+
+const formatDate = (date: Date | string | null) => (date ? new Date(date).toLocaleDateString() : '--');
+
+export default function AdvanceStatementPage() {
+    const params = useParams<{ id: string }>();
+    const data = createAsync(() => loadAdvanceStatement(params.id));
+
+    return (
+        <div class="w-full mx-auto px-4 py-12">
+            <div class="mb-4">
+                <Breadcrumb
+                    items={[
+                        { label: 'All sites', href: '/sites' },
+                        { label: data()?.site ?? 'Site', href: `/expenses/${params.id}/ledger` },
+                        { label: 'Advances' },
+                    ]}
+                />
+            </div>
+            <div class="mb-8">
+                <h1 class="text-3xl font-bold text-black tracking-tight">Advance Statement</h1>
+                <p class="mt-1 text-sm text-zinc-500">
+                    Advances are adjusted oldest first against pending debit bills recorded later for this site.
+                </p>
+            </div>
+
+            <Suspense>
+                <div class="grid grid-cols-1 sm:grid-cols-3 gap-4 mb-8">
+                    <SummaryCard label="Total advanced" value={data()?.totalAdvanced ?? 0} />
+                    <SummaryCard label="Adjusted against bills" value={data()?.totalAdjusted ?? 0} />
+                    <SummaryCard label="Unadjusted balance" value={data()?.unadjusted ?? 0} highlight />
+                </div>
+
+                <Show
+                    when={(data()?.advances ?? []).length > 0}
+                    fallback={
+                        <div class="bg-white border border-zinc-200 rounded-2xl py-12 text-center text-sm text-zinc-400">
+                            No advances recorded for this site.
+                        </div>
+                    }
+                >
+                    <div class="space-y-4">
+                        <For each={data()?.advances}>
+                            {(advance) => (
+                                <div class="bg-white border border-zinc-200 rounded-2xl overflow-hidden shadow-2xl shadow-black/5">
+                                    <div class="flex flex-wrap items-center justify-between gap-4 px-4 py-3 bg-zinc-50 border-b border-zinc-200">
+                                        <div>
+                                            <p class="text-sm font-semibold text-black">
+                                                {advance.entity_name}
+                                                <Show when={advance.entity_variant}>
+                                                    <span class="text-zinc-400 font-normal ml-1">
+                                                        {advance.entity_variant}
+                                                    </span>
+                                                </Show>
+                                            </p>
+                                            <p class="text-xs text-zinc-500">
+                                                Advance on {formatDate(advance.created_at)}
+                                            </p>
+                                        </div>
+                                        <div class="flex gap-6 text-right text-sm tabular-nums">
+                                            <div>
+                                                <p class="text-[10px] font-bold uppercase tracking-wide text-zinc-400">
+                                                    Advance
+                                                </p>
+                                                <p class="font-semibold text-black">{toRupees(advance.total)}</p>
+                                            </div>
+                                            <div>
+                                                <p class="text-[10px] font-bold uppercase tracking-wide text-zinc-400">
+                                                    Remaining
+                                                </p>
+                                                <p
+                                                    class="font-semibold"
+                                                    classList={{
+                                                        'text-green-600': advance.remaining > 0,
+                                                        'text-zinc-400': advance.remaining <= 0,
+                                                    }}
+                                                >
+                                                    {toRupees(advance.remaining)}
+                                                </p>
+                                            </div>
+                                        </div>
+                                    </div>
+                                    <Show
+                                        when={advance.applied.length > 0}
+                                        fallback={
+                                            <p class="px-4 py-4 text-sm text-zinc-400">Not yet applied to any bill.</p>
+                                        }
+                                    >
+                                        <table class="w-full text-left border-collapse">
+                                            <thead>
+                                                <tr class="border-b border-zinc-100">
+                                                    <th class="py-2 px-4 text-xs font-bold uppercase tracking-wider text-zinc-500">
+                                                        Bill Date
+                                                    </th>
+                                                    <th class="py-2 px-4 text-xs font-bold uppercase tracking-wider text-zinc-500">
+                                                        Item
+                                                    </th>
+                                                    <th class="py-2 px-4 text-right text-xs font-bold uppercase tracking-wider text-zinc-500">
+                                                        Bill (₹)
+                                                    </th>
+                                                    <th class="py-2 px-4 text-right text-xs font-bold uppercase tracking-wider text-zinc-500">
+                                                        Adjusted (₹)
+                                                    </th>
+                                                </tr>
+                                            </thead>
+                                            <tbody class="divide-y divide-zinc-100">
+                                                <For each={advance.applied}>
+                                                    {(adj) => (
+                                                        <tr>
+                                                            <td class="py-2 px-4 text-sm text-zinc-700 whitespace-nowrap">
+                                                                {formatDate(adj.bill_date)}
+                                                            </td>
+                                                            <td class="py-2 px-4 text-sm text-black">
+                                                                {adj.entity_name ?? 'Deleted bill'}
+                                                                <Show when={adj.entity_variant}>
+                                                                    <span class="text-zinc-400 ml-1">
+                                                                        {adj.entity_variant}
+                                                                    </span>
+                                                                </Show>
+                                                            </td>
+                                                            <td class="py-2 px-4 text-right text-sm text-zinc-600 tabular-nums">
+                                                                {toRupees(adj.bill_amount)}
+                                                            </td>
+                                                            <td class="py-2 px-4 text-right text-sm font-semibold text-black tabular-nums">
+                                                                {toRupees(adj.amount)}
+                                                            </td>
+                                                        </tr>
+                                                    )}
+                                                </For>
+                                            </tbody>
+                                        </table>
+                                    </Show>
+                                </div>
+                            )}
+                        </For>
+                    </div>
+                </Show>
+            </Suspense>
+        </div>
+    );
+}
+
+function SummaryCard(props: { label: string; value: number; highlight?: boolean }) {
+    return (
+        <div class="bg-white border border-zinc-200 rounded-2xl p-4">
+            <p class="text-[10px] font-bold uppercase tracking-wide text-zinc-400">{props.label}</p>
+            <p
+                class="mt-1 text-xl font-bold tabular-nums"
+                classList={{
+                    'text-green-600': !!props.highlight && props.value > 0,
+                    'text-black': !props.highlight || props.value <= 0,
+                }}
+            >
+                {formatMoney(props.value, { symbol: '₹' })}
+            </p>
+        </div>
+    );
+}
@@ -0,0 +1,446 @@
+import { action, createAsync, query, useParams, useSubmission } from '@solidjs/router';
+import { and, desc, eq, gte, isNull, lt, ne, sql } from 'drizzle-orm';
+import { createEffect, createSignal, For, Show, Suspense } from 'solid-js';
+import { db } from '~/drizzle/client';
+import { Destination, Entity, EntityType, SiteBudget, Transaction, TransportationCost } from '~/drizzle/schema';
+import { SelectInput, TextInput } from '~/components/form';
+import Breadcrumb from '~/components/Breadcrumb';
+import Sheet from '~/components/Sheet';
+import { requireAuth } from '~/lib/require-auth';
+import { addMoney, formatMoney, parseMoney, toRupees, type Money } from '~/lib/money';
+import { budgetLabel, burnDown, type BudgetCategory, type BudgetUsage, type BurnDownPoint } from '~/lib/budgets';
+import { serializeDateLocal } from '~/utils/dateUtils';
+
+// --- QUERIES & ACTIONS ---
+
+/** A site's budgeted spend per day and item category, between two dates (inclusive). */
+function dailySpend(siteId: string, from: string, to: string) {
+    const sign = sql`CASE WHEN ${Transaction.type} = 'credit' THEN 1 ELSE -1 END`;
+    const day = sql<string>`to_char(${Transaction.created_at} AT TIME ZONE 'UTC', 'YYYY-MM-DD')`;
+    const end = new Date(`${to}T00:00:00Z`);
+    end.setUTCDate(end.getUTCDate() + 1);
+
+    return db
+        .select({
+            date: day,
+            category: Entity.type,
+            spend: sql<number>`COALESCE(SUM(${sign} * (
+                COALESCE(${Transaction.amount}, 0) + ${Transaction.cgst} + ${Transaction.sgst} + ${Transaction.igst}
+                + COALESCE(${TransportationCost.cost}, 0)
+            )), 0)`.mapWith(Number),
+        })
+        .from(Transaction)
+        .leftJoin(TransportationCost, eq(Transaction.transportation_cost_id, TransportationCost.id))
+        .leftJoin(Entity, eq(Transaction.entity_id, Entity.id))
+        .where(
+            and(
+                eq(Transaction.source_id, siteId),
+                isNull(Transaction.deleted_at),
+                ne(Transaction.payment_status, 'advance'),
+                gte(Transaction.created_at, new Date(`${from}T00:00:00Z`)),
+                lt(Transaction.created_at, end),
+            ),
+        )
+        .groupBy(day, Entity.type);
+}
+
+/** The site's budgets with their spend so far, newest first, plus the daily spend behind each. */
+async function budgetsWithSpend(siteId: string) {
+    const budgets = await db
+        .select({
+            id: SiteBudget.id,
+            category: SiteBudget.category,
+            amount: SiteBudget.amount,
+            start_date: SiteBudget.start_date,
+            end_date: SiteBudget.end_date,
+            warn_percent: SiteBudget.warn_percent,
+        })
+        .from(SiteBudget)
+        .where(eq(SiteBudget.site_id, siteId))
+        .orderBy(desc(SiteBudget.start_date));
+    if (budgets.length === 0) return [];
+
+    const from = budgets.reduce((min, b) => (b.start_date < min ? b.start_date : min), budgets[0].start_date);
+    const to = budgets.reduce((max, b) => (b.end_date > max ? b.end_date : max), budgets[0].end_date);
+    const daily = await dailySpend(siteId, from, to);
+
+    return budgets.map((b) => {
+        const own = daily.filter(
+            (d) => d.date >= b.start_date && d.date <= b.end_date && (b.category === null || d.category === b.category),
+        );
+        return { ...b, spent: addMoney(...own.map((d) => d.spend)), daily: own };
+    });
+}
+
+export const loadSiteBudgets = query(async (siteId: string) => {
+    'use server';
+    await requireAuth(['expense-user']);
+
+    const [budgets, site] = await Promise.all([
+        budgetsWithSpend(siteId),
+        db
+            .select({ name: Destination.name })
+            .from(Destination)
+            .where(eq(Destination.id, siteId))
+            .then((rows) => rows[0]?.name ?? 'Unknown'),
+    ]);
+
+    const today = serializeDateLocal(new Date());
+    return {
+        site,
+        budgets: budgets.map(({ daily, ...b }) => ({ ...b, burnDown: burnDown(b, daily, today) })),
+    };
+}, 'site-budgets');
+
+/** Budgets of a site with their spend so far, for warning before an entry overspends them. */
+export const loadBudgetUsage = query(async (siteId: string): Promise<BudgetUsage[]> => {
+    'use server';
+    await requireAuth(['expense-user']);
+
+    const budgets = await budgetsWithSpend(siteId);
+    return budgets.map(({ daily, ...b }) => b);
+}, 'site-budget-usage');
+
+export const saveBudget = action(async (formData: FormData) => {
+    'use server';
+    await requireAuth(['expense-user']);
+
+    const getStringField = (key: string) => (formData.get(key) as string)?.trim() ?? '';
+
+    const id = getStringField('id');
+    const siteId = getStringField('site_id');
+    const category = getStringField('category');
+    const amount = parseMoney(getStringField('amount'));
+    const startDate = getStringField('start_date');
+    const endDate = getStringField('end_date');
+    const warnPercent = Number.parseInt(getStringField('warn_percent') || '90', 10);
+
+    if (!siteId || !startDate || !endDate) return { error: 'Missing required fields.' };
+    if (category && !EntityType.includes(category as BudgetCategory)) return { error: 'Invalid item category.' };
+    if (amount === null || amount <= 0) return { error: 'Budget must be a positive amount.' };
+    if (endDate < startDate) return { error: 'End date must be on or after the start date.' };
+    if (!Number.isInteger(warnPercent) || warnPercent < 1 || warnPercent > 100) {
+        return { error: 'Warning threshold must be between 1 and 100%.' };
+    }
+
+    const values = {
+        site_id: siteId,
+        category: (category || null) as BudgetCategory | null,
+        amount,
+        start_date: startDate,
+        end_date: endDate,
+        warn_percent: warnPercent,
+    };
+
+    try {
+        if (id) {
+            await db
+                .update(SiteBudget)
+                .set(values)
+                .where(and(eq(SiteBudget.id, id), eq(SiteBudget.site_id, siteId)));
+        } else {
+            await db.insert(SiteBudget).values(values);
+        }
+        return { success: true };
+    } catch (error: unknown) {
+        console.error(error);
+        return { error: 'Failed to save budget.' };
+    }
+});
+
+export const deleteBudget = action(async (formData: FormData) => {
+    'use server';
+    await requireAuth(['expense-user']);
+
+    const id = (formData.get('id') as string)?.trim() ?? '';
+    if (!id) return { error: 'Budget id is missing.' };
+
+    try {
+        await db.delete(SiteBudget).where(eq(SiteBudget.id, id));
+        return { success: true };
+    } catch (error: unknown) {
+        console.error(error);
+        return { error: 'Failed to delete budget.' };
+    }
+});
+
+// --- FORM CONTENT ---
+
+type BudgetFormValues = {
+    id: string;
+    category: BudgetCategory | null;
+    amount: Money;
+    start_date: string;
+    end_date: string;
+    warn_percent: number;
+};
+
+function BudgetFormContent(props: { siteId: string; budget?: BudgetFormValues; onSuccess?: () => void }) {
+    const submission = useSubmission(saveBudget);
+
+    let prevResult = submission.result;
+    createEffect(() => {
+        const result = submission.result as any;
+        if (result !== prevResult && result?.success === true) {
+            prevResult = result;
+            props.onSuccess?.();
+        }
+    });
+
+    return (
+        <form action={saveBudget} method="post" class="space-y-8">
+            <input type="hidden" name="site_id" value={props.siteId} />
+            <Show when={props.budget}>{(b) => <input type="hidden" name="id" value={b().id} />}</Show>
+
+            <div class="space-y-5">
+                <div class="grid grid-cols-1 md:grid-cols-2 gap-4">
+                    <SelectInput name="category" label="Covers">
+                        <option value="" selected={!props.budget?.category}>
+                            {budgetLabel(null)}
+                        </option>
+                        <For each={EntityType}>
+                            {(c) => (
+                                <option value={c} selected={props.budget?.category === c}>
+                                    {budgetLabel(c)}
+                                </option>
+                            )}
+                        </For>
+                    </SelectInput>
+                    <TextInput
+                        name="amount"
+                        label="Budget (₹)"
+                        type="number"
+                        step="0.01"
+                        value={props.budget ? toRupees(props.budget.amount) : ''}
+                        required
+                    />
+                </div>
+                <div class="grid grid-cols-1 md:grid-cols-3 gap-4">
+                    <TextInput
+                        name="start_date"
+                        label="Start Date"
+                        type="date"
+                        value={props.budget?.start_date}
+                        required
+                    />
+                    <TextInput name="end_date" label="End Date" type="date" value={props.budget?.end_date} required />
+                    <TextInput
+                        name="warn_percent"
+                        label="Warn At (%)"
+                        type="number"
+                        value={props.budget?.warn_percent ?? 90}
+                        required
+                    />
+                </div>
+            </div>
+
+            <Show when={submission.result?.error}>
+                <div class="p-3 bg-red-500/10 border border-red-500/20 rounded-lg text-xs text-red-500 font-medium">
+                    {submission.result?.error}
+                </div>
+            </Show>
+
+            <div class="sticky bottom-0 bg-white -mx-5 px-5 pt-4 pb-4 border-t border-zinc-100">
+                <button
+                    type="submit"
+                    disabled={submission.pending}
+                    class="w-full bg-black hover:bg-black/90 disabled:opacity-50 text-white font-bold text-sm rounded-xl py-4 transition-all"
+                >
+                    {submission.pending ? 'Saving...' : 'Save Budget'}
+                </button>
+            </div>
+        </form>
+    );
+}
+
+// --- PAGE ---
+
+const formatDate = (date: string) => new Date(`${date}T00:00:00`).toLocaleDateString();
+
+export default function SiteBudgetsPage() {
+    const params = useParams<{ id: string }>();
+    const data = createAsync(() => loadSiteBudgets(params.id));
+    const deleting = useSubmission(deleteBudget);
+
+    const [sheetOpen, setSheetOpen] = createSignal(false);
+    const [editing, setEditing] = createSignal<BudgetFormValues | undefined>();
+    const openForm = (budget?: BudgetFormValues) => {
+        setEditing(budget);
+        setSheetOpen(true);
+    };
+
+    return (
+        <div class="w-full mx-auto px-4 py-12">
+            <div class="mb-4">
+                <Breadcrumb
+                    items={[
+                        { label: 'All sites', href: '/sites' },
+                        { label: data()?.site ?? 'Site', href: `/expenses/${params.id}/ledger` },
+                        { label: 'Budgets' },
+                    ]}
+                />
+            </div>
+            <div class="mb-8 flex justify-between items-start">
+                <div>
+                    <h1 class="text-3xl font-bold text-black tracking-tight">Budgets</h1>
+                    <p class="mt-1 text-sm text-zinc-500">
+                        Spend is inward entries plus carting, less outward entries. Advances count once bills draw them
+                        down.
+                    </p>
+                </div>
+                <button
+                    onClick={() => openForm()}
+                    class="px-4 py-2 bg-black hover:bg-black/80 text-white font-semibold text-sm rounded-lg transition-colors shadow-sm"
+                >
+                    + Add Budget
+                </button>
+            </div>
+
+            <Show when={deleting.result?.error}>
+                <div class="mb-4 p-3 bg-red-500/10 border border-red-500/20 rounded-lg text-xs text-red-500 font-medium">
+                    {deleting.result?.error}
+                </div>
+            </Show>
+
+            <Suspense>
+                <Show
+                    when={(data()?.budgets ?? []).length > 0}
+                    fallback={
+                        <div class="bg-white border border-zinc-200 rounded-2xl py-12 text-center text-sm text-zinc-400">
+                            No budgets set for this site.
+                        </div>
+                    }
+                >
+                    <div class="space-y-4">
+                        <For each={data()?.budgets}>
+                            {(budget) => {
+                                const remaining = () => budget.amount - budget.spent;
+                                const used = () => (budget.amount > 0 ? (budget.spent * 100) / budget.amount : 0);
+                                return (
+                                    <div class="bg-white border border-zinc-200 rounded-2xl overflow-hidden shadow-2xl shadow-black/5">
+                                        <div class="flex flex-wrap items-center justify-between gap-4 px-4 py-3 bg-zinc-50 border-b border-zinc-200">
+                                            <div>
+                                                <p class="text-sm font-semibold text-black">
+                                                    {budgetLabel(budget.category)}
+                                                </p>
+                                                <p class="text-xs text-zinc-500">
+                                                    {formatDate(budget.start_date)} – {formatDate(budget.end_date)} ·
+                                                    warns at {budget.warn_percent}%
+                                                </p>
+                                            </div>
+                                            <div class="flex items-center gap-6 text-right text-sm tabular-nums">
+                                                <Stat label="Budget" value={budget.amount} />
+                                                <Stat label="Spent" value={budget.spent} />
+                                                <Stat label="Remaining" value={remaining()} danger={remaining() < 0} />
+                                                <div class="flex gap-3">
+                                                    <button
+                                                        type="button"
+                                                        class="text-xs font-semibold text-blue-500 hover:text-blue-700"
+                                                        onClick={() => openForm(budget)}
+                                                    >
+                                                        Edit
+                                                    </button>
+                                                    <form action={deleteBudget} method="post">
+                                                        <input type="hidden" name="id" value={budget.id} />
+                                                        <button
+                                                            type="submit"
+                                                            class="text-xs font-semibold text-red-500 hover:text-red-700"
+                                                            onClick={(e) =>
+                                                                !confirm('Delete this budget?') && e.preventDefault()
+                                                            }
+                                                        >
+                                                            Delete
+                                                        </button>
+                                                    </form>
+                                                </div>
+                                            </div>
+                                        </div>
+                                        <div class="px-4 py-4 space-y-4">
+                                            <div class="h-2 bg-zinc-100 rounded-full overflow-hidden">
+                                                <div
+                                                    class="h-full rounded-full"
+                                                    classList={{
+                                                        'bg-green-500': used() < budget.warn_percent,
+                                                        'bg-amber-500': used() >= budget.warn_percent && used() <= 100,
+                                                        'bg-red-500': used() > 100,
+                                                    }}
+                                                    style={{ width: `${Math.min(used(), 100)}%` }}
+                                                />
+                                            </div>
+                                            <Show
+                                                when={budget.burnDown.length > 0}
+                                                fallback={
+                                                    <p class="text-sm text-zinc-400">
+                                                        Starts {formatDate(budget.start_date)}.
+                                                    </p>
+                                                }
+                                            >
+                                                <BurnDownChart points={budget.burnDown} amount={budget.amount} />
+                                            </Show>
+                                        </div>
+                                    </div>
+                                );
+                            }}
+                        </For>
+                    </div>
+                </Show>
+            </Suspense>
+
+            <Sheet
+                open={sheetOpen()}
+                onClose={() => setSheetOpen(false)}
+                title={editing() ? 'Edit Budget' : 'Add Budget'}
+            >
+                <Show when={sheetOpen()}>
+                    <BudgetFormContent siteId={params.id} budget={editing()} onSuccess={() => setSheetOpen(false)} />
+                </Show>
+            </Sheet>
+        </div>
+    );
+}
+
+function Stat(props: { label: string; value: number; danger?: boolean }) {
+    return (
+        <div>
+            <p class="text-[10px] font-bold uppercase tracking-wide text-zinc-400">{props.label}</p>
+            <p class="font-semibold" classList={{ 'text-red-500': !!props.danger, 'text-black': !props.danger }}>
+                {formatMoney(props.value, { symbol: '₹' })}
+            </p>
+        </div>
+    );
+}
+
+/** Remaining budget per day (solid) against an even burn to zero by the end date (dashed). */
+function BurnDownChart(props: { points: BurnDownPoint[]; amount: Money }) {
+    const width = 600;
+    const height = 160;
+    const low = () => Math.min(0, ...props.points.map((p) => p.remaining));
+    const days = () => Math.max(props.points.length - 1, 1);
+    const x = (i: number) => (i / days()) * width;
+    const y = (value: number) => height - ((value - low()) / (props.amount - low() || 1)) * height;
+    const path = (key: 'remaining' | 'ideal') =>
+        props.points.map((p, i) => `${i === 0 ? 'M' : 'L'}${x(i).toFixed(1)},${y(p[key]).toFixed(1)}`).join(' ');
+    const last = () => props.points[props.points.length - 1];
+
+    return (
+        <div>
+            <svg viewBox={`0 0 ${width} ${height}`} preserveAspectRatio="none" class="w-full h-40 overflow-visible">
+                <line x1="0" x2={width} y1={y(0)} y2={y(0)} stroke="#e4e4e7" stroke-width="1" />
+                <path d={path('ideal')} fill="none" stroke="#a1a1aa" stroke-width="1.5" stroke-dasharray="4 4" />
+                <path
+                    d={path('remaining')}
+                    fill="none"
+                    stroke={last().remaining < last().ideal ? '#ef4444' : '#16a34a'}
+                    stroke-width="2"
+                />
+            </svg>
+            <div class="mt-1 flex justify-between text-[11px] text-zinc-400 tabular-nums">
+                <span>{formatDate(props.points[0].date)}</span>
+                <span>
+                    {formatMoney(last().remaining, { symbol: '₹' })} left on {formatDate(last().date)} · on track:{' '}
+                    {formatMoney(last().ideal, { symbol: '₹' })}
+                </span>
+            </div>
+        </div>
+    );
+}
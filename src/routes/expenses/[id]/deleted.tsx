@@ -0,0 +1,321 @@
+import { A, action, createAsync, query, useParams, useSubmission } from '@solidjs/router';
+import { and, desc, eq, isNotNull } from 'drizzle-orm';
+import { For, Show, Suspense } from 'solid-js';
+import { db } from '~/drizzle/client';
+import {
+    AdvanceAdjustment,
+    Destination,
+    Entity,
+    PaymentAllocation,
+    Transaction,
+    TransportationCost,
+} from '~/drizzle/schema';
+import Breadcrumb from '~/components/Breadcrumb';
+import { requireAuth } from '~/lib/require-auth';
+import { recordAudit } from '~/lib/audit';
+import { addMoney, toRupees } from '~/lib/money';
+import { loadAdvanceBalances } from '~/lib/settlement';
+import { isRestorable, RESTORE_WINDOW_DAYS } from '~/lib/soft-delete';
+
+// --- QUERIES & ACTIONS ---
+
+export const loadDeletedTransactions = query(async (siteId: string) => {
+    'use server';
+    const session = await requireAuth(['expense-user']);
+
+    const [rows, site] = await Promise.all([
+        db
+            .select({
+                id: Transaction.id,
+                created_at: Transaction.created_at,
+                deleted_at: Transaction.deleted_at,
+                type: Transaction.type,
+                quantity: Transaction.quantity,
+                amount: Transaction.amount,
+                cgst: Transaction.cgst,
+                sgst: Transaction.sgst,
+                igst: Transaction.igst,
+                payment_status: Transaction.payment_status,
+                entity_name: Entity.name,
+                entity_unit: Entity.unit,
+                transportation_cost: TransportationCost.cost,
+            })
+            .from(Transaction)
+            .leftJoin(Entity, eq(Entity.id, Transaction.entity_id))
+            .leftJoin(TransportationCost, eq(TransportationCost.id, Transaction.transportation_cost_id))
+            .where(and(eq(Transaction.source_id, siteId), isNotNull(Transaction.deleted_at)))
+            .orderBy(desc(Transaction.deleted_at)),
+        db
+            .select({ name: Destination.name })
+            .from(Destination)
+            .where(eq(Destination.id, siteId))
+            .then((rows) => rows[0]?.name ?? 'Unknown'),
+    ]);
+
+    return {
+        site,
+        transactions: rows.map((r) => ({
+            ...r,
+            total: addMoney(r.amount, r.cgst, r.sgst, r.igst, r.transportation_cost),
+            restorable: isRestorable(r.deleted_at),
+        })),
+        canPurge: session.user.role === 'admin',
+    };
+}, 'deleted-expense-transactions');
+
+export const restoreTransaction = action(async (formData: FormData) => {
+    'use server';
+    const session = await requireAuth(['expense-user']);
+    const id = (formData.get('id') as string)?.trim() ?? '';
+    if (!id) return { error: 'Transaction id is missing.' };
+
+    try {
+        return await db.transaction(async (tx) => {
+            const [before] = await tx
+                .select()
+                .from(Transaction)
+                .where(and(eq(Transaction.id, id), isNotNull(Transaction.deleted_at)))
+                .for('update');
+            if (!before) return { error: 'This entry is not in the recently deleted list.' };
+            if (!isRestorable(before.deleted_at)) {
+                return { error: `Only entries deleted in the last ${RESTORE_WINDOW_DAYS} days can be restored.` };
+            }
+
+            // While deleted, the entry's advance adjustments gave their credit back; it must still be there.
+            const adjustments = await tx
+                .select({ advance_id: AdvanceAdjustment.advance_id, amount: AdvanceAdjustment.amount })
+                .from(AdvanceAdjustment)
+                .where(eq(AdvanceAdjustment.transaction_id, id));
+            if (adjustments.length > 0 && before.source_id) {
+                const balances = new Map(
+                    (await loadAdvanceBalances(tx, before.source_id)).map((a) => [a.id, a.outstanding]),
+                );
+                const overdrawn = adjustments.some(
+                    (a) => balances.has(a.advance_id) && a.amount > balances.get(a.advance_id)!,
+                );
+                if (overdrawn) {
+                    return {
+                        error: 'The advance this entry was adjusted against has since been used, so it cannot be restored.',
+                    };
+                }
+            }
+
+            const [after] = await tx
+                .update(Transaction)
+                .set({ deleted_at: null })
+                .where(eq(Transaction.id, id))
+                .returning();
+            await recordAudit(tx, session.user, [
+                { table: Transaction, rowId: id, siteId: before.source_id, before, after, action: 'restore' },
+            ]);
+            return { success: true };
+        });
+    } catch (error: unknown) {
+        console.error(error);
+        return { error: 'Failed to restore transaction.' };
+    }
+});
+
+export const purgeTransaction = action(async (formData: FormData) => {
+    'use server';
+    const session = await requireAuth(['admin']);
+    const id = (formData.get('id') as string)?.trim() ?? '';
+    if (!id) return { error: 'Transaction id is missing.' };
+
+    try {
+        return await db.transaction(async (tx) => {
+            // Advance adjustments go with it (ON DELETE CASCADE). Payment allocations do not: a
+            // payment's amount is the sum of its allocations, so a paid entry is kept.
+            const [allocated] = await tx
+                .select({ id: PaymentAllocation.id })
+                .from(PaymentAllocation)
+                .where(eq(PaymentAllocation.transaction_id, id))
+                .limit(1);
+            if (allocated) return { error: 'Payments are recorded against this entry, so it cannot be purged.' };
+            // Bills adjusted against an advance were marked paid from it, so the advance must stay too.
+            const [adjusted] = await tx
+                .select({ id: AdvanceAdjustment.id })
+                .from(AdvanceAdjustment)
+                .where(eq(AdvanceAdjustment.advance_id, id))
+                .limit(1);
+            if (adjusted) return { error: 'Bills have been adjusted against this advance, so it cannot be purged.' };
+
+            const [before] = await tx
+                .delete(Transaction)
+                .where(and(eq(Transaction.id, id), isNotNull(Transaction.deleted_at)))
+                .returning();
+            if (!before) return { error: 'Only deleted entries can be purged.' };
+
+            const [transport] = before.transportation_cost_id
+                ? await tx
+                      .delete(TransportationCost)
+                      .where(eq(TransportationCost.id, before.transportation_cost_id))
+                      .returning()
+                : [];
+
+            await recordAudit(tx, session.user, [
+                { table: Transaction, rowId: id, siteId: before.source_id, before, action: 'purge' },
+                ...(transport
+                    ? [
+                          {
+                              table: TransportationCost,
+                              rowId: transport.id,
+                              siteId: before.source_id,
+                              before: transport,
+                              action: 'purge' as const,
+                          },
+                      ]
+                    : []),
+            ]);
+            return { success: true };
+        });
+    } catch (error: unknown) {
+        console.error(error);
+        return { error: 'Failed to purge transaction.' };
+    }
+});
+
+// --- PAGE ---
+
+const formatDate = (date: Date | string | null) => (date ? new Date(date).toLocaleDateString() : '--');
+
+export default function DeletedExpensesPage() {
+    const params = useParams<{ id: string }>();
+    const data = createAsync(() => loadDeletedTransactions(params.id));
+    const restoring = useSubmission(restoreTransaction);
+    const purging = useSubmission(purgeTransaction);
+    const error = () => restoring.result?.error ?? purging.result?.error;
+
+    return (
+        <div class="w-full mx-auto px-4 py-12">
+            <div class="mb-4">
+                <Breadcrumb
+                    items={[
+                        { label: 'All sites', href: '/sites' },
+                        { label: data()?.site ?? 'Site', href: `/expenses/${params.id}/ledger` },
+                        { label: 'Recently deleted' },
+                    ]}
+                />
+            </div>
+            <div class="mb-8">
+                <h1 class="text-3xl font-bold text-black tracking-tight">Recently Deleted</h1>
+                <p class="mt-1 text-sm text-zinc-500">
+                    Deleted entries are left out of the ledger, totals and exports. They can be restored for{' '}
+                    {RESTORE_WINDOW_DAYS} days.
+                </p>
+            </div>
+
+            <div class="bg-white border border-zinc-200 rounded-2xl overflow-hidden shadow-2xl shadow-black/5">
+                <Show when={error()}>
+                    <div class="px-6 py-3 bg-red-500/10 border-b border-red-500/10 text-sm text-red-500">{error()}</div>
+                </Show>
+                <div class="overflow-x-auto">
+                    <table class="w-full min-w-[900px] text-left border-collapse">
+                        <thead>
+                            <tr class="border-b border-zinc-200 bg-zinc-50">
+                                <th class="py-3 px-3 text-xs font-bold uppercase tracking-wider text-zinc-600">Date</th>
+                                <th class="py-3 px-3 text-xs font-bold uppercase tracking-wider text-zinc-600">Item</th>
+                                <th class="py-3 px-3 text-right text-xs font-bold uppercase tracking-wider text-zinc-600">
+                                    Qty
+                                </th>
+                                <th class="py-3 px-3 text-right text-xs font-bold uppercase tracking-wider text-zinc-600">
+                                    Total (₹)
+                                </th>
+                                <th class="py-3 px-3 text-xs font-bold uppercase tracking-wider text-zinc-600">
+                                    Payment
+                                </th>
+                                <th class="py-3 px-3 text-xs font-bold uppercase tracking-wider text-zinc-600">
+                                    Deleted
+                                </th>
+                                <th class="py-3 px-3 text-right text-xs font-bold uppercase tracking-wider text-zinc-600"></th>
+                            </tr>
+                        </thead>
+                        <tbody class="divide-y divide-zinc-100">
+                            <Suspense>
+                                <Show
+                                    when={(data()?.transactions ?? []).length > 0}
+                                    fallback={
+                                        <tr>
+                                            <td colspan={7} class="text-center py-12 text-sm text-zinc-400">
+                                                Nothing has been deleted from this site.
+                                            </td>
+                                        </tr>
+                                    }
+                                >
+                                    <For each={data()?.transactions}>
+                                        {(tx) => (
+                                            <tr class="hover:bg-zinc-50/80">
+                                                <td class="py-3 px-3 text-sm text-zinc-700 whitespace-nowrap">
+                                                    {formatDate(tx.created_at)}
+                                                </td>
+                                                <td class="py-3 px-3 text-sm text-black">
+                                                    {tx.entity_name ?? '--'}
+                                                    <span class="ml-2 text-xs text-zinc-400 capitalize">{tx.type}</span>
+                                                </td>
+                                                <td class="py-3 px-3 text-right text-sm text-zinc-700 tabular-nums whitespace-nowrap">
+                                                    {Number(tx.quantity ?? 0)} {tx.entity_unit ?? ''}
+                                                </td>
+                                                <td class="py-3 px-3 text-right text-sm font-semibold text-black tabular-nums">
+                                                    {toRupees(tx.total)}
+                                                </td>
+                                                <td class="py-3 px-3 text-sm text-zinc-700 capitalize">
+                                                    {tx.payment_status}
+                                                </td>
+                                                <td class="py-3 px-3 text-sm text-zinc-700 whitespace-nowrap">
+                                                    {formatDate(tx.deleted_at)}
+                                                </td>
+                                                <td class="py-3 px-3 text-right">
+                                                    <div class="flex items-center justify-end gap-3">
+                                                        <Show
+                                                            when={tx.restorable}
+                                                            fallback={
+                                                                <span class="text-xs text-zinc-400">
+                                                                    Restore window passed
+                                                                </span>
+                                                            }
+                                                        >
+                                                            <form action={restoreTransaction} method="post">
+                                                                <input type="hidden" name="id" value={tx.id} />
+                                                                <button
+                                                                    type="submit"
+                                                                    class="text-xs font-semibold text-blue-500 hover:text-blue-700"
+                                                                >
+                                                                    Restore
+                                                                </button>
+                                                            </form>
+                                                        </Show>
+                                                        <Show when={data()?.canPurge}>
+                                                            <form action={purgeTransaction} method="post">
+                                                                <input type="hidden" name="id" value={tx.id} />
+                                                                <button
+                                                                    type="submit"
+                                                                    class="text-xs font-semibold text-red-500 hover:text-red-700"
+                                                                    onClick={(e) =>
+                                                                        !confirm('Permanently delete this entry?') &&
+                                                                        e.preventDefault()
+                                                                    }
+                                                                >
+                                                                    Purge
+                                                                </button>
+                                                            </form>
+                                                        </Show>
+                                                    </div>
+                                                </td>
+                                            </tr>
+                                        )}
+                                    </For>
+                                </Show>
+                            </Suspense>
+                        </tbody>
+                    </table>
+                </div>
+            </div>
+
+            <div class="mt-6">
+                <A href={`/expenses/${params.id}/ledger`} class="text-sm text-blue-600 hover:underline">
+                    Back to ledger
+                </A>
+            </div>
+        </div>
+    );
+}
@@ -1,11 +1,432 @@
-import { useParams } from '@solidjs/router';
+import { A, createAsync, query, useParams } from '@solidjs/router';
+import { and, desc, eq, gt, gte, inArray, isNotNull, lte, sql, type SQL } from 'drizzle-orm';
+import { createMemo, createSignal, For, Show, Suspense, useTransition, type JSX } from 'solid-js';
+import { db } from '~/drizzle/client';
+import { Destination, PaymentStatus, TransactionDetail } from '~/drizzle/schema';
+import Breadcrumb from '~/components/Breadcrumb';
+import DateRangePicker from '~/components/DateRangePicker';
+import { requireAuth } from '~/lib/require-auth';
+import { addMoney, formatMoney, toRupees } from '~/lib/money';
+import { serializeDateLocal } from '~/utils/dateUtils';
 
-export default function ExpenseDestinationDetailsPage() {
+// --- QUERIES ---
+
+/**
+ * Everything on the site overview, for entries in `dateRange` (or all time).
+ * Amounts are gross plus carting, signed like the ledger total: inward
+ * (credit) entries count up and outward (debit) entries count down.
+ */
+export const loadSiteOverview = query(async (siteId: string, dateRange: { from: string; to: string } | null) => {
+    'use server';
+    await requireAuth(['expense-user']);
+
+    const inRange = and(
+        eq(TransactionDetail.source_id, siteId),
+        dateRange ? gte(TransactionDetail.created_at, new Date(dateRange.from + 'T00:00:00')) : undefined,
+        dateRange ? lte(TransactionDetail.created_at, new Date(dateRange.to + 'T23:59:59')) : undefined,
+    );
+    const sign = sql`CASE WHEN ${TransactionDetail.type} = 'credit' THEN 1 ELSE -1 END`;
+    const sum = (value: SQL) => sql<number>`COALESCE(SUM(${sign} * ${value}), 0)`.mapWith(Number);
+    const spend = sum(
+        sql`(COALESCE(${TransactionDetail.gross_amount}, 0) + COALESCE(${TransactionDetail.transportation_cost}, 0))`,
+    );
+    const week = sql<string>`to_char(date_trunc('week', ${TransactionDetail.created_at}), 'YYYY-MM-DD')`;
+
+    const [site, byStatus, transport, outstanding, byItem, byWeek, topVendors, recent] = await Promise.all([
+        db
+            .select({ name: Destination.name })
+            .from(Destination)
+            .where(eq(Destination.id, siteId))
+            .then((rows) => rows[0]?.name ?? 'Unknown'),
+        db
+            .select({
+                status: TransactionDetail.payment_status,
+                total: spend,
+                entries: sql<number>`COUNT(*)`.mapWith(Number),
+            })
+            .from(TransactionDetail)
+            .where(inRange)
+            .groupBy(TransactionDetail.payment_status),
+        db
+            .select({ total: sum(sql`COALESCE(${TransactionDetail.transportation_cost}, 0)`) })
+            .from(TransactionDetail)
+            .where(inRange)
+            .then((rows) => rows[0]?.total ?? 0),
+        db
+            .select({
+                total: sql<number>`COALESCE(SUM(${TransactionDetail.outstanding_amount}), 0)`.mapWith(Number),
+            })
+            .from(TransactionDetail)
+            .where(
+                and(
+                    inRange,
+                    inArray(TransactionDetail.payment_status, ['pending', 'advance']),
+                    gt(TransactionDetail.outstanding_amount, 0),
+                ),
+            )
+            .then((rows) => rows[0]?.total ?? 0),
+        db
+            .select({ entity_id: TransactionDetail.entity_id, name: TransactionDetail.entity_name, total: spend })
+            .from(TransactionDetail)
+            .where(inRange)
+            .groupBy(TransactionDetail.entity_id, TransactionDetail.entity_name)
+            .orderBy(desc(spend))
+            .limit(10),
+        db
+            .select({ week, total: spend })
+            .from(TransactionDetail)
+            .where(inRange)
+            .groupBy(week)
+            .orderBy(desc(week))
+            .limit(12),
+        db
+            .select({
+                vendor_id: TransactionDetail.vendor_id,
+                name: TransactionDetail.vendor_name,
+                total: spend,
+                entries: sql<number>`COUNT(*)`.mapWith(Number),
+            })
+            .from(TransactionDetail)
+            .where(and(inRange, isNotNull(TransactionDetail.vendor_id)))
+            .groupBy(TransactionDetail.vendor_id, TransactionDetail.vendor_name)
+            .orderBy(desc(spend))
+            .limit(5),
+        db
+            .select({
+                id: TransactionDetail.id,
+                created_at: TransactionDetail.created_at,
+                type: TransactionDetail.type,
+                entity_name: TransactionDetail.entity_name,
+                entity_variant: TransactionDetail.entity_variant,
+                vendor_name: TransactionDetail.vendor_name,
+                payment_status: TransactionDetail.payment_status,
+                gross_amount: TransactionDetail.gross_amount,
+                transportation_cost: TransactionDetail.transportation_cost,
+            })
+            .from(TransactionDetail)
+            .where(inRange)
+            .orderBy(desc(TransactionDetail.created_at))
+            .limit(10),
+    ]);
+
+    const totals = Object.fromEntries(
+        PaymentStatus.map((status) => [status, byStatus.find((s) => s.status === status)?.total ?? 0]),
+    ) as Record<(typeof PaymentStatus)[number], number>;
+    const total = byStatus.reduce((sum, s) => sum + s.total, 0);
+
+    return {
+        site,
+        total,
+        totals,
+        entries: byStatus.reduce((sum, s) => sum + s.entries, 0),
+        transport,
+        outstanding,
+        byItem,
+        byWeek: byWeek.reverse(),
+        topVendors,
+        recent,
+    };
+}, 'site-expense-overview');
+
+// --- PAGE ---
+
+const formatDate = (date: Date | string | null) => (date ? new Date(date).toLocaleDateString() : '--');
+const fmt = (paise: number) => formatMoney(paise, { symbol: '₹' });
+
+export default function SiteExpenseOverviewPage() {
     const params = useParams<{ id: string }>();
+    const [dateRange, setDateRange] = createSignal<{ from: Date; to: Date } | null>(null);
+    const [isPending, startTransition] = useTransition();
+    const serializedDateRange = () => {
+        const range = dateRange();
+        return range ? { from: serializeDateLocal(range.from), to: serializeDateLocal(range.to) } : null;
+    };
+    const data = createAsync(() => loadSiteOverview(params.id, serializedDateRange()));
+
+    const transportShare = createMemo(() => {
+        const total = data()?.total ?? 0;
+        return total > 0 ? Math.round(((data()?.transport ?? 0) * 100) / total) : 0;
+    });
+    const itemMax = createMemo(() => Math.max(1, ...(data()?.byItem ?? []).map((i) => Math.abs(i.total))));
+    const weekMax = createMemo(() => Math.max(1, ...(data()?.byWeek ?? []).map((w) => Math.abs(w.total))));
+
+    const links = [
+        { label: 'Ledger', href: 'ledger' },
+        { label: 'Payments', href: 'payments' },
+        { label: 'Advance statement', href: 'advances' },
+        { label: 'Budgets', href: 'budget' },
+    ];
+
+    return (
+        <div class="w-full mx-auto px-4 py-12">
+            <div class="mb-4">
+                <Breadcrumb
+                    items={[
+                        { label: 'All sites', href: '/sites' },
+                        { label: 'Expense' },
+                        { label: data()?.site ?? 'Site' },
+                    ]}
+                />
+            </div>
+            <div class="mb-8 flex flex-wrap justify-between items-start gap-4">
+                <div>
+                    <h1 class="text-3xl font-bold text-black tracking-tight">Site Overview</h1>
+                    <div class="flex gap-3">
+                        <For each={links}>
+                            {(link) => (
+                                <A
+                                    href={`/expenses/${params.id}/${link.href}`}
+                                    class="text-sm text-blue-600 hover:underline"
+                                >
+                                    {link.label}
+                                </A>
+                            )}
+                        </For>
+                    </div>
+                </div>
+                <div class="flex items-center gap-2 bg-white border border-zinc-200 rounded-lg p-2 shadow-sm">
+                    <button
+                        onClick={() => startTransition(() => setDateRange(null))}
+                        class="px-3 py-1.5 text-sm font-medium rounded-md transition-colors"
+                        classList={{
+                            'bg-blue-600 text-white shadow-sm': !dateRange(),
+                            'bg-zinc-100 text-zinc-700 hover:bg-zinc-200': !!dateRange(),
+                        }}
+                    >
+                        All Time
+                    </button>
+                    <div class="h-5 w-px bg-zinc-300 mx-0.5"></div>
+                    <DateRangePicker
+                        value={dateRange()}
+                        onRangeChange={(range) => {
+                            if (range) startTransition(() => setDateRange(range));
+                        }}
+                    />
+                </div>
+            </div>
+
+            <Suspense fallback={<div class="h-64 bg-zinc-100 rounded-2xl animate-pulse" />}>
+                <div class="space-y-6" classList={{ 'opacity-60': isPending() }}>
+                    <div class="grid grid-cols-2 lg:grid-cols-6 gap-4">
+                        <SummaryCard
+                            label="Total spend"
+                            value={fmt(data()?.total ?? 0)}
+                            note={`${data()?.entries ?? 0} entries`}
+                        />
+                        <SummaryCard label="Paid" value={fmt(data()?.totals.paid ?? 0)} />
+                        <SummaryCard label="Pending" value={fmt(data()?.totals.pending ?? 0)} />
+                        <SummaryCard label="Advance" value={fmt(data()?.totals.advance ?? 0)} />
+                        <SummaryCard
+                            label="Outstanding"
+                            value={fmt(data()?.outstanding ?? 0)}
+                            highlight={(data()?.outstanding ?? 0) > 0}
+                        />
+                        <SummaryCard
+                            label="Transport share"
+                            value={`${transportShare()}%`}
+                            note={fmt(data()?.transport ?? 0)}
+                        />
+                    </div>
+
+                    <div class="grid grid-cols-1 lg:grid-cols-2 gap-6">
+                        <Panel title="Spend by week">
+                            <Show
+                                when={(data()?.byWeek ?? []).length > 0}
+                                fallback={
+                                    <p class="py-8 text-center text-sm text-zinc-400">No entries in this period.</p>
+                                }
+                            >
+                                <div class="flex items-end gap-2 h-40">
+                                    <For each={data()?.byWeek}>
+                                        {(w) => (
+                                            <div
+                                                class="flex-1 flex flex-col justify-end items-center gap-1 h-full"
+                                                title={`Week of ${formatDate(w.week)}: ${fmt(w.total)}`}
+                                            >
+                                                <div
+                                                    class="w-full rounded-t-md"
+                                                    classList={{
+                                                        'bg-black': w.total >= 0,
+                                                        'bg-orange-400': w.total < 0,
+                                                    }}
+                                                    style={{ height: `${(Math.abs(w.total) / weekMax()) * 100}%` }}
+                                                />
+                                                <span class="text-[10px] text-zinc-400 tabular-nums">
+                                                    {new Date(w.week).toLocaleDateString(undefined, {
+                                                        day: 'numeric',
+                                                        month: 'short',
+                                                    })}
+                                                </span>
+                                            </div>
+                                        )}
+                                    </For>
+                                </div>
+                            </Show>
+                        </Panel>
+
+                        <Panel title="Spend by item">
+                            <Show
+                                when={(data()?.byItem ?? []).length > 0}
+                                fallback={
+                                    <p class="py-8 text-center text-sm text-zinc-400">No entries in this period.</p>
+                                }
+                            >
+                                <div class="space-y-2">
+                                    <For each={data()?.byItem}>
+                                        {(item) => (
+                                            <A
+                                                href={`/expenses/${params.id}/ledger?entity=${item.entity_id}`}
+                                                class="block group"
+                                            >
+                                                <div class="flex justify-between text-sm">
+                                                    <span class="text-black group-hover:underline">{item.name}</span>
+                                                    <span class="tabular-nums text-zinc-700">
+                                                        {toRupees(item.total)}
+                                                    </span>
+                                                </div>
+                                                <div class="mt-1 h-1.5 bg-zinc-100 rounded-full overflow-hidden">
+                                                    <div
+                                                        class="h-full bg-black rounded-full"
+                                                        style={{
+                                                            width: `${(Math.abs(item.total) / itemMax()) * 100}%`,
+                                                        }}
+                                                    />
+                                                </div>
+                                            </A>
+                                        )}
+                                    </For>
+                                </div>
+                            </Show>
+                        </Panel>
+                    </div>
+
+                    <div class="grid grid-cols-1 lg:grid-cols-3 gap-6">
+                        <Panel title="Top vendors">
+                            <Show
+                                when={(data()?.topVendors ?? []).length > 0}
+                                fallback={
+                                    <p class="py-8 text-center text-sm text-zinc-400">No vendor on these entries.</p>
+                                }
+                            >
+                                <div class="divide-y divide-zinc-100">
+                                    <For each={data()?.topVendors}>
+                                        {(vendor) => (
+                                            <A
+                                                href={`/vendors/${vendor.vendor_id}`}
+                                                class="flex justify-between py-2 text-sm hover:bg-zinc-50"
+                                            >
+                                                <span class="text-black">
+                                                    {vendor.name}
+                                                    <span class="text-zinc-400 ml-1">· {vendor.entries}</span>
+                                                </span>
+                                                <span class="tabular-nums font-medium text-black">
+                                                    {toRupees(vendor.total)}
+                                                </span>
+                                            </A>
+                                        )}
+                                    </For>
+                                </div>
+                            </Show>
+                        </Panel>
+
+                        <div class="lg:col-span-2">
+                            <Panel title="Recent entries">
+                                <Show
+                                    when={(data()?.recent ?? []).length > 0}
+                                    fallback={
+                                        <p class="py-8 text-center text-sm text-zinc-400">No entries in this period.</p>
+                                    }
+                                >
+                                    <table class="w-full text-left border-collapse">
+                                        <thead>
+                                            <tr class="border-b border-zinc-100">
+                                                <th class="py-2 text-xs font-bold uppercase tracking-wider text-zinc-500">
+                                                    Date
+                                                </th>
+                                                <th class="py-2 text-xs font-bold uppercase tracking-wider text-zinc-500">
+                                                    Item
+                                                </th>
+                                                <th class="py-2 text-xs font-bold uppercase tracking-wider text-zinc-500">
+                                                    Vendor
+                                                </th>
+                                                <th class="py-2 text-xs font-bold uppercase tracking-wider text-zinc-500">
+                                                    Status
+                                                </th>
+                                                <th class="py-2 text-right text-xs font-bold uppercase tracking-wider text-zinc-500">
+                                                    Amount (₹)
+                                                </th>
+                                            </tr>
+                                        </thead>
+                                        <tbody class="divide-y divide-zinc-100">
+                                            <For each={data()?.recent}>
+                                                {(tx) => (
+                                                    <tr>
+                                                        <td class="py-2 text-sm text-zinc-700 whitespace-nowrap">
+                                                            {formatDate(tx.created_at)}
+                                                        </td>
+                                                        <td class="py-2 text-sm text-black">
+                                                            {tx.entity_name}
+                                                            <Show when={tx.entity_variant}>
+                                                                <span class="text-zinc-400 ml-1">
+                                                                    {tx.entity_variant}
+                                                                </span>
+                                                            </Show>
+                                                        </td>
+                                                        <td class="py-2 text-sm text-zinc-600">
+                                                            {tx.vendor_name ?? '--'}
+                                                        </td>
+                                                        <td class="py-2 text-xs text-zinc-500 capitalize">
+                                                            {tx.payment_status}
+                                                        </td>
+                                                        <td
+                                                            class="py-2 text-right text-sm font-semibold tabular-nums"
+                                                            classList={{
+                                                                'text-black': tx.type === 'credit',
+                                                                'text-orange-600': tx.type === 'debit',
+                                                            }}
+                                                        >
+                                                            {tx.type === 'debit' ? '-' : ''}
+                                                            {toRupees(
+                                                                addMoney(tx.gross_amount, tx.transportation_cost),
+                                                            )}
+                                                        </td>
+                                                    </tr>
+                                                )}
+                                            </For>
+                                        </tbody>
+                                    </table>
+                                </Show>
+                            </Panel>
+                        </div>
+                    </div>
+                </div>
+            </Suspense>
+        </div>
+    );
+}
+
+function SummaryCard(props: { label: string; value: string; note?: string; highlight?: boolean }) {
+    return (
+        <div class="bg-white border border-zinc-200 rounded-2xl p-4">
+            <p class="text-[10px] font-bold uppercase tracking-wide text-zinc-400">{props.label}</p>
+            <p
+                class="mt-1 text-xl font-bold tabular-nums"
+                classList={{ 'text-red-500': !!props.highlight, 'text-black': !props.highlight }}
+            >
+                {props.value}
+            </p>
+            <Show when={props.note}>
+                <p class="text-xs text-zinc-400 tabular-nums">{props.note}</p>
+            </Show>
+        </div>
+    );
+}
+
+function Panel(props: { title: string; children: JSX.Element }) {
     return (
-        <div class="p-4">
-            <h1 class="text-2xl font-bold">Expense Dashboard for Destination: {params.id}</h1>
-            <p>This is a dummy page for showing expenses for a single destination.</p>
+        <div class="bg-white border border-zinc-200 rounded-2xl p-4 shadow-2xl shadow-black/5">
+            <h2 class="mb-3 text-xs font-semibold text-zinc-500 uppercase tracking-wide">{props.title}</h2>
+            {props.children}
         </div>
     );
 }
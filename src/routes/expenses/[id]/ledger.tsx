@@ -1,17 +1,21 @@
-import { action, createAsync, query, redirect, useLocation, useParams } from '@solidjs/router';
-import { and, desc, eq, getViewSelectedFields, sql, gte, lte } from 'drizzle-orm';
+import { A, action, createAsync, query, redirect, useLocation, useParams, useSubmission } from '@solidjs/router';
+import { and, desc, eq, getViewSelectedFields, isNull, sql, gte, lte } from 'drizzle-orm';
 import { createSignal, createEffect, onCleanup, onMount, For, Show, Suspense, useTransition } from 'solid-js';
 import DateRangePicker from '~/components/DateRangePicker';
 import Sheet from '~/components/Sheet';
 import { FormContent } from '~/routes/expenses/new/index';
 import { EditFormContent } from '~/routes/expenses/edit/[id]';
+import { PaymentFormContent } from './payments';
 import { db } from '~/drizzle/client';
-import { Transaction, TransactionDetail } from '~/drizzle/schema';
+import { AdvanceAdjustment, Transaction, TransactionDetail } from '~/drizzle/schema';
 import { Pagination } from '~/components/Pagination';
 import Breadcrumb from '~/components/Breadcrumb';
 import { loadTotalAmount } from './totalAmount';
 import { serializeDateLocal } from '~/utils/dateUtils';
 import { requireAuth } from '~/lib/require-auth';
+import { recordAudit } from '~/lib/audit';
+import { formatMoney, toRupees } from '~/lib/money';
+import { gstLabel } from '~/lib/gst';
 import { createHotkey } from '@tanstack/solid-hotkeys';
 
 export const loadTransactions = query(
@@ -68,9 +72,33 @@ export const loadTransactions = query(
 
 export const deleteTransaction = action(async (formData: FormData) => {
     'use server';
-    await requireAuth(['expense-user']);
+    const session = await requireAuth(['expense-user']);
     const id = formData.get('id') as string;
-    await db.delete(Transaction).where(eq(Transaction.id, id));
+    const refused = await db.transaction(async (tx) => {
+        const [before] = await tx
+            .select()
+            .from(Transaction)
+            .where(and(eq(Transaction.id, id), isNull(Transaction.deleted_at)))
+            .for('update');
+        if (!before) return null;
+        // Bills adjusted against an advance were marked paid from it, so the advance must stay.
+        const [adjusted] = await tx
+            .select({ id: AdvanceAdjustment.id })
+            .from(AdvanceAdjustment)
+            .where(eq(AdvanceAdjustment.advance_id, id))
+            .limit(1);
+        if (adjusted) return 'Bills have been adjusted against this advance, so it cannot be deleted.';
+        const [after] = await tx
+            .update(Transaction)
+            .set({ deleted_at: new Date() })
+            .where(eq(Transaction.id, id))
+            .returning();
+        await recordAudit(tx, session.user, [
+            { table: Transaction, rowId: id, siteId: before.source_id, before, after, action: 'delete' },
+        ]);
+        return null;
+    });
+    if (refused) return { error: refused };
     return redirect(formData.get('redirectUrl') as string, 302);
 });
 
@@ -79,6 +107,7 @@ export default function ExpenseLedgerPage() {
     const location = useLocation();
     const [sheetOpen, setSheetOpen] = createSignal(false);
     const [editingId, setEditingId] = createSignal<string | null>(null);
+    const [paymentOpen, setPaymentOpen] = createSignal(false);
     const [page, setPage] = createSignal(1);
     const [pageSize, setPageSize] = createSignal(10);
     const entityFilter = () => new URLSearchParams(location.search).get('entity') ?? '';
@@ -101,6 +130,7 @@ export default function ExpenseLedgerPage() {
     );
     const totalCount = () => data()?.totalCount ?? 0;
     const [showTotal, setShowTotal] = createSignal(false);
+    const deletion = useSubmission(deleteTransaction);
 
     createHotkey('Control+A', (event) => {
         event.preventDefault();
@@ -121,6 +151,23 @@ export default function ExpenseLedgerPage() {
             <div class="mb-8 flex justify-between items-start">
                 <div>
                     <h1 class="text-3xl font-bold text-black tracking-tight">Expense Ledger</h1>
+                    <div class="flex gap-3">
+                        <A href={`/expenses/${params.id}`} class="text-sm text-blue-600 hover:underline">
+                            Overview
+                        </A>
+                        <A href={`/expenses/${params.id}/payments`} class="text-sm text-blue-600 hover:underline">
+                            View payments
+                        </A>
+                        <A href={`/expenses/${params.id}/advances`} class="text-sm text-blue-600 hover:underline">
+                            Advance statement
+                        </A>
+                        <A href={`/expenses/${params.id}/budget`} class="text-sm text-blue-600 hover:underline">
+                            Budgets
+                        </A>
+                        <A href={`/expenses/${params.id}/deleted`} class="text-sm text-blue-600 hover:underline">
+                            Recently deleted
+                        </A>
+                    </div>
                 </div>
                 <div class="flex gap-4 items-start">
                     <TotalAmountDisplay
@@ -131,6 +178,12 @@ export default function ExpenseLedgerPage() {
                         onShowTotal={() => setShowTotal(true)}
                     />
                     <ExportPanel destinationId={params.id} />
+                    <button
+                        onClick={() => setPaymentOpen(true)}
+                        class="px-4 py-2 bg-white border border-zinc-200 hover:bg-zinc-50 text-black font-semibold text-sm rounded-lg transition-colors shadow-sm"
+                    >
+                        Record Payment
+                    </button>
                     <button
                         onClick={() => setSheetOpen(true)}
                         class="px-4 py-2 bg-black hover:bg-black/80 text-white font-semibold text-sm rounded-lg transition-colors flex items-center gap-2 shadow-sm"
@@ -284,8 +337,13 @@ export default function ExpenseLedgerPage() {
                 class="bg-white border border-zinc-200 rounded-2xl overflow-hidden shadow-2xl shadow-black/5 transition-opacity"
                 classList={{ 'opacity-50': isPending() }}
             >
+                <Show when={deletion.result?.error}>
+                    <div class="px-6 py-3 bg-red-500/10 border-b border-red-500/10 text-sm text-red-600">
+                        {deletion.result?.error}
+                    </div>
+                </Show>
                 <div class="overflow-x-auto">
-                    <table class="min-w-[1300px] w-full text-left border-collapse">
+                    <table class="min-w-[1800px] w-full text-left border-collapse">
                         <thead>
                             <tr class="border-b border-zinc-200 bg-zinc-50">
                                 <th class="py-3 px-3 text-xs font-bold uppercase tracking-wider text-zinc-600 sticky left-0 bg-zinc-50 z-10">
@@ -303,11 +361,23 @@ export default function ExpenseLedgerPage() {
                                     Quantity
                                 </th>
                                 <th class="py-3 px-3 text-right text-xs font-bold uppercase tracking-wider text-zinc-600 min-w-[130px]">
-                                    Amount (₹)
+                                    Taxable (₹)
+                                </th>
+                                <th class="py-3 px-3 text-right text-xs font-bold uppercase tracking-wider text-zinc-600 min-w-[120px]">
+                                    GST (₹)
+                                </th>
+                                <th class="py-3 px-3 text-right text-xs font-bold uppercase tracking-wider text-zinc-600 min-w-[130px]">
+                                    Gross (₹)
                                 </th>
                                 <th class="py-3 px-3 text-xs font-bold uppercase tracking-wider text-zinc-600">
                                     Payment
                                 </th>
+                                <th class="py-3 px-3 text-right text-xs font-bold uppercase tracking-wider text-zinc-600 min-w-[120px]">
+                                    Settled (₹)
+                                </th>
+                                <th class="py-3 px-3 text-right text-xs font-bold uppercase tracking-wider text-zinc-600 min-w-[130px]">
+                                    Outstanding (₹)
+                                </th>
                                 <th class="py-3 px-3 text-xs font-bold uppercase tracking-wider text-zinc-600">
                                     Vehicle
                                 </th>
@@ -344,24 +414,59 @@ export default function ExpenseLedgerPage() {
                                                     </td>
                                                     <td class="py-3 px-3 text-sm text-black font-medium whitespace-nowrap">
                                                         {tx.entity_name}
+                                                        <Show when={tx.vendor_id}>
+                                                            <A
+                                                                href={`/vendors/${tx.vendor_id}`}
+                                                                class="block text-xs font-normal text-zinc-500 hover:underline"
+                                                            >
+                                                                {tx.vendor_name}
+                                                            </A>
+                                                        </Show>
                                                     </td>
                                                     <td class="py-3 px-3 text-sm text-zinc-600 whitespace-nowrap">
                                                         {tx.entity_variant || '--'}
                                                     </td>
                                                     <td class="py-3 px-3 text-right text-sm text-zinc-700 whitespace-nowrap tabular-nums">
-                                                        {Number(tx.rate).toFixed(2)}
+                                                        {toRupees(tx.rate)}
                                                     </td>
                                                     <td class="py-3 px-3 text-right text-sm text-zinc-700 whitespace-nowrap tabular-nums">
                                                         {Number(tx.quantity).toFixed(2)} {tx.entity_unit}
                                                     </td>
+                                                    <td class="py-3 px-3 text-right text-sm text-zinc-700 whitespace-nowrap tabular-nums">
+                                                        {toRupees(tx.amount)}
+                                                    </td>
+                                                    <td class="py-3 px-3 text-right text-sm text-zinc-700 whitespace-nowrap tabular-nums">
+                                                        <Show when={tx.tax_amount} fallback="--">
+                                                            {toRupees(tx.tax_amount)}
+                                                            <span class="block text-[10px] text-zinc-400">
+                                                                {gstLabel(tx.gst_rate ?? 0, tx.igst ? 'inter' : 'intra')}
+                                                            </span>
+                                                        </Show>
+                                                    </td>
                                                     <td class="py-3 px-3 text-right text-sm text-black font-semibold whitespace-nowrap tabular-nums">
-                                                        {Number(tx.amount).toFixed(2)}
+                                                        {toRupees(tx.gross_amount)}
                                                     </td>
                                                     <td class="py-3 px-3 text-sm whitespace-nowrap">
                                                         <span class="px-2 py-0.5 text-xs font-medium rounded-full bg-blue-50 text-blue-700">
                                                             {tx.payment_status}
                                                         </span>
                                                     </td>
+                                                    <td class="py-3 px-3 text-right text-sm text-zinc-700 whitespace-nowrap tabular-nums">
+                                                        {tx.settled_amount ? toRupees(tx.settled_amount) : '--'}
+                                                    </td>
+                                                    <td
+                                                        class="py-3 px-3 text-right text-sm whitespace-nowrap tabular-nums"
+                                                        classList={{
+                                                            'text-red-600 font-semibold':
+                                                                tx.payment_status !== 'paid' && (tx.outstanding_amount ?? 0) > 0,
+                                                            'text-zinc-400':
+                                                                tx.payment_status === 'paid' || !tx.outstanding_amount,
+                                                        }}
+                                                    >
+                                                        {tx.payment_status !== 'paid' && tx.outstanding_amount
+                                                            ? toRupees(tx.outstanding_amount)
+                                                            : '--'}
+                                                    </td>
                                                     <td class="py-3 px-3 text-sm text-zinc-600 whitespace-nowrap">
                                                         {tx.vehicle_type || '--'}
                                                     </td>
@@ -369,12 +474,16 @@ export default function ExpenseLedgerPage() {
                                                         {tx.reg_no || '--'}
                                                     </td>
                                                     <td class="py-3 px-3 text-right text-sm text-zinc-700 whitespace-nowrap tabular-nums">
-                                                        {tx.transportation_cost
-                                                            ? Number(tx.transportation_cost).toFixed(2)
-                                                            : '--'}
+                                                        {tx.transportation_cost ? toRupees(tx.transportation_cost) : '--'}
                                                     </td>
                                                     <td class="py-3 px-3 text-right sticky right-0 bg-white group-hover:bg-zinc-50/80 z-10">
                                                         <div class="flex items-center justify-end gap-3">
+                                                            <a
+                                                                href={`/api/vouchers/${tx.id}`}
+                                                                class="text-xs font-semibold text-zinc-500 hover:text-black"
+                                                            >
+                                                                Voucher
+                                                            </a>
                                                             <button
                                                                 onClick={() => setEditingId(tx.id)}
                                                                 class="text-xs font-semibold text-blue-500 hover:text-blue-700"
@@ -430,6 +539,21 @@ export default function ExpenseLedgerPage() {
                 </Show>
             </Sheet>
 
+            {/* Record Payment Sheet */}
+            <Sheet open={paymentOpen()} onClose={() => setPaymentOpen(false)} title="Record Payment">
+                <Show when={paymentOpen()}>
+                    <Suspense fallback={<SheetSkeleton />}>
+                        <PaymentFormContent
+                            siteId={params.id}
+                            onSuccess={() => {
+                                setPaymentOpen(false);
+                                setShowTotal(false);
+                            }}
+                        />
+                    </Suspense>
+                </Show>
+            </Sheet>
+
             {/* Edit Expense Sheet */}
             <Sheet open={editingId() !== null} onClose={() => setEditingId(null)} title="Edit Expense">
                 <Show when={editingId()}>
@@ -479,7 +603,7 @@ const SheetSkeleton = () => (
 
 const EmptyState = () => (
     <tr>
-        <td colspan={13} class="text-center py-12 text-sm text-zinc-400">
+        <td colspan={17} class="text-center py-12 text-sm text-zinc-400">
             No expense transactions found.
         </td>
     </tr>
@@ -510,6 +634,12 @@ const TableSkeleton = () => (
                 <td class="py-3.5 px-3">
                     <div class="h-4 bg-zinc-100 rounded w-14"></div>
                 </td>
+                <td class="py-3.5 px-3">
+                    <div class="h-4 bg-zinc-100 rounded w-12"></div>
+                </td>
+                <td class="py-3.5 px-3">
+                    <div class="h-4 bg-zinc-100 rounded w-16"></div>
+                </td>
                 <td class="py-3.5 px-3">
                     <div class="h-4 bg-zinc-100 rounded w-18"></div>
                 </td>
@@ -528,6 +658,12 @@ const TableSkeleton = () => (
                 <td class="py-3.5 px-3">
                     <div class="h-4 bg-zinc-100 rounded w-12"></div>
                 </td>
+                <td class="py-3.5 px-3">
+                    <div class="h-4 bg-zinc-100 rounded w-16"></div>
+                </td>
+                <td class="py-3.5 px-3">
+                    <div class="h-4 bg-zinc-100 rounded w-16"></div>
+                </td>
             </tr>
         )}
     </For>
@@ -551,6 +687,8 @@ function ExportPanel(props: ExportPanelProps) {
     const [toDate, setToDate] = createSignal('');
     const [dlLoading, setDlLoading] = createSignal(false);
     const [wkLoading, setWkLoading] = createSignal(false);
+    const [stLoading, setStLoading] = createSignal(false);
+    const [xlLoading, setXlLoading] = createSignal(false);
     const [error, setError] = createSignal('');
     let containerRef!: HTMLDivElement;
 
@@ -597,6 +735,17 @@ function ExportPanel(props: ExportPanelProps) {
         triggerDownload(url, `weekly-report-${fromDate()}-to-${toDate()}.csv`, setWkLoading);
     };
 
+    const handleWorkbook = (report: 'simple' | 'weekly') => {
+        const url = `/api/expenses/${props.destinationId}/export?format=xlsx&report=${report}&from=${fromDate()}&to=${toDate()}`;
+        const name = report === 'weekly' ? 'weekly-report' : 'expenses';
+        triggerDownload(url, `${name}-${fromDate()}-to-${toDate()}.xlsx`, setXlLoading);
+    };
+
+    const handleStatement = () => {
+        const url = `/api/expenses/${props.destinationId}/statement?from=${fromDate()}&to=${toDate()}`;
+        triggerDownload(url, `statement-${fromDate()}-to-${toDate()}.pdf`, setStLoading);
+    };
+
     return (
         <div ref={containerRef} class="relative">
             {/* Trigger */}
@@ -769,6 +918,34 @@ function ExportPanel(props: ExportPanelProps) {
                             {dlLoading() ? 'Downloading...' : 'Download'}
                         </button>
                     </div>
+                    <div class="bg-zinc-50 px-4 pb-3 flex gap-2">
+                        <button
+                            onClick={() => handleWorkbook('weekly')}
+                            disabled={!datesValid() || xlLoading()}
+                            class="flex-1 px-3 py-2 bg-white border border-zinc-200 hover:border-zinc-300 disabled:opacity-40 disabled:cursor-not-allowed text-black text-xs font-semibold rounded-lg transition-colors"
+                            title="Weekly pending pivot, all transactions and transport costs"
+                        >
+                            Weekly (Excel)
+                        </button>
+                        <button
+                            onClick={() => handleWorkbook('simple')}
+                            disabled={!datesValid() || xlLoading()}
+                            class="flex-1 px-3 py-2 bg-white border border-zinc-200 hover:border-zinc-300 disabled:opacity-40 disabled:cursor-not-allowed text-black text-xs font-semibold rounded-lg transition-colors"
+                            title="Daily pivot, all transactions and transport costs"
+                        >
+                            {xlLoading() ? 'Generating...' : 'Excel'}
+                        </button>
+                    </div>
+                    <div class="bg-zinc-50 px-4 pb-3">
+                        <button
+                            onClick={handleStatement}
+                            disabled={!datesValid() || stLoading()}
+                            class="w-full px-3 py-2 bg-white border border-zinc-200 hover:border-zinc-300 disabled:opacity-40 disabled:cursor-not-allowed text-black text-xs font-semibold rounded-lg transition-colors"
+                            title="Opening balance, entries and closing balance"
+                        >
+                            {stLoading() ? 'Generating...' : 'Statement (PDF)'}
+                        </button>
+                    </div>
                 </div>
             </Show>
         </div>
@@ -794,7 +971,13 @@ function TotalAmountDisplay(props: TotalAmountDisplayProps) {
                 }
             >
                 <Suspense fallback={<div class="text-2xl font-bold text-black animate-pulse">₹...</div>}>
-                    <span class="text-2xl font-bold text-black">₹{Number(totalAmount() ?? 0).toFixed(2)}</span>
+                    <span class="text-2xl font-bold text-black">
+                        {formatMoney(totalAmount()?.gross, { symbol: '₹' })}
+                    </span>
+                    <p class="text-xs text-zinc-500 tabular-nums">
+                        Taxable {formatMoney(totalAmount()?.taxable, { symbol: '₹' })} + GST{' '}
+                        {formatMoney(totalAmount()?.tax, { symbol: '₹' })}
+                    </p>
                 </Suspense>
             </Show>
         </div>
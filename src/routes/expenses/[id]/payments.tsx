@@ -0,0 +1,349 @@
+import { action, createAsync, query, useParams, useSubmission } from '@solidjs/router';
+import { and, asc, desc, eq, gt, inArray, sql } from 'drizzle-orm';
+import { createEffect, createMemo, createSignal, For, Show, Suspense } from 'solid-js';
+import { db } from '~/drizzle/client';
+import { Destination, Payment, PaymentAllocation, PaymentMode, TransactionDetail } from '~/drizzle/schema';
+import { SelectInput, TextInput } from '~/components/form';
+import Breadcrumb from '~/components/Breadcrumb';
+import Sheet from '~/components/Sheet';
+import { requireAuth } from '~/lib/require-auth';
+import { addMoney, formatMoney, parseMoney, toRupees } from '~/lib/money';
+import { recordPayment, SettlementError } from '~/lib/settlement';
+
+export const PAYMENT_MODE_LABELS: Record<(typeof PaymentMode)[number], string> = {
+    cash: 'Cash',
+    upi: 'UPI',
+    cheque: 'Cheque',
+    bank_transfer: 'Bank transfer',
+    auto: 'Auto-settle',
+};
+
+// --- QUERIES & ACTIONS ---
+
+export const loadPayments = query(async (siteId: string) => {
+    'use server';
+
+    const [payments, site] = await Promise.all([
+        db
+            .select({
+                id: Payment.id,
+                paid_at: Payment.paid_at,
+                amount: Payment.amount,
+                mode: Payment.mode,
+                reference_no: Payment.reference_no,
+                note: Payment.note,
+                entries: sql<number>`COUNT(${PaymentAllocation.id})`.mapWith(Number),
+            })
+            .from(Payment)
+            .leftJoin(PaymentAllocation, eq(PaymentAllocation.payment_id, Payment.id))
+            .where(eq(Payment.site_id, siteId))
+            .groupBy(Payment.id)
+            .orderBy(desc(Payment.paid_at)),
+        db
+            .select({ name: Destination.name })
+            .from(Destination)
+            .where(eq(Destination.id, siteId))
+            .then((rows) => rows[0]?.name ?? 'Unknown'),
+    ]);
+
+    return { payments, site };
+}, 'site-payments');
+
+export const loadOutstandingEntries = query(async (siteId: string) => {
+    'use server';
+
+    return db
+        .select({
+            id: TransactionDetail.id,
+            created_at: TransactionDetail.created_at,
+            entity_name: TransactionDetail.entity_name,
+            entity_variant: TransactionDetail.entity_variant,
+            payment_status: TransactionDetail.payment_status,
+            outstanding_amount: TransactionDetail.outstanding_amount,
+        })
+        .from(TransactionDetail)
+        .where(
+            and(
+                eq(TransactionDetail.source_id, siteId),
+                inArray(TransactionDetail.payment_status, ['pending', 'advance']),
+                gt(TransactionDetail.outstanding_amount, 0),
+            ),
+        )
+        .orderBy(asc(TransactionDetail.created_at))
+        .then((rows) => rows.map((r) => ({ ...r, id: r.id ?? '' })));
+}, 'site-outstanding-entries');
+
+export const createPayment = action(async (formData: FormData) => {
+    'use server';
+    await requireAuth(['expense-user']);
+
+    const getStringField = (key: string) => (formData.get(key) as string)?.trim() ?? '';
+
+    const siteId = getStringField('site_id');
+    const amount = parseMoney(getStringField('amount'));
+    const mode = getStringField('mode') as (typeof PaymentMode)[number];
+    const dateStr = getStringField('date');
+    const transactionIds = formData.getAll('transaction_id').map(String).filter(Boolean);
+
+    if (!siteId || !dateStr) return { error: 'Missing required fields.' };
+    if (amount === null || amount <= 0) return { error: 'Amount must be a positive number.' };
+    if (!PaymentMode.includes(mode) || mode === 'auto') return { error: 'Invalid payment mode.' };
+    if (transactionIds.length === 0) return { error: 'Select at least one entry to settle.' };
+
+    try {
+        await db.transaction((tx) =>
+            recordPayment(tx, {
+                siteId,
+                amount,
+                mode,
+                referenceNo: getStringField('reference_no'),
+                note: getStringField('note'),
+                paidAt: new Date(dateStr),
+                transactionIds,
+            }),
+        );
+        return { success: true };
+    } catch (error: unknown) {
+        if (error instanceof SettlementError) return { error: error.message };
+        console.error(error);
+        return { error: 'Failed to record payment.' };
+    }
+});
+
+// --- FORM CONTENT ---
+
+type PaymentFormContentProps = {
+    siteId: string;
+    onSuccess?: () => void;
+};
+
+export function PaymentFormContent(props: PaymentFormContentProps) {
+    const entries = createAsync(() => loadOutstandingEntries(props.siteId));
+    const submission = useSubmission(createPayment);
+
+    let prevResult = submission.result;
+    createEffect(() => {
+        const result = submission.result as any;
+        if (result !== prevResult && result?.success === true) {
+            prevResult = result;
+            props.onSuccess?.();
+        }
+    });
+
+    const [deselected, setDeselected] = createSignal<Set<string>>(new Set());
+    const toggle = (id: string) => {
+        const next = new Set(deselected());
+        next.has(id) ? next.delete(id) : next.add(id);
+        setDeselected(next);
+    };
+
+    const selected = createMemo(() => (entries() ?? []).filter((e) => !deselected().has(e.id)));
+    const selectedTotal = createMemo(() => addMoney(...selected().map((e) => e.outstanding_amount)));
+
+    const [amount, setAmount] = createSignal('');
+    const remainingAfter = createMemo(() => selectedTotal() - (parseMoney(amount()) ?? 0));
+
+    const today = () => new Date().toISOString().split('T')[0];
+
+    return (
+        <form action={createPayment} method="post" class="space-y-8">
+            <input type="hidden" name="site_id" value={props.siteId} />
+
+            <div class="space-y-5">
+                <div class="grid grid-cols-1 md:grid-cols-2 gap-4">
+                    <TextInput name="date" label="Payment Date" type="date" value={today()} required />
+                    <TextInput
+                        name="amount"
+                        label="Amount (₹)"
+                        type="number"
+                        step="0.01"
+                        value={amount()}
+                        onInput={(e) => setAmount(e.currentTarget.value)}
+                        required
+                    />
+                </div>
+                <div class="grid grid-cols-1 md:grid-cols-2 gap-4">
+                    <SelectInput name="mode" label="Mode" required>
+                        <For each={PaymentMode.filter((m) => m !== 'auto')}>
+                            {(mode) => <option value={mode}>{PAYMENT_MODE_LABELS[mode]}</option>}
+                        </For>
+                    </SelectInput>
+                    <TextInput name="reference_no" label="Reference No." placeholder="UTR / cheque no." />
+                </div>
+                <TextInput name="note" label="Note (Optional)" />
+            </div>
+
+            <div class="w-full h-px bg-zinc-200 border-t border-dashed" />
+
+            <div class="space-y-3">
+                <div class="flex items-center justify-between">
+                    <h2 class="text-xs font-semibold text-zinc-500 uppercase tracking-wide">Settle Against</h2>
+                    <button
+                        type="button"
+                        class="text-xs font-semibold text-blue-600 hover:underline"
+                        onClick={() => setAmount(toRupees(selectedTotal()))}
+                    >
+                        Pay full {formatMoney(selectedTotal(), { symbol: '₹' })}
+                    </button>
+                </div>
+                <p class="text-[11px] text-zinc-400">Allocated oldest first. A partial amount leaves the rest outstanding.</p>
+                <Suspense fallback={<div class="h-24 bg-zinc-100 rounded-xl animate-pulse" />}>
+                    <Show
+                        when={(entries() ?? []).length > 0}
+                        fallback={<p class="text-sm text-zinc-400 py-6 text-center">Nothing outstanding for this site.</p>}
+                    >
+                        <div class="border border-zinc-200 rounded-xl divide-y divide-zinc-100 max-h-80 overflow-y-auto">
+                            <For each={entries()}>
+                                {(entry) => (
+                                    <label class="flex items-center gap-3 px-3 py-2.5 text-sm cursor-pointer hover:bg-zinc-50">
+                                        <input
+                                            type="checkbox"
+                                            name="transaction_id"
+                                            value={entry.id}
+                                            checked={!deselected().has(entry.id)}
+                                            onChange={() => toggle(entry.id)}
+                                            class="h-4 w-4 rounded border-gray-300 text-black focus:ring-black/50"
+                                        />
+                                        <span class="text-zinc-500 tabular-nums w-20 shrink-0">
+                                            {entry.created_at ? new Date(entry.created_at).toLocaleDateString() : '--'}
+                                        </span>
+                                        <span class="flex-1 truncate text-black">
+                                            {entry.entity_name}
+                                            <Show when={entry.entity_variant}>
+                                                <span class="text-zinc-400 ml-1">{entry.entity_variant}</span>
+                                            </Show>
+                                        </span>
+                                        <span class="text-xs text-zinc-400">{entry.payment_status}</span>
+                                        <span class="tabular-nums font-medium text-black">
+                                            {toRupees(entry.outstanding_amount)}
+                                        </span>
+                                    </label>
+                                )}
+                            </For>
+                        </div>
+                    </Show>
+                </Suspense>
+                <div class="flex justify-between text-sm">
+                    <span class="text-zinc-500">Remaining after payment</span>
+                    <span
+                        class="font-semibold tabular-nums"
+                        classList={{ 'text-red-500': remainingAfter() < 0, 'text-black': remainingAfter() >= 0 }}
+                    >
+                        {formatMoney(remainingAfter(), { symbol: '₹' })}
+                    </span>
+                </div>
+            </div>
+
+            <Show when={submission.result?.error}>
+                <div class="p-3 bg-red-500/10 border border-red-500/20 rounded-lg text-xs text-red-500 font-medium">
+                    {submission.result?.error}
+                </div>
+            </Show>
+
+            <div class="sticky bottom-0 bg-white -mx-5 px-5 pt-4 pb-4 border-t border-zinc-100">
+                <button
+                    type="submit"
+                    disabled={submission.pending || selected().length === 0}
+                    class="w-full bg-black hover:bg-black/90 disabled:opacity-50 text-white font-bold text-sm rounded-xl py-4 transition-all"
+                >
+                    {submission.pending ? 'Saving...' : 'Record Payment'}
+                </button>
+            </div>
+        </form>
+    );
+}
+
+// --- PAGE ---
+
+export default function SitePaymentsPage() {
+    const params = useParams<{ id: string }>();
+    const data = createAsync(() => loadPayments(params.id));
+    const [sheetOpen, setSheetOpen] = createSignal(false);
+
+    return (
+        <div class="w-full mx-auto px-4 py-12">
+            <div class="mb-4">
+                <Breadcrumb
+                    items={[
+                        { label: 'All sites', href: '/sites' },
+                        { label: data()?.site ?? 'Site', href: `/expenses/${params.id}/ledger` },
+                        { label: 'Payments' },
+                    ]}
+                />
+            </div>
+            <div class="mb-8 flex justify-between items-start">
+                <h1 class="text-3xl font-bold text-black tracking-tight">Payments</h1>
+                <button
+                    onClick={() => setSheetOpen(true)}
+                    class="px-4 py-2 bg-black hover:bg-black/80 text-white font-semibold text-sm rounded-lg transition-colors shadow-sm"
+                >
+                    + Record Payment
+                </button>
+            </div>
+
+            <div class="bg-white border border-zinc-200 rounded-2xl overflow-hidden shadow-2xl shadow-black/5">
+                <table class="w-full text-left border-collapse">
+                    <thead>
+                        <tr class="border-b border-zinc-200 bg-zinc-50">
+                            <th class="py-3 px-3 text-xs font-bold uppercase tracking-wider text-zinc-600">Date</th>
+                            <th class="py-3 px-3 text-xs font-bold uppercase tracking-wider text-zinc-600">Mode</th>
+                            <th class="py-3 px-3 text-xs font-bold uppercase tracking-wider text-zinc-600">Reference</th>
+                            <th class="py-3 px-3 text-xs font-bold uppercase tracking-wider text-zinc-600">Note</th>
+                            <th class="py-3 px-3 text-right text-xs font-bold uppercase tracking-wider text-zinc-600">
+                                Entries
+                            </th>
+                            <th class="py-3 px-3 text-right text-xs font-bold uppercase tracking-wider text-zinc-600">
+                                Amount (₹)
+                            </th>
+                        </tr>
+                    </thead>
+                    <tbody class="divide-y divide-zinc-100">
+                        <Suspense>
+                            <Show
+                                when={(data()?.payments ?? []).length > 0}
+                                fallback={
+                                    <tr>
+                                        <td colspan={6} class="text-center py-12 text-sm text-zinc-400">
+                                            No payments recorded yet.
+                                        </td>
+                                    </tr>
+                                }
+                            >
+                                <For each={data()?.payments}>
+                                    {(payment) => (
+                                        <tr class="hover:bg-zinc-50/80">
+                                            <td class="py-3 px-3 text-sm text-zinc-700 whitespace-nowrap">
+                                                {new Date(payment.paid_at).toLocaleDateString()}
+                                            </td>
+                                            <td class="py-3 px-3 text-sm whitespace-nowrap">
+                                                <span class="px-2 py-0.5 text-xs font-medium rounded-full bg-blue-50 text-blue-700">
+                                                    {PAYMENT_MODE_LABELS[payment.mode]}
+                                                </span>
+                                            </td>
+                                            <td class="py-3 px-3 text-sm text-zinc-600">{payment.reference_no || '--'}</td>
+                                            <td class="py-3 px-3 text-sm text-zinc-600">{payment.note || '--'}</td>
+                                            <td class="py-3 px-3 text-right text-sm text-zinc-700 tabular-nums">
+                                                {payment.entries}
+                                            </td>
+                                            <td class="py-3 px-3 text-right text-sm text-black font-semibold tabular-nums">
+                                                {toRupees(payment.amount)}
+                                            </td>
+                                        </tr>
+                                    )}
+                                </For>
+                            </Show>
+                        </Suspense>
+                    </tbody>
+                </table>
+            </div>
+
+            <Sheet open={sheetOpen()} onClose={() => setSheetOpen(false)} title="Record Payment">
+                <Show when={sheetOpen()}>
+                    <Suspense>
+                        <PaymentFormContent siteId={params.id} onSuccess={() => setSheetOpen(false)} />
+                    </Suspense>
+                </Show>
+            </Sheet>
+        </div>
+    );
+}
@@ -1,7 +1,8 @@
 import { query } from '@solidjs/router';
-import { eq, sql, and, gte, lte } from 'drizzle-orm';
+import { eq, sql, and, gte, lte, isNull } from 'drizzle-orm';
 import { db } from '~/drizzle/client';
 import { Transaction, TransportationCost } from '~/drizzle/schema';
+import { addMoney } from '~/lib/money';
 
 export const loadTotalAmount = query(
     async (
@@ -30,22 +31,28 @@ export const loadTotalAmount = query(
 
         const baseFilter = and(
             eq(Transaction.source_id, dest),
+            isNull(Transaction.deleted_at),
             dateFilter
         );
 
-        const totalAmount = await db
+        const sign = sql`CASE WHEN ${Transaction.type} = 'credit' THEN 1 ELSE -1 END`;
+
+        // Integer paise; SUM(bigint) comes back as a numeric string.
+        // Transport is not taxed, so it counts towards the taxable side.
+        const [totals] = await db
             .select({
-                total: sql<number>`SUM(
-                    CASE WHEN ${Transaction.type} = 'credit' THEN 1 ELSE -1 END
-                    * (COALESCE(${Transaction.amount}, 0) + COALESCE(${TransportationCost.cost}, 0))
-                )`,
+                taxable: sql<number>`COALESCE(SUM(
+                    ${sign} * (COALESCE(${Transaction.amount}, 0) + COALESCE(${TransportationCost.cost}, 0))
+                ), 0)`.mapWith(Number),
+                tax: sql<number>`COALESCE(SUM(
+                    ${sign} * (${Transaction.cgst} + ${Transaction.sgst} + ${Transaction.igst})
+                ), 0)`.mapWith(Number),
             })
             .from(Transaction)
             .leftJoin(TransportationCost, eq(Transaction.transportation_cost_id, TransportationCost.id))
-            .where(baseFilter)
-            .then((rows) => rows[0].total);
+            .where(baseFilter);
 
-        return totalAmount;
+        return { ...totals, gross: addMoney(totals.taxable, totals.tax) };
     },
     'total-expense-amount'
 );
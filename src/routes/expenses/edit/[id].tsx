@@ -1,13 +1,28 @@
-import { createEffect, createMemo, createSignal, For, Show, Suspense } from 'solid-js';
+import { createEffect, createMemo, createSignal, For, on, Show, Suspense } from 'solid-js';
 import { action, createAsync, query, redirect, useParams, useSearchParams, useSubmission } from '@solidjs/router';
-import { eq } from 'drizzle-orm';
+import { and, eq, isNull, or } from 'drizzle-orm';
 import { db } from '~/drizzle/client';
-import { Entity, Destination, PaymentStatus, TransportationCost, Transaction, EntityVariant } from '~/drizzle/schema';
+import {
+    AdvanceAdjustment,
+    Entity,
+    Destination,
+    PaymentAllocation,
+    PaymentStatus,
+    TransportationCost,
+    Transaction,
+    EntityVariant,
+} from '~/drizzle/schema';
 import { SelectInput, TextInput } from '~/components/form';
 import { VirtualizedCombobox } from '~/components/VirtualizedCombobox';
-import { getFormData } from '../new/index';
+import { getFormData, GstFields, knownVehicleType, VehicleOptions } from '../new/index';
 import { serializeDateLocal } from '~/utils/dateUtils';
 import { requireAuth } from '~/lib/require-auth';
+import { multiplyMoney, parseMoney, toRupees } from '~/lib/money';
+import { computeGst, isGstRate, parseGstFields, type GstRate, type GstSupply } from '~/lib/gst';
+import { recordAudit, type AuditEntry } from '~/lib/audit';
+import { checkEntryDateOnServer } from '~/lib/entry-date';
+import { resolveVehicle } from '~/lib/transport';
+import { SettlementError, settleTransport } from '~/lib/settlement';
 
 export const loadTransaction = query(async (id: string) => {
     'use server';
@@ -18,16 +33,20 @@ export const loadTransaction = query(async (id: string) => {
                 entity_id: Transaction.entity_id,
                 entity_variant_id: Transaction.entity_variant_id,
                 source_id: Transaction.source_id,
+                vendor_id: Transaction.vendor_id,
                 type: Transaction.type,
                 payment_status: Transaction.payment_status,
                 transportation_cost_id: Transaction.transportation_cost_id,
                 quantity: Transaction.quantity,
                 rate: Transaction.rate,
                 amount: Transaction.amount,
+                gst_rate: Transaction.gst_rate,
+                igst: Transaction.igst,
                 created_at: Transaction.created_at,
                 vehicle_type: TransportationCost.vehicle_type,
                 reg_no: TransportationCost.reg_no,
                 transportation_cost: TransportationCost.cost,
+                load_tonnes: TransportationCost.load_tonnes,
             })
             .from(Transaction)
             .leftJoin(TransportationCost, eq(Transaction.transportation_cost_id, TransportationCost.id))
@@ -39,7 +58,7 @@ export const loadTransaction = query(async (id: string) => {
 
 export const updateExpense = action(async (formData: FormData) => {
     'use server';
-    await requireAuth(['expense-user']);
+    const session = await requireAuth(['expense-user']);
 
     const getStringField = (key: string) => (formData.get(key) as string)?.trim() ?? '';
     const getNumericField = (key: string) => {
@@ -52,44 +71,113 @@ export const updateExpense = action(async (formData: FormData) => {
     const entityId = getStringField('entity_id');
     const entityVariantId = getStringField('entity_variant_id');
     const quantity = getNumericField('quantity');
-    const rate = getNumericField('rate');
+    const rate = parseMoney(getStringField('rate'));
     const paymentStatus = getStringField('payment_status') as (typeof PaymentStatus)[number];
     const sourceId = getStringField('source_id');
+    const vendorId = getStringField('vendor_id');
     const transactionType = getStringField('transaction_type') as 'credit' | 'debit';
     const dateStr = getStringField('date');
     const addTransportationCost = getBooleanField('add_transportation_cost');
     const existingTransportationCostId = getStringField('existing_transportation_cost_id');
     const redirectUrl = getStringField('redirect_url');
+    const gst = parseGstFields(getStringField('gst_rate'), getStringField('gst_supply'));
+    const loadTonnes = addTransportationCost ? getNumericField('load_tonnes') : null;
+    const transportationCostAmount = addTransportationCost ? parseMoney(getStringField('transportation_cost')) : null;
 
     if (!transactionId || !entityId || !paymentStatus || !sourceId)
         return { error: 'Missing required fields.' };
     if (transactionType !== 'credit' && transactionType !== 'debit') return { error: 'Invalid transaction type.' };
     if (quantity === null || quantity <= 0) return { error: 'Quantity must be a positive number.' };
     if (rate === null || rate < 0) return { error: 'Rate must be a positive number or zero.' };
+    if (!gst) return { error: 'Invalid GST rate.' };
+    if (loadTonnes !== null && !(loadTonnes > 0)) return { error: 'Load must be a positive number of tonnes.' };
+    if (dateStr) {
+        const dateError = checkEntryDateOnServer(dateStr);
+        if (dateError) return { error: dateError };
+    }
 
-    const amount = quantity * rate;
+    const amount = multiplyMoney(rate, quantity);
+    const { cgst, sgst, igst } = computeGst(amount, gst.rate, gst.supply);
 
     try {
         await db.transaction(async (tx) => {
             let transportationCostId: string | null = null;
+            const audit: AuditEntry[] = [];
+
+            const [before] = await tx
+                .select()
+                .from(Transaction)
+                .where(and(eq(Transaction.id, transactionId), isNull(Transaction.deleted_at)))
+                .for('update');
+            if (!before) throw new Error(`Transaction ${transactionId} not found`);
+
+            // Payments and advance adjustments were made against the entry as it stands; only
+            // its description may change underneath them.
+            const [settled] = await tx
+                .select({ id: PaymentAllocation.id })
+                .from(PaymentAllocation)
+                .where(eq(PaymentAllocation.transaction_id, transactionId))
+                .union(
+                    tx
+                        .select({ id: AdvanceAdjustment.id })
+                        .from(AdvanceAdjustment)
+                        .where(
+                            or(
+                                eq(AdvanceAdjustment.transaction_id, transactionId),
+                                eq(AdvanceAdjustment.advance_id, transactionId),
+                            ),
+                        ),
+                )
+                .limit(1);
+            if (settled) {
+                const [transportBefore] = before.transportation_cost_id
+                    ? await tx
+                          .select({ cost: TransportationCost.cost })
+                          .from(TransportationCost)
+                          .where(eq(TransportationCost.id, before.transportation_cost_id))
+                    : [];
+                const transportAfter =
+                    transportationCostAmount !== null && transportationCostAmount > 0 ? transportationCostAmount : null;
+                const changed =
+                    before.amount !== amount ||
+                    before.cgst !== cgst ||
+                    before.sgst !== sgst ||
+                    before.igst !== igst ||
+                    (transportBefore?.cost ?? null) !== transportAfter ||
+                    before.type !== transactionType ||
+                    before.source_id !== sourceId ||
+                    before.payment_status !== paymentStatus;
+                if (changed) {
+                    throw new SettlementError(
+                        'Payments or advances are recorded against this entry, so its amount, type, site and payment status cannot be changed.',
+                    );
+                }
+            }
+            const [tcBefore] = existingTransportationCostId
+                ? await tx.select().from(TransportationCost).where(eq(TransportationCost.id, existingTransportationCostId))
+                : [];
 
             if (addTransportationCost) {
                 const vehicleType = getStringField('vehicle_type');
                 const regNo = getStringField('reg_no');
-                const transportationCostAmount = getNumericField('transportation_cost');
 
                 if (transportationCostAmount !== null && transportationCostAmount > 0) {
+                    const vehicleId = await resolveVehicle(tx, { regNo, vehicleType });
                     if (existingTransportationCostId) {
-                        await tx
+                        const [tc] = await tx
                             .update(TransportationCost)
                             .set({
                                 entity_id: entityId,
                                 vehicle_type: vehicleType,
                                 reg_no: regNo,
-                                cost: String(transportationCostAmount),
+                                vehicle_id: vehicleId,
+                                cost: transportationCostAmount,
+                                load_tonnes: loadTonnes === null ? null : String(loadTonnes),
                             })
-                            .where(eq(TransportationCost.id, existingTransportationCostId));
+                            .where(eq(TransportationCost.id, existingTransportationCostId))
+                            .returning();
                         transportationCostId = existingTransportationCostId;
+                        audit.push({ table: TransportationCost, rowId: tc.id, siteId: sourceId, before: tcBefore, after: tc });
                     } else {
                         const [tc] = await tx
                             .insert(TransportationCost)
@@ -97,31 +185,45 @@ export const updateExpense = action(async (formData: FormData) => {
                                 entity_id: entityId,
                                 vehicle_type: vehicleType,
                                 reg_no: regNo,
-                                cost: String(transportationCostAmount),
+                                vehicle_id: vehicleId,
+                                cost: transportationCostAmount,
+                                load_tonnes: loadTonnes === null ? null : String(loadTonnes),
                             })
-                            .returning({ id: TransportationCost.id });
+                            .returning();
                         transportationCostId = tc.id;
+                        audit.push({ table: TransportationCost, rowId: tc.id, siteId: sourceId, after: tc });
                     }
                 }
             } else if (existingTransportationCostId) {
                 await tx.delete(TransportationCost).where(eq(TransportationCost.id, existingTransportationCostId));
+                audit.push({ table: TransportationCost, rowId: existingTransportationCostId, siteId: sourceId, before: tcBefore });
             }
 
-            await tx
+            const [after] = await tx
                 .update(Transaction)
                 .set({
                     entity_id: entityId,
                     entity_variant_id: entityVariantId || null,
                     source_id: sourceId,
+                    vendor_id: vendorId || null,
                     type: transactionType,
                     payment_status: paymentStatus,
                     transportation_cost_id: transportationCostId,
                     quantity: String(quantity),
-                    rate: String(rate),
-                    amount: String(amount),
+                    rate,
+                    amount,
+                    gst_rate: gst.rate,
+                    cgst,
+                    sgst,
+                    igst,
                     ...(dateStr ? { created_at: new Date(dateStr) } : {}),
                 })
-                .where(eq(Transaction.id, transactionId));
+                .where(and(eq(Transaction.id, transactionId), isNull(Transaction.deleted_at)))
+                .returning();
+            audit.push({ table: Transaction, rowId: transactionId, siteId: sourceId, before, after });
+            await settleTransport(tx, [transactionId]);
+
+            await recordAudit(tx, session.user, audit);
         });
 
         const noRedirect = formData.get('no_redirect') === 'true';
@@ -131,6 +233,7 @@ export const updateExpense = action(async (formData: FormData) => {
         throw redirect(redirectUrl || '/expenses');
     } catch (error: unknown) {
         if (error instanceof Response) throw error;
+        if (error instanceof SettlementError) return { error: error.message };
         console.error(error);
         return { error: 'Failed to update expense.' };
     }
@@ -166,6 +269,8 @@ export function EditFormContent(props: EditFormContentProps) {
     const entities = () => formData()?.entities ?? [];
     const destinations = () => formData()?.destinations ?? [];
     const variants = () => formData()?.variants ?? [];
+    const vendors = () => formData()?.vendors ?? [];
+    const vehicles = () => formData()?.vehicles ?? [];
 
     const [selectedEntityId, setSelectedEntityId] = createSignal('');
 
@@ -177,11 +282,31 @@ export function EditFormContent(props: EditFormContentProps) {
     const availableVariants = createMemo(() => variants().filter((v) => v.entity_id === initEntityId()));
 
     const [quantity, setQuantity] = createSignal<number | null>(null);
-    const [rate, setRate] = createSignal<number | null>(null);
+    const [rate, setRate] = createSignal<string | null>(null);
 
     const effectiveQuantity = () => quantity() ?? Number(transaction()?.quantity ?? 0);
-    const effectiveRate = () => rate() ?? Number(transaction()?.rate ?? 0);
-    const amount = createMemo(() => (effectiveQuantity() * effectiveRate()).toFixed(2));
+    const effectiveRate = () => rate() ?? toRupees(transaction()?.rate);
+    const taxable = createMemo(() => multiplyMoney(parseMoney(effectiveRate()) ?? 0, effectiveQuantity()));
+    const amount = createMemo(() => toRupees(taxable()));
+
+    const [gstRate, setGstRate] = createSignal<GstRate | null>(null);
+    const [gstSupply, setGstSupply] = createSignal<GstSupply | null>(null);
+    const effectiveGstRate = (): GstRate => {
+        const stored = transaction()?.gst_rate ?? 0;
+        return gstRate() ?? (isGstRate(stored) ? stored : 0);
+    };
+    const effectiveGstSupply = (): GstSupply => gstSupply() ?? ((transaction()?.igst ?? 0) > 0 ? 'inter' : 'intra');
+    // Switching to a different item applies its default GST rate
+    createEffect(
+        on(
+            selectedEntityId,
+            (id) => {
+                const itemRate = entities().find((e: { id: string; gst_rate: number }) => e.id === id)?.gst_rate ?? 0;
+                setGstRate(isGstRate(itemRate) ? itemRate : 0);
+            },
+            { defer: true },
+        ),
+    );
 
     const txDate = () => {
         const tx = transaction();
@@ -195,6 +320,7 @@ export function EditFormContent(props: EditFormContentProps) {
 
     const [vehicleType, setVehicleType] = createSignal<string | null>(null);
     const [regNo, setRegNo] = createSignal<string | null>(null);
+    const [loadTonnes, setLoadTonnes] = createSignal<string | null>(null);
     const [transportationCost, setTransportationCost] = createSignal<string | null>(null);
 
     return (
@@ -286,6 +412,14 @@ export function EditFormContent(props: EditFormContentProps) {
                                 </div>
                             </div>
 
+                            <VirtualizedCombobox
+                                name="vendor_id"
+                                label="Supplied By (Vendor, Optional)"
+                                placeholder="Search vendor..."
+                                options={vendors()}
+                                defaultValue={tx().vendor_id ?? ''}
+                            />
+
                             <div class="grid grid-cols-1 md:grid-cols-3 gap-4">
                                 <TextInput
                                     name="quantity"
@@ -302,12 +436,20 @@ export function EditFormContent(props: EditFormContentProps) {
                                     type="number"
                                     step="0.01"
                                     value={effectiveRate()}
-                                    onInput={(e) => setRate(parseFloat((e.currentTarget as HTMLInputElement).value) || 0)}
+                                    onInput={(e) => setRate((e.currentTarget as HTMLInputElement).value)}
                                     required
                                 />
-                                <TextInput name="amount" label="Total Amount (₹)" value={amount()} type="number" readOnly />
+                                <TextInput name="amount" label="Taxable Value (₹)" value={amount()} type="number" readOnly />
                             </div>
 
+                            <GstFields
+                                taxable={taxable()}
+                                rate={effectiveGstRate()}
+                                supply={effectiveGstSupply()}
+                                onRateChange={setGstRate}
+                                onSupplyChange={setGstSupply}
+                            />
+
                             <div class="grid grid-cols-1 md:grid-cols-2 gap-4">
                                 <TextInput name="date" label="Date" type="date" value={txDate()} required />
                                 <SelectInput name="payment_status" label="Payment Status" required>
@@ -344,7 +486,7 @@ export function EditFormContent(props: EditFormContentProps) {
                             </div>
 
                             <Show when={showTransportation()}>
-                                <div class="grid grid-cols-1 md:grid-cols-3 gap-4 animate-in fade-in slide-in-from-top-2 duration-300">
+                                <div class="grid grid-cols-1 md:grid-cols-4 gap-4 animate-in fade-in slide-in-from-top-2 duration-300">
                                     <TextInput
                                         name="vehicle_type"
                                         label="Vehicle Type"
@@ -356,8 +498,25 @@ export function EditFormContent(props: EditFormContentProps) {
                                         name="reg_no"
                                         label="Vehicle Reg. No."
                                         placeholder="e.g. MH 12 AB 1234"
+                                        list="vehicle-options"
                                         value={regNo() ?? tx().reg_no ?? ''}
-                                        onInput={(e) => setRegNo((e.currentTarget as HTMLInputElement).value)}
+                                        onInput={(e) => {
+                                            const value = (e.currentTarget as HTMLInputElement).value;
+                                            setRegNo(value);
+                                            // Picking a known vehicle fills in its type
+                                            const type = knownVehicleType(vehicles(), value);
+                                            if (type && !(vehicleType() ?? tx().vehicle_type)) setVehicleType(type);
+                                        }}
+                                    />
+                                    <VehicleOptions id="vehicle-options" vehicles={vehicles()} />
+                                    <TextInput
+                                        name="load_tonnes"
+                                        label="Load (t)"
+                                        type="number"
+                                        step="0.001"
+                                        placeholder="Optional"
+                                        value={loadTonnes() ?? (tx().load_tonnes != null ? String(Number(tx().load_tonnes)) : '')}
+                                        onInput={(e) => setLoadTonnes((e.currentTarget as HTMLInputElement).value)}
                                     />
                                     <TextInput
                                         name="transportation_cost"
@@ -365,7 +524,10 @@ export function EditFormContent(props: EditFormContentProps) {
                                         type="number"
                                         step="0.01"
                                         placeholder="0.00"
-                                        value={transportationCost() ?? tx().transportation_cost ?? ''}
+                                        value={
+                                            transportationCost() ??
+                                            (tx().transportation_cost != null ? toRupees(tx().transportation_cost) : '')
+                                        }
                                         onInput={(e) => setTransportationCost((e.currentTarget as HTMLInputElement).value)}
                                     />
                                 </div>
@@ -0,0 +1,306 @@
+import { A, action, createAsync, useSubmission } from '@solidjs/router';
+import { createMemo, createSignal, For, Show } from 'solid-js';
+import { db } from '~/drizzle/client';
+import { Destination, Entity, EntityVariant } from '~/drizzle/schema';
+import Breadcrumb from '~/components/Breadcrumb';
+import { requireAuth } from '~/lib/require-auth';
+import { booksLockedUntil } from '~/lib/entry-date';
+import { loadAliasesFor } from '~/lib/entry-aliases';
+import { insertExpense } from '~/lib/expenses';
+import { IMPORT_COLUMNS, isImportable, MAX_IMPORT_ROWS, parseExpenseImport } from '~/lib/expense-import';
+import { gstLabel } from '~/lib/gst';
+import { addMoney, toRupees } from '~/lib/money';
+import { QuickEntryParser, variantLabel } from '~/lib/quick-entry-parser';
+import { getFormData, loadEntryHistory } from '~/routes/expenses/new/index';
+
+// --- QUERIES & ACTIONS ---
+
+export const importExpenses = action(async (formData: FormData) => {
+    'use server';
+    const session = await requireAuth(['expense-user']);
+
+    const csv = (formData.get('csv') as string) ?? '';
+    if (!csv.trim()) return { error: 'Choose a CSV file to import.' };
+
+    // Re-resolve on the server against current reference data; the preview is only advisory
+    const [entities, destinations, variants, aliases] = await Promise.all([
+        db.select({ id: Entity.id, name: Entity.name, unit: Entity.unit, gst_rate: Entity.gst_rate }).from(Entity),
+        db.select({ id: Destination.id, name: Destination.name }).from(Destination),
+        db.select().from(EntityVariant),
+        loadAliasesFor(session.user.id),
+    ]);
+    const parser = new QuickEntryParser();
+    parser.setEntities(entities);
+    parser.setDestinations(destinations);
+    parser.setVariants(variants);
+    parser.setAliases(aliases);
+
+    const { rows, errors } = parseExpenseImport(csv, parser, booksLockedUntil());
+    if (errors.length > 0) return { error: errors.join(' ') };
+
+    const valid = rows.filter(isImportable);
+    if (valid.length === 0) return { error: 'No valid rows to import.' };
+
+    try {
+        await db.transaction(async (tx) => {
+            for (const row of valid) {
+                await insertExpense(
+                    tx,
+                    {
+                        entityId: row.entity.match!.id,
+                        entityVariantId: row.variant.match?.id ?? null,
+                        sourceId: row.source.match!.id,
+                        vendorId: null,
+                        paymentStatus: row.paymentStatus,
+                        transactionType: row.transactionType,
+                        quantity: row.quantity!,
+                        rate: row.rate!,
+                        gst: { rate: row.gstRate, supply: row.gstSupply },
+                        date: new Date(row.date!),
+                        transport:
+                            row.transportCost !== null
+                                ? {
+                                      vehicleType: row.vehicleType,
+                                      regNo: row.regNo,
+                                      cost: row.transportCost,
+                                      loadTonnes: null,
+                                  }
+                                : null,
+                    },
+                    session.user,
+                );
+            }
+        });
+        return { success: true, imported: valid.length, skipped: rows.length - valid.length };
+    } catch (error: unknown) {
+        console.error(error);
+        return { error: 'Failed to import expenses. Nothing was saved.' };
+    }
+});
+
+// --- PAGE ---
+
+const TEMPLATE = [
+    IMPORT_COLUMNS.join(','),
+    '2026-03-01,Cement,,50,380,debit,Site A,1500,Truck,MH12AB1234,pending,18',
+].join('\n');
+
+export default function ImportExpensesPage() {
+    const data = createAsync(() => getFormData());
+    const entryHistory = createAsync(() => loadEntryHistory());
+    const submission = useSubmission(importExpenses);
+
+    const [fileName, setFileName] = createSignal('');
+    const [csv, setCsv] = createSignal('');
+
+    const parser = new QuickEntryParser();
+    const preview = createMemo(() => {
+        const d = data();
+        const history = entryHistory();
+        if (!d || !history || !csv()) return null;
+        parser.setEntities(d.entities);
+        parser.setDestinations(d.destinations);
+        parser.setVariants(d.variants);
+        parser.setAliases(history.aliases);
+        return parseExpenseImport(csv(), parser, d.lockedUntil);
+    });
+
+    const validRows = () => preview()?.rows.filter(isImportable) ?? [];
+    const invalidCount = () => (preview()?.rows.length ?? 0) - validRows().length;
+    const validTotal = () => addMoney(...validRows().map((r) => addMoney(r.gross, r.transportCost)));
+
+    const handleFile = async (e: Event) => {
+        const file = (e.currentTarget as HTMLInputElement).files?.[0];
+        submission.clear();
+        setFileName(file?.name ?? '');
+        setCsv(file ? await file.text() : '');
+    };
+
+    const templateHref = () => `data:text/csv;charset=utf-8,${encodeURIComponent(TEMPLATE)}`;
+
+    return (
+        <div class="w-full mx-auto px-4 py-12">
+            <div class="mb-4">
+                <Breadcrumb items={[{ label: 'All sites', href: '/sites' }, { label: 'Import expenses' }]} />
+            </div>
+            <div class="mb-8">
+                <h1 class="text-3xl font-bold text-black tracking-tight">Import Expenses</h1>
+                <p class="mt-1 text-sm text-zinc-500">
+                    Upload a CSV with the columns {IMPORT_COLUMNS.join(', ')}. Up to {MAX_IMPORT_ROWS} rows at a time.
+                    Valid rows are saved together; rows with errors are skipped.{' '}
+                    <a
+                        href={templateHref()}
+                        download="expense-import-template.csv"
+                        class="text-blue-600 hover:underline"
+                    >
+                        Download template
+                    </a>
+                </p>
+            </div>
+
+            <div class="bg-white border border-zinc-200 rounded-2xl p-6 shadow-2xl shadow-black/5 space-y-4">
+                <label class="block">
+                    <span class="text-sm font-medium text-zinc-700">CSV file</span>
+                    <input
+                        type="file"
+                        accept=".csv,text/csv"
+                        onChange={handleFile}
+                        class="mt-2 block w-full text-sm text-zinc-700 file:mr-4 file:rounded-lg file:border-0 file:bg-zinc-100 file:px-4 file:py-2 file:text-sm file:font-semibold hover:file:bg-zinc-200"
+                    />
+                </label>
+
+                <Show when={preview()?.errors.length}>
+                    <div class="px-4 py-3 rounded-xl bg-red-500/10 text-sm text-red-500">
+                        {preview()?.errors.join(' ')}
+                    </div>
+                </Show>
+
+                <Show when={submission.result?.error}>
+                    <div class="px-4 py-3 rounded-xl bg-red-500/10 text-sm text-red-500">
+                        {submission.result?.error}
+                    </div>
+                </Show>
+                <Show when={submission.result?.success}>
+                    <div class="px-4 py-3 rounded-xl bg-green-500/10 text-sm text-green-700">
+                        Imported {submission.result?.imported} rows from {fileName()}.
+                        <Show when={submission.result?.skipped}>
+                            {' '}
+                            Skipped {submission.result?.skipped} with errors.
+                        </Show>
+                    </div>
+                </Show>
+
+                <Show when={preview()?.rows.length && !submission.result?.success}>
+                    <form action={importExpenses} method="post" class="flex items-center justify-between gap-4">
+                        <input type="hidden" name="csv" value={csv()} />
+                        <p class="text-sm text-zinc-600">
+                            <span class="font-semibold text-black">{validRows().length}</span> ready (₹
+                            {toRupees(validTotal())})
+                            <Show when={invalidCount() > 0}>
+                                , <span class="font-semibold text-red-500">{invalidCount()}</span> with errors
+                            </Show>
+                        </p>
+                        <button
+                            type="submit"
+                            disabled={submission.pending || validRows().length === 0}
+                            class="bg-black hover:bg-black/90 disabled:opacity-50 text-white font-bold text-sm rounded-xl px-6 py-3 transition-all"
+                        >
+                            {submission.pending ? 'Importing...' : `Import ${validRows().length} rows`}
+                        </button>
+                    </form>
+                </Show>
+            </div>
+
+            <Show when={preview()?.rows.length}>
+                <div class="mt-8 bg-white border border-zinc-200 rounded-2xl overflow-hidden shadow-2xl shadow-black/5">
+                    <div class="overflow-x-auto">
+                        <table class="w-full min-w-[1200px] text-left border-collapse">
+                            <thead>
+                                <tr class="border-b border-zinc-200 bg-zinc-50">
+                                    <th class="py-3 px-3 text-xs font-bold uppercase tracking-wider text-zinc-600">
+                                        Line
+                                    </th>
+                                    <th class="py-3 px-3 text-xs font-bold uppercase tracking-wider text-zinc-600">
+                                        Date
+                                    </th>
+                                    <th class="py-3 px-3 text-xs font-bold uppercase tracking-wider text-zinc-600">
+                                        Item
+                                    </th>
+                                    <th class="py-3 px-3 text-xs font-bold uppercase tracking-wider text-zinc-600">
+                                        Source
+                                    </th>
+                                    <th class="py-3 px-3 text-right text-xs font-bold uppercase tracking-wider text-zinc-600">
+                                        Qty
+                                    </th>
+                                    <th class="py-3 px-3 text-right text-xs font-bold uppercase tracking-wider text-zinc-600">
+                                        Rate (₹)
+                                    </th>
+                                    <th class="py-3 px-3 text-right text-xs font-bold uppercase tracking-wider text-zinc-600">
+                                        Gross (₹)
+                                    </th>
+                                    <th class="py-3 px-3 text-right text-xs font-bold uppercase tracking-wider text-zinc-600">
+                                        Carting (₹)
+                                    </th>
+                                    <th class="py-3 px-3 text-xs font-bold uppercase tracking-wider text-zinc-600">
+                                        Type / Status
+                                    </th>
+                                    <th class="py-3 px-3 text-xs font-bold uppercase tracking-wider text-zinc-600">
+                                        Problems
+                                    </th>
+                                </tr>
+                            </thead>
+                            <tbody class="divide-y divide-zinc-100">
+                                <For each={preview()?.rows}>
+                                    {(row) => (
+                                        <tr classList={{ 'bg-red-50/60': !isImportable(row) }}>
+                                            <td class="py-3 px-3 text-sm text-zinc-400 tabular-nums">{row.line}</td>
+                                            <td class="py-3 px-3 text-sm text-zinc-700 whitespace-nowrap">
+                                                {row.date ?? row.raw.date}
+                                            </td>
+                                            <td class="py-3 px-3 text-sm text-black">
+                                                {row.entity.match?.name ?? row.raw.item}
+                                                <Show when={row.variant.match}>
+                                                    {(v) => (
+                                                        <span class="ml-2 text-xs text-zinc-500">
+                                                            {variantLabel(v())}
+                                                        </span>
+                                                    )}
+                                                </Show>
+                                                <Show
+                                                    when={
+                                                        row.entity.match &&
+                                                        row.entity.match.name.toLowerCase() !==
+                                                            row.raw.item.toLowerCase()
+                                                    }
+                                                >
+                                                    <span class="block text-xs text-zinc-400">
+                                                        from "{row.raw.item}"
+                                                    </span>
+                                                </Show>
+                                            </td>
+                                            <td class="py-3 px-3 text-sm text-zinc-700">
+                                                {row.source.match?.name ?? row.raw.source}
+                                            </td>
+                                            <td class="py-3 px-3 text-right text-sm text-zinc-700 tabular-nums">
+                                                {row.quantity ?? row.raw.qty} {row.entity.match?.unit ?? ''}
+                                            </td>
+                                            <td class="py-3 px-3 text-right text-sm text-zinc-700 tabular-nums">
+                                                {row.rate !== null ? toRupees(row.rate) : row.raw.rate}
+                                            </td>
+                                            <td class="py-3 px-3 text-right text-sm font-semibold text-black tabular-nums">
+                                                {row.gross !== null ? toRupees(row.gross) : '--'}
+                                                <span class="block text-xs font-normal text-zinc-400">
+                                                    {gstLabel(row.gstRate, row.gstSupply)}
+                                                </span>
+                                            </td>
+                                            <td class="py-3 px-3 text-right text-sm text-zinc-700 tabular-nums">
+                                                {row.transportCost !== null ? toRupees(row.transportCost) : '--'}
+                                            </td>
+                                            <td class="py-3 px-3 text-sm text-zinc-700 capitalize whitespace-nowrap">
+                                                {row.transactionType} / {row.paymentStatus}
+                                            </td>
+                                            <td class="py-3 px-3 text-xs text-red-500">
+                                                <For each={row.errors}>{(error) => <p>{error}</p>}</For>
+                                                <Show when={row.variant.suggestions.length > 0}>
+                                                    <p class="text-zinc-500">
+                                                        Known variants: {row.variant.suggestions.join(', ')}
+                                                    </p>
+                                                </Show>
+                                            </td>
+                                        </tr>
+                                    )}
+                                </For>
+                            </tbody>
+                        </table>
+                    </div>
+                </div>
+            </Show>
+
+            <div class="mt-6">
+                <A href="/sites" class="text-sm text-blue-600 hover:underline">
+                    Back to sites
+                </A>
+            </div>
+        </div>
+    );
+}
@@ -4,6 +4,8 @@ import { db } from '~/drizzle/client';
 import { Entity, EntityType, EntityVariant, Transaction } from '~/drizzle/schema';
 import { eq, inArray } from 'drizzle-orm';
 import { requireAuth } from '~/lib/require-auth';
+import { recordAudit, type AuditEntry } from '~/lib/audit';
+import { GST_RATES, isGstRate } from '~/lib/gst';
 
 // --- Types ---
 type VariantInput = {
@@ -82,19 +84,23 @@ export const loadItem = query(async (id: string) => {
 // --- Action ---
 export const updateItem = action(async (formData: FormData): Promise<ActionResponse> => {
     'use server';
-    await requireAuth(['expense-user']);
+    const session = await requireAuth(['expense-user']);
 
     const getStringField = (key: string) => (formData.get(key) as string)?.trim() ?? '';
     const id = getStringField('id');
     const name = getStringField('name');
     const unit = getStringField('unit');
     const type = getStringField('type');
+    const hsnCode = getStringField('hsn_code');
+    const gstRate = Number(getStringField('gst_rate') || 0);
     const variantsRaw = getStringField('variants');
 
     if (!id) return { success: false, error: 'Item ID is missing.' };
     if (!name) return { success: false, error: 'Item name is required.' };
     if (!unit) return { success: false, error: 'Unit is required.' };
     if (!isEntityType(type)) return { success: false, error: 'Invalid item type selected.' };
+    if (hsnCode && !/^\d{4,8}$/.test(hsnCode)) return { success: false, error: 'HSN code must be 4 to 8 digits.' };
+    if (!isGstRate(gstRate)) return { success: false, error: 'Invalid GST rate selected.' };
 
     let parsedVariants: Partial<VariantInput>[] = [];
     if (variantsRaw) {
@@ -135,9 +141,11 @@ export const updateItem = action(async (formData: FormData): Promise<ActionRespo
 
     try {
         await db.transaction(async (tx) => {
-            await tx.update(Entity).set({ name, unit, type }).where(eq(Entity.id, id));
+            const [before] = await tx.select().from(Entity).where(eq(Entity.id, id)).for('update');
+            const [after] = await tx.update(Entity).set({ name, unit, type, hsn_code: hsnCode, gst_rate: gstRate }).where(eq(Entity.id, id)).returning();
+            const audit: AuditEntry[] = [{ table: Entity, rowId: id, before, after }];
 
-            const existingVariants = await tx.select({ id: EntityVariant.id }).from(EntityVariant).where(eq(EntityVariant.entity_id, id));
+            const existingVariants = await tx.select().from(EntityVariant).where(eq(EntityVariant.entity_id, id));
             const submittedVariants = normalizedVariants;
 
             const existingVariantIds = existingVariants.map(v => v.id);
@@ -158,7 +166,8 @@ export const updateItem = action(async (formData: FormData): Promise<ActionRespo
                 const deletableVariantIds = variantsToDeleteIds.filter(variantId => !variantsInUse.includes(variantId));
 
                 if (deletableVariantIds.length > 0) {
-                    await tx.delete(EntityVariant).where(inArray(EntityVariant.id, deletableVariantIds));
+                    const deleted = await tx.delete(EntityVariant).where(inArray(EntityVariant.id, deletableVariantIds)).returning();
+                    audit.push(...deleted.map(variant => ({ table: EntityVariant, rowId: variant.id, before: variant })));
                 }
 
                 const nonDeletableCount = variantsToDeleteIds.length - deletableVariantIds.length;
@@ -168,7 +177,7 @@ export const updateItem = action(async (formData: FormData): Promise<ActionRespo
             }
 
             if (variantsToAdd.length > 0) {
-                await tx.insert(EntityVariant).values(
+                const added = await tx.insert(EntityVariant).values(
                     variantsToAdd.map((variant) => ({
                         entity_id: id,
                         length: variant.length,
@@ -178,11 +187,12 @@ export const updateItem = action(async (formData: FormData): Promise<ActionRespo
                         dimension_unit: variant.dimension_unit,
                         thickness_unit: variant.thickness_unit,
                     })),
-                );
+                ).returning();
+                audit.push(...added.map(variant => ({ table: EntityVariant, rowId: variant.id, after: variant })));
             }
 
             if (variantsToUpdate.length > 0) {
-                await Promise.all(variantsToUpdate.map(variant =>
+                const updated = await Promise.all(variantsToUpdate.map(variant =>
                     tx.update(EntityVariant).set({
                         length: variant.length,
                         width: variant.width,
@@ -190,9 +200,16 @@ export const updateItem = action(async (formData: FormData): Promise<ActionRespo
                         thickness: variant.thickness,
                         dimension_unit: variant.dimension_unit,
                         thickness_unit: variant.thickness_unit,
-                    }).where(eq(EntityVariant.id, variant.id))
+                    }).where(eq(EntityVariant.id, variant.id)).returning().then(rows => rows[0])
                 ));
+                for (const variant of updated) {
+                    if (!variant) continue;
+                    const previous = existingVariants.find(v => v.id === variant.id);
+                    audit.push({ table: EntityVariant, rowId: variant.id, before: previous, after: variant });
+                }
             }
+
+            await recordAudit(tx, session.user, audit);
         });
 
         return { success: true };
@@ -222,6 +239,8 @@ export default function EditItemPage() {
     const [name, setName] = createSignal('');
     const [unit, setUnit] = createSignal('');
     const [type, setType] = createSignal('');
+    const [hsnCode, setHsnCode] = createSignal('');
+    const [gstRate, setGstRate] = createSignal(0);
     const [variants, setVariants] = createSignal<VariantInput[]>([]);
 
     createEffect(() => {
@@ -230,6 +249,8 @@ export default function EditItemPage() {
             setName(data.name);
             setUnit(data.unit);
             setType(data.type);
+            setHsnCode(data.hsn_code);
+            setGstRate(data.gst_rate);
             setVariants(data.variants);
         }
     });
@@ -347,7 +368,45 @@ export default function EditItemPage() {
                             </div>
                         </div>
 
+                        {/* Tax Defaults */}
+                        <div class="grid grid-cols-1 md:grid-cols-2 gap-4">
+                            <div class="group relative bg-white border border-zinc-200 focus-within:border-black/40 focus-within:ring-1 focus-within:ring-black/10 rounded-xl transition-all duration-200">
+                                <label
+                                    for="hsn_code"
+                                    class="absolute top-2 left-3.5 text-[10px] font-bold uppercase tracking-widest text-zinc-600 select-none group-focus-within:text-zinc-800 transition-colors"
+                                >
+                                    HSN Code (Optional)
+                                </label>
+                                <input
+                                    id="hsn_code"
+                                    name="hsn_code"
+                                    type="text"
+                                    inputmode="numeric"
+                                    placeholder="e.g. 2523"
+                                    class="w-full bg-transparent text-black text-sm px-3.5 pt-7 pb-2.5 outline-none placeholder:text-zinc-400 transition-colors"
+                                    value={hsnCode()}
+                                    onInput={e => setHsnCode(e.currentTarget.value)}
+                                />
+                            </div>
 
+                            <div class="group relative bg-white border border-zinc-200 focus-within:border-black/40 focus-within:ring-1 focus-within:ring-black/10 rounded-xl transition-all duration-200">
+                                <label
+                                    for="gst_rate"
+                                    class="absolute top-2 left-3.5 text-[10px] font-bold uppercase tracking-widest text-zinc-600 select-none group-focus-within:text-zinc-800 transition-colors"
+                                >
+                                    Default GST Rate
+                                </label>
+                                <select
+                                    id="gst_rate"
+                                    name="gst_rate"
+                                    class="w-full bg-transparent text-black text-sm px-3.5 pt-7 pb-2.5 outline-none appearance-none cursor-pointer [&>option]:bg-white [&>option]:text-black"
+                                    value={String(gstRate())}
+                                    onChange={e => setGstRate(Number(e.currentTarget.value))}
+                                >
+                                    <For each={GST_RATES}>{(r) => <option value={r}>{r === 0 ? 'No GST' : `${r}%`}</option>}</For>
+                                </select>
+                            </div>
+                        </div>
 
                         {/* Variants Section */}
                         <div class="space-y-5">
@@ -3,6 +3,8 @@ import { action, useSubmission } from '@solidjs/router';
 import { db } from '~/drizzle/client';
 import { Entity, EntityType, EntityVariant } from '~/drizzle/schema';
 import { requireAuth } from '~/lib/require-auth';
+import { recordAudit } from '~/lib/audit';
+import { GST_RATES, isGstRate } from '~/lib/gst';
 
 // ... (Keep your existing types and helper functions exactly the same) ...
 type VariantInput = {
@@ -42,7 +44,7 @@ const isEntityType = (value: string): value is (typeof EntityType)[number] =>
 
 export const createItem = action(async (formData: FormData): Promise<ActionResponse> => {
     'use server';
-    await requireAuth(['expense-user']);
+    const session = await requireAuth(['expense-user']);
 
     const getStringField = (key: string) => {
         const value = formData.get(key);
@@ -52,11 +54,15 @@ export const createItem = action(async (formData: FormData): Promise<ActionRespo
     const name = getStringField('name');
     const unit = getStringField('unit');
     const type = getStringField('type');
+    const hsnCode = getStringField('hsn_code');
+    const gstRate = Number(getStringField('gst_rate') || 0);
     const variantsRaw = getStringField('variants');
 
     if (!name) return { success: false, error: 'Item name is required.' };
     if (!unit) return { success: false, error: 'Unit is required.' };
     if (!isEntityType(type)) return { success: false, error: 'Invalid item type selected.' };
+    if (hsnCode && !/^\d{4,8}$/.test(hsnCode)) return { success: false, error: 'HSN code must be 4 to 8 digits.' };
+    if (!isGstRate(gstRate)) return { success: false, error: 'Invalid GST rate selected.' };
 
     let parsedVariants: unknown = [];
     if (variantsRaw) {
@@ -98,21 +104,32 @@ export const createItem = action(async (formData: FormData): Promise<ActionRespo
         : [];
 
     try {
-        const [item] = await db.insert(Entity).values({ name, unit, type }).returning();
-
-        if (normalizedVariants.length > 0) {
-            await db.insert(EntityVariant).values(
-                normalizedVariants.map((variant) => ({
-                    entity_id: item.id,
-                    length: variant.length,
-                    width: variant.width,
-                    height: variant.height,
-                    thickness: variant.thickness,
-                    dimension_unit: variant.dimension_unit,
-                    thickness_unit: variant.thickness_unit,
-                })),
-            );
-        }
+        await db.transaction(async (tx) => {
+            const [item] = await tx.insert(Entity).values({ name, unit, type, hsn_code: hsnCode, gst_rate: gstRate }).returning();
+
+            const variants =
+                normalizedVariants.length > 0
+                    ? await tx
+                          .insert(EntityVariant)
+                          .values(
+                              normalizedVariants.map((variant) => ({
+                                  entity_id: item.id,
+                                  length: variant.length,
+                                  width: variant.width,
+                                  height: variant.height,
+                                  thickness: variant.thickness,
+                                  dimension_unit: variant.dimension_unit,
+                                  thickness_unit: variant.thickness_unit,
+                              })),
+                          )
+                          .returning()
+                    : [];
+
+            await recordAudit(tx, session.user, [
+                { table: Entity, rowId: item.id, after: item },
+                ...variants.map((variant) => ({ table: EntityVariant, rowId: variant.id, after: variant })),
+            ]);
+        });
 
         return { success: true };
     } catch (error: unknown) {
@@ -238,6 +255,42 @@ export default function CreateItemPage() {
                             </div>
                         </div>
 
+                        {/* Tax Defaults */}
+                        <div class="grid grid-cols-1 md:grid-cols-2 gap-4">
+                            <div class="group relative bg-white border border-zinc-200 focus-within:border-black/40 focus-within:ring-1 focus-within:ring-black/10 rounded-xl transition-all duration-200">
+                                <label
+                                    for="hsn_code"
+                                    class="absolute top-2 left-3.5 text-[10px] font-bold uppercase tracking-widest text-zinc-600 select-none group-focus-within:text-zinc-800 transition-colors"
+                                >
+                                    HSN Code (Optional)
+                                </label>
+                                <input
+                                    id="hsn_code"
+                                    name="hsn_code"
+                                    type="text"
+                                    inputmode="numeric"
+                                    placeholder="e.g. 2523"
+                                    class="w-full bg-transparent text-black text-sm px-3.5 pt-7 pb-2.5 outline-none placeholder:text-zinc-400 transition-colors"
+                                />
+                            </div>
+
+                            <div class="group relative bg-white border border-zinc-200 focus-within:border-black/40 focus-within:ring-1 focus-within:ring-black/10 rounded-xl transition-all duration-200">
+                                <label
+                                    for="gst_rate"
+                                    class="absolute top-2 left-3.5 text-[10px] font-bold uppercase tracking-widest text-zinc-600 select-none group-focus-within:text-zinc-800 transition-colors"
+                                >
+                                    Default GST Rate
+                                </label>
+                                <select
+                                    id="gst_rate"
+                                    name="gst_rate"
+                                    class="w-full bg-transparent text-black text-sm px-3.5 pt-7 pb-2.5 outline-none appearance-none cursor-pointer [&>option]:bg-white [&>option]:text-black"
+                                >
+                                    <For each={GST_RATES}>{(r) => <option value={r}>{r === 0 ? 'No GST' : `${r}%`}</option>}</For>
+                                </select>
+                            </div>
+                        </div>
+
                         {/* Variants Section */}
                         <div class="space-y-5">
                             <div class="flex items-end justify-between border-b border-zinc-200 pb-4">
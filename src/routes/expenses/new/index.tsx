@@ -1,29 +1,65 @@
-import { createEffect, createMemo, createSignal, For, onMount, Show } from 'solid-js';
+import { createEffect, createMemo, createSignal, For, on, onMount, Show } from 'solid-js';
 import { action, createAsync, query, redirect, useSubmission } from '@solidjs/router';
 import { db } from '~/drizzle/client';
-import { Entity, Destination, PaymentStatus, TransportationCost, Transaction, EntityVariant } from '~/drizzle/schema';
+import { Entity, Destination, PaymentStatus, EntityVariant, Vehicle, Vendor } from '~/drizzle/schema';
 import { createId } from '@paralleldrive/cuid2';
 import { SelectInput, TextInput } from '~/components/form';
 import { VirtualizedCombobox } from '~/components/VirtualizedCombobox';
 import { requireAuth } from '~/lib/require-auth';
+import { addMoney, formatMoney, multiplyMoney, parseMoney, toRupees, type Money } from '~/lib/money';
+import { computeGst, GST_RATES, gstLabel, isGstRate, type GstRate, type GstSupply } from '~/lib/gst';
+import { booksLockedUntil } from '~/lib/entry-date';
+import { isAliasKind, loadAliasesFor, saveAlias } from '~/lib/entry-aliases';
+import { checkExpenseRate, insertExpense, loadRateHistory, readExpenseFields, type ExpenseInput } from '~/lib/expenses';
+import { averageRate, checkRate, indexRateHistory, rateKey, rateWarningPercent } from '~/lib/rate-memory';
+import { budgetWarnings, entrySpend, type BudgetCategory } from '~/lib/budgets';
+import { loadBudgetUsage } from '~/routes/expenses/[id]/budget';
+import { normalizeRegNo } from '~/lib/transport';
 
 // --- QUERIES & ACTIONS ---
 
 export const loadFormData = query(async () => {
     'use server';
-    const [entities, destinations, variants] = await Promise.all([
-        db.select({ id: Entity.id, name: Entity.name, unit: Entity.unit }).from(Entity),
+    await requireAuth(['expense-user']);
+    const [entities, destinations, variants, vendors, vehicles] = await Promise.all([
+        db
+            .select({ id: Entity.id, name: Entity.name, unit: Entity.unit, gst_rate: Entity.gst_rate, type: Entity.type })
+            .from(Entity),
         db.select({ id: Destination.id, name: Destination.name }).from(Destination),
         db.select().from(EntityVariant),
+        db.select({ id: Vendor.id, name: Vendor.name }).from(Vendor),
+        db.select({ reg_no: Vehicle.reg_no, vehicle_type: Vehicle.vehicle_type }).from(Vehicle).orderBy(Vehicle.reg_no),
     ]);
-    return { entities, destinations, variants };
+    return {
+        entities,
+        destinations,
+        variants,
+        vendors,
+        vehicles,
+        lockedUntil: booksLockedUntil(),
+    };
 }, 'expense-form-data');
 
+/**
+ * The user's learned aliases and the recent rates. Every save changes these, so
+ * unlike the reference data in `getFormData` they stay in the router's query
+ * cache and are revalidated after each action.
+ */
+export const loadEntryHistory = query(async () => {
+    'use server';
+    const session = await requireAuth(['expense-user']);
+    const [aliases, rates] = await Promise.all([loadAliasesFor(session.user.id), loadRateHistory()]);
+    return { aliases, rates, rateWarningPercent: rateWarningPercent() };
+}, 'expense-entry-history');
+
+/** `loadFormData`'s promise; `ReturnType` gives `any` for the `(...args: never)` signature of a query. */
+type FormDataResult = typeof loadFormData extends (...args: never) => infer R ? R : never;
+
 // Client-side singleton — not in the router's query cache, so it is never
-// revalidated after actions. Reference data (entities, destinations, variants)
-// rarely changes, making this safe for the lifetime of a page session.
-let _formDataCache: ReturnType<typeof loadFormData> | null = null;
-export function getFormData() {
+// revalidated after actions. Reference data (entities, destinations, variants, vendors,
+// vehicles) and the books lock date rarely change, making this safe for the lifetime of a page session.
+let _formDataCache: FormDataResult | null = null;
+export function getFormData(): FormDataResult {
     if (typeof window === 'undefined') return loadFormData(); // SSR: always fresh
     if (!_formDataCache) _formDataCache = loadFormData();
     return _formDataCache;
@@ -31,72 +67,23 @@ export function getFormData() {
 
 export const createExpense = action(async (formData: FormData) => {
     'use server';
-    await requireAuth(['expense-user']);
-
-    const getStringField = (key: string) => (formData.get(key) as string)?.trim() ?? '';
-    const getNumericField = (key: string) => {
-        const val = (formData.get(key) as string)?.trim();
-        return val ? Number.parseFloat(val) : null;
-    };
-    const getBooleanField = (key: string) => formData.get(key) === 'on';
-
-    const entityId = getStringField('entity_id');
-    const entityVariantId = getStringField('entity_variant_id');
-    const quantity = getNumericField('quantity');
-    const rate = getNumericField('rate');
-    const paymentStatus = getStringField('payment_status') as (typeof PaymentStatus)[number];
-    const sourceId = getStringField('source_id');
-    const transactionType = getStringField('transaction_type') as 'credit' | 'debit';
-    const dateStr = getStringField('date');
-    const addTransportationCost = getBooleanField('add_transportation_cost');
+    const session = await requireAuth(['expense-user']);
 
-    if (!entityId || !paymentStatus || !sourceId) return { error: 'Missing required fields.' };
-    if (transactionType !== 'credit' && transactionType !== 'debit') return { error: 'Invalid transaction type.' };
-    if (quantity === null || quantity <= 0) return { error: 'Quantity must be a positive number.' };
-    if (rate === null || rate < 0) return { error: 'Rate must be a positive number or zero.' };
-
-    const amount = quantity * rate;
+    const fields = readExpenseFields((key) => formData.get(key) as string | null);
+    if ('error' in fields) return { error: fields.error };
 
     try {
-        await db.transaction(async (tx) => {
-            let transportationCostId: string | null = null;
-
-            if (addTransportationCost) {
-                const vehicleType = getStringField('vehicle_type');
-                const regNo = getStringField('reg_no');
-                const transportationCostAmount = getNumericField('transportation_cost');
-
-                if (transportationCostAmount !== null && transportationCostAmount > 0) {
-                    const [tc] = await tx
-                        .insert(TransportationCost)
-                        .values({
-                            entity_id: entityId,
-                            vehicle_type: vehicleType,
-                            reg_no: regNo,
-                            cost: String(transportationCostAmount),
-                        })
-                        .returning({ id: TransportationCost.id });
-                    transportationCostId = tc.id;
-                }
-            }
-
-            await tx.insert(Transaction).values({
-                entity_id: entityId,
-                entity_variant_id: entityVariantId || null,
-                source_id: sourceId,
-                payment_status: paymentStatus,
-                transportation_cost_id: transportationCostId,
-                quantity: String(quantity),
-                type: transactionType,
-                rate: String(rate),
-                amount: String(amount),
-                ...(dateStr ? { created_at: new Date(dateStr) } : {}),
-            });
-        });
+        // A rate far from the recent average is saved only once the user confirms it
+        if (formData.get('confirm_rate') !== 'true') {
+            const rateWarning = await checkExpenseRate(fields.input);
+            if (rateWarning) return { error: rateWarning, needsRateConfirmation: true };
+        }
+
+        const { advanceAdjusted } = await db.transaction((tx) => insertExpense(tx, fields.input, session.user));
 
         const noRedirect = formData.get('no_redirect') === 'true';
         if (noRedirect) {
-            return { success: true };
+            return { success: true, advanceAdjusted };
         }
         throw redirect(`/expenses`);
     } catch (error: unknown) {
@@ -106,8 +93,148 @@ export const createExpense = action(async (formData: FormData) => {
     }
 });
 
+/**
+ * Create several quick-entry lines at once. Each `entry` field is the JSON of
+ * one line's createExpense fields; all lines are saved or none are. As with
+ * createExpense, a line with an unusual rate needs `confirm_rate`.
+ */
+export const createExpenseBatch = action(async (formData: FormData) => {
+    'use server';
+    const session = await requireAuth(['expense-user']);
+
+    const entries = formData.getAll('entry') as string[];
+    if (entries.length === 0) return { error: 'Nothing to save.' };
+
+    const inputs: { input: ExpenseInput; rateConfirmed: boolean }[] = [];
+    for (const [i, raw] of entries.entries()) {
+        let fields: Record<string, string>;
+        try {
+            fields = JSON.parse(raw);
+        } catch {
+            return { error: `Line ${i + 1}: malformed entry.` };
+        }
+        const result = readExpenseFields((key) => fields[key] ?? null);
+        if ('error' in result) return { error: `Line ${i + 1}: ${result.error}` };
+        inputs.push({ input: result.input, rateConfirmed: fields.confirm_rate === 'true' });
+    }
+
+    try {
+        for (const [i, { input, rateConfirmed }] of inputs.entries()) {
+            const rateWarning = rateConfirmed ? null : await checkExpenseRate(input);
+            if (rateWarning) return { error: `Line ${i + 1}: ${rateWarning}`, needsRateConfirmation: true };
+        }
+
+        const results = await db.transaction(async (tx) => {
+            const created = [];
+            for (const { input } of inputs) created.push(await insertExpense(tx, input, session.user));
+            return created;
+        });
+        return {
+            success: true,
+            created: results.length,
+            advanceAdjusted: addMoney(...results.map((r) => r.advanceAdjusted)),
+        };
+    } catch (error: unknown) {
+        console.error(error);
+        return { error: 'Failed to save expenses. Nothing was saved.' };
+    }
+});
+
+/** Remember the text a user typed when they pick a quick-entry suggestion for it. */
+export const learnAlias = action(async (formData: FormData) => {
+    'use server';
+    const session = await requireAuth(['expense-user']);
+
+    const kind = (formData.get('kind') as string) ?? '';
+    const alias = (formData.get('alias') as string)?.trim() ?? '';
+    const targetId = (formData.get('target_id') as string)?.trim() ?? '';
+    if (!isAliasKind(kind) || !alias || !targetId) return { error: 'Missing required fields.' };
+
+    try {
+        return await saveAlias(session.user.id, kind, alias, targetId);
+    } catch (error: unknown) {
+        console.error(error);
+        return { error: 'Failed to save alias.' };
+    }
+});
+
 // --- FORM CONTENT ---
 
+type GstFieldsProps = {
+    taxable: Money;
+    rate: GstRate;
+    supply: GstSupply;
+    onRateChange: (rate: GstRate) => void;
+    onSupplyChange: (supply: GstSupply) => void;
+};
+
+/** GST rate and supply selects with the computed tax and gross, shared by the new and edit expense forms. */
+export function GstFields(props: GstFieldsProps) {
+    const gst = createMemo(() => computeGst(props.taxable, props.rate, props.supply));
+
+    return (
+        <div class="grid grid-cols-1 md:grid-cols-4 gap-4">
+            <SelectInput
+                name="gst_rate"
+                label="GST Rate"
+                onChange={(e) => {
+                    const n = Number(e.currentTarget.value);
+                    props.onRateChange(isGstRate(n) ? n : 0);
+                }}
+            >
+                <For each={GST_RATES}>
+                    {(r) => (
+                        <option value={r} selected={r === props.rate}>
+                            {r === 0 ? 'No GST' : `${r}%`}
+                        </option>
+                    )}
+                </For>
+            </SelectInput>
+            <SelectInput
+                name="gst_supply"
+                label="Supply"
+                onChange={(e) => props.onSupplyChange(e.currentTarget.value === 'inter' ? 'inter' : 'intra')}
+            >
+                <option value="intra" selected={props.supply === 'intra'}>
+                    Within state (CGST + SGST)
+                </option>
+                <option value="inter" selected={props.supply === 'inter'}>
+                    Inter-state (IGST)
+                </option>
+            </SelectInput>
+            <TextInput
+                name="tax_amount"
+                label={`${gstLabel(props.rate, props.supply)} (₹)`}
+                value={toRupees(gst().tax)}
+                type="number"
+                readOnly
+            />
+            <TextInput
+                name="gross_amount"
+                label="Gross (₹)"
+                value={toRupees(addMoney(props.taxable, gst().tax))}
+                type="number"
+                readOnly
+            />
+        </div>
+    );
+}
+
+type VehicleOption = { reg_no: string; vehicle_type: string };
+
+/** Reg. no. suggestions from the vehicle master, shared by the new and edit expense forms. */
+export function VehicleOptions(props: { id: string; vehicles: VehicleOption[] }) {
+    return (
+        <datalist id={props.id}>
+            <For each={props.vehicles}>{(v) => <option value={v.reg_no}>{v.vehicle_type}</option>}</For>
+        </datalist>
+    );
+}
+
+/** The master's vehicle type for a typed reg. no., or '' for a vehicle not in the master yet. */
+export const knownVehicleType = (vehicles: VehicleOption[], regNo: string) =>
+    vehicles.find((v) => v.reg_no === normalizeRegNo(regNo))?.vehicle_type ?? '';
+
 type FormContentProps = {
     defaultSourceId?: string;
     noRedirect?: boolean;
@@ -118,6 +245,7 @@ type FormContentProps = {
 
 export function FormContent(props: FormContentProps) {
     const data = createAsync(() => getFormData());
+    const entryHistory = createAsync(() => loadEntryHistory());
     const submission = useSubmission(createExpense);
 
     let prevResult = submission.result;
@@ -142,13 +270,55 @@ export function FormContent(props: FormContentProps) {
     const entities = () => data()?.entities ?? [];
     const destinations = () => data()?.destinations ?? [];
     const variants = () => data()?.variants ?? [];
+    const vendors = () => data()?.vendors ?? [];
+    const vehicles = () => data()?.vehicles ?? [];
 
     const [selectedEntityId, setSelectedEntityId] = createSignal('');
+    const [selectedVariantId, setSelectedVariantId] = createSignal('');
+    const [selectedSourceId, setSelectedSourceId] = createSignal(props.defaultSourceId ?? '');
     const availableVariants = createMemo(() => variants().filter((v) => v.entity_id === selectedEntityId()));
 
     const [quantity, setQuantity] = createSignal(0);
     const [rate, setRate] = createSignal(0);
-    const amount = createMemo(() => (quantity() * rate()).toFixed(2));
+
+    // Recent rates for the selected item, variant and source, newest first
+    const rateHistory = createMemo(() => indexRateHistory(entryHistory()?.rates ?? []));
+    const recentRates = createMemo(() =>
+        selectedEntityId() && selectedSourceId()
+            ? (rateHistory().get(rateKey(selectedEntityId(), selectedVariantId() || null, selectedSourceId())) ?? [])
+            : [],
+    );
+    // Pre-fill the most recent rate until the user types one
+    let rateTyped = false;
+    createEffect(
+        on(recentRates, (rates) => {
+            if (!rateTyped && rates.length > 0) setRate(Number(toRupees(rates[0])));
+        }),
+    );
+    const rateWarning = createMemo(() => {
+        const paise = parseMoney(rate());
+        if (!paise) return null;
+        return checkRate(paise, recentRates(), entryHistory()?.rateWarningPercent ?? 25);
+    });
+    const [rateConfirmed, setRateConfirmed] = createSignal(false);
+    createEffect(on(rateWarning, () => setRateConfirmed(false), { defer: true }));
+    const needsRateConfirmation = () => !!rateWarning() || !!(submission.result as any)?.needsRateConfirmation;
+    const taxable = createMemo(() => multiplyMoney(parseMoney(rate()) ?? 0, quantity()));
+    const amount = createMemo(() => toRupees(taxable()));
+
+    const [gstRate, setGstRate] = createSignal<GstRate>(0);
+    const [gstSupply, setGstSupply] = createSignal<GstSupply>('intra');
+    // Picking an item applies its default GST rate
+    createEffect(
+        on(
+            selectedEntityId,
+            (id) => {
+                const itemRate = entities().find((e: { id: string; gst_rate: number }) => e.id === id)?.gst_rate ?? 0;
+                setGstRate(isGstRate(itemRate) ? itemRate : 0);
+            },
+            { defer: true },
+        ),
+    );
 
     const today = () => new Date().toISOString().split('T')[0];
 
@@ -166,12 +336,27 @@ export function FormContent(props: FormContentProps) {
     };
 
     const [transactionType, setTransactionType] = createSignal('credit');
+    const [paymentStatus, setPaymentStatus] = createSignal('');
 
     const [addTransportation, setAddTransportation] = createSignal(false);
     const [vehicleType, setVehicleType] = createSignal('');
     const [regNo, setRegNo] = createSignal('');
+    const [loadTonnes, setLoadTonnes] = createSignal('');
     const [transportationCost, setTransportationCost] = createSignal('');
 
+    // Warn (without blocking) when this entry would take one of the site's budgets past its threshold
+    const budgets = createAsync(async () => (selectedSourceId() ? loadBudgetUsage(selectedSourceId()) : []));
+    const budgetAlerts = createMemo(() => {
+        const entity = entities().find((e: { id: string; type: BudgetCategory }) => e.id === selectedEntityId());
+        const gross = addMoney(
+            taxable(),
+            computeGst(taxable(), gstRate(), gstSupply()).tax,
+            addTransportation() ? parseMoney(transportationCost()) : 0,
+        );
+        const spend = entrySpend(transactionType() === 'debit' ? 'debit' : 'credit', paymentStatus(), gross);
+        return budgetWarnings(budgets() ?? [], [{ category: entity?.type ?? null, date: date(), spend }]);
+    });
+
     return (
         <div class="space-y-8">
             <form ref={formRef} action={createExpense} method="post" class="space-y-8">
@@ -193,6 +378,7 @@ export function FormContent(props: FormContentProps) {
                                 required
                                 options={destinations()}
                                 defaultValue={props.defaultSourceId}
+                                onValueChange={setSelectedSourceId}
                             />
                             <TransactionTypeToggle value={transactionType()} onChange={setTransactionType} />
                         </div>
@@ -223,7 +409,11 @@ export function FormContent(props: FormContentProps) {
                         <div
                             class={`transition-opacity duration-300 ${!selectedEntityId() ? 'opacity-50 pointer-events-none' : 'opacity-100'}`}
                         >
-                            <SelectInput name="entity_variant_id" label="Variant (Optional)">
+                            <SelectInput
+                                name="entity_variant_id"
+                                label="Variant (Optional)"
+                                onChange={(e) => setSelectedVariantId(e.currentTarget.value)}
+                            >
                                 <option value="" selected>
                                     Default / No Variant
                                 </option>
@@ -255,6 +445,13 @@ export function FormContent(props: FormContentProps) {
                         </div>
                     </div>
 
+                    <VirtualizedCombobox
+                        name="vendor_id"
+                        label="Supplied By (Vendor, Optional)"
+                        placeholder="Search vendor..."
+                        options={vendors()}
+                    />
+
                     <div class="grid grid-cols-1 md:grid-cols-3 gap-4">
                         <TextInput
                             name="quantity"
@@ -270,15 +467,56 @@ export function FormContent(props: FormContentProps) {
                             type="number"
                             step="0.01"
                             value={rate()}
-                            onInput={(e) => setRate(parseFloat(e.currentTarget.value) || 0)}
+                            onInput={(e) => {
+                                rateTyped = true;
+                                setRate(parseFloat(e.currentTarget.value) || 0);
+                            }}
                             required
                         />
-                        <TextInput name="amount" label="Total Amount (₹)" value={amount()} type="number" readOnly />
+                        <TextInput name="amount" label="Taxable Value (₹)" value={amount()} type="number" readOnly />
                     </div>
 
+                    <Show when={recentRates().length > 0}>
+                        <p class="-mt-2 text-xs text-zinc-500">
+                            Last rate {formatMoney(recentRates()[0], { symbol: '₹' })} · average{' '}
+                            {formatMoney(averageRate(recentRates()), { symbol: '₹' })} over the last{' '}
+                            {recentRates().length} {recentRates().length === 1 ? 'entry' : 'entries'}
+                        </p>
+                    </Show>
+
+                    <Show when={needsRateConfirmation()}>
+                        <label class="flex items-start gap-3 p-3 bg-amber-500/10 border border-amber-500/20 rounded-lg text-xs text-amber-800">
+                            <input
+                                type="checkbox"
+                                name="confirm_rate"
+                                value="true"
+                                checked={rateConfirmed()}
+                                onChange={(e) => setRateConfirmed(e.currentTarget.checked)}
+                                class="mt-0.5 h-4 w-4 rounded border-gray-300 text-black focus:ring-black/50"
+                            />
+                            <span>
+                                <Show when={rateWarning()}>{(warning) => <span class="font-medium">{warning()} </span>}</Show>
+                                I have checked this rate and want to save it.
+                            </span>
+                        </label>
+                    </Show>
+
+                    <GstFields
+                        taxable={taxable()}
+                        rate={gstRate()}
+                        supply={gstSupply()}
+                        onRateChange={setGstRate}
+                        onSupplyChange={setGstSupply}
+                    />
+
                     <div class="grid grid-cols-1 md:grid-cols-2 gap-4">
                         <TextInput name="date" label="Date" type="date" value={date()} onInput={handleDateChange} required />
-                        <SelectInput name="payment_status" label="Payment Status" required>
+                        <SelectInput
+                            name="payment_status"
+                            label="Payment Status"
+                            onChange={(e) => setPaymentStatus(e.currentTarget.value)}
+                            required
+                        >
                             <option value="" disabled selected>
                                 Select status...
                             </option>
@@ -312,7 +550,7 @@ export function FormContent(props: FormContentProps) {
                     </div>
 
                     <Show when={addTransportation()}>
-                        <div class="grid grid-cols-1 md:grid-cols-3 gap-4 animate-in fade-in slide-in-from-top-2 duration-300">
+                        <div class="grid grid-cols-1 md:grid-cols-4 gap-4 animate-in fade-in slide-in-from-top-2 duration-300">
                             <TextInput
                                 name="vehicle_type"
                                 label="Vehicle Type"
@@ -324,8 +562,24 @@ export function FormContent(props: FormContentProps) {
                                 name="reg_no"
                                 label="Vehicle Reg. No."
                                 placeholder="e.g. MH 12 AB 1234"
+                                list="vehicle-options"
                                 value={regNo()}
-                                onInput={(e) => setRegNo(e.currentTarget.value)}
+                                onInput={(e) => {
+                                    setRegNo(e.currentTarget.value);
+                                    // Picking a known vehicle fills in its type
+                                    const type = knownVehicleType(vehicles(), e.currentTarget.value);
+                                    if (type && !vehicleType()) setVehicleType(type);
+                                }}
+                            />
+                            <VehicleOptions id="vehicle-options" vehicles={vehicles()} />
+                            <TextInput
+                                name="load_tonnes"
+                                label="Load (t)"
+                                type="number"
+                                step="0.001"
+                                placeholder="Optional"
+                                value={loadTonnes()}
+                                onInput={(e) => setLoadTonnes(e.currentTarget.value)}
                             />
                             <TextInput
                                 name="transportation_cost"
@@ -339,6 +593,13 @@ export function FormContent(props: FormContentProps) {
                         </div>
                     </Show>
                 </div>
+                {/* Budget warnings */}
+                <Show when={budgetAlerts().length > 0}>
+                    <div class="p-3 bg-amber-500/10 border border-amber-500/20 rounded-lg text-xs text-amber-800 font-medium space-y-0.5">
+                        <For each={budgetAlerts()}>{(alert) => <p>{alert}</p>}</For>
+                    </div>
+                </Show>
+
                 {/* Submission Error */}
                 <Show when={submission.result?.error}>
                     <div class="p-3 bg-red-500/10 border border-red-500/20 rounded-lg text-xs text-red-500 font-medium">
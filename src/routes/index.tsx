@@ -1,11 +1,299 @@
-import { A } from "@solidjs/router";
-import { SiteCard } from "~/components/Card";
-import Sidebar, { SidebarItem } from "~/components/Sidebar";
+import { A, createAsync, query } from '@solidjs/router';
+import { and, desc, gt, gte, isNull, sql } from 'drizzle-orm';
+import { For, Show, Suspense, type JSX } from 'solid-js';
+import { db } from '~/drizzle/client';
+import { AuditLog, TransactionDetail, WarehouseTransactionDetail } from '~/drizzle/schema';
+import { requireAuth } from '~/lib/require-auth';
+import { loadLowStock } from '~/lib/stock';
+import { formatMoney } from '~/lib/money';
+
+// --- QUERIES ---
+
+/** Spend this week and month and pending payables, per site. */
+async function loadExpenseSummary() {
+    const spend = sql`CASE WHEN ${TransactionDetail.type} = 'credit' THEN 1 ELSE -1 END * (
+        COALESCE(${TransactionDetail.gross_amount}, 0) + COALESCE(${TransactionDetail.transportation_cost}, 0)
+    )`;
+    const since = (unit: 'week' | 'month') =>
+        sql<number>`COALESCE(SUM(${spend}) FILTER (WHERE ${TransactionDetail.created_at} >= date_trunc(${unit}, now())), 0)`.mapWith(
+            Number,
+        );
+    const payable = sql<number>`COALESCE(SUM(${TransactionDetail.outstanding_amount}) FILTER (
+        WHERE ${TransactionDetail.payment_status} = 'pending' AND ${TransactionDetail.outstanding_amount} > 0
+    ), 0)`.mapWith(Number);
+
+    const sites = await db
+        .select({
+            site_id: TransactionDetail.source_id,
+            site_name: TransactionDetail.source_name,
+            week: since('week'),
+            month: since('month'),
+            payable,
+        })
+        .from(TransactionDetail)
+        .groupBy(TransactionDetail.source_id, TransactionDetail.source_name);
+
+    const active = sites.filter((s) => s.month !== 0 || s.payable !== 0);
+    return {
+        week: sites.reduce((sum, s) => sum + s.week, 0),
+        month: sites.reduce((sum, s) => sum + s.month, 0),
+        payable: sites.reduce((sum, s) => sum + s.payable, 0),
+        topSpend: [...active].sort((a, b) => b.month - a.month).slice(0, 5),
+        topPayable: active
+            .filter((s) => s.payable > 0)
+            .sort((a, b) => b.payable - a.payable)
+            .slice(0, 5),
+    };
+}
+
+/** Today's transfers (stock-take adjustments aside) and items below their minimum stock level. */
+async function loadWarehouseSummary() {
+    const today = and(
+        gte(WarehouseTransactionDetail.created_at, sql`date_trunc('day', now())`),
+        isNull(WarehouseTransactionDetail.adjustment_reason),
+    );
+    const [movesToday, recentMoves, lowStock] = await Promise.all([
+        db
+            .select({ count: sql<number>`COUNT(*)`.mapWith(Number) })
+            .from(WarehouseTransactionDetail)
+            .where(today)
+            .then((rows) => rows[0]?.count ?? 0),
+        db
+            .select({
+                id: WarehouseTransactionDetail.id,
+                created_at: WarehouseTransactionDetail.created_at,
+                entity_name: WarehouseTransactionDetail.entity_name,
+                entity_variant: WarehouseTransactionDetail.entity_variant,
+                entity_unit: WarehouseTransactionDetail.entity_unit,
+                quantity: WarehouseTransactionDetail.quantity,
+                source_name: WarehouseTransactionDetail.source_name,
+                destination_id: WarehouseTransactionDetail.destination_id,
+                destination_name: WarehouseTransactionDetail.destination_name,
+            })
+            .from(WarehouseTransactionDetail)
+            .where(today)
+            .orderBy(desc(WarehouseTransactionDetail.created_at))
+            .limit(8),
+        loadLowStock(),
+    ]);
+    return { movesToday, recentMoves, lowStock };
+}
+
+/** Who has been making changes over the last seven days, from the audit log. */
+function loadUserActivity() {
+    return db
+        .select({
+            actor_id: AuditLog.actor_id,
+            actor_name: AuditLog.actor_name,
+            changes: sql<number>`COUNT(*)`.mapWith(Number),
+            last_at: sql<Date>`MAX(${AuditLog.created_at})`.mapWith((v) => new Date(v)),
+        })
+        .from(AuditLog)
+        .where(gt(AuditLog.created_at, sql`now() - interval '7 days'`))
+        .groupBy(AuditLog.actor_id, AuditLog.actor_name)
+        .orderBy(desc(sql`MAX(${AuditLog.created_at})`))
+        .limit(10);
+}
+
+export const loadHome = query(async () => {
+    'use server';
+    const session = await requireAuth();
+    const role = session.user.role;
+    const isAdmin = role === 'admin';
+
+    const [expense, warehouse, activity] = await Promise.all([
+        isAdmin || role === 'expense-user' ? loadExpenseSummary() : null,
+        isAdmin || role === 'warehouse-user' ? loadWarehouseSummary() : null,
+        isAdmin ? loadUserActivity() : null,
+    ]);
+    return { name: session.user.name, expense, warehouse, activity };
+}, 'home-dashboard');
+
+// --- PAGE ---
+
+const fmt = (paise: number) => formatMoney(paise, { symbol: '₹' });
+const formatQuantity = (value: string | number | null) => {
+    const num = Number(value ?? 0);
+    return Number.isFinite(num) ? num.toFixed(3).replace(/\.?0+$/, '') : String(value);
+};
 
 export default function Home() {
-  return (
-    <>
-      <div class="flex h-screen bg-black"></div>
-    </>
-  );
+    const data = createAsync(() => loadHome());
+
+    return (
+        <div class="w-full mx-auto px-4 py-12">
+            <div class="mb-8">
+                <h1 class="text-3xl font-bold text-black tracking-tight">Home</h1>
+                <Show when={data()?.name}>
+                    <p class="mt-1 text-sm text-zinc-500">Welcome back, {data()?.name}.</p>
+                </Show>
+            </div>
+
+            <Suspense fallback={<div class="h-64 bg-zinc-100 rounded-2xl animate-pulse" />}>
+                <div class="space-y-10">
+                    <Show when={data()?.expense}>
+                        {(expense) => (
+                            <section class="space-y-4">
+                                <h2 class="text-xs font-semibold text-zinc-500 uppercase tracking-wide">Expenses</h2>
+                                <div class="grid grid-cols-1 sm:grid-cols-3 gap-4">
+                                    <StatCard label="Spend this week" value={fmt(expense().week)} href="/sites" />
+                                    <StatCard label="Spend this month" value={fmt(expense().month)} href="/sites" />
+                                    <StatCard
+                                        label="Pending payables"
+                                        value={fmt(expense().payable)}
+                                        href="/sites"
+                                        highlight={expense().payable > 0}
+                                    />
+                                </div>
+                                <div class="grid grid-cols-1 lg:grid-cols-2 gap-4">
+                                    <Panel title="Top sites this month" empty={expense().topSpend.length === 0}>
+                                        <For each={expense().topSpend}>
+                                            {(site) => (
+                                                <Row
+                                                    href={`/expenses/${site.site_id}`}
+                                                    label={site.site_name ?? 'Unknown'}
+                                                    value={fmt(site.month)}
+                                                />
+                                            )}
+                                        </For>
+                                    </Panel>
+                                    <Panel title="Largest payables" empty={expense().topPayable.length === 0}>
+                                        <For each={expense().topPayable}>
+                                            {(site) => (
+                                                <Row
+                                                    href={`/expenses/${site.site_id}/payments`}
+                                                    label={site.site_name ?? 'Unknown'}
+                                                    value={fmt(site.payable)}
+                                                />
+                                            )}
+                                        </For>
+                                    </Panel>
+                                </div>
+                            </section>
+                        )}
+                    </Show>
+
+                    <Show when={data()?.warehouse}>
+                        {(warehouse) => (
+                            <section class="space-y-4">
+                                <h2 class="text-xs font-semibold text-zinc-500 uppercase tracking-wide">Warehouse</h2>
+                                <div class="grid grid-cols-1 sm:grid-cols-2 gap-4">
+                                    <StatCard
+                                        label="Transfers today"
+                                        value={String(warehouse().movesToday)}
+                                        href="/dashboard"
+                                    />
+                                    <StatCard
+                                        label="Below minimum stock"
+                                        value={String(warehouse().lowStock.length)}
+                                        href="/items/low-stock"
+                                        highlight={warehouse().lowStock.length > 0}
+                                    />
+                                </div>
+                                <div class="grid grid-cols-1 lg:grid-cols-2 gap-4">
+                                    <Panel title="Today's transfers" empty={warehouse().recentMoves.length === 0}>
+                                        <For each={warehouse().recentMoves}>
+                                            {(move) => (
+                                                <Row
+                                                    href={`/destination/${move.destination_id}/ledger`}
+                                                    label={`${move.entity_name ?? ''}${move.entity_variant ? ` ${move.entity_variant}` : ''}`}
+                                                    note={`${move.source_name ?? '--'} → ${move.destination_name ?? '--'}`}
+                                                    value={`${formatQuantity(move.quantity)} ${move.entity_unit ?? ''}`}
+                                                />
+                                            )}
+                                        </For>
+                                    </Panel>
+                                    <Panel title="Low stock" empty={warehouse().lowStock.length === 0}>
+                                        <For each={warehouse().lowStock.slice(0, 8)}>
+                                            {(item) => (
+                                                <Row
+                                                    href={`/destination/${item.location_id}`}
+                                                    label={`${item.entity_name}${item.entity_variant ? ` ${item.entity_variant}` : ''}`}
+                                                    note={item.location_name}
+                                                    value={`${formatQuantity(item.balance)} / ${formatQuantity(item.min_quantity)} ${item.entity_unit}`}
+                                                    danger
+                                                />
+                                            )}
+                                        </For>
+                                    </Panel>
+                                </div>
+                            </section>
+                        )}
+                    </Show>
+
+                    <Show when={data()?.activity}>
+                        {(activity) => (
+                            <section class="space-y-4">
+                                <h2 class="text-xs font-semibold text-zinc-500 uppercase tracking-wide">
+                                    User activity (last 7 days)
+                                </h2>
+                                <Panel title="Changes by user" empty={activity().length === 0}>
+                                    <For each={activity()}>
+                                        {(row) => (
+                                            <Row
+                                                href="/audit"
+                                                label={row.actor_name || 'Unknown user'}
+                                                note={`last ${row.last_at.toLocaleString()}`}
+                                                value={`${row.changes} ${row.changes === 1 ? 'change' : 'changes'}`}
+                                            />
+                                        )}
+                                    </For>
+                                </Panel>
+                            </section>
+                        )}
+                    </Show>
+                </div>
+            </Suspense>
+        </div>
+    );
+}
+
+function StatCard(props: { label: string; value: string; href: string; highlight?: boolean }) {
+    return (
+        <A
+            href={props.href}
+            class="block bg-white border border-zinc-200 rounded-2xl p-4 hover:border-zinc-300 transition-colors"
+        >
+            <p class="text-[10px] font-bold uppercase tracking-wide text-zinc-400">{props.label}</p>
+            <p
+                class="mt-1 text-2xl font-bold tabular-nums"
+                classList={{ 'text-red-500': !!props.highlight, 'text-black': !props.highlight }}
+            >
+                {props.value}
+            </p>
+        </A>
+    );
+}
+
+function Panel(props: { title: string; empty: boolean; children: JSX.Element }) {
+    return (
+        <div class="bg-white border border-zinc-200 rounded-2xl p-4 shadow-2xl shadow-black/5">
+            <h3 class="mb-2 text-xs font-semibold text-zinc-500 uppercase tracking-wide">{props.title}</h3>
+            <Show
+                when={!props.empty}
+                fallback={<p class="py-6 text-center text-sm text-zinc-400">Nothing here yet.</p>}
+            >
+                <div class="divide-y divide-zinc-100">{props.children}</div>
+            </Show>
+        </div>
+    );
+}
+
+function Row(props: { href: string; label: string; note?: string; value: string; danger?: boolean }) {
+    return (
+        <A href={props.href} class="flex items-center justify-between gap-4 py-2 text-sm hover:bg-zinc-50">
+            <span class="min-w-0">
+                <span class="block truncate text-black">{props.label}</span>
+                <Show when={props.note}>
+                    <span class="block truncate text-xs text-zinc-400">{props.note}</span>
+                </Show>
+            </span>
+            <span
+                class="shrink-0 tabular-nums font-medium"
+                classList={{ 'text-red-500': !!props.danger, 'text-black': !props.danger }}
+            >
+                {props.value}
+            </span>
+        </A>
+    );
 }
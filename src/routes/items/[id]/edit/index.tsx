@@ -4,6 +4,7 @@ import { eq } from 'drizzle-orm';
 import { db } from '~/drizzle/client';
 import { EntityType, EntityVariantWarehouse, EntityWarehouse } from '~/drizzle/schema';
 import { requireAuth } from '~/lib/require-auth';
+import { recordAudit, type AuditEntry } from '~/lib/audit';
 import { VirtualizedCombobox, type ComboboxOption } from '~/components/VirtualizedCombobox';
 
 const UNITS: ComboboxOption[] = [
@@ -84,7 +85,7 @@ const loadItemForEdit = query(async (itemId: string) => {
 
 export const updateItem = action(async (formData: FormData): Promise<ActionResponse> => {
     'use server';
-    await requireAuth(['warehouse-user']);
+    const session = await requireAuth(['warehouse-user']);
 
     const getStringField = (key: string) => {
         const value = formData.get(key);
@@ -152,6 +153,7 @@ export const updateItem = action(async (formData: FormData): Promise<ActionRespo
         let deleteErrorMessage: string | null = null;
 
         await db.transaction(async (tx) => {
+            const [before] = await tx.select().from(EntityWarehouse).where(eq(EntityWarehouse.id, id)).for('update');
             const updated = await tx
                 .update(EntityWarehouse)
                 .set({ name, unit, type })
@@ -163,8 +165,10 @@ export const updateItem = action(async (formData: FormData): Promise<ActionRespo
                 return;
             }
 
+            const audit: AuditEntry[] = [{ table: EntityWarehouse, rowId: id, before, after: updated[0] }];
+
             const originalVariants = await tx
-                .select({ id: EntityVariantWarehouse.id })
+                .select()
                 .from(EntityVariantWarehouse)
                 .where(eq(EntityVariantWarehouse.entity_id, id));
 
@@ -187,7 +191,7 @@ export const updateItem = action(async (formData: FormData): Promise<ActionRespo
 
             // Perform updates
             for (const variant of variantsToUpdate) {
-                await tx
+                const [after] = await tx
                     .update(EntityVariantWarehouse)
                     .set({
                         length: variant.length,
@@ -197,28 +201,39 @@ export const updateItem = action(async (formData: FormData): Promise<ActionRespo
                         dimension_unit: variant.dimension_unit,
                         thickness_unit: variant.thickness_unit,
                     })
-                    .where(eq(EntityVariantWarehouse.id, variant.id));
+                    .where(eq(EntityVariantWarehouse.id, variant.id))
+                    .returning();
+                const previous = originalVariants.find((v) => v.id === variant.id);
+                audit.push({ table: EntityVariantWarehouse, rowId: variant.id, before: previous, after });
             }
 
             // Perform creates
             if (variantsToCreate.length > 0) {
-                await tx.insert(EntityVariantWarehouse).values(
-                    variantsToCreate.map((variant) => ({
-                        entity_id: id,
-                        length: variant.length,
-                        width: variant.width,
-                        height: variant.height,
-                        thickness: variant.thickness,
-                        dimension_unit: variant.dimension_unit,
-                        thickness_unit: variant.thickness_unit,
-                    })),
-                );
+                const created = await tx
+                    .insert(EntityVariantWarehouse)
+                    .values(
+                        variantsToCreate.map((variant) => ({
+                            entity_id: id,
+                            length: variant.length,
+                            width: variant.width,
+                            height: variant.height,
+                            thickness: variant.thickness,
+                            dimension_unit: variant.dimension_unit,
+                            thickness_unit: variant.thickness_unit,
+                        })),
+                    )
+                    .returning();
+                audit.push(...created.map((variant) => ({ table: EntityVariantWarehouse, rowId: variant.id, after: variant })));
             }
 
             // Perform deletes
             for (const variantId of variantsToDelete) {
                 try {
-                    await tx.delete(EntityVariantWarehouse).where(eq(EntityVariantWarehouse.id, variantId));
+                    const [deleted] = await tx
+                        .delete(EntityVariantWarehouse)
+                        .where(eq(EntityVariantWarehouse.id, variantId))
+                        .returning();
+                    audit.push({ table: EntityVariantWarehouse, rowId: variantId, before: deleted });
                 } catch (error: unknown) {
                     if (typeof error === 'object' && error !== null && 'code' in error && (error as { code?: string }).code === '23503') {
                         deleteErrorMessage = "Some variants couldn't be deleted as they are part of existing transactions, but other changes were saved.";
@@ -227,6 +242,8 @@ export const updateItem = action(async (formData: FormData): Promise<ActionRespo
                     }
                 }
             }
+
+            await recordAudit(tx, session.user, audit);
         });
 
         if (deleteErrorMessage) {
@@ -1,58 +1,39 @@
 import { createAsync, query, useNavigate, useParams } from '@solidjs/router';
-import { and, asc, eq, or, sql } from 'drizzle-orm';
+import { asc, eq } from 'drizzle-orm';
 import { createSignal, For, Show, Suspense } from 'solid-js';
 import { db } from '~/drizzle/client';
-import { Destination, EntityWarehouse, WarehouseTransaction } from '~/drizzle/schema';
+import { Destination, EntityWarehouse } from '~/drizzle/schema';
 import { Pagination, PaginationSkeleton } from '~/components/Pagination';
+import { loadLowStock, loadStockBalances } from '~/lib/stock';
 
 const netBalanceForAllDestinations = query(async (itemId: string, limit: number, offset: number) => {
     'use server';
 
-    const balances = await db
-        .select({
-            destination_id: Destination.id,
-            destination_name: Destination.name,
-            net_quantity: sql<number>`SUM(
-                CASE
-                    WHEN ${WarehouseTransaction.destination_id} = ${Destination.id}
-                    THEN COALESCE(CAST(${WarehouseTransaction.quantity} as REAL), 0)
-                    WHEN ${WarehouseTransaction.source_id} = ${Destination.id}
-                    THEN -COALESCE(CAST(${WarehouseTransaction.quantity} as REAL), 0)
-                    ELSE 0
-                END
-            )`.as('net_quantity'),
-        })
-        .from(Destination)
-        .leftJoin(
-            WarehouseTransaction,
-            and(
-                eq(WarehouseTransaction.entity_id, itemId),
-                or(
-                    eq(WarehouseTransaction.destination_id, Destination.id),
-                    eq(WarehouseTransaction.source_id, Destination.id),
-                ),
-            ),
-        )
-        .groupBy(Destination.id, Destination.name)
-        .orderBy(asc(Destination.name))
-        .limit(limit)
-        .offset(offset);
+    const [destinations, stock, item, lowStock] = await Promise.all([
+        db
+            .select({ destination_id: Destination.id, destination_name: Destination.name })
+            .from(Destination)
+            .orderBy(asc(Destination.name)),
+        loadStockBalances({ entityId: itemId }),
+        db
+            .select({ name: EntityWarehouse.name, unit: EntityWarehouse.unit })
+            .from(EntityWarehouse)
+            .where(eq(EntityWarehouse.id, itemId))
+            .then((rows) => rows[0] ?? null),
+        loadLowStock({ entityId: itemId }),
+    ]);
 
-    const totalCount = await db
-        .select({ total: sql<number>`COUNT(*)`.as('total') })
-        .from(Destination)
-        .then((rows) => rows[0]?.total ?? 0);
-
-    const item = await db
-        .select({ name: EntityWarehouse.name, unit: EntityWarehouse.unit })
-        .from(EntityWarehouse)
-        .where(eq(EntityWarehouse.id, itemId))
-        .then((rows) => rows[0] ?? null);
+    // Net of all variants at each location
+    const totals = new Map<string, number>();
+    for (const b of stock) totals.set(b.location_id, (totals.get(b.location_id) ?? 0) + b.balance);
 
     return {
-        balances,
+        balances: destinations
+            .slice(offset, offset + limit)
+            .map((d) => ({ ...d, net_quantity: totals.get(d.destination_id) ?? 0 })),
         item: item ?? { name: 'Unknown Item', unit: 'Units' },
-        totalCount,
+        totalCount: destinations.length,
+        lowStock,
     };
 }, 'net-entity-for-all-dest');
 
@@ -63,6 +44,8 @@ export default function DestinationNetBalance() {
     const balances = createAsync(() => netBalanceForAllDestinations(params.id, pageSize(), (page() - 1) * pageSize()));
     const navigate = useNavigate();
     const totalCount = () => balances()?.totalCount ?? 0;
+    const lowStockAt = (destinationId: string) =>
+        (balances()?.lowStock ?? []).filter((low) => low.location_id === destinationId);
 
     return (
         <div class="w-full mx-auto px-4 py-12">
@@ -80,6 +63,20 @@ export default function DestinationNetBalance() {
                         </Suspense>
                     </p>
                 </div>
+                <div class="flex items-center gap-4">
+                    <a
+                        href={`/api/warehouse/items/${params.id}?format=csv`}
+                        class="text-sm font-semibold text-blue-600 hover:underline"
+                    >
+                        CSV
+                    </a>
+                    <a
+                        href={`/api/warehouse/items/${params.id}?format=xlsx`}
+                        class="px-4 py-2 bg-black hover:bg-black/80 text-white font-semibold text-sm rounded-lg transition-colors shadow-sm"
+                    >
+                        Export Balances
+                    </a>
+                </div>
             </div>
 
             <div class="bg-white border border-zinc-200 rounded-2xl overflow-hidden shadow-2xl shadow-black/5">
@@ -108,9 +105,12 @@ export default function DestinationNetBalance() {
                                                 return Number.isFinite(value) ? value.toLocaleString() : '0';
                                             };
 
+                                            const low = () => lowStockAt(row.destination_id);
+
                                             return (
                                                 <tr
                                                     class="group cursor-pointer hover:bg-zinc-50 transition-colors duration-200"
+                                                    classList={{ 'bg-red-50/60': low().length > 0 }}
                                                     role="link"
                                                     tabindex={0}
                                                     onClick={() => navigate(`/destination/${row.destination_id}`)}
@@ -123,11 +123,23 @@ export default function DestinationNetBalance() {
                                                 >
                                                     <td class="py-5 pl-8 pr-4 text-sm text-black">
                                                         {row.destination_name}
+                                                        <For each={low()}>
+                                                            {(item) => (
+                                                                <span class="block text-xs text-red-500">
+                                                                    Below minimum
+                                                                    {item.entity_variant
+                                                                        ? ` (${item.entity_variant})`
+                                                                        : ''}
+                                                                    : {item.balance.toLocaleString()} of{' '}
+                                                                    {item.min_quantity.toLocaleString()}
+                                                                </span>
+                                                            )}
+                                                        </For>
                                                     </td>
                                                     <td class="py-5 pl-4 pr-8 text-right">
                                                         <span
                                                             class={`text-sm font-medium ${
-                                                                (row.net_quantity ?? 0) < 0
+                                                                (row.net_quantity ?? 0) < 0 || low().length > 0
                                                                     ? 'text-red-500'
                                                                     : 'text-black'
                                                             }`}
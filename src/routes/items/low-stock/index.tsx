@@ -0,0 +1,130 @@
+import { A, createAsync, query } from '@solidjs/router';
+import { createMemo, createSignal, For, Show, Suspense } from 'solid-js';
+import { requireAuth } from '~/lib/require-auth';
+import { loadLowStock } from '~/lib/stock';
+
+export const loadLowStockReport = query(async () => {
+    'use server';
+    await requireAuth(['warehouse-user']);
+    return loadLowStock();
+}, 'low-stock-report');
+
+const formatQuantity = (value: number) => value.toFixed(3).replace(/\.?0+$/, '');
+
+export default function LowStockPage() {
+    const report = createAsync(() => loadLowStockReport());
+    const [location, setLocation] = createSignal('');
+
+    const locations = createMemo(() => {
+        const names = new Map<string, string>();
+        for (const row of report() ?? []) names.set(row.location_id, row.location_name);
+        return [...names].map(([id, name]) => ({ id, name })).sort((a, b) => a.name.localeCompare(b.name));
+    });
+    const rows = createMemo(() => (report() ?? []).filter((row) => !location() || row.location_id === location()));
+
+    return (
+        <div class="w-full mx-auto px-4 py-12">
+            <div class="mb-8 flex justify-between items-start">
+                <div>
+                    <h1 class="text-3xl font-bold text-black tracking-tight">Low Stock</h1>
+                    <p class="mt-1 text-sm text-zinc-500">
+                        Items below the minimum set for them, across all godowns. Set minimums from a godown's Stock
+                        Levels page.
+                    </p>
+                </div>
+                <select
+                    class="h-9 bg-white border border-zinc-200 rounded-lg px-3 text-sm text-black outline-none cursor-pointer hover:border-zinc-300 transition-colors"
+                    value={location()}
+                    onChange={(e) => setLocation(e.currentTarget.value)}
+                >
+                    <option value="">All godowns</option>
+                    <For each={locations()}>{(l) => <option value={l.id}>{l.name}</option>}</For>
+                </select>
+            </div>
+
+            <div class="bg-white border border-zinc-200 rounded-2xl overflow-hidden shadow-2xl shadow-black/5">
+                <div class="overflow-x-auto">
+                    <table class="w-full text-left border-collapse">
+                        <thead>
+                            <tr class="border-b border-zinc-200 bg-zinc-50">
+                                <th class="py-3 px-3 text-xs font-bold uppercase tracking-wider text-zinc-600">
+                                    Godown
+                                </th>
+                                <th class="py-3 px-3 text-xs font-bold uppercase tracking-wider text-zinc-600">Item</th>
+                                <th class="py-3 px-3 text-xs font-bold uppercase tracking-wider text-zinc-600">
+                                    Variant
+                                </th>
+                                <th class="py-3 px-3 text-right text-xs font-bold uppercase tracking-wider text-zinc-600">
+                                    In Stock
+                                </th>
+                                <th class="py-3 px-3 text-right text-xs font-bold uppercase tracking-wider text-zinc-600">
+                                    Minimum
+                                </th>
+                                <th class="py-3 px-3 text-right text-xs font-bold uppercase tracking-wider text-zinc-600">
+                                    Shortfall
+                                </th>
+                                <th class="py-3 px-3 text-right text-xs font-bold uppercase tracking-wider text-zinc-600">
+                                    Reorder Qty
+                                </th>
+                            </tr>
+                        </thead>
+                        <tbody class="divide-y divide-zinc-100">
+                            <Suspense>
+                                <Show
+                                    when={rows().length > 0}
+                                    fallback={
+                                        <tr>
+                                            <td colspan={7} class="text-center py-12 text-sm text-zinc-400">
+                                                Nothing is below its minimum.
+                                            </td>
+                                        </tr>
+                                    }
+                                >
+                                    <For each={rows()}>
+                                        {(row) => (
+                                            <tr class="hover:bg-zinc-50/80">
+                                                <td class="py-3 px-3 text-sm">
+                                                    <A
+                                                        href={`/destination/${row.location_id}/levels`}
+                                                        class="text-black hover:underline"
+                                                    >
+                                                        {row.location_name}
+                                                    </A>
+                                                </td>
+                                                <td class="py-3 px-3 text-sm">
+                                                    <A
+                                                        href={`/items/${row.entity_id}`}
+                                                        class="text-black hover:underline"
+                                                    >
+                                                        {row.entity_name}
+                                                    </A>
+                                                </td>
+                                                <td class="py-3 px-3 text-sm text-zinc-700">
+                                                    {row.entity_variant || 'NA'}
+                                                </td>
+                                                <td class="py-3 px-3 text-right text-sm font-medium tabular-nums text-red-500">
+                                                    {formatQuantity(row.balance)} {row.entity_unit}
+                                                </td>
+                                                <td class="py-3 px-3 text-right text-sm tabular-nums text-zinc-700">
+                                                    {formatQuantity(row.min_quantity)}
+                                                </td>
+                                                <td class="py-3 px-3 text-right text-sm tabular-nums text-zinc-700">
+                                                    {formatQuantity(row.min_quantity - row.balance)}
+                                                </td>
+                                                <td class="py-3 px-3 text-right text-sm tabular-nums text-zinc-700">
+                                                    {row.reorder_quantity === null
+                                                        ? '--'
+                                                        : formatQuantity(row.reorder_quantity)}
+                                                </td>
+                                            </tr>
+                                        )}
+                                    </For>
+                                </Show>
+                            </Suspense>
+                        </tbody>
+                    </table>
+                </div>
+            </div>
+        </div>
+    );
+}
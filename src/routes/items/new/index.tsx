@@ -3,6 +3,7 @@ import { action, redirect, useSubmission } from '@solidjs/router';
 import { db } from '~/drizzle/client';
 import { EntityType, EntityVariantWarehouse, EntityWarehouse } from '~/drizzle/schema';
 import { requireAuth } from '~/lib/require-auth';
+import { recordAudit } from '~/lib/audit';
 import { VirtualizedCombobox, type ComboboxOption } from '~/components/VirtualizedCombobox';
 
 const UNITS: ComboboxOption[] = [
@@ -48,7 +49,7 @@ const isEntityType = (value: string): value is (typeof EntityType)[number] =>
 
 export const createItem = action(async (formData: FormData): Promise<ActionResponse> => {
     'use server';
-    await requireAuth(['warehouse-user']);
+    const session = await requireAuth(['warehouse-user']);
 
     const getStringField = (key: string) => {
         const value = formData.get(key);
@@ -104,21 +105,32 @@ export const createItem = action(async (formData: FormData): Promise<ActionRespo
         : [];
 
     try {
-        const [item] = await db.insert(EntityWarehouse).values({ name, unit, type }).returning();
-
-        if (normalizedVariants.length > 0) {
-            await db.insert(EntityVariantWarehouse).values(
-                normalizedVariants.map((variant) => ({
-                    entity_id: item.id,
-                    length: variant.length,
-                    width: variant.width,
-                    height: variant.height,
-                    thickness: variant.thickness,
-                    dimension_unit: variant.dimension_unit,
-                    thickness_unit: variant.thickness_unit,
-                })),
-            );
-        }
+        await db.transaction(async (tx) => {
+            const [item] = await tx.insert(EntityWarehouse).values({ name, unit, type }).returning();
+
+            const variants =
+                normalizedVariants.length > 0
+                    ? await tx
+                          .insert(EntityVariantWarehouse)
+                          .values(
+                              normalizedVariants.map((variant) => ({
+                                  entity_id: item.id,
+                                  length: variant.length,
+                                  width: variant.width,
+                                  height: variant.height,
+                                  thickness: variant.thickness,
+                                  dimension_unit: variant.dimension_unit,
+                                  thickness_unit: variant.thickness_unit,
+                              })),
+                          )
+                          .returning()
+                    : [];
+
+            await recordAudit(tx, session.user, [
+                { table: EntityWarehouse, rowId: item.id, after: item },
+                ...variants.map((variant) => ({ table: EntityVariantWarehouse, rowId: variant.id, after: variant })),
+            ]);
+        });
 
         throw redirect(`/items`);
     } catch (error: unknown) {
@@ -9,10 +9,12 @@ import { Pagination, PaginationSkeleton } from '~/components/Pagination';
 import Sheet from '~/components/Sheet';
 import { createDestination } from '~/routes/create-destination';
 import { requireAuth } from '~/lib/require-auth';
+import { recordAudit } from '~/lib/audit';
 import { createHotkey } from '@tanstack/solid-hotkeys';
 
 export const loadSites = query(async (q: string, limit: number, offset: number) => {
     'use server';
+    const session = await requireAuth();
 
     const term = q?.trim();
     const pattern = term ? `%${term}%` : '';
@@ -24,22 +26,38 @@ export const loadSites = query(async (q: string, limit: number, offset: number)
     const countQuery = db.select({ total: sql<number>`COUNT(*)`.as('total') }).from(Destination);
     const totalCount = await (filters ? countQuery.where(filters) : countQuery).then((rows) => rows[0]?.total ?? 0);
 
-    return { destinations, totalCount };
+    return { destinations, totalCount, canAllowNegativeStock: session.user.role === 'admin' };
 }, 'all-destinations-with-search');
 
 export const updateDestination = action(async (formData: FormData): Promise<{ success: boolean; error?: string }> => {
     'use server';
-    await requireAuth(['expense-user', 'warehouse-user']);
+    const session = await requireAuth(['expense-user', 'warehouse-user']);
 
     const id = String(formData.get('id') || '').trim();
     const name = String(formData.get('name') || '').trim();
     const isWarehouse = formData.get('is_warehouse') === 'on';
+    const autoSettle = formData.get('auto_settle') === 'on';
+    const allowNegativeStock = formData.get('allow_negative_stock') === 'on';
 
     if (!id) return { success: false, error: 'Site ID is missing.' };
     if (!name) return { success: false, error: 'Site name is required.' };
 
     try {
-        await db.update(Destination).set({ name, is_warehouse: isWarehouse }).where(eq(Destination.id, id));
+        await db.transaction(async (tx) => {
+            const [before] = await tx.select().from(Destination).where(eq(Destination.id, id)).for('update');
+            const [after] = await tx
+                .update(Destination)
+                .set({
+                    name,
+                    is_warehouse: isWarehouse,
+                    auto_settle: autoSettle,
+                    // Only admins may exempt a godown from the stock check.
+                    ...(session.user.role === 'admin' ? { allow_negative_stock: allowNegativeStock } : {}),
+                })
+                .where(eq(Destination.id, id))
+                .returning();
+            if (after) await recordAudit(tx, session.user, [{ table: Destination, rowId: id, siteId: id, before, after }]);
+        });
         return { success: true };
     } catch (e: any) {
         if (e.code === '23505') return { success: false, error: 'This site name is already taken.' };
@@ -77,12 +95,22 @@ export default function SitesPage() {
     const [editingId, setEditingId] = createSignal('');
     const [editName, setEditName] = createSignal('');
     const [editIsWarehouse, setEditIsWarehouse] = createSignal(false);
+    const [editAutoSettle, setEditAutoSettle] = createSignal(false);
+    const [editAllowNegativeStock, setEditAllowNegativeStock] = createSignal(false);
     const updateSubmission = useSubmission(updateDestination);
 
-    const openEditSheet = (site: { id: string; name: string; is_warehouse: boolean }) => {
+    const openEditSheet = (site: {
+        id: string;
+        name: string;
+        is_warehouse: boolean;
+        auto_settle: boolean;
+        allow_negative_stock: boolean;
+    }) => {
         setEditingId(site.id);
         setEditName(site.name);
         setEditIsWarehouse(site.is_warehouse);
+        setEditAutoSettle(site.auto_settle);
+        setEditAllowNegativeStock(site.allow_negative_stock);
         setEditSheetOpen(true);
     };
 
@@ -320,6 +348,43 @@ export default function SitesPage() {
                         <ToggleSwitch on={editIsWarehouse()} />
                     </div>
 
+                    <div
+                        class="flex items-center justify-between px-3.5 py-3 bg-white border border-zinc-200 rounded-xl cursor-pointer hover:border-zinc-300 hover:bg-zinc-50 transition-all group"
+                        onClick={() => setEditAutoSettle(!editAutoSettle())}
+                    >
+                        <div class="flex flex-col">
+                            <span class="text-sm font-medium text-zinc-700 group-hover:text-black transition-colors">
+                                Auto-settle pending entries
+                            </span>
+                            <span class="text-[11px] text-zinc-400">Marks pending entries paid every Monday</span>
+                        </div>
+                        <input type="checkbox" name="auto_settle" checked={editAutoSettle()} class="hidden" />
+                        <ToggleSwitch on={editAutoSettle()} />
+                    </div>
+
+                    <Show when={sites()?.canAllowNegativeStock && editIsWarehouse()}>
+                        <div
+                            class="flex items-center justify-between px-3.5 py-3 bg-white border border-zinc-200 rounded-xl cursor-pointer hover:border-zinc-300 hover:bg-zinc-50 transition-all group"
+                            onClick={() => setEditAllowNegativeStock(!editAllowNegativeStock())}
+                        >
+                            <div class="flex flex-col">
+                                <span class="text-sm font-medium text-zinc-700 group-hover:text-black transition-colors">
+                                    Allow negative stock
+                                </span>
+                                <span class="text-[11px] text-zinc-400">
+                                    Lets transfers out of this godown exceed what it holds
+                                </span>
+                            </div>
+                            <input
+                                type="checkbox"
+                                name="allow_negative_stock"
+                                checked={editAllowNegativeStock()}
+                                class="hidden"
+                            />
+                            <ToggleSwitch on={editAllowNegativeStock()} />
+                        </div>
+                    </Show>
+
                     <Show when={updateSubmission.result?.success === false}>
                         <div class="px-3 py-2 bg-red-500/10 border border-red-500/10 rounded-lg flex items-center gap-2.5">
                             <div class="w-1 h-1 bg-red-500 rounded-full" />
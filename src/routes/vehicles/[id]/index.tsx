@@ -0,0 +1,372 @@
+import { A, action, createAsync, query, revalidate, useParams, useSubmission } from '@solidjs/router';
+import { eq } from 'drizzle-orm';
+import { createSignal, For, Show, Suspense } from 'solid-js';
+import { db } from '~/drizzle/client';
+import { PaymentMode, Vehicle } from '~/drizzle/schema';
+import Breadcrumb from '~/components/Breadcrumb';
+import { Pagination } from '~/components/Pagination';
+import Sheet from '~/components/Sheet';
+import { requireAuth } from '~/lib/require-auth';
+import { formatMoney, toRupees } from '~/lib/money';
+import {
+    loadTransportEntries,
+    loadTransportTotals,
+    payTransport,
+    RATE_BASIS_LABELS,
+    type TransportStatus,
+} from '~/lib/transport';
+import { SettlementError } from '~/lib/settlement';
+import { PAYMENT_MODE_LABELS } from '~/routes/expenses/[id]/payments';
+import { VehicleFormContent } from '../index';
+
+type ActionResponse = {
+    success: boolean;
+    error?: string;
+};
+
+// --- QUERIES & ACTIONS ---
+
+export const loadVehicleLedger = query(
+    async (id: string, status: TransportStatus | null, limit: number, offset: number) => {
+        'use server';
+
+        const filter = { vehicleId: id, status: status ?? undefined };
+        const [vehicle, ledger, totals] = await Promise.all([
+            db
+                .select()
+                .from(Vehicle)
+                .where(eq(Vehicle.id, id))
+                .then((rows) => rows[0] ?? null),
+            loadTransportEntries(filter, limit, offset),
+            loadTransportTotals({ vehicleId: id }),
+        ]);
+
+        if (!vehicle) return null;
+        return { vehicle, ...ledger, totals };
+    },
+    'vehicle-ledger',
+);
+
+export const markTransportPaid = action(async (formData: FormData): Promise<ActionResponse> => {
+    'use server';
+    const session = await requireAuth(['expense-user']);
+
+    const id = String(formData.get('id') || '').trim();
+    const vehicleId = String(formData.get('vehicle_id') || '').trim();
+    const mode = String(formData.get('mode') || '') as (typeof PaymentMode)[number];
+    if (!id && !vehicleId) return { success: false, error: 'Transport entry is missing.' };
+    if (!PaymentMode.includes(mode) || mode === 'auto') return { success: false, error: 'Invalid payment mode.' };
+
+    try {
+        const paid = await db.transaction((tx) => payTransport(tx, id ? { id } : { vehicleId }, mode, session.user));
+        if (paid === 0) return { success: false, error: 'Nothing is outstanding on these entries.' };
+        return { success: true };
+    } catch (error: unknown) {
+        if (error instanceof SettlementError) return { success: false, error: error.message };
+        console.error('Database error:', error);
+        return { success: false, error: 'System error. Please try again.' };
+    }
+});
+
+// --- PAGE ---
+
+const STATUS_FILTERS: { value: TransportStatus | null; label: string }[] = [
+    { value: null, label: 'All' },
+    { value: 'pending', label: 'Pending' },
+    { value: 'paid', label: 'Paid' },
+];
+
+export default function VehicleLedgerPage() {
+    const params = useParams<{ id: string }>();
+    const [status, setStatus] = createSignal<TransportStatus | null>(null);
+    const [page, setPage] = createSignal(1);
+    const [pageSize, setPageSize] = createSignal(25);
+    const data = createAsync(() => loadVehicleLedger(params.id, status(), pageSize(), (page() - 1) * pageSize()));
+    const [editOpen, setEditOpen] = createSignal(false);
+    const [mode, setMode] = createSignal<(typeof PaymentMode)[number]>('cash');
+    const submission = useSubmission(markTransportPaid);
+
+    return (
+        <div class="w-full mx-auto px-4 py-12">
+            <div class="mb-4">
+                <Breadcrumb
+                    items={[
+                        { label: 'All vehicles', href: '/vehicles' },
+                        { label: data()?.vehicle.reg_no ?? 'Vehicle' },
+                    ]}
+                />
+            </div>
+
+            <Suspense>
+                <Show when={data()} fallback={<div class="text-center py-12 text-zinc-500">Vehicle not found.</div>}>
+                    {(d) => (
+                        <>
+                            <div class="mb-8 flex justify-between items-start">
+                                <div>
+                                    <h1 class="text-3xl font-bold text-black tracking-tight font-mono">
+                                        {d().vehicle.reg_no}
+                                    </h1>
+                                    <div class="mt-1 flex flex-wrap gap-x-4 gap-y-1 text-sm text-zinc-500">
+                                        <Show when={d().vehicle.vehicle_type}>
+                                            <span>{d().vehicle.vehicle_type}</span>
+                                        </Show>
+                                        <Show when={d().vehicle.owner}>
+                                            <span>{d().vehicle.owner}</span>
+                                        </Show>
+                                        <Show when={d().vehicle.phone}>
+                                            <span>{d().vehicle.phone}</span>
+                                        </Show>
+                                        <Show when={d().vehicle.rate > 0}>
+                                            <span>
+                                                {formatMoney(d().vehicle.rate, { symbol: '₹' })}{' '}
+                                                {RATE_BASIS_LABELS[d().vehicle.rate_basis].toLowerCase()}
+                                            </span>
+                                        </Show>
+                                    </div>
+                                </div>
+                                <div class="flex gap-3">
+                                    <Show when={d().totals.pending > 0}>
+                                        <select
+                                            aria-label="Payment mode"
+                                            value={mode()}
+                                            onChange={(e) =>
+                                                setMode(e.currentTarget.value as (typeof PaymentMode)[number])
+                                            }
+                                            class="h-9 bg-white border border-zinc-200 rounded-lg px-3 text-sm text-black outline-none focus:border-black/40"
+                                        >
+                                            <For each={PaymentMode.filter((m) => m !== 'auto')}>
+                                                {(m) => <option value={m}>{PAYMENT_MODE_LABELS[m]}</option>}
+                                            </For>
+                                        </select>
+                                        <form action={markTransportPaid} method="post">
+                                            <input type="hidden" name="vehicle_id" value={params.id} />
+                                            <input type="hidden" name="mode" value={mode()} />
+                                            <button
+                                                type="submit"
+                                                disabled={submission.pending}
+                                                onClick={(e) =>
+                                                    !confirm(
+                                                        `Pay ${formatMoney(d().totals.pending, { symbol: '₹' })} of pending trips? The payment is recorded against each trip's bill.`,
+                                                    ) && e.preventDefault()
+                                                }
+                                                class="px-4 py-2 border border-zinc-200 hover:bg-zinc-50 disabled:opacity-50 text-black font-semibold text-sm rounded-lg transition-colors"
+                                            >
+                                                Mark All Paid
+                                            </button>
+                                        </form>
+                                    </Show>
+                                    <button
+                                        onClick={() => setEditOpen(true)}
+                                        class="px-4 py-2 bg-black hover:bg-black/80 text-white font-semibold text-sm rounded-lg transition-colors shadow-sm"
+                                    >
+                                        Edit
+                                    </button>
+                                </div>
+                            </div>
+
+                            <div class="grid grid-cols-1 sm:grid-cols-4 gap-4 mb-8">
+                                <SummaryCard label="Trips" value={String(d().totals.trips)} />
+                                <SummaryCard
+                                    label="Total carting"
+                                    value={formatMoney(d().totals.cost, { symbol: '₹' })}
+                                />
+                                <SummaryCard label="Paid" value={formatMoney(d().totals.paid, { symbol: '₹' })} />
+                                <SummaryCard
+                                    label="Pending to transporter"
+                                    value={formatMoney(d().totals.pending, { symbol: '₹' })}
+                                    highlight={d().totals.pending > 0}
+                                />
+                            </div>
+
+                            <div class="mb-4 flex items-center gap-2">
+                                <For each={STATUS_FILTERS}>
+                                    {(filter) => (
+                                        <button
+                                            type="button"
+                                            onClick={() => {
+                                                setStatus(filter.value);
+                                                setPage(1);
+                                            }}
+                                            class="px-3 py-1.5 text-xs font-semibold rounded-lg border transition-colors"
+                                            classList={{
+                                                'bg-black text-white border-black': status() === filter.value,
+                                                'border-zinc-200 text-zinc-600 hover:bg-zinc-50':
+                                                    status() !== filter.value,
+                                            }}
+                                        >
+                                            {filter.label}
+                                        </button>
+                                    )}
+                                </For>
+                                <Show when={submission.result?.success === false}>
+                                    <span class="ml-2 text-xs text-red-500 font-medium">
+                                        {submission.result?.error}
+                                    </span>
+                                </Show>
+                            </div>
+
+                            <div class="bg-white border border-zinc-200 rounded-2xl overflow-hidden shadow-2xl shadow-black/5">
+                                <div class="overflow-x-auto">
+                                    <table class="w-full min-w-[900px] text-left border-collapse">
+                                        <thead>
+                                            <tr class="border-b border-zinc-200 bg-zinc-50">
+                                                <th class="py-3 px-3 text-xs font-bold uppercase tracking-wider text-zinc-600">
+                                                    Date
+                                                </th>
+                                                <th class="py-3 px-3 text-xs font-bold uppercase tracking-wider text-zinc-600">
+                                                    Site
+                                                </th>
+                                                <th class="py-3 px-3 text-xs font-bold uppercase tracking-wider text-zinc-600">
+                                                    Carried
+                                                </th>
+                                                <th class="py-3 px-3 text-right text-xs font-bold uppercase tracking-wider text-zinc-600">
+                                                    Load (t)
+                                                </th>
+                                                <th class="py-3 px-3 text-right text-xs font-bold uppercase tracking-wider text-zinc-600">
+                                                    Cost (₹)
+                                                </th>
+                                                <th class="py-3 px-3 text-xs font-bold uppercase tracking-wider text-zinc-600">
+                                                    Transporter
+                                                </th>
+                                                <th class="py-3 px-3 text-right text-xs font-bold uppercase tracking-wider text-zinc-600">
+                                                    Actions
+                                                </th>
+                                            </tr>
+                                        </thead>
+                                        <tbody class="divide-y divide-zinc-100">
+                                            <Show
+                                                when={d().entries.length > 0}
+                                                fallback={
+                                                    <tr>
+                                                        <td colspan={7} class="text-center py-12 text-sm text-zinc-400">
+                                                            No trips recorded for this vehicle.
+                                                        </td>
+                                                    </tr>
+                                                }
+                                            >
+                                                <For each={d().entries}>
+                                                    {(entry) => (
+                                                        <tr class="hover:bg-zinc-50/80">
+                                                            <td class="py-3 px-3 text-sm text-zinc-700 whitespace-nowrap">
+                                                                {entry.created_at
+                                                                    ? new Date(entry.created_at).toLocaleDateString()
+                                                                    : '--'}
+                                                            </td>
+                                                            <td class="py-3 px-3 text-sm text-black">
+                                                                <A
+                                                                    href={`/expenses/${entry.source_id}/ledger`}
+                                                                    class="hover:underline"
+                                                                >
+                                                                    {entry.source_name ?? '--'}
+                                                                </A>
+                                                            </td>
+                                                            <td class="py-3 px-3 text-sm text-black">
+                                                                {entry.entity_name ?? '--'}
+                                                                <Show when={entry.vendor_name}>
+                                                                    <span class="text-zinc-400 ml-1">
+                                                                        from {entry.vendor_name}
+                                                                    </span>
+                                                                </Show>
+                                                            </td>
+                                                            <td class="py-3 px-3 text-right text-sm text-zinc-700 tabular-nums">
+                                                                {entry.load_tonnes != null
+                                                                    ? Number(entry.load_tonnes)
+                                                                    : '--'}
+                                                            </td>
+                                                            <td class="py-3 px-3 text-right text-sm font-semibold text-black tabular-nums">
+                                                                {toRupees(entry.cost)}
+                                                            </td>
+                                                            <td class="py-3 px-3 text-sm">
+                                                                <Show
+                                                                    when={entry.paid_at}
+                                                                    fallback={
+                                                                        <span class="px-2 py-0.5 text-xs font-medium rounded-full bg-amber-50 text-amber-700">
+                                                                            Pending
+                                                                        </span>
+                                                                    }
+                                                                >
+                                                                    {(paidAt) => (
+                                                                        <span class="px-2 py-0.5 text-xs font-medium rounded-full bg-green-50 text-green-700">
+                                                                            Paid{' '}
+                                                                            {new Date(paidAt()).toLocaleDateString()}
+                                                                        </span>
+                                                                    )}
+                                                                </Show>
+                                                            </td>
+                                                            <td class="py-3 px-3 text-right">
+                                                                <Show when={!entry.paid_at}>
+                                                                    <form action={markTransportPaid} method="post">
+                                                                        <input
+                                                                            type="hidden"
+                                                                            name="id"
+                                                                            value={entry.id}
+                                                                        />
+                                                                        <input
+                                                                            type="hidden"
+                                                                            name="mode"
+                                                                            value={mode()}
+                                                                        />
+                                                                        <button
+                                                                            type="submit"
+                                                                            disabled={submission.pending}
+                                                                            class="text-xs font-semibold text-blue-500 hover:text-blue-700 disabled:opacity-50"
+                                                                        >
+                                                                            Mark Paid
+                                                                        </button>
+                                                                    </form>
+                                                                </Show>
+                                                            </td>
+                                                        </tr>
+                                                    )}
+                                                </For>
+                                            </Show>
+                                        </tbody>
+                                    </table>
+                                </div>
+                            </div>
+
+                            <div class="mt-6 bg-white border border-zinc-200 rounded-2xl px-6 py-4 shadow-2xl shadow-black/5">
+                                <Pagination
+                                    page={page()}
+                                    pageSize={pageSize()}
+                                    totalCount={d().totalCount}
+                                    onPageChange={setPage}
+                                    onPageSizeChange={(size) => {
+                                        setPageSize(size);
+                                        setPage(1);
+                                    }}
+                                />
+                            </div>
+
+                            <Sheet open={editOpen()} onClose={() => setEditOpen(false)} title="Edit Vehicle">
+                                <Show when={editOpen()}>
+                                    <VehicleFormContent
+                                        vehicle={d().vehicle}
+                                        onSuccess={() => {
+                                            setEditOpen(false);
+                                            revalidate('vehicle-ledger');
+                                        }}
+                                    />
+                                </Show>
+                            </Sheet>
+                        </>
+                    )}
+                </Show>
+            </Suspense>
+        </div>
+    );
+}
+
+function SummaryCard(props: { label: string; value: string; highlight?: boolean }) {
+    return (
+        <div class="bg-white border border-zinc-200 rounded-2xl p-4">
+            <p class="text-[10px] font-bold uppercase tracking-wide text-zinc-400">{props.label}</p>
+            <p
+                class="mt-1 text-xl font-bold tabular-nums"
+                classList={{ 'text-red-500': !!props.highlight, 'text-black': !props.highlight }}
+            >
+                {props.value}
+            </p>
+        </div>
+    );
+}
@@ -0,0 +1,481 @@
+import { A, action, createAsync, query, revalidate, useNavigate, useSubmission } from '@solidjs/router';
+import { For, Suspense, createSignal, createEffect, Show } from 'solid-js';
+import { db } from '~/drizzle/client';
+import { TransactionDetail, TransportationCost, Vehicle, VehicleRateBasis } from '~/drizzle/schema';
+import { asc, eq, ilike, or, sql } from 'drizzle-orm';
+import { debounce } from '~/utils/debounce';
+import { Pagination, PaginationSkeleton } from '~/components/Pagination';
+import Sheet from '~/components/Sheet';
+import { SelectInput, TextInput } from '~/components/form';
+import { requireAuth } from '~/lib/require-auth';
+import { formatMoney, parseMoney, toRupees } from '~/lib/money';
+import { normalizeRegNo, RATE_BASIS_LABELS, type RateBasis } from '~/lib/transport';
+
+type ActionResponse = {
+    success: boolean;
+    error?: string;
+};
+
+// --- QUERIES & ACTIONS ---
+
+/** Carting cost and the part of it still owed to the transporter, per vehicle, in paise. */
+const vehicleCostSubquery = () =>
+    db
+        .select({
+            vehicle_id: TransportationCost.vehicle_id,
+            cost: sql<number>`SUM(${TransportationCost.cost})`.mapWith(Number).as('cost'),
+            pending: sql<number>`SUM(${TransportationCost.cost}) FILTER (WHERE ${TransportationCost.paid_at} IS NULL)`
+                .mapWith(Number)
+                .as('pending'),
+        })
+        .from(TransportationCost)
+        .innerJoin(TransactionDetail, eq(TransactionDetail.transportation_cost_id, TransportationCost.id))
+        .groupBy(TransportationCost.vehicle_id)
+        .as('vehicle_cost');
+
+export const loadVehicles = query(async (q: string, limit: number, offset: number) => {
+    'use server';
+
+    const term = q?.trim();
+    const pattern = term ? `%${term}%` : '';
+    const filters = term
+        ? or(
+              ilike(Vehicle.reg_no, `%${normalizeRegNo(term) || term}%`),
+              ilike(Vehicle.vehicle_type, pattern),
+              ilike(Vehicle.owner, pattern),
+          )
+        : undefined;
+
+    const costs = vehicleCostSubquery();
+    const vehicles = await db
+        .select({
+            id: Vehicle.id,
+            reg_no: Vehicle.reg_no,
+            vehicle_type: Vehicle.vehicle_type,
+            owner: Vehicle.owner,
+            phone: Vehicle.phone,
+            rate_basis: Vehicle.rate_basis,
+            rate: Vehicle.rate,
+            cost: sql<number>`COALESCE(${costs.cost}, 0)`.mapWith(Number),
+            pending: sql<number>`COALESCE(${costs.pending}, 0)`.mapWith(Number),
+        })
+        .from(Vehicle)
+        .leftJoin(costs, eq(costs.vehicle_id, Vehicle.id))
+        .where(filters)
+        .orderBy(asc(Vehicle.reg_no))
+        .limit(limit)
+        .offset(offset);
+
+    const totalCount = await db
+        .select({ total: sql<number>`COUNT(*)`.mapWith(Number) })
+        .from(Vehicle)
+        .where(filters)
+        .then((rows) => rows[0]?.total ?? 0);
+
+    return { vehicles, totalCount };
+}, 'all-vehicles-with-search');
+
+function readVehicleFields(formData: FormData) {
+    const get = (key: string) => String(formData.get(key) || '').trim();
+    const rateBasis = get('rate_basis') as RateBasis;
+    return {
+        reg_no: normalizeRegNo(get('reg_no')),
+        vehicle_type: get('vehicle_type'),
+        owner: get('owner'),
+        phone: get('phone'),
+        rate_basis: VehicleRateBasis.includes(rateBasis) ? rateBasis : 'trip',
+        rate: parseMoney(get('rate')) ?? 0,
+    };
+}
+
+function validateVehicle(fields: ReturnType<typeof readVehicleFields>): string | null {
+    if (!fields.reg_no) return 'Registration number is required.';
+    if (fields.rate < 0) return 'Rate must be a positive number or zero.';
+    return null;
+}
+
+export const createVehicle = action(async (formData: FormData): Promise<ActionResponse> => {
+    'use server';
+    await requireAuth(['expense-user']);
+
+    const fields = readVehicleFields(formData);
+    const error = validateVehicle(fields);
+    if (error) return { success: false, error };
+
+    try {
+        await db.insert(Vehicle).values(fields);
+        return { success: true };
+    } catch (e: any) {
+        if (e.code === '23505') return { success: false, error: 'A vehicle with this registration already exists.' };
+        console.error('Database error:', e);
+        return { success: false, error: 'System error. Please try again.' };
+    }
+});
+
+export const updateVehicle = action(async (formData: FormData): Promise<ActionResponse> => {
+    'use server';
+    await requireAuth(['expense-user']);
+
+    const id = String(formData.get('id') || '').trim();
+    if (!id) return { success: false, error: 'Vehicle ID is missing.' };
+
+    const fields = readVehicleFields(formData);
+    const error = validateVehicle(fields);
+    if (error) return { success: false, error };
+
+    try {
+        await db.update(Vehicle).set(fields).where(eq(Vehicle.id, id));
+        return { success: true };
+    } catch (e: any) {
+        if (e.code === '23505') return { success: false, error: 'A vehicle with this registration already exists.' };
+        console.error('Database error:', e);
+        return { success: false, error: 'System error. Please try again.' };
+    }
+});
+
+// --- FORM CONTENT ---
+
+export type VehicleFormValues = {
+    id: string;
+    reg_no: string;
+    vehicle_type: string;
+    owner: string;
+    phone: string;
+    rate_basis: RateBasis;
+    rate: number;
+};
+
+/** Create form when `vehicle` is omitted, edit form otherwise. */
+export function VehicleFormContent(props: { vehicle?: VehicleFormValues; onSuccess?: () => void }) {
+    const form = props.vehicle ? updateVehicle : createVehicle;
+    const submission = useSubmission(form);
+
+    let prevResult = submission.result;
+    createEffect(() => {
+        const result = submission.result;
+        if (result !== prevResult && result?.success) {
+            prevResult = result;
+            props.onSuccess?.();
+        }
+    });
+
+    return (
+        <form action={form} method="post" class="space-y-4">
+            <Show when={props.vehicle}>{(vehicle) => <input type="hidden" name="id" value={vehicle().id} />}</Show>
+            <div class="grid grid-cols-1 md:grid-cols-2 gap-4">
+                <TextInput
+                    name="reg_no"
+                    label="Reg. No."
+                    value={props.vehicle?.reg_no}
+                    placeholder="e.g. MH 12 AB 1234"
+                    required
+                />
+                <TextInput
+                    name="vehicle_type"
+                    label="Vehicle Type"
+                    value={props.vehicle?.vehicle_type}
+                    placeholder="e.g. Truck"
+                />
+            </div>
+            <div class="grid grid-cols-1 md:grid-cols-2 gap-4">
+                <TextInput
+                    name="owner"
+                    label="Owner / Transporter"
+                    value={props.vehicle?.owner}
+                    placeholder="Who is paid for its trips"
+                />
+                <TextInput name="phone" label="Phone" type="tel" value={props.vehicle?.phone} />
+            </div>
+            <div class="grid grid-cols-1 md:grid-cols-2 gap-4">
+                <SelectInput name="rate_basis" label="Rate Basis">
+                    <For each={VehicleRateBasis}>
+                        {(basis) => (
+                            <option value={basis} selected={basis === (props.vehicle?.rate_basis ?? 'trip')}>
+                                {RATE_BASIS_LABELS[basis]}
+                            </option>
+                        )}
+                    </For>
+                </SelectInput>
+                <TextInput
+                    name="rate"
+                    label="Rate (₹)"
+                    type="number"
+                    step="0.01"
+                    value={props.vehicle ? toRupees(props.vehicle.rate) : ''}
+                    placeholder="Agreed rate"
+                />
+            </div>
+
+            <Show when={submission.result?.success === false}>
+                <div class="px-3 py-2 bg-red-500/10 border border-red-500/10 rounded-lg flex items-center gap-2.5">
+                    <div class="w-1 h-1 bg-red-500 rounded-full" />
+                    <p class="text-[11px] text-red-400 font-medium leading-none">{submission.result?.error}</p>
+                </div>
+            </Show>
+
+            <button
+                type="submit"
+                disabled={submission.pending}
+                class="w-full bg-secondary hover:bg-black/90 disabled:opacity-50 disabled:cursor-not-allowed text-brand font-semibold text-sm rounded-xl py-3 transition-all active:scale-[0.98]"
+            >
+                {submission.pending ? 'Saving...' : props.vehicle ? 'Save Changes' : 'Create'}
+            </button>
+        </form>
+    );
+}
+
+// --- PAGE ---
+
+export default function VehiclesPage() {
+    const [raw, setRaw] = createSignal('');
+    const [q, setQ] = createSignal('');
+    const [page, setPage] = createSignal(1);
+    const [pageSize, setPageSize] = createSignal(10);
+    const navigate = useNavigate();
+
+    const push = debounce((v: string) => setQ(v), 550);
+
+    createEffect(() => push(raw()));
+
+    createEffect(() => {
+        q();
+        setPage(1);
+    });
+
+    const vehicles = createAsync(() => loadVehicles(q(), pageSize(), (page() - 1) * pageSize()));
+    const [totalCount, setTotalCount] = createSignal(0);
+
+    const [sheetOpen, setSheetOpen] = createSignal(false);
+    const [editing, setEditing] = createSignal<VehicleFormValues | null>(null);
+
+    createEffect(() => {
+        const result = vehicles();
+        if (result) setTotalCount(result.totalCount);
+    });
+
+    createEffect(() => {
+        const totalPages = Math.max(1, Math.ceil(totalCount() / pageSize()));
+        if (page() > totalPages) setPage(totalPages);
+    });
+
+    const onSaved = () => {
+        setSheetOpen(false);
+        setEditing(null);
+        revalidate('all-vehicles-with-search');
+    };
+
+    return (
+        <div class="mt-6 flex flex-col gap-8">
+            <div class="flex flex-col gap-4 md:flex-row md:items-center md:justify-between">
+                {/* Search bar */}
+                <div class="relative w-full group md:flex-1">
+                    <div class="absolute inset-y-0 left-0 flex items-center pl-4 pointer-events-none text-zinc-500 group-focus-within:text-black transition-colors duration-300">
+                        <svg
+                            xmlns="http://www.w3.org/2000/svg"
+                            fill="none"
+                            viewBox="0 0 24 24"
+                            stroke-width="2"
+                            stroke="currentColor"
+                            class="w-5 h-5"
+                        >
+                            <path
+                                stroke-linecap="round"
+                                stroke-linejoin="round"
+                                d="m21 21-5.197-5.197m0 0A7.5 7.5 0 1 0 5.196 5.196a7.5 7.5 0 0 0 10.607 10.607Z"
+                            />
+                        </svg>
+                    </div>
+                    <input
+                        value={raw()}
+                        onInput={(e) => setRaw(e.currentTarget.value)}
+                        class="w-full bg-white text-black border border-zinc-200 rounded-2xl py-3.5 pl-12 pr-12 shadow-lg shadow-black/5 focus:bg-white focus:border-secondary focus:ring-1 focus:ring-black/10 outline-none placeholder:text-zinc-500 text-sm transition-all duration-300"
+                        placeholder="Search vehicles by reg. no., type or owner..."
+                    />
+                </div>
+                <div class="flex gap-3 md:ml-4">
+                    <A
+                        href="/vehicles/report"
+                        class="px-4 py-2 border border-zinc-200 bg-white hover:bg-zinc-50 text-black rounded-md"
+                    >
+                        Carting Report
+                    </A>
+                    <button onClick={() => setSheetOpen(true)} class="bg-secondary text-brand px-4 py-2 rounded-md">
+                        Add New Vehicle
+                    </button>
+                </div>
+            </div>
+
+            <div class="flex w-full flex-col gap-8">
+                <div class="bg-white border border-zinc-200 rounded-2xl overflow-hidden shadow-2xl shadow-black/5">
+                    <div class="overflow-x-auto">
+                        <table class="w-full text-left border-collapse">
+                            <thead>
+                                <tr class="border-b border-zinc-200">
+                                    <th class="py-5 pl-8 pr-4 text-xs font-semibold uppercase tracking-wider text-zinc-500">
+                                        Reg. No.
+                                    </th>
+                                    <th class="py-5 px-4 text-xs font-semibold uppercase tracking-wider text-zinc-500">
+                                        Type
+                                    </th>
+                                    <th class="py-5 px-4 text-xs font-semibold uppercase tracking-wider text-zinc-500">
+                                        Owner
+                                    </th>
+                                    <th class="py-5 px-4 text-right text-xs font-semibold uppercase tracking-wider text-zinc-500">
+                                        Rate
+                                    </th>
+                                    <th class="py-5 px-4 text-right text-xs font-semibold uppercase tracking-wider text-zinc-500">
+                                        Carting
+                                    </th>
+                                    <th class="py-5 px-4 text-right text-xs font-semibold uppercase tracking-wider text-zinc-500">
+                                        Pending
+                                    </th>
+                                    <th class="py-5 pr-6 text-right text-xs font-semibold uppercase tracking-wider text-zinc-500">
+                                        Actions
+                                    </th>
+                                </tr>
+                            </thead>
+                            <tbody class="divide-y divide-zinc-200">
+                                <Suspense fallback={<TableSkeleton />}>
+                                    <Show when={(vehicles()?.vehicles ?? []).length > 0} fallback={<EmptyState />}>
+                                        <For each={vehicles()?.vehicles ?? []}>
+                                            {(vehicle) => (
+                                                <tr
+                                                    class="group cursor-pointer hover:bg-zinc-50 transition-colors duration-200"
+                                                    role="link"
+                                                    tabindex={0}
+                                                    onClick={() => navigate(`/vehicles/${vehicle.id}`)}
+                                                    onKeyDown={(event) => {
+                                                        if (event.key === 'Enter' || event.key === ' ') {
+                                                            event.preventDefault();
+                                                            navigate(`/vehicles/${vehicle.id}`);
+                                                        }
+                                                    }}
+                                                >
+                                                    <td class="py-5 pl-8 pr-4 text-sm font-medium text-black font-mono">
+                                                        {vehicle.reg_no}
+                                                    </td>
+                                                    <td class="py-5 px-4 text-sm text-zinc-500">
+                                                        {vehicle.vehicle_type || '--'}
+                                                    </td>
+                                                    <td class="py-5 px-4 text-sm text-zinc-500">
+                                                        {vehicle.owner || '--'}
+                                                        <Show when={vehicle.phone}>
+                                                            <span class="ml-2 text-zinc-400">{vehicle.phone}</span>
+                                                        </Show>
+                                                    </td>
+                                                    <td class="py-5 px-4 text-right text-sm text-zinc-500 tabular-nums whitespace-nowrap">
+                                                        <Show when={vehicle.rate > 0} fallback="--">
+                                                            {formatMoney(vehicle.rate, { symbol: '₹' })}{' '}
+                                                            <span class="text-zinc-400">
+                                                                {RATE_BASIS_LABELS[vehicle.rate_basis].toLowerCase()}
+                                                            </span>
+                                                        </Show>
+                                                    </td>
+                                                    <td class="py-5 px-4 text-right text-sm text-zinc-700 tabular-nums">
+                                                        {formatMoney(vehicle.cost, { symbol: '₹' })}
+                                                    </td>
+                                                    <td
+                                                        class="py-5 px-4 text-right text-sm font-semibold tabular-nums"
+                                                        classList={{
+                                                            'text-red-500': vehicle.pending > 0,
+                                                            'text-zinc-500': vehicle.pending <= 0,
+                                                        }}
+                                                    >
+                                                        {formatMoney(vehicle.pending, { symbol: '₹' })}
+                                                    </td>
+                                                    <td class="py-5 pr-6 text-right">
+                                                        <button
+                                                            type="button"
+                                                            onClick={(e) => {
+                                                                e.stopPropagation();
+                                                                setEditing(vehicle);
+                                                            }}
+                                                            class="text-xs font-semibold text-zinc-500 hover:text-zinc-900 border border-zinc-200 rounded-lg px-3 py-1.5 transition-colors"
+                                                        >
+                                                            Edit
+                                                        </button>
+                                                    </td>
+                                                </tr>
+                                            )}
+                                        </For>
+                                    </Show>
+                                </Suspense>
+                            </tbody>
+                        </table>
+                    </div>
+                </div>
+
+                <Suspense
+                    fallback={
+                        <div class="bg-white border border-zinc-200 rounded-2xl px-6 py-4 shadow-2xl shadow-black/5">
+                            <PaginationSkeleton />
+                        </div>
+                    }
+                >
+                    <div class="bg-white border border-zinc-200 rounded-2xl px-6 py-4 shadow-2xl shadow-black/5">
+                        <Pagination
+                            page={page()}
+                            pageSize={pageSize()}
+                            totalCount={totalCount()}
+                            onPageChange={setPage}
+                            onPageSizeChange={(size) => {
+                                setPageSize(size);
+                                setPage(1);
+                            }}
+                        />
+                    </div>
+                </Suspense>
+            </div>
+
+            <Sheet open={sheetOpen()} onClose={() => setSheetOpen(false)} title="New Vehicle">
+                <Show when={sheetOpen()}>
+                    <VehicleFormContent onSuccess={onSaved} />
+                </Show>
+            </Sheet>
+
+            <Sheet open={!!editing()} onClose={() => setEditing(null)} title="Edit Vehicle">
+                <Show when={editing()} keyed>
+                    {(vehicle) => <VehicleFormContent vehicle={vehicle} onSuccess={onSaved} />}
+                </Show>
+            </Sheet>
+        </div>
+    );
+}
+
+const EmptyState = () => (
+    <tr>
+        <td colspan={7} class="py-16 text-center">
+            <p class="text-zinc-500 text-sm font-medium">No vehicles found</p>
+        </td>
+    </tr>
+);
+
+const TableSkeleton = () => (
+    <For each={Array.from({ length: 6 })}>
+        {() => (
+            <tr class="animate-pulse">
+                <td class="py-5 pl-8 pr-4">
+                    <div class="h-4 w-28 bg-zinc-200 rounded"></div>
+                </td>
+                <td class="py-5 px-4">
+                    <div class="h-4 w-20 bg-zinc-200 rounded"></div>
+                </td>
+                <td class="py-5 px-4">
+                    <div class="h-4 w-32 bg-zinc-200 rounded"></div>
+                </td>
+                <td class="py-5 px-4 text-right">
+                    <div class="h-4 w-16 bg-zinc-200 rounded inline-block"></div>
+                </td>
+                <td class="py-5 px-4 text-right">
+                    <div class="h-4 w-20 bg-zinc-200 rounded inline-block"></div>
+                </td>
+                <td class="py-5 px-4 text-right">
+                    <div class="h-4 w-20 bg-zinc-200 rounded inline-block"></div>
+                </td>
+                <td class="py-5 pr-6 text-right">
+                    <div class="h-4 w-12 bg-zinc-200 rounded inline-block"></div>
+                </td>
+            </tr>
+        )}
+    </For>
+);
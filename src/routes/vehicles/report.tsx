@@ -0,0 +1,211 @@
+import { A, createAsync, query } from '@solidjs/router';
+import { createSignal, For, Show, Suspense, type JSX } from 'solid-js';
+import Breadcrumb from '~/components/Breadcrumb';
+import { formatMoney, toRupees } from '~/lib/money';
+import { loadCartingReport } from '~/lib/transport';
+
+// --- QUERIES ---
+
+export const loadCarting = query(async (from: string, to: string) => {
+    'use server';
+
+    return loadCartingReport({
+        from: from ? new Date(from + 'T00:00:00') : undefined,
+        to: to ? new Date(to + 'T23:59:59') : undefined,
+    });
+}, 'carting-report');
+
+// --- PAGE ---
+
+type CartingRow = { trips: number; cost: number; tonnes: number; per_tonne: number | null };
+
+const formatTonnes = (value: number) => value.toFixed(3).replace(/\.?0+$/, '');
+
+export default function CartingReportPage() {
+    const [from, setFrom] = createSignal('');
+    const [to, setTo] = createSignal('');
+    const data = createAsync(() => loadCarting(from(), to()));
+    const inputClass =
+        'h-9 bg-white border border-zinc-200 rounded-lg px-3 text-sm text-black outline-none focus:border-black/40 transition-colors';
+
+    return (
+        <div class="w-full mx-auto px-4 py-12">
+            <div class="mb-4">
+                <Breadcrumb items={[{ label: 'All vehicles', href: '/vehicles' }, { label: 'Carting report' }]} />
+            </div>
+            <div class="mb-8 flex flex-col gap-4 md:flex-row md:items-end md:justify-between">
+                <div>
+                    <h1 class="text-3xl font-bold text-black tracking-tight">Carting Report</h1>
+                    <p class="mt-1 text-sm text-zinc-500">
+                        Transport cost per vehicle and per site. Cost per tonne counts only trips with a load entered.
+                    </p>
+                </div>
+                <div class="flex flex-wrap items-center gap-3">
+                    <input
+                        type="date"
+                        class={inputClass}
+                        value={from()}
+                        max={to() || undefined}
+                        onInput={(e) => setFrom(e.currentTarget.value)}
+                    />
+                    <span class="text-sm text-zinc-500">to</span>
+                    <input
+                        type="date"
+                        class={inputClass}
+                        value={to()}
+                        min={from() || undefined}
+                        onInput={(e) => setTo(e.currentTarget.value)}
+                    />
+                    <Show when={from() || to()}>
+                        <button
+                            type="button"
+                            onClick={() => {
+                                setFrom('');
+                                setTo('');
+                            }}
+                            class="text-sm font-semibold text-zinc-500 hover:text-black"
+                        >
+                            Clear
+                        </button>
+                    </Show>
+                </div>
+            </div>
+
+            <Suspense>
+                <Show when={data()}>
+                    {(d) => (
+                        <>
+                            <div class="grid grid-cols-1 sm:grid-cols-4 gap-4 mb-8">
+                                <SummaryCard label="Trips" value={String(d().totals.trips)} />
+                                <SummaryCard
+                                    label="Carting cost"
+                                    value={formatMoney(d().totals.cost, { symbol: '₹' })}
+                                />
+                                <SummaryCard label="Tonnes moved" value={formatTonnes(d().totals.tonnes)} />
+                                <SummaryCard
+                                    label="Cost per tonne"
+                                    value={
+                                        d().totals.per_tonne !== null
+                                            ? formatMoney(d().totals.per_tonne!, { symbol: '₹' })
+                                            : '--'
+                                    }
+                                />
+                            </div>
+
+                            <div class="flex flex-col gap-8">
+                                <CartingTable
+                                    title="Per vehicle"
+                                    heading="Vehicle"
+                                    rows={d().vehicles}
+                                    label={(row) =>
+                                        row.vehicle_id ? (
+                                            <A href={`/vehicles/${row.vehicle_id}`} class="hover:underline">
+                                                <span class="font-mono">{row.reg_no}</span>
+                                                <Show when={row.owner || row.vehicle_type}>
+                                                    <span class="text-zinc-400 ml-2">
+                                                        {row.owner || row.vehicle_type}
+                                                    </span>
+                                                </Show>
+                                            </A>
+                                        ) : (
+                                            <span class="text-zinc-400">No reg. no.</span>
+                                        )
+                                    }
+                                />
+                                <CartingTable
+                                    title="Per site"
+                                    heading="Site"
+                                    rows={d().sites}
+                                    label={(row) => (
+                                        <A href={`/expenses/${row.site_id}/ledger`} class="hover:underline">
+                                            {row.site_name ?? 'Unknown'}
+                                        </A>
+                                    )}
+                                />
+                            </div>
+                        </>
+                    )}
+                </Show>
+            </Suspense>
+        </div>
+    );
+}
+
+function CartingTable<T extends CartingRow>(props: {
+    title: string;
+    heading: string;
+    rows: T[];
+    label: (row: T) => JSX.Element;
+}) {
+    return (
+        <div>
+            <h2 class="mb-3 text-xs font-semibold text-zinc-500 uppercase tracking-wide">{props.title}</h2>
+            <div class="bg-white border border-zinc-200 rounded-2xl overflow-hidden shadow-2xl shadow-black/5">
+                <div class="overflow-x-auto">
+                    <table class="w-full text-left border-collapse">
+                        <thead>
+                            <tr class="border-b border-zinc-200 bg-zinc-50">
+                                <th class="py-3 px-3 text-xs font-bold uppercase tracking-wider text-zinc-600">
+                                    {props.heading}
+                                </th>
+                                <th class="py-3 px-3 text-right text-xs font-bold uppercase tracking-wider text-zinc-600">
+                                    Trips
+                                </th>
+                                <th class="py-3 px-3 text-right text-xs font-bold uppercase tracking-wider text-zinc-600">
+                                    Cost (₹)
+                                </th>
+                                <th class="py-3 px-3 text-right text-xs font-bold uppercase tracking-wider text-zinc-600">
+                                    Tonnes
+                                </th>
+                                <th class="py-3 px-3 text-right text-xs font-bold uppercase tracking-wider text-zinc-600">
+                                    Per tonne (₹)
+                                </th>
+                            </tr>
+                        </thead>
+                        <tbody class="divide-y divide-zinc-100">
+                            <Show
+                                when={props.rows.length > 0}
+                                fallback={
+                                    <tr>
+                                        <td colspan={5} class="text-center py-12 text-sm text-zinc-400">
+                                            No transport recorded in this period.
+                                        </td>
+                                    </tr>
+                                }
+                            >
+                                <For each={props.rows}>
+                                    {(row) => (
+                                        <tr class="hover:bg-zinc-50/80">
+                                            <td class="py-3 px-3 text-sm text-black">{props.label(row)}</td>
+                                            <td class="py-3 px-3 text-right text-sm text-zinc-700 tabular-nums">
+                                                {row.trips}
+                                            </td>
+                                            <td class="py-3 px-3 text-right text-sm font-semibold text-black tabular-nums">
+                                                {toRupees(row.cost)}
+                                            </td>
+                                            <td class="py-3 px-3 text-right text-sm text-zinc-700 tabular-nums">
+                                                {row.tonnes > 0 ? formatTonnes(row.tonnes) : '--'}
+                                            </td>
+                                            <td class="py-3 px-3 text-right text-sm text-zinc-700 tabular-nums">
+                                                {row.per_tonne !== null ? toRupees(row.per_tonne) : '--'}
+                                            </td>
+                                        </tr>
+                                    )}
+                                </For>
+                            </Show>
+                        </tbody>
+                    </table>
+                </div>
+            </div>
+        </div>
+    );
+}
+
+function SummaryCard(props: { label: string; value: string }) {
+    return (
+        <div class="bg-white border border-zinc-200 rounded-2xl p-4">
+            <p class="text-[10px] font-bold uppercase tracking-wide text-zinc-400">{props.label}</p>
+            <p class="mt-1 text-xl font-bold text-black tabular-nums">{props.value}</p>
+        </div>
+    );
+}
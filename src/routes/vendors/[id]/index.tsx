@@ -0,0 +1,205 @@
+import { A, createAsync, query, revalidate, useParams } from '@solidjs/router';
+import { asc, eq, sql } from 'drizzle-orm';
+import { createSignal, For, Show, Suspense } from 'solid-js';
+import { db } from '~/drizzle/client';
+import { TransactionDetail, Vendor } from '~/drizzle/schema';
+import Breadcrumb from '~/components/Breadcrumb';
+import Sheet from '~/components/Sheet';
+import { addMoney, formatMoney, toRupees } from '~/lib/money';
+import { advanceDrawn } from '~/lib/settlement';
+import { VendorFormContent, vendorBalanceColumns } from '../index';
+
+// --- QUERIES ---
+
+export const loadVendor = query(async (id: string) => {
+    'use server';
+
+    const drawn = advanceDrawn(db);
+    const [vendor, sites] = await Promise.all([
+        db
+            .select()
+            .from(Vendor)
+            .where(eq(Vendor.id, id))
+            .then((rows) => rows[0] ?? null),
+        db
+            .select({
+                site_id: TransactionDetail.source_id,
+                site_name: TransactionDetail.source_name,
+                entries: sql<number>`COUNT(*)`.mapWith(Number),
+                billed: sql<number>`COALESCE(SUM(COALESCE(${TransactionDetail.gross_amount}, 0) + COALESCE(${TransactionDetail.transportation_cost}, 0)), 0)`.mapWith(
+                    Number,
+                ),
+                ...vendorBalanceColumns(drawn),
+            })
+            .from(TransactionDetail)
+            .leftJoin(drawn, eq(drawn.advance_id, TransactionDetail.id))
+            .where(eq(TransactionDetail.vendor_id, id))
+            .groupBy(TransactionDetail.source_id, TransactionDetail.source_name)
+            .orderBy(asc(TransactionDetail.source_name)),
+    ]);
+
+    if (!vendor) return null;
+
+    const billed = addMoney(...sites.map((s) => s.billed));
+    const pending = addMoney(...sites.map((s) => s.pending));
+    const advance = addMoney(...sites.map((s) => s.advance));
+
+    return { vendor, sites, billed, pending, advance, owed: addMoney(vendor.opening_balance, pending) - advance };
+}, 'vendor-detail');
+
+// --- PAGE ---
+
+export default function VendorDetailPage() {
+    const params = useParams<{ id: string }>();
+    const data = createAsync(() => loadVendor(params.id));
+    const [editOpen, setEditOpen] = createSignal(false);
+
+    return (
+        <div class="w-full mx-auto px-4 py-12">
+            <div class="mb-4">
+                <Breadcrumb
+                    items={[{ label: 'All vendors', href: '/vendors' }, { label: data()?.vendor.name ?? 'Vendor' }]}
+                />
+            </div>
+
+            <Suspense>
+                <Show when={data()} fallback={<div class="text-center py-12 text-zinc-500">Vendor not found.</div>}>
+                    {(d) => (
+                        <>
+                            <div class="mb-8 flex justify-between items-start">
+                                <div>
+                                    <h1 class="text-3xl font-bold text-black tracking-tight">{d().vendor.name}</h1>
+                                    <div class="mt-1 flex flex-wrap gap-x-4 gap-y-1 text-sm text-zinc-500">
+                                        <Show when={d().vendor.phone}>
+                                            <span>{d().vendor.phone}</span>
+                                        </Show>
+                                        <Show when={d().vendor.gstin}>
+                                            <span class="font-mono">GSTIN {d().vendor.gstin}</span>
+                                        </Show>
+                                        <Show when={d().vendor.address}>
+                                            <span>{d().vendor.address}</span>
+                                        </Show>
+                                    </div>
+                                </div>
+                                <div class="flex gap-3">
+                                    <A
+                                        href={`/vendors/${params.id}/ledger`}
+                                        class="px-4 py-2 border border-zinc-200 hover:bg-zinc-50 text-black font-semibold text-sm rounded-lg transition-colors"
+                                    >
+                                        View Ledger
+                                    </A>
+                                    <button
+                                        onClick={() => setEditOpen(true)}
+                                        class="px-4 py-2 bg-black hover:bg-black/80 text-white font-semibold text-sm rounded-lg transition-colors shadow-sm"
+                                    >
+                                        Edit
+                                    </button>
+                                </div>
+                            </div>
+
+                            <div class="grid grid-cols-1 sm:grid-cols-5 gap-4 mb-8">
+                                <SummaryCard label="Opening balance" value={d().vendor.opening_balance} />
+                                <SummaryCard label="Total billed" value={d().billed} />
+                                <SummaryCard label="Pending bills" value={d().pending} />
+                                <SummaryCard label="Unadjusted advances" value={d().advance} />
+                                <SummaryCard label="Owed across all sites" value={d().owed} highlight />
+                            </div>
+
+                            <div class="bg-white border border-zinc-200 rounded-2xl overflow-hidden shadow-2xl shadow-black/5">
+                                <table class="w-full text-left border-collapse">
+                                    <thead>
+                                        <tr class="border-b border-zinc-200 bg-zinc-50">
+                                            <th class="py-3 px-3 text-xs font-bold uppercase tracking-wider text-zinc-600">
+                                                Site
+                                            </th>
+                                            <th class="py-3 px-3 text-right text-xs font-bold uppercase tracking-wider text-zinc-600">
+                                                Entries
+                                            </th>
+                                            <th class="py-3 px-3 text-right text-xs font-bold uppercase tracking-wider text-zinc-600">
+                                                Billed (₹)
+                                            </th>
+                                            <th class="py-3 px-3 text-right text-xs font-bold uppercase tracking-wider text-zinc-600">
+                                                Pending (₹)
+                                            </th>
+                                        </tr>
+                                    </thead>
+                                    <tbody class="divide-y divide-zinc-100">
+                                        <Show
+                                            when={d().sites.length > 0}
+                                            fallback={
+                                                <tr>
+                                                    <td colspan={4} class="text-center py-12 text-sm text-zinc-400">
+                                                        No entries recorded against this vendor yet.
+                                                    </td>
+                                                </tr>
+                                            }
+                                        >
+                                            <For each={d().sites}>
+                                                {(site) => (
+                                                    <tr class="hover:bg-zinc-50/80">
+                                                        <td class="py-3 px-3 text-sm font-medium text-black">
+                                                            <A
+                                                                href={`/expenses/${site.site_id}/ledger`}
+                                                                class="hover:underline"
+                                                            >
+                                                                {site.site_name ?? 'Unknown'}
+                                                            </A>
+                                                        </td>
+                                                        <td class="py-3 px-3 text-right text-sm text-zinc-700 tabular-nums">
+                                                            {site.entries}
+                                                        </td>
+                                                        <td class="py-3 px-3 text-right text-sm text-zinc-700 tabular-nums">
+                                                            {toRupees(site.billed)}
+                                                        </td>
+                                                        <td
+                                                            class="py-3 px-3 text-right text-sm font-semibold tabular-nums"
+                                                            classList={{
+                                                                'text-red-500': site.pending > 0,
+                                                                'text-zinc-400': site.pending <= 0,
+                                                            }}
+                                                        >
+                                                            {toRupees(site.pending)}
+                                                        </td>
+                                                    </tr>
+                                                )}
+                                            </For>
+                                        </Show>
+                                    </tbody>
+                                </table>
+                            </div>
+
+                            <Sheet open={editOpen()} onClose={() => setEditOpen(false)} title="Edit Vendor">
+                                <Show when={editOpen()}>
+                                    <VendorFormContent
+                                        vendor={d().vendor}
+                                        onSuccess={() => {
+                                            setEditOpen(false);
+                                            revalidate('vendor-detail');
+                                        }}
+                                    />
+                                </Show>
+                            </Sheet>
+                        </>
+                    )}
+                </Show>
+            </Suspense>
+        </div>
+    );
+}
+
+function SummaryCard(props: { label: string; value: number; highlight?: boolean }) {
+    return (
+        <div class="bg-white border border-zinc-200 rounded-2xl p-4">
+            <p class="text-[10px] font-bold uppercase tracking-wide text-zinc-400">{props.label}</p>
+            <p
+                class="mt-1 text-xl font-bold tabular-nums"
+                classList={{
+                    'text-red-500': !!props.highlight && props.value > 0,
+                    'text-black': !props.highlight || props.value <= 0,
+                }}
+            >
+                {formatMoney(props.value, { symbol: '₹' })}
+            </p>
+        </div>
+    );
+}
@@ -0,0 +1,194 @@
+import { A, createAsync, query, useParams } from '@solidjs/router';
+import { desc, eq, sql } from 'drizzle-orm';
+import { createSignal, For, Show, Suspense } from 'solid-js';
+import { db } from '~/drizzle/client';
+import { TransactionDetail, Vendor } from '~/drizzle/schema';
+import Breadcrumb from '~/components/Breadcrumb';
+import { Pagination } from '~/components/Pagination';
+import { toRupees } from '~/lib/money';
+
+// --- QUERIES ---
+
+export const loadVendorTransactions = query(async (vendorId: string, limit: number, offset: number) => {
+    'use server';
+
+    const [transactions, vendor] = await Promise.all([
+        db
+            .select({
+                id: TransactionDetail.id,
+                created_at: TransactionDetail.created_at,
+                source_id: TransactionDetail.source_id,
+                source_name: TransactionDetail.source_name,
+                entity_name: TransactionDetail.entity_name,
+                entity_variant: TransactionDetail.entity_variant,
+                entity_unit: TransactionDetail.entity_unit,
+                type: TransactionDetail.type,
+                quantity: TransactionDetail.quantity,
+                rate: TransactionDetail.rate,
+                amount: TransactionDetail.amount,
+                transportation_cost: TransactionDetail.transportation_cost,
+                payment_status: TransactionDetail.payment_status,
+                outstanding_amount: TransactionDetail.outstanding_amount,
+                total_count: sql<number>`COUNT(*) OVER()`.mapWith(Number),
+            })
+            .from(TransactionDetail)
+            .where(eq(TransactionDetail.vendor_id, vendorId))
+            .orderBy(desc(TransactionDetail.created_at))
+            .limit(limit)
+            .offset(offset),
+        db
+            .select({ name: Vendor.name })
+            .from(Vendor)
+            .where(eq(Vendor.id, vendorId))
+            .then((rows) => rows[0]?.name ?? 'Unknown'),
+    ]);
+
+    return { transactions, vendor, totalCount: transactions[0]?.total_count ?? 0 };
+}, 'vendor-transactions');
+
+// --- PAGE ---
+
+const STATUS_CLASSES: Record<string, string> = {
+    paid: 'bg-green-50 text-green-700',
+    pending: 'bg-amber-50 text-amber-700',
+    advance: 'bg-blue-50 text-blue-700',
+};
+
+export default function VendorLedgerPage() {
+    const params = useParams<{ id: string }>();
+    const [page, setPage] = createSignal(1);
+    const [pageSize, setPageSize] = createSignal(25);
+    const data = createAsync(() => loadVendorTransactions(params.id, pageSize(), (page() - 1) * pageSize()));
+
+    return (
+        <div class="w-full mx-auto px-4 py-12">
+            <div class="mb-4">
+                <Breadcrumb
+                    items={[
+                        { label: 'All vendors', href: '/vendors' },
+                        { label: data()?.vendor ?? 'Vendor', href: `/vendors/${params.id}` },
+                        { label: 'Ledger' },
+                    ]}
+                />
+            </div>
+            <h1 class="mb-8 text-3xl font-bold text-black tracking-tight">Vendor Ledger</h1>
+
+            <div class="bg-white border border-zinc-200 rounded-2xl overflow-hidden shadow-2xl shadow-black/5">
+                <div class="overflow-x-auto">
+                    <table class="w-full min-w-[1000px] text-left border-collapse">
+                        <thead>
+                            <tr class="border-b border-zinc-200 bg-zinc-50">
+                                <th class="py-3 px-3 text-xs font-bold uppercase tracking-wider text-zinc-600">Date</th>
+                                <th class="py-3 px-3 text-xs font-bold uppercase tracking-wider text-zinc-600">Site</th>
+                                <th class="py-3 px-3 text-xs font-bold uppercase tracking-wider text-zinc-600">Item</th>
+                                <th class="py-3 px-3 text-right text-xs font-bold uppercase tracking-wider text-zinc-600">
+                                    Qty
+                                </th>
+                                <th class="py-3 px-3 text-right text-xs font-bold uppercase tracking-wider text-zinc-600">
+                                    Rate (₹)
+                                </th>
+                                <th class="py-3 px-3 text-right text-xs font-bold uppercase tracking-wider text-zinc-600">
+                                    Amount (₹)
+                                </th>
+                                <th class="py-3 px-3 text-right text-xs font-bold uppercase tracking-wider text-zinc-600">
+                                    Transport (₹)
+                                </th>
+                                <th class="py-3 px-3 text-xs font-bold uppercase tracking-wider text-zinc-600">
+                                    Payment
+                                </th>
+                                <th class="py-3 px-3 text-right text-xs font-bold uppercase tracking-wider text-zinc-600">
+                                    Outstanding (₹)
+                                </th>
+                            </tr>
+                        </thead>
+                        <tbody class="divide-y divide-zinc-100">
+                            <Suspense>
+                                <Show
+                                    when={(data()?.transactions ?? []).length > 0}
+                                    fallback={
+                                        <tr>
+                                            <td colspan={9} class="text-center py-12 text-sm text-zinc-400">
+                                                No entries recorded against this vendor yet.
+                                            </td>
+                                        </tr>
+                                    }
+                                >
+                                    <For each={data()?.transactions}>
+                                        {(tx) => (
+                                            <tr class="hover:bg-zinc-50/80">
+                                                <td class="py-3 px-3 text-sm text-zinc-700 whitespace-nowrap">
+                                                    {tx.created_at
+                                                        ? new Date(tx.created_at).toLocaleDateString()
+                                                        : '--'}
+                                                </td>
+                                                <td class="py-3 px-3 text-sm text-black">
+                                                    <A
+                                                        href={`/expenses/${tx.source_id}/ledger`}
+                                                        class="hover:underline"
+                                                    >
+                                                        {tx.source_name ?? '--'}
+                                                    </A>
+                                                </td>
+                                                <td class="py-3 px-3 text-sm text-black">
+                                                    {tx.entity_name}
+                                                    <Show when={tx.entity_variant}>
+                                                        <span class="text-zinc-400 ml-1">{tx.entity_variant}</span>
+                                                    </Show>
+                                                </td>
+                                                <td class="py-3 px-3 text-right text-sm text-zinc-700 tabular-nums whitespace-nowrap">
+                                                    {Number(tx.quantity ?? 0)} {tx.entity_unit ?? ''}
+                                                </td>
+                                                <td class="py-3 px-3 text-right text-sm text-zinc-700 tabular-nums">
+                                                    {toRupees(tx.rate)}
+                                                </td>
+                                                <td class="py-3 px-3 text-right text-sm font-semibold text-black tabular-nums">
+                                                    {toRupees(tx.amount)}
+                                                </td>
+                                                <td class="py-3 px-3 text-right text-sm text-zinc-700 tabular-nums">
+                                                    {tx.transportation_cost ? toRupees(tx.transportation_cost) : '--'}
+                                                </td>
+                                                <td class="py-3 px-3 text-sm">
+                                                    <span
+                                                        class={`px-2 py-0.5 text-xs font-medium rounded-full capitalize ${STATUS_CLASSES[tx.payment_status ?? ''] ?? ''}`}
+                                                    >
+                                                        {tx.payment_status}
+                                                    </span>
+                                                </td>
+                                                <td class="py-3 px-3 text-right text-sm tabular-nums">
+                                                    <Show
+                                                        when={
+                                                            tx.payment_status !== 'paid' &&
+                                                            (tx.outstanding_amount ?? 0) > 0
+                                                        }
+                                                        fallback={<span class="text-zinc-400">--</span>}
+                                                    >
+                                                        <span class="font-semibold text-red-500">
+                                                            {toRupees(tx.outstanding_amount)}
+                                                        </span>
+                                                    </Show>
+                                                </td>
+                                            </tr>
+                                        )}
+                                    </For>
+                                </Show>
+                            </Suspense>
+                        </tbody>
+                    </table>
+                </div>
+            </div>
+
+            <div class="mt-6 bg-white border border-zinc-200 rounded-2xl px-6 py-4 shadow-2xl shadow-black/5">
+                <Pagination
+                    page={page()}
+                    pageSize={pageSize()}
+                    totalCount={data()?.totalCount ?? 0}
+                    onPageChange={setPage}
+                    onPageSizeChange={(size) => {
+                        setPageSize(size);
+                        setPage(1);
+                    }}
+                />
+            </div>
+        </div>
+    );
+}
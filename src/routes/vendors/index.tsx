@@ -0,0 +1,439 @@
+import { action, createAsync, query, revalidate, useNavigate, useSubmission } from '@solidjs/router';
+import { For, Suspense, createSignal, createEffect, Show } from 'solid-js';
+import { db } from '~/drizzle/client';
+import { TransactionDetail, Vendor } from '~/drizzle/schema';
+import { asc, eq, ilike, or, sql } from 'drizzle-orm';
+import { debounce } from '~/utils/debounce';
+import { Pagination, PaginationSkeleton } from '~/components/Pagination';
+import Sheet from '~/components/Sheet';
+import { TextInput } from '~/components/form';
+import { requireAuth } from '~/lib/require-auth';
+import { formatMoney, parseMoney, toRupees } from '~/lib/money';
+import { advanceDrawn } from '~/lib/settlement';
+
+type ActionResponse = {
+    success: boolean;
+    error?: string;
+};
+
+const GSTIN_PATTERN = /^[0-9]{2}[A-Z]{5}[0-9]{4}[A-Z][1-9A-Z]Z[0-9A-Z]$/;
+
+// --- QUERIES & ACTIONS ---
+
+const sign = sql`CASE WHEN ${TransactionDetail.type} = 'credit' THEN 1 ELSE -1 END`;
+
+/**
+ * Aggregates over a vendor's transactions, in paise: `pending` is what is
+ * outstanding on pending bills, signed like `loadTotalAmount` (credit adds,
+ * debit takes away); `advance` is what is left of their advances after the
+ * adjustments in `drawn`, which must be left-joined on the advance.
+ */
+export const vendorBalanceColumns = (drawn: ReturnType<typeof advanceDrawn>) => ({
+    pending:
+        sql<number>`COALESCE(SUM(${sign} * ${TransactionDetail.outstanding_amount}) FILTER (WHERE ${TransactionDetail.payment_status} = 'pending'), 0)`.mapWith(
+            Number,
+        ),
+    advance:
+        sql<number>`COALESCE(SUM(COALESCE(${TransactionDetail.gross_amount}, 0) + COALESCE(${TransactionDetail.transportation_cost}, 0) - COALESCE(${drawn.drawn}, 0)) FILTER (WHERE ${TransactionDetail.payment_status} = 'advance'), 0)`.mapWith(
+            Number,
+        ),
+});
+
+/** Pending and unadjusted advance balance per vendor across all sites. */
+const vendorBalanceSubquery = () => {
+    const drawn = advanceDrawn(db);
+    const { pending, advance } = vendorBalanceColumns(drawn);
+    return db
+        .select({
+            vendor_id: TransactionDetail.vendor_id,
+            pending: pending.as('pending'),
+            advance: advance.as('advance'),
+        })
+        .from(TransactionDetail)
+        .leftJoin(drawn, eq(drawn.advance_id, TransactionDetail.id))
+        .groupBy(TransactionDetail.vendor_id)
+        .as('vendor_balance');
+};
+
+export const loadVendors = query(async (q: string, limit: number, offset: number) => {
+    'use server';
+
+    const term = q?.trim();
+    const pattern = term ? `%${term}%` : '';
+    const filters = term
+        ? or(ilike(Vendor.name, pattern), ilike(Vendor.phone, pattern), ilike(Vendor.gstin, pattern))
+        : undefined;
+
+    const balance = vendorBalanceSubquery();
+    const vendors = await db
+        .select({
+            id: Vendor.id,
+            name: Vendor.name,
+            phone: Vendor.phone,
+            gstin: Vendor.gstin,
+            address: Vendor.address,
+            opening_balance: Vendor.opening_balance,
+            owed: sql<number>`${Vendor.opening_balance} + COALESCE(${balance.pending}, 0) - COALESCE(${balance.advance}, 0)`.mapWith(
+                Number,
+            ),
+        })
+        .from(Vendor)
+        .leftJoin(balance, eq(balance.vendor_id, Vendor.id))
+        .where(filters)
+        .orderBy(asc(Vendor.name))
+        .limit(limit)
+        .offset(offset);
+
+    const totalCount = await db
+        .select({ total: sql<number>`COUNT(*)`.mapWith(Number) })
+        .from(Vendor)
+        .where(filters)
+        .then((rows) => rows[0]?.total ?? 0);
+
+    return { vendors, totalCount };
+}, 'all-vendors-with-search');
+
+function readVendorFields(formData: FormData) {
+    const get = (key: string) => String(formData.get(key) || '').trim();
+    return {
+        name: get('name'),
+        phone: get('phone'),
+        gstin: get('gstin').toUpperCase(),
+        address: get('address'),
+        opening_balance: parseMoney(get('opening_balance')) ?? 0,
+    };
+}
+
+function validateVendor(fields: ReturnType<typeof readVendorFields>): string | null {
+    if (!fields.name) return 'Vendor name is required.';
+    if (fields.gstin && !GSTIN_PATTERN.test(fields.gstin)) return 'GSTIN must be 15 characters, e.g. 27AAPFU0939F1ZV.';
+    return null;
+}
+
+export const createVendor = action(async (formData: FormData): Promise<ActionResponse> => {
+    'use server';
+    await requireAuth(['expense-user']);
+
+    const fields = readVendorFields(formData);
+    const error = validateVendor(fields);
+    if (error) return { success: false, error };
+
+    try {
+        await db.insert(Vendor).values(fields);
+        return { success: true };
+    } catch (e: any) {
+        if (e.code === '23505') return { success: false, error: 'A vendor with this name already exists.' };
+        console.error('Database error:', e);
+        return { success: false, error: 'System error. Please try again.' };
+    }
+});
+
+export const updateVendor = action(async (formData: FormData): Promise<ActionResponse> => {
+    'use server';
+    await requireAuth(['expense-user']);
+
+    const id = String(formData.get('id') || '').trim();
+    if (!id) return { success: false, error: 'Vendor ID is missing.' };
+
+    const fields = readVendorFields(formData);
+    const error = validateVendor(fields);
+    if (error) return { success: false, error };
+
+    try {
+        await db.update(Vendor).set(fields).where(eq(Vendor.id, id));
+        return { success: true };
+    } catch (e: any) {
+        if (e.code === '23505') return { success: false, error: 'A vendor with this name already exists.' };
+        console.error('Database error:', e);
+        return { success: false, error: 'System error. Please try again.' };
+    }
+});
+
+// --- FORM CONTENT ---
+
+export type VendorFormValues = {
+    id: string;
+    name: string;
+    phone: string;
+    gstin: string;
+    address: string;
+    opening_balance: number;
+};
+
+/** Create form when `vendor` is omitted, edit form otherwise. */
+export function VendorFormContent(props: { vendor?: VendorFormValues; onSuccess?: () => void }) {
+    const form = props.vendor ? updateVendor : createVendor;
+    const submission = useSubmission(form);
+
+    let prevResult = submission.result;
+    createEffect(() => {
+        const result = submission.result;
+        if (result !== prevResult && result?.success) {
+            prevResult = result;
+            props.onSuccess?.();
+        }
+    });
+
+    return (
+        <form action={form} method="post" class="space-y-4">
+            <Show when={props.vendor}>{(vendor) => <input type="hidden" name="id" value={vendor().id} />}</Show>
+            <TextInput
+                name="name"
+                label="Vendor Name"
+                value={props.vendor?.name}
+                placeholder="e.g. Shree Cement Traders"
+                required
+            />
+            <div class="grid grid-cols-1 md:grid-cols-2 gap-4">
+                <TextInput name="phone" label="Phone" type="tel" value={props.vendor?.phone} />
+                <TextInput name="gstin" label="GSTIN" value={props.vendor?.gstin} placeholder="27AAPFU0939F1ZV" />
+            </div>
+            <TextInput name="address" label="Address" value={props.vendor?.address} />
+            <TextInput
+                name="opening_balance"
+                label="Opening Balance (₹)"
+                type="number"
+                step="0.01"
+                value={props.vendor ? toRupees(props.vendor.opening_balance) : ''}
+                placeholder="Owed before the first entry"
+            />
+
+            <Show when={submission.result?.success === false}>
+                <div class="px-3 py-2 bg-red-500/10 border border-red-500/10 rounded-lg flex items-center gap-2.5">
+                    <div class="w-1 h-1 bg-red-500 rounded-full" />
+                    <p class="text-[11px] text-red-400 font-medium leading-none">{submission.result?.error}</p>
+                </div>
+            </Show>
+
+            <button
+                type="submit"
+                disabled={submission.pending}
+                class="w-full bg-secondary hover:bg-black/90 disabled:opacity-50 disabled:cursor-not-allowed text-brand font-semibold text-sm rounded-xl py-3 transition-all active:scale-[0.98]"
+            >
+                {submission.pending ? 'Saving...' : props.vendor ? 'Save Changes' : 'Create'}
+            </button>
+        </form>
+    );
+}
+
+// --- PAGE ---
+
+export default function VendorsPage() {
+    const [raw, setRaw] = createSignal('');
+    const [q, setQ] = createSignal('');
+    const [page, setPage] = createSignal(1);
+    const [pageSize, setPageSize] = createSignal(10);
+    const navigate = useNavigate();
+
+    const push = debounce((v: string) => setQ(v), 550);
+
+    createEffect(() => push(raw()));
+
+    createEffect(() => {
+        q();
+        setPage(1);
+    });
+
+    const vendors = createAsync(() => loadVendors(q(), pageSize(), (page() - 1) * pageSize()));
+    const [totalCount, setTotalCount] = createSignal(0);
+
+    const [sheetOpen, setSheetOpen] = createSignal(false);
+    const [editing, setEditing] = createSignal<VendorFormValues | null>(null);
+
+    createEffect(() => {
+        const result = vendors();
+        if (result) setTotalCount(result.totalCount);
+    });
+
+    createEffect(() => {
+        const totalPages = Math.max(1, Math.ceil(totalCount() / pageSize()));
+        if (page() > totalPages) setPage(totalPages);
+    });
+
+    const onSaved = () => {
+        setSheetOpen(false);
+        setEditing(null);
+        revalidate('all-vendors-with-search');
+    };
+
+    return (
+        <div class="mt-6 flex flex-col gap-8">
+            <div class="flex flex-col gap-4 md:flex-row md:items-center md:justify-between">
+                {/* Search bar */}
+                <div class="relative w-full group md:flex-1">
+                    <div class="absolute inset-y-0 left-0 flex items-center pl-4 pointer-events-none text-zinc-500 group-focus-within:text-black transition-colors duration-300">
+                        <svg
+                            xmlns="http://www.w3.org/2000/svg"
+                            fill="none"
+                            viewBox="0 0 24 24"
+                            stroke-width="2"
+                            stroke="currentColor"
+                            class="w-5 h-5"
+                        >
+                            <path
+                                stroke-linecap="round"
+                                stroke-linejoin="round"
+                                d="m21 21-5.197-5.197m0 0A7.5 7.5 0 1 0 5.196 5.196a7.5 7.5 0 0 0 10.607 10.607Z"
+                            />
+                        </svg>
+                    </div>
+                    <input
+                        value={raw()}
+                        onInput={(e) => setRaw(e.currentTarget.value)}
+                        class="w-full bg-white text-black border border-zinc-200 rounded-2xl py-3.5 pl-12 pr-12 shadow-lg shadow-black/5 focus:bg-white focus:border-secondary focus:ring-1 focus:ring-black/10 outline-none placeholder:text-zinc-500 text-sm transition-all duration-300"
+                        placeholder="Search vendors by name, phone or GSTIN..."
+                    />
+                </div>
+                <button onClick={() => setSheetOpen(true)} class="bg-secondary text-brand px-4 py-2 rounded-md md:ml-4">
+                    Add New Vendor
+                </button>
+            </div>
+
+            <div class="flex w-full flex-col gap-8">
+                <div class="bg-white border border-zinc-200 rounded-2xl overflow-hidden shadow-2xl shadow-black/5">
+                    <div class="overflow-x-auto">
+                        <table class="w-full text-left border-collapse">
+                            <thead>
+                                <tr class="border-b border-zinc-200">
+                                    <th class="py-5 pl-8 pr-4 text-xs font-semibold uppercase tracking-wider text-zinc-500">
+                                        Vendor
+                                    </th>
+                                    <th class="py-5 px-4 text-xs font-semibold uppercase tracking-wider text-zinc-500">
+                                        Phone
+                                    </th>
+                                    <th class="py-5 px-4 text-xs font-semibold uppercase tracking-wider text-zinc-500">
+                                        GSTIN
+                                    </th>
+                                    <th class="py-5 px-4 text-right text-xs font-semibold uppercase tracking-wider text-zinc-500">
+                                        Owed
+                                    </th>
+                                    <th class="py-5 pr-6 text-right text-xs font-semibold uppercase tracking-wider text-zinc-500">
+                                        Actions
+                                    </th>
+                                </tr>
+                            </thead>
+                            <tbody class="divide-y divide-zinc-200">
+                                <Suspense fallback={<TableSkeleton />}>
+                                    <Show when={(vendors()?.vendors ?? []).length > 0} fallback={<EmptyState />}>
+                                        <For each={vendors()?.vendors ?? []}>
+                                            {(vendor) => (
+                                                <tr
+                                                    class="group cursor-pointer hover:bg-zinc-50 transition-colors duration-200"
+                                                    role="link"
+                                                    tabindex={0}
+                                                    onClick={() => navigate(`/vendors/${vendor.id}`)}
+                                                    onKeyDown={(event) => {
+                                                        if (event.key === 'Enter' || event.key === ' ') {
+                                                            event.preventDefault();
+                                                            navigate(`/vendors/${vendor.id}`);
+                                                        }
+                                                    }}
+                                                >
+                                                    <td class="py-5 pl-8 pr-4 text-sm font-medium text-black">
+                                                        {vendor.name}
+                                                    </td>
+                                                    <td class="py-5 px-4 text-sm text-zinc-500">
+                                                        {vendor.phone || '--'}
+                                                    </td>
+                                                    <td class="py-5 px-4 text-sm text-zinc-500 font-mono">
+                                                        {vendor.gstin || '--'}
+                                                    </td>
+                                                    <td
+                                                        class="py-5 px-4 text-right text-sm font-semibold tabular-nums"
+                                                        classList={{
+                                                            'text-red-500': vendor.owed > 0,
+                                                            'text-zinc-500': vendor.owed <= 0,
+                                                        }}
+                                                    >
+                                                        {formatMoney(vendor.owed, { symbol: '₹' })}
+                                                    </td>
+                                                    <td class="py-5 pr-6 text-right">
+                                                        <button
+                                                            type="button"
+                                                            onClick={(e) => {
+                                                                e.stopPropagation();
+                                                                setEditing(vendor);
+                                                            }}
+                                                            class="text-xs font-semibold text-zinc-500 hover:text-zinc-900 border border-zinc-200 rounded-lg px-3 py-1.5 transition-colors"
+                                                        >
+                                                            Edit
+                                                        </button>
+                                                    </td>
+                                                </tr>
+                                            )}
+                                        </For>
+                                    </Show>
+                                </Suspense>
+                            </tbody>
+                        </table>
+                    </div>
+                </div>
+
+                <Suspense
+                    fallback={
+                        <div class="bg-white border border-zinc-200 rounded-2xl px-6 py-4 shadow-2xl shadow-black/5">
+                            <PaginationSkeleton />
+                        </div>
+                    }
+                >
+                    <div class="bg-white border border-zinc-200 rounded-2xl px-6 py-4 shadow-2xl shadow-black/5">
+                        <Pagination
+                            page={page()}
+                            pageSize={pageSize()}
+                            totalCount={totalCount()}
+                            onPageChange={setPage}
+                            onPageSizeChange={(size) => {
+                                setPageSize(size);
+                                setPage(1);
+                            }}
+                        />
+                    </div>
+                </Suspense>
+            </div>
+
+            <Sheet open={sheetOpen()} onClose={() => setSheetOpen(false)} title="New Vendor">
+                <Show when={sheetOpen()}>
+                    <VendorFormContent onSuccess={onSaved} />
+                </Show>
+            </Sheet>
+
+            <Sheet open={!!editing()} onClose={() => setEditing(null)} title="Edit Vendor">
+                <Show when={editing()} keyed>
+                    {(vendor) => <VendorFormContent vendor={vendor} onSuccess={onSaved} />}
+                </Show>
+            </Sheet>
+        </div>
+    );
+}
+
+const EmptyState = () => (
+    <tr>
+        <td colspan={5} class="py-16 text-center">
+            <p class="text-zinc-500 text-sm font-medium">No vendors found</p>
+        </td>
+    </tr>
+);
+
+const TableSkeleton = () => (
+    <For each={Array.from({ length: 6 })}>
+        {() => (
+            <tr class="animate-pulse">
+                <td class="py-5 pl-8 pr-4">
+                    <div class="h-4 w-40 bg-zinc-200 rounded"></div>
+                </td>
+                <td class="py-5 px-4">
+                    <div class="h-4 w-24 bg-zinc-200 rounded"></div>
+                </td>
+                <td class="py-5 px-4">
+                    <div class="h-4 w-32 bg-zinc-200 rounded"></div>
+                </td>
+                <td class="py-5 px-4 text-right">
+                    <div class="h-4 w-20 bg-zinc-200 rounded inline-block"></div>
+                </td>
+                <td class="py-5 pr-6 text-right">
+                    <div class="h-4 w-12 bg-zinc-200 rounded inline-block"></div>
+                </td>
+            </tr>
+        )}
+    </For>
+);